@@ -1,4 +1,11 @@
 import { defineConfig, devices } from '@playwright/test';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// The server keeps its state, projects and transcripts under $HOME. Tests get
+// a HOME of their own, emptied before every run, so the Welcome flow always
+// starts with no projects and a developer's own projects stay out of it.
+const E2E_HOME = join(tmpdir(), 'constellation-command-e2e');
 
 export default defineConfig({
   testDir: './tests',
@@ -29,7 +36,8 @@ export default defineConfig({
   ],
 
   webServer: {
-    command: 'CC_PASSWORD=test-password-e2e npx tsx server/index.ts',
+    // Agents play scripted scenarios, so launches need no claude binary or network
+    command: `rm -rf ${E2E_HOME} && HOME=${E2E_HOME} CC_PASSWORD=test-password-e2e CC_SIMULATE=1 npx tsx server/index.ts`,
     port: 3000,
     reuseExistingServer: !process.env.CI,
     timeout: 15_000,
@@ -0,0 +1,83 @@
+import type { AgentDriverId, AgentStatus, LaunchProfile } from './types.js';
+
+// ── Driver contract ──────────────────────────────────────────────────────
+// Everything that depends on which CLI an agent runs: how it is started, how
+// the task reaches it, what its output looks like and how its exit is read.
+// SessionManager and OutputParser stay generic and ask the agent's driver.
+// The drivers themselves are registered in drivers/index.ts.
+
+/**
+ * A line pattern that sets the agent's status or emits a parsed event (file
+ * touched, build result…). A driver's rules are the default rule set; user
+ * rule files (see ParserRules) add to them in the same shape.
+ */
+export interface OutputRule {
+  id: string;                          // Unique within a rule set, e.g. 'claude-code:idle#0'
+  regex: RegExp;
+  status?: AgentStatus;                // Exactly one of status and event
+  event?: string;
+  priority: number;                    // Higher is tried first; the first match wins
+  path?: number | string;              // Capture group (index or name) for the event's path
+  message?: number | string;           // Capture group for the event's message
+}
+
+// Priorities of the built-in rules: the end of a turn outranks any activity
+export const IDLE_PRIORITY = 200;
+export const ACTIVITY_PRIORITY = 100;
+export const EVENT_PRIORITY = 100;
+
+/**
+ * 'typed': the CLI draws an input prompt and the task is typed into it. The
+ * parser watches for `ready` before anything is sent and for `accepted` once
+ * Enter has gone in; input the CLI didn't take is sent again up to `retries`
+ * times before the submission fails. Both patterns are tried against
+ * ANSI-stripped lines with the box-drawing characters removed.
+ * 'argument': the task is already on the command line (see `spawnCommand`).
+ */
+export type TaskSubmission = TypedSubmission | { mode: 'argument' };
+
+export interface TypedSubmission {
+  mode: 'typed';
+  ready: RegExp;                       // The input prompt has rendered
+  accepted: RegExp;                    // The CLI has started work on the input
+  bracketedPaste: boolean;             // Paste the text in one piece so its newlines don't submit it
+  readyTimeoutMs: number;              // No prompt by then → type anyway and rely on `accepted`
+  acceptTimeoutMs: number;             // No sign of work by then → retry
+  retries: number;
+}
+
+export interface SpawnCommand {
+  command: string;
+  args: string[];
+}
+
+export interface SpawnOptions {
+  task: string;
+  sessionId: string;
+  resume: boolean;
+}
+
+export interface AgentDriver {
+  id: AgentDriverId;
+  label: string;                       // Shown in logs and the profile editor
+  /** Executable and full argument list for a launch or resume. */
+  spawnCommand(profile: LaunchProfile, options: SpawnOptions): SpawnCommand;
+  submission: TaskSubmission;
+  canResume: boolean;                  // Whether `resume` reopens the conversation
+  supportsStreamJson: boolean;         // Whether the 'stream-json' output mode applies
+  rules: OutputRule[];                 // Built-in status and event rules
+  idleTimeoutMs: number | null;        // Quiet this long while active → waiting; null never
+  permissionPrompts: boolean;          // Watch for Claude Code's tool-permission box
+  usageSummaries: boolean;             // Watch for Claude Code's cost and token summary
+  /** Status for an agent whose process exited on its own. */
+  classifyExit(exitCode: number): 'completed' | 'error';
+}
+
+/** Number a driver's pattern list as rules `<prefix>#0`, `<prefix>#1`… of one priority. */
+export function toRules(
+  prefix: string,
+  priority: number,
+  patterns: Array<Omit<OutputRule, 'id' | 'priority'>>,
+): OutputRule[] {
+  return patterns.map((pattern, i) => ({ id: `${prefix}#${i}`, priority, ...pattern }));
+}
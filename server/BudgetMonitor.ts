@@ -0,0 +1,112 @@
+import { EventEmitter } from 'node:events';
+import type { Agent, AgentBudget, BudgetKind } from './types.js';
+
+// ── Validation ───────────────────────────────────────────────────────────
+
+const MAX_BUDGET_MINUTES = 7 * 24 * 60;
+
+/**
+ * Check a client-supplied budget. Empty, zero or missing limits mean
+ * "unlimited" and are dropped; a budget with no limits left is `undefined`.
+ */
+export function validateBudget(
+  input: unknown,
+): { valid: true; budget: AgentBudget | undefined } | { valid: false; reason: string } {
+  if (input === undefined || input === null) return { valid: true, budget: undefined };
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, reason: 'Budget must be an object' };
+  }
+
+  const budget: AgentBudget = {};
+  const fields: Array<[keyof AgentBudget, string]> = [
+    ['maxRuntimeMinutes', 'Maximum runtime'],
+    ['maxIdleMinutes', 'Maximum idle time'],
+  ];
+  for (const [field, label] of fields) {
+    const raw = (input as Record<string, unknown>)[field];
+    if (raw === undefined || raw === null || raw === 0) continue;
+    if (typeof raw !== 'number' || !Number.isFinite(raw) || raw < 1 || raw > MAX_BUDGET_MINUTES) {
+      return { valid: false, reason: `${label} must be between 1 and ${MAX_BUDGET_MINUTES} minutes` };
+    }
+    budget[field] = Math.round(raw);
+  }
+
+  return { valid: true, budget: Object.keys(budget).length > 0 ? budget : undefined };
+}
+
+// ── BudgetMonitor ────────────────────────────────────────────────────────
+
+const CHECK_INTERVAL_MS = 5_000;
+const WARNING_FRACTION = 0.8;
+
+// Not running, so no clock is ticking
+const IDLE_STATUSES = new Set<Agent['status']>(['queued', 'completed', 'error', 'interrupted']);
+
+/**
+ * Watches running agents against their budgets. Runtime counts from the
+ * start of the current session; idle time from when the agent last entered
+ * 'waiting'. Emits `budget:warning` once a limit is 80% used and
+ * `budget:exceeded` when it runs out — ending the session is left to the
+ * caller.
+ *
+ * The clocks are the agents' own `runStartedAt` and `waitingSince`, so
+ * there is no timing state here beyond which limits have already fired.
+ */
+export class BudgetMonitor extends EventEmitter {
+  private timer: NodeJS.Timeout | null = null;
+  // `${agentId}:${kind}:${clock start}` — each limit warns and fires once per clock
+  private warned: Set<string> = new Set();
+  private exceeded: Set<string> = new Set();
+
+  constructor(private readonly agents: Record<string, Agent>) {
+    super();
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.check(), CHECK_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  check(now = Date.now()): void {
+    for (const agent of Object.values(this.agents)) {
+      if (!agent.budget || !agent.runStartedAt || IDLE_STATUSES.has(agent.status)) continue;
+      this.checkLimit(agent, 'runtime', agent.budget.maxRuntimeMinutes, agent.runStartedAt, now);
+      if (agent.status === 'waiting' && agent.waitingSince) {
+        this.checkLimit(agent, 'idle', agent.budget.maxIdleMinutes, agent.waitingSince, now);
+      }
+    }
+  }
+
+  /** Forget a finished agent's warnings. */
+  release(agentId: string): void {
+    for (const set of [this.warned, this.exceeded]) {
+      for (const key of set) {
+        if (key.startsWith(`${agentId}:`)) set.delete(key);
+      }
+    }
+  }
+
+  // ── internal ─────────────────────────────────────────────────────────
+
+  private checkLimit(agent: Agent, kind: BudgetKind, limitMinutes: number | undefined, since: number, now: number): void {
+    if (!limitMinutes) return;
+    const key = `${agent.id}:${kind}:${since}`;
+    if (this.exceeded.has(key)) return;
+
+    const limitMs = limitMinutes * 60_000;
+    const used = now - since;
+    if (used >= limitMs) {
+      this.exceeded.add(key);
+      this.emit('budget:exceeded', { agentId: agent.id, kind, limitMinutes });
+    } else if (used >= limitMs * WARNING_FRACTION && !this.warned.has(key)) {
+      this.warned.add(key);
+      this.emit('budget:warning', { agentId: agent.id, kind, limitMinutes, remainingMs: limitMs - used });
+    }
+  }
+}
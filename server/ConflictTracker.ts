@@ -0,0 +1,110 @@
+import { EventEmitter } from 'node:events';
+import { randomUUID } from 'node:crypto';
+import { isAbsolute, relative, resolve, sep } from 'node:path';
+import type { Agent, FileConflict, Project } from './types.js';
+
+// ── ConflictTracker ──────────────────────────────────────────────────────
+
+interface FileTouch {
+  agentId: string;
+  timestamp: number;
+}
+
+// Agents that are not (or no longer) running can't collide with anyone
+const IDLE_STATUSES = new Set<Agent['status']>(['queued', 'completed', 'error', 'interrupted']);
+
+/**
+ * Keeps a per-file record of which agent wrote what and when, and emits
+ * `conflict:detected` when an agent writes a file another live agent has
+ * already touched. Each file and pair of agents is reported once.
+ *
+ * Writes come from two places. The OutputParser names the agent but only
+ * sees what the CLI prints; the FileWatcher sees every change on disk but
+ * not who made it, so a change is credited only when exactly one live agent
+ * works in that directory.
+ *
+ * Who touched what is kept in memory only. After a restart no agent is
+ * live any more, so there is nothing left for a write to conflict with.
+ */
+export class ConflictTracker extends EventEmitter {
+  private touches: Map<string, Map<string, FileTouch>> = new Map(); // absolute path → agent id → last write
+  private conflicts: Map<string, FileConflict> = new Map();
+
+  constructor(
+    private readonly agents: Record<string, Agent>,
+    private readonly projects: Record<string, Project>,
+  ) {
+    super();
+  }
+
+  /** Conflicts between agents that are still running. */
+  active(): FileConflict[] {
+    return [...this.conflicts.values()];
+  }
+
+  /** A write the agent's own output announced. Relative paths are taken from its cwd. */
+  recordParsed(agentId: string, filePath: string, timestamp: number): void {
+    const agent = this.agents[agentId];
+    if (!agent || !filePath) return;
+    this.record(agent, resolve(agent.cwd, filePath), timestamp);
+  }
+
+  /** A change the FileWatcher saw in a project directory. */
+  recordFsChange(projectId: string, filePath: string, timestamp: number): void {
+    const candidates = Object.values(this.agents).filter((agent) =>
+      agent.projectId === projectId && this.isLive(agent) && isInside(agent.cwd, filePath));
+    if (candidates.length === 1) {
+      this.record(candidates[0], filePath, timestamp);
+    }
+  }
+
+  /** Forget a finished or removed agent's writes and the conflicts it was part of. */
+  release(agentId: string): void {
+    for (const [path, touched] of this.touches) {
+      touched.delete(agentId);
+      if (touched.size === 0) this.touches.delete(path);
+    }
+    for (const [key, conflict] of this.conflicts) {
+      if (conflict.agentIds.includes(agentId)) this.conflicts.delete(key);
+    }
+  }
+
+  // ── internal ─────────────────────────────────────────────────────────
+
+  private isLive(agent: Agent | undefined): agent is Agent {
+    return !!agent && !IDLE_STATUSES.has(agent.status);
+  }
+
+  private record(agent: Agent, filePath: string, timestamp: number): void {
+    let touched = this.touches.get(filePath);
+    if (!touched) {
+      touched = new Map();
+      this.touches.set(filePath, touched);
+    }
+
+    for (const other of touched.values()) {
+      if (other.agentId === agent.id || !this.isLive(this.agents[other.agentId])) continue;
+
+      const key = [filePath, ...[other.agentId, agent.id].sort()].join('\0');
+      if (this.conflicts.has(key)) continue;
+
+      const project = this.projects[agent.projectId];
+      const conflict: FileConflict = {
+        id: randomUUID(),
+        projectId: agent.projectId,
+        path: project && isInside(project.cwd, filePath) ? relative(project.cwd, filePath) : filePath,
+        agentIds: [other.agentId, agent.id],
+        timestamp,
+      };
+      this.conflicts.set(key, conflict);
+      this.emit('conflict:detected', conflict);
+    }
+
+    touched.set(agent.id, { agentId: agent.id, timestamp });
+  }
+}
+
+function isInside(dir: string, filePath: string): boolean {
+  const rel = relative(dir, filePath);
+  return rel !== '' && !rel.startsWith(`..${sep}`) && rel !== '..' && !isAbsolute(rel);
+}
@@ -1,8 +1,11 @@
 import { EventEmitter } from 'node:events';
+import { relative } from 'node:path';
 import { watch, type FSWatcher } from 'chokidar';
 
 // ── FileWatcher ──────────────────────────────────────────────────────────
 
+const IGNORED_SEGMENT = /(?:^|[\\/])(?:node_modules|\.git|dist)(?:[\\/]|$)/;
+
 export class FileWatcher extends EventEmitter {
   private watchers: Map<string, FSWatcher> = new Map();
 
@@ -18,11 +21,8 @@ export class FileWatcher extends EventEmitter {
     const watcher = watch(cwd, {
       persistent: true,
       ignoreInitial: true,
-      ignored: [
-        '**/node_modules/**',
-        '**/.git/**',
-        '**/dist/**',
-      ],
+      // chokidar no longer expands globs, so match path segments instead
+      ignored: (filePath: string) => IGNORED_SEGMENT.test(relative(cwd, filePath)),
       depth: 10,
     });
 
@@ -0,0 +1,150 @@
+import { EventEmitter } from 'node:events';
+import { randomUUID } from 'node:crypto';
+import type { Agent, FleetBroadcast, FleetDelivery } from './types.js';
+
+// ── FleetBroadcaster ─────────────────────────────────────────────────────
+
+// Broadcasts kept for the fleet command bar, newest last. Ones still
+// holding orders for an agent, or waiting to hear whether an agent took
+// them, are kept beyond that until they're settled.
+const MAX_BROADCASTS = 20;
+
+/**
+ * Sends one set of orders to several agents. An agent sitting at its prompt
+ * ('waiting') with nothing still being typed into it gets them straight
+ * away; a busy one, one blocked on a permission prompt or one whose task
+ * hasn't gone in yet, the next time it goes idle. An agent takes one
+ * broadcast per idle spell: the next waits until it has worked on the
+ * last one and come back to its prompt. Emits `fleet:deliver` when
+ * an agent's moment has come — sending the prompt is left to the caller,
+ * which reports back with `delivered` — and `fleet:update` whenever a
+ * delivery changes.
+ *
+ * Broadcasts live in memory only. Agents restored after a restart have no
+ * session, so there is no one left to deliver held orders to.
+ */
+export class FleetBroadcaster extends EventEmitter {
+  private broadcasts: FleetBroadcast[] = [];
+  // Agents handed a broadcast that haven't been idle since
+  private busy = new Set<string>();
+
+  constructor(
+    private readonly agents: Record<string, Agent>,
+    private readonly isTakingInput: (agentId: string) => boolean,
+  ) {
+    super();
+  }
+
+  /** Recent broadcasts, oldest first. */
+  recent(): FleetBroadcast[] {
+    return this.broadcasts;
+  }
+
+  /** Broadcast `text` to `agentIds`, delivering now to those already waiting. */
+  broadcast(projectId: string, text: string, agentIds: string[], wholeProject: boolean): FleetBroadcast {
+    const now = Date.now();
+    const broadcast: FleetBroadcast = {
+      id: randomUUID(),
+      projectId,
+      text,
+      wholeProject,
+      createdAt: now,
+      deliveries: agentIds.map((agentId) => ({ agentId, status: 'pending', updatedAt: now })),
+    };
+    this.broadcasts = [...this.broadcasts, broadcast];
+    this.trim();
+
+    for (const delivery of broadcast.deliveries) {
+      if (this.isIdle(delivery.agentId) && !this.busy.has(delivery.agentId)) {
+        this.deliverNext(delivery.agentId);
+      }
+    }
+    this.emit('fleet:update', this.broadcasts);
+    return broadcast;
+  }
+
+  /** The agent went idle: hand it the oldest broadcast still waiting for it. */
+  agentIdle(agentId: string): void {
+    // Back at the prompt before its own input has gone in
+    if (this.isTakingInput(agentId)) return;
+    this.busy.delete(agentId);
+    this.deliverNext(agentId);
+  }
+
+  /** The caller sent the orders as the agent's `turn`. */
+  delivered(broadcastId: string, agentId: string, turn: number): void {
+    const delivery = this.find(this.broadcasts.find((b) => b.id === broadcastId), agentId);
+    if (delivery?.status !== 'pending') return;
+    this.settle(delivery, 'delivered', { turn });
+  }
+
+  /** The CLI never took the agent's `turn`; if that turn was a broadcast, it failed. */
+  submissionFailed(agentId: string, turn: number, reason: string): void {
+    for (const broadcast of this.broadcasts) {
+      const delivery = this.find(broadcast, agentId);
+      if (delivery?.status === 'delivered' && delivery.turn === turn) {
+        this.settle(delivery, 'failed', { detail: reason });
+        // The agent never started on it, so it won't come back to idle either
+        this.busy.delete(agentId);
+        if (this.isIdle(agentId)) this.deliverNext(agentId);
+        return;
+      }
+    }
+  }
+
+  /** The agent finished or was removed: drop whatever it hasn't received yet. */
+  release(agentId: string): void {
+    this.busy.delete(agentId);
+    let dropped = false;
+    for (const broadcast of this.broadcasts) {
+      const delivery = this.find(broadcast, agentId);
+      if (delivery?.status === 'pending') {
+        delivery.status = 'dropped';
+        delivery.detail = 'The agent finished before it was idle';
+        delivery.updatedAt = Date.now();
+        dropped = true;
+      }
+    }
+    if (dropped) {
+      this.trim();
+      this.emit('fleet:update', this.broadcasts);
+    }
+  }
+
+  // ── internal ─────────────────────────────────────────────────────────
+
+  private isIdle(agentId: string): boolean {
+    return this.agents[agentId]?.status === 'waiting' && !this.isTakingInput(agentId);
+  }
+
+  /** Drop the oldest broadcasts over the cap that nothing can change any more. */
+  private trim(): void {
+    let excess = this.broadcasts.length - MAX_BROADCASTS;
+    if (excess <= 0) return;
+    const unsettled = (d: FleetDelivery) => d.status === 'pending' || (d.status === 'delivered' && this.busy.has(d.agentId));
+    this.broadcasts = this.broadcasts.filter((b) => {
+      if (excess > 0 && !b.deliveries.some(unsettled)) {
+        excess--;
+        return false;
+      }
+      return true;
+    });
+  }
+
+  private deliverNext(agentId: string): void {
+    const next = this.broadcasts.find((b) => this.find(b, agentId)?.status === 'pending');
+    if (!next) return;
+    this.busy.add(agentId);
+    this.emit('fleet:deliver', { broadcastId: next.id, agentId, text: next.text });
+  }
+
+  private find(broadcast: FleetBroadcast | undefined, agentId: string): FleetDelivery | undefined {
+    return broadcast?.deliveries.find((d) => d.agentId === agentId);
+  }
+
+  private settle(delivery: FleetDelivery, status: FleetDelivery['status'], details: Pick<FleetDelivery, 'turn' | 'detail'>): void {
+    Object.assign(delivery, { status, ...details, updatedAt: Date.now() });
+    this.trim();
+    this.emit('fleet:update', this.broadcasts);
+  }
+}
@@ -0,0 +1,108 @@
+import type { ConcurrencyLimits, QueueEntry } from './types.js';
+
+// ── Limits ───────────────────────────────────────────────────────────────
+
+const DEFAULT_MAX_AGENTS = 4;
+const DEFAULT_MAX_AGENTS_PER_PROJECT = 2;
+
+function readLimit(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    console.warn(`[LaunchQueue] Ignoring ${name}="${raw}" — expected a positive integer, using ${fallback}`);
+    return fallback;
+  }
+  return value;
+}
+
+/**
+ * Caps on concurrently running agents, from CC_MAX_AGENTS and
+ * CC_MAX_AGENTS_PER_PROJECT. The per-project cap never exceeds the global one.
+ */
+export function readConcurrencyLimits(): ConcurrencyLimits {
+  const maxAgents = readLimit('CC_MAX_AGENTS', DEFAULT_MAX_AGENTS);
+  const maxAgentsPerProject = Math.min(
+    readLimit('CC_MAX_AGENTS_PER_PROJECT', DEFAULT_MAX_AGENTS_PER_PROJECT),
+    maxAgents,
+  );
+  return { maxAgents, maxAgentsPerProject };
+}
+
+// ── LaunchQueue ──────────────────────────────────────────────────────────
+
+/**
+ * FIFO of agents waiting for a free slot. The entries array belongs to the
+ * StateStore and is mutated in place, so call `stateStore.save()` after any
+ * change. Starting the agents is left to the caller — `takeReady()` only
+ * decides which ones may start.
+ */
+export class LaunchQueue {
+  constructor(
+    private readonly entries: QueueEntry[],
+    readonly limits: ConcurrencyLimits,
+  ) {}
+
+  list(): QueueEntry[] {
+    return this.entries;
+  }
+
+  has(agentId: string): boolean {
+    return this.entries.some((e) => e.agentId === agentId);
+  }
+
+  /** 1-based position in the queue, or 0 if the agent isn't queued. */
+  position(agentId: string): number {
+    return this.entries.findIndex((e) => e.agentId === agentId) + 1;
+  }
+
+  /** Add an agent at the back, or at the front to take the next free slot. */
+  enqueue(entry: QueueEntry, position: 'back' | 'front' = 'back'): void {
+    if (this.has(entry.agentId)) return;
+    if (position === 'front') {
+      this.entries.unshift(entry);
+    } else {
+      this.entries.push(entry);
+    }
+  }
+
+  /** Take an agent out of the queue. Returns its entry, if it was queued. */
+  remove(agentId: string): QueueEntry | undefined {
+    const index = this.entries.findIndex((e) => e.agentId === agentId);
+    if (index < 0) return undefined;
+    return this.entries.splice(index, 1)[0];
+  }
+
+  /** Move a queued agent to `index` (clamped to the queue bounds). */
+  move(agentId: string, index: number): boolean {
+    const entry = this.remove(agentId);
+    if (!entry) return false;
+    const target = Math.max(0, Math.min(Math.trunc(index), this.entries.length));
+    this.entries.splice(target, 0, entry);
+    return true;
+  }
+
+  /**
+   * Remove and return the entries that can start now, in queue order.
+   * An entry whose project is at its cap is skipped without blocking the
+   * entries behind it; the global cap stops the scan.
+   */
+  takeReady(running: { total: number; byProject: Record<string, number> }): QueueEntry[] {
+    let total = running.total;
+    const byProject = { ...running.byProject };
+    const ready: QueueEntry[] = [];
+
+    for (const entry of [...this.entries]) {
+      if (total >= this.limits.maxAgents) break;
+      const projectCount = byProject[entry.projectId] ?? 0;
+      if (projectCount >= this.limits.maxAgentsPerProject) continue;
+
+      this.remove(entry.agentId);
+      ready.push(entry);
+      total++;
+      byProject[entry.projectId] = projectCount + 1;
+    }
+
+    return ready;
+  }
+}
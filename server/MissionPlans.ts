@@ -0,0 +1,293 @@
+import { randomUUID } from 'node:crypto';
+import type { Agent, PlanningTask, Project } from './types.js';
+
+// ── Dependency graph ─────────────────────────────────────────────────────
+
+export type TaskLaunchState = 'done' | 'launched' | 'ready' | 'waiting' | 'held';
+
+export interface TaskLaunchInfo {
+  state: TaskLaunchState;
+  blockers: PlanningTask[]; // Prerequisites keeping the task from launching
+}
+
+const FAILED_STATUSES = new Set<Agent['status']>(['error', 'interrupted']);
+
+/** True when `taskId` is already reachable from `prerequisiteId`. */
+export function wouldCreateCycle(tasks: PlanningTask[], taskId: string, prerequisiteId: string): boolean {
+  if (taskId === prerequisiteId) return true;
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const seen = new Set<string>();
+  const stack = [prerequisiteId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === taskId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(byId.get(id)?.dependsOn ?? []));
+  }
+  return false;
+}
+
+/**
+ * Launch state of every task in a plan. A prerequisite is done once it is
+ * checked off or its agent completed; one whose agent errored or was
+ * interrupted holds every task after it. Mirrors src/utils/taskGraph.ts.
+ */
+export function getTaskLaunchStates(
+  tasks: PlanningTask[],
+  agents: Record<string, Agent>,
+): Record<string, TaskLaunchInfo> {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const result: Record<string, TaskLaunchInfo> = {};
+
+  const failed = new Map<string, boolean>();
+  const isFailed = (task: PlanningTask, visiting: Set<string>): boolean => {
+    const cached = failed.get(task.id);
+    if (cached !== undefined) return cached;
+    if (visiting.has(task.id)) return false;
+    visiting.add(task.id);
+    const agent = task.agentId ? agents[task.agentId] : undefined;
+    const value = !task.completed && (
+      (!!agent && FAILED_STATUSES.has(agent.status)) ||
+      (!agent && (task.dependsOn ?? []).some((id) => {
+        const dep = byId.get(id);
+        return !!dep && isFailed(dep, visiting);
+      }))
+    );
+    failed.set(task.id, value);
+    return value;
+  };
+
+  const isDone = (task: PlanningTask): boolean =>
+    task.completed || (!!task.agentId && agents[task.agentId]?.status === 'completed');
+
+  for (const task of tasks) {
+    if (isDone(task)) {
+      result[task.id] = { state: 'done', blockers: [] };
+      continue;
+    }
+    if (task.agentId && agents[task.agentId]) {
+      result[task.id] = { state: 'launched', blockers: [] };
+      continue;
+    }
+
+    const prerequisites = (task.dependsOn ?? [])
+      .map((id) => byId.get(id))
+      .filter((t): t is PlanningTask => !!t);
+    const failedPrereqs = prerequisites.filter((t) => isFailed(t, new Set()));
+    if (failedPrereqs.length > 0) {
+      result[task.id] = { state: 'held', blockers: failedPrereqs };
+      continue;
+    }
+    const outstanding = prerequisites.filter((t) => !isDone(t));
+    result[task.id] = outstanding.length > 0
+      ? { state: 'waiting', blockers: outstanding }
+      : { state: 'ready', blockers: [] };
+  }
+
+  return result;
+}
+
+// ── Prompt ───────────────────────────────────────────────────────────────
+
+/**
+ * Prompt for a plan task: project context, the whole plan with finished
+ * tasks marked, the prerequisites it builds on, and the task itself.
+ */
+export function buildTaskPrompt(
+  project: Project,
+  tasks: PlanningTask[],
+  task: PlanningTask,
+  agents: Record<string, Agent>,
+): string {
+  const states = getTaskLaunchStates(tasks, agents);
+  const parts: string[] = [`Project: ${project.name}`];
+  if (project.description) {
+    parts.push(`Description: ${project.description}`);
+  }
+  if (tasks.length > 0) {
+    const taskList = tasks
+      .map((t, i) => `  ${i + 1}. ${states[t.id]?.state === 'done' ? '[DONE] ' : ''}${t.text}`)
+      .join('\n');
+    parts.push(`Mission Plan:\n${taskList}`);
+  }
+  const prerequisites = (task.dependsOn ?? [])
+    .map((id) => tasks.findIndex((t) => t.id === id))
+    .filter((i) => i >= 0);
+  if (prerequisites.length > 0) {
+    parts.push(`Builds on the completed work of: ${prerequisites.map((i) => `${i + 1}. ${tasks[i].text}`).join('; ')}`);
+  }
+  parts.push(`\nYour task: ${task.text}`);
+  return parts.join('\n');
+}
+
+// ── MissionPlans ─────────────────────────────────────────────────────────
+
+export type PlanChange = { valid: true } | { valid: false; reason: string };
+
+/**
+ * Per-project task lists. The plans record belongs to the StateStore and is
+ * mutated in place, so call `stateStore.save()` and broadcast the project's
+ * plan after any change. Launching is left to the caller.
+ */
+export class MissionPlans {
+  constructor(private readonly plans: Record<string, PlanningTask[]>) {}
+
+  all(): Record<string, PlanningTask[]> {
+    return this.plans;
+  }
+
+  get(projectId: string): PlanningTask[] {
+    return this.plans[projectId] ?? [];
+  }
+
+  find(projectId: string, taskId: string): PlanningTask | undefined {
+    return this.get(projectId).find((t) => t.id === taskId);
+  }
+
+  /** Project id and task an agent was launched for, if any. */
+  findByAgent(agentId: string): { projectId: string; task: PlanningTask } | undefined {
+    for (const [projectId, tasks] of Object.entries(this.plans)) {
+      const task = tasks.find((t) => t.agentId === agentId);
+      if (task) return { projectId, task };
+    }
+    return undefined;
+  }
+
+  add(projectId: string, text: string): PlanningTask {
+    const task: PlanningTask = { id: randomUUID(), text, completed: false };
+    (this.plans[projectId] ??= []).push(task);
+    return task;
+  }
+
+  /** Remove a task and drop it from other tasks' prerequisites. */
+  remove(projectId: string, taskId: string): boolean {
+    const tasks = this.get(projectId);
+    const index = tasks.findIndex((t) => t.id === taskId);
+    if (index < 0) return false;
+    tasks.splice(index, 1);
+    for (const t of tasks) {
+      if (t.dependsOn?.includes(taskId)) {
+        t.dependsOn = t.dependsOn.filter((id) => id !== taskId);
+      }
+    }
+    return true;
+  }
+
+  toggle(projectId: string, taskId: string): PlanningTask | undefined {
+    const task = this.find(projectId, taskId);
+    if (task) task.completed = !task.completed;
+    return task;
+  }
+
+  /** Move a task to `index` (clamped to the plan bounds). */
+  move(projectId: string, taskId: string, index: number): boolean {
+    const tasks = this.get(projectId);
+    const from = tasks.findIndex((t) => t.id === taskId);
+    if (from < 0) return false;
+    const [task] = tasks.splice(from, 1);
+    const target = Math.max(0, Math.min(Math.trunc(index), tasks.length));
+    tasks.splice(target, 0, task);
+    return true;
+  }
+
+  /** Link a task to an agent (or unlink it with `undefined`). Clears any schedule. */
+  assign(projectId: string, taskId: string, agentId: string | undefined): boolean {
+    const task = this.find(projectId, taskId);
+    if (!task) return false;
+    if (agentId) {
+      task.agentId = agentId;
+    } else {
+      delete task.agentId;
+    }
+    delete task.scheduled;
+    delete task.profileId;
+    return true;
+  }
+
+  /**
+   * Unlink tasks from an agent that no longer exists, checking them off if
+   * `markCompleted`. Returns the affected project ids.
+   */
+  release(agentId: string, markCompleted = false): string[] {
+    const changed: string[] = [];
+    for (const [projectId, tasks] of Object.entries(this.plans)) {
+      for (const task of tasks) {
+        if (task.agentId === agentId) {
+          delete task.agentId;
+          if (markCompleted) task.completed = true;
+          changed.push(projectId);
+        }
+      }
+    }
+    return changed;
+  }
+
+  /** Add or remove a prerequisite. Self-references and cycles are rejected. */
+  setDependency(projectId: string, taskId: string, prerequisiteId: string, enabled: boolean): PlanChange {
+    const tasks = this.get(projectId);
+    const task = tasks.find((t) => t.id === taskId);
+    if (!task || !tasks.some((t) => t.id === prerequisiteId)) {
+      return { valid: false, reason: 'Task not found in this plan' };
+    }
+
+    if (!enabled) {
+      task.dependsOn = (task.dependsOn ?? []).filter((id) => id !== prerequisiteId);
+      return { valid: true };
+    }
+    if (task.dependsOn?.includes(prerequisiteId)) return { valid: true };
+    if (wouldCreateCycle(tasks, taskId, prerequisiteId)) {
+      const number = (id: string) => tasks.findIndex((t) => t.id === id) + 1;
+      return {
+        valid: false,
+        reason: `Task ${number(prerequisiteId)} already depends on task ${number(taskId)}`,
+      };
+    }
+    task.dependsOn = [...(task.dependsOn ?? []), prerequisiteId];
+    return { valid: true };
+  }
+
+  /** Mark unlaunched tasks for (or withdraw them from) automatic launch. */
+  schedule(projectId: string, taskIds: string[], scheduled: boolean, profileId?: string): number {
+    let count = 0;
+    for (const task of this.get(projectId)) {
+      if (!taskIds.includes(task.id)) continue;
+      if (scheduled && !task.agentId && !task.completed) {
+        task.scheduled = true;
+        if (profileId) {
+          task.profileId = profileId;
+        } else {
+          delete task.profileId;
+        }
+        count++;
+      } else if (!scheduled && task.scheduled) {
+        delete task.scheduled;
+        delete task.profileId;
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Adopt a plan kept by an older client, unless the project already has
+   * one on the server. Unknown prerequisites and agents are dropped.
+   */
+  import(projectId: string, tasks: PlanningTask[], agents: Record<string, Agent>): boolean {
+    if (this.get(projectId).length > 0) return false;
+    const valid = tasks.filter((t) => t && typeof t.id === 'string' && typeof t.text === 'string');
+    if (valid.length === 0) return false;
+
+    const ids = new Set(valid.map((t) => t.id));
+    this.plans[projectId] = valid.map((t) => ({
+      id: t.id,
+      text: t.text,
+      completed: !!t.completed,
+      ...(t.agentId && agents[t.agentId] && { agentId: t.agentId }),
+      ...(t.dependsOn?.length && { dependsOn: t.dependsOn.filter((id) => ids.has(id) && id !== t.id) }),
+      ...(t.scheduled && !t.agentId && { scheduled: true }),
+      ...(t.scheduled && !t.agentId && t.profileId && { profileId: t.profileId }),
+    }));
+    return true;
+  }
+}
@@ -1,5 +1,9 @@
 import { EventEmitter } from 'node:events';
-import type { AgentStatus } from './types.js';
+import { randomUUID } from 'node:crypto';
+import { getDriver } from './drivers/index.js';
+import type { AgentDriver, OutputRule } from './AgentDriver.js';
+import type { ParserRules, RuleSet } from './ParserRules.js';
+import type { AgentStatus, ParserTrace, PermissionDecision, PermissionRequest } from './types.js';
 
 // ── Parsed event types emitted by OutputParser ───────────────────────────
 
@@ -11,116 +15,133 @@ export interface ParsedEvent {
   message?: string;
 }
 
-// ── Regex patterns for detecting Claude Code structured output ───────────
+/** Token and cost figures the CLI printed during one turn, summed. */
+export interface ParsedUsage {
+  agentId: string;
+  timestamp: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
 
-const PATTERNS: Array<{
-  event: string;
-  regex: RegExp;
-  extractPath?: boolean;
-  extractMessage?: boolean;
-}> = [
-  // File creation
-  { event: 'file:created', regex: /\b(?:Created|Writing|Creating)\b.*?((?:\/[\w.\-]+)+|(?:[\w.\-]+\/[\w.\-/]+))/, extractPath: true },
-  // File edit
-  { event: 'file:edited', regex: /\b(?:Edited|Updated|Modified)\b.*?((?:\/[\w.\-]+)+|(?:[\w.\-]+\/[\w.\-/]+))/, extractPath: true },
-  // Build started
-  { event: 'build:started', regex: /\b(?:npm run|Building|Compiling)\b/ },
-  // Build success
-  { event: 'build:succeeded', regex: /\b(?:Build succeeded|compiled successfully|Successfully compiled)\b/i },
-  // Build error
-  { event: 'build:error', regex: /(?:^|\s)(?:Error:|error:|failed|FAIL)\b(.*)/, extractMessage: true },
-  // Task complete
-  { event: 'task:completed', regex: /\b(?:Task completed|Done!|Finished|All done|completed successfully)\b/i },
+/**
+ * The point a typed submission is waiting for: the CLI's input prompt to
+ * render, or the CLI to start on what was typed (see TypedSubmission).
+ * Reported as an `input:ready` / `input:accepted` event.
+ */
+export type InputSignal = 'ready' | 'accepted';
+
+export interface ParsedInputSignal {
+  agentId: string;
+  timestamp: number;
+  line: string;                        // The line that matched
+}
+
+/** Why a status changed, reported with the change as a `trace` event. */
+type TransitionCause =
+  | { trigger: 'pattern'; ruleId: string; line: string }
+  | { trigger: 'timer'; timer: 'idle' | 'decay' }
+  | { trigger: 'input' };
+
+// ── Tool-permission prompts ──────────────────────────────────────────────
+// Without --dangerously-skip-permissions the CLI stops before a tool runs and
+// draws a box like:
+//
+//   │ Bash command                                  │
+//   │   npm install lodash                          │
+//   │ Do you want to proceed?                       │
+//   │ ❯ 1. Yes                                      │
+//   │   2. Yes, and don't ask again for npm install │
+//   │   3. No, and tell Claude what to do (esc)     │
+//
+// The question starts a capture, the numbered options are collected, and the
+// "No" option closes it. Tool and detail come from the lines above the question.
+
+const PERMISSION_QUESTION = /^Do you want to (?:proceed|make this edit to|create|allow|write|run|fetch|use)\b.*\?$/i;
+const PERMISSION_OPTION = /^(?:[❯>]\s*)?(\d)\.\s+(.+)$/;
+const BOX_CHARS = /[│┃╭╮╰╯─━┌┐└┘├┤]/g;
+
+// Header line of the prompt box → tool name
+const PERMISSION_HEADERS: Array<{ regex: RegExp; tool: string }> = [
+  { regex: /^Bash command$/i, tool: 'Bash' },
+  { regex: /^Edit file$/i, tool: 'Edit' },
+  { regex: /^(?:Create|Write) file$/i, tool: 'Write' },
+  { regex: /^Read file$/i, tool: 'Read' },
+  { regex: /^Edit notebook$/i, tool: 'NotebookEdit' },
+  { regex: /^Fetch$/i, tool: 'WebFetch' },
+  { regex: /^Web search$/i, tool: 'WebSearch' },
+  { regex: /^Tool use$/i, tool: '' }, // MCP tools — name is on the next line
 ];
 
-// ── Claude Code CLI activity detection ───────────────────────────────────
-// Each pattern maps to a specific AgentStatus. Order matters — first match wins.
-// These are checked against ANSI-stripped output lines.
+// Path named in the question itself: "Do you want to make this edit to foo.ts?"
+const QUESTION_PATH = /(?:edit to|create|write to)\s+(.+?)\?$/i;
+
+// Lines of context kept per agent for finding the header above a question
+const PERMISSION_CONTEXT_LINES = 15;
 
-interface ActivityPattern {
-  status: AgentStatus;
-  regex: RegExp;
+/** Keys to write to the PTY to pick each answer. */
+interface PermissionKeys {
+  approve: string;
+  deny: string;
+  always?: string;
 }
 
-// Patterns that signal the agent has STOPPED working (highest priority)
-const IDLE_PATTERNS: ActivityPattern[] = [
-  // "✻ Worked for Xm Ys" — definitive turn completion
-  { status: 'waiting', regex: /Worked for \d+/ },
-  // Cost/token summary — turn just ended
-  { status: 'waiting', regex: /Total cost:|tokens?\s+used|input.*output.*tokens/i },
-  // Bare prompt character — awaiting input
-  { status: 'waiting', regex: /^[>❯]\s*$/ },
-  // Confirmation prompts
-  { status: 'waiting', regex: /\[Y\/n\]|\[y\/N\]|Press Enter|Hit enter/i },
-  // Disconnected
-  { status: 'paused', regex: /\[DISCONNECTED\]|Terminal session ended/i },
-  // Reconnecting
-  { status: 'paused', regex: /\[RECONNECT|RETRY|Reconnecting/i },
-];
+export interface PendingPermission {
+  request: PermissionRequest;
+  keys: PermissionKeys;
+}
 
-// Patterns that signal the agent IS working (checked when idle, to resume).
-// These are intentionally broad — Claude Code renders tool calls with
-// box-drawing characters (╭─ Read, ├ Edit, etc.), plain text, or various
-// TUI formats. We match tool names loosely, anywhere in the line.
-const ACTIVITY_PATTERNS: ActivityPattern[] = [
-  // ── THINKING ──
-  // Claude Code shows "✻ Thinking...", "Thinking...", or just "Thinking" as a status
-  // Require dots or start-of-line/spinner context to avoid matching conversational "thinking"
-  { status: 'thinking', regex: /(?:^|[✻⠋⠙⠹⠸⠼⠴⠦⠧⠇⠏])\s*Thinking/i },
-  { status: 'thinking', regex: /Thinking\.{2,3}/i },
-  { status: 'thinking', regex: /thought for \d+/i },
-
-  // ── CODING — file write/edit operations ──
-  // Tool headers: "╭─ Write", "├ Edit", "│ Edit", etc.
-  { status: 'coding', regex: /[│├╭╰─]\s*(?:Write|Edit|NotebookEdit)\b/ },
-  // Tool names at line start or after whitespace
-  { status: 'coding', regex: /^\s*(?:Write|Edit|NotebookEdit)\b/ },
-  // Tool parameter keywords unique to file editing (old_string/new_string only appear in Edit)
-  { status: 'coding', regex: /\b(?:old_string|new_string)\b/i },
-  // Action confirmations
-  { status: 'coding', regex: /\b(?:Wrote|Updated|Created|Modified)\s+(?:\/|[a-zA-Z].*\.(?:ts|tsx|js|jsx|py|rs|go|css|html|json|md))/i },
-
-  // ── EXECUTING — bash/shell operations ──
-  // Tool header: "╭─ Bash", "├ Bash", etc.
-  { status: 'executing', regex: /[│├╭╰─]\s*Bash\b/ },
-  { status: 'executing', regex: /^\s*Bash\b/ },
-  // Shell prompt indicators
-  { status: 'executing', regex: /^\s*[\$❯]\s+\w/ },
-  // Specific command invocations
-  { status: 'executing', regex: /\b(?:npm run|npx |node |python |pip |git |cargo |make |docker )\b/i },
-
-  // ── SCANNING — reading/searching files ──
-  // Tool headers: "╭─ Read", "├ Glob", "│ Grep", etc.
-  { status: 'scanning', regex: /[│├╭╰─]\s*(?:Read|Glob|Grep)\b/ },
-  { status: 'scanning', regex: /^\s*(?:Read|Glob|Grep)\b/ },
-  // Search result indicators
-  { status: 'scanning', regex: /\b(?:Found \d+ (?:files?|matches?)|No matches)\b/i },
-
-  // ── DOWNLOADING — web operations ──
-  // Tool headers
-  { status: 'downloading', regex: /[│├╭╰─]\s*(?:WebFetch|WebSearch)\b/ },
-  { status: 'downloading', regex: /^\s*(?:WebFetch|WebSearch)\b/ },
-  { status: 'downloading', regex: /\b(?:Fetching URL|Searching the web)\b/i },
-
-  // ── BUILDING — compile/bundle operations ──
-  { status: 'building', regex: /\b(?:npm run build|npm run compile|vite build|tsc|webpack|esbuild|rollup)\b/i },
-  { status: 'building', regex: /\b(?:npm install|npm ci|yarn install|pnpm install|pip install)\b/i },
-  { status: 'building', regex: /\b(?:modules? transformed|built in \d+)/i },
-
-  // ── TESTING — test execution ──
-  { status: 'testing', regex: /\b(?:npm run test|npm test|npx playwright|npx jest|pytest|vitest|mocha)\b/i },
-  { status: 'testing', regex: /\b(?:test:e2e|test:unit|test:integration)\b/i },
-  { status: 'testing', regex: /\b(?:PASS|FAIL|Tests:)\b.*\b(?:test|spec|suite)\b/i },
-  { status: 'testing', regex: /\d+ (?:passed|failed|pending|skipped)/i },
-
-  // ── GENERAL ACTIVE — catch-all tool/activity indicators ──
-  // Other Claude Code tool names
-  { status: 'running', regex: /[│├╭╰─]\s*(?:Task|Skill|AskUser|EnterPlanMode|TodoWrite|SendMessage)\b/ },
-  { status: 'running', regex: /\bTool Result\b/i },
-
-  // Spinner/streaming characters (braille spinners used by many CLIs, Claude's ✻)
-  { status: 'running', regex: /[⠋⠙⠹⠸⠼⠴⠦⠧⠇⠏⣾⣽⣻⢿⡿⣟⣯⣷✻]/ },
-];
+interface PromptCapture {
+  question: string;
+  context: string[];
+  options: Array<{ key: string; label: string }>;
+}
+
+// ── Usage summaries ──────────────────────────────────────────────────────
+// The CLI ends a turn (and the session) with a summary like:
+//
+//   Total cost:            $0.0423
+//   Usage by model:
+//       claude-sonnet:  12.3k input, 1.2k output, 45.1k cache read, 3.2k cache write
+//
+// Cost comes from the cost line, tokens from lines carrying both an input and
+// an output figure. A bare total with no input/output split can't be
+// attributed and is left out. Cache reads and writes aren't counted.
+
+const COST_LINE = /\b(?:Total )?cost:\s*\$\s*(\d[\d,]*(?:\.\d+)?)/i;
+const INPUT_TOKENS = [/(\d(?:[\d,]*\d)?(?:\.\d+)?\s*[km]?)\s+input\b/i, /\binput(?:\s+tokens)?:\s*(\d(?:[\d,]*\d)?(?:\.\d+)?\s*[km]?)/i];
+const OUTPUT_TOKENS = [/(\d(?:[\d,]*\d)?(?:\.\d+)?\s*[km]?)\s+output\b/i, /\boutput(?:\s+tokens)?:\s*(\d(?:[\d,]*\d)?(?:\.\d+)?\s*[km]?)/i];
+
+// Quiet time after the last summary line before the turn's usage is reported
+const USAGE_SETTLE_MS = 1500;
+
+interface UsageCapture {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  lines: Set<string>; // The TUI may redraw a summary line — count each once
+}
+
+// ── Clock ────────────────────────────────────────────────────────────────
+
+type TimerHandle = unknown;
+
+/**
+ * Time as the parser sees it: event timestamps and the idle, decay and
+ * usage timers. The replay harness passes a simulated clock so a recorded
+ * session's timers fire at the recorded times, without waiting for them.
+ */
+export interface ParserClock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+}
+
+const SYSTEM_CLOCK: ParserClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
 
 // ── OutputParser class ───────────────────────────────────────────────────
 
@@ -133,14 +154,54 @@ const ACTIVE_STATUSES = new Set<AgentStatus>([
 // Terminal statuses — don't override these
 const TERMINAL_STATUSES = new Set<AgentStatus>(['completed', 'error']);
 
+// Longest output line kept in a trace
+const MAX_TRACE_LINE = 300;
+
+// Rule ids for the status changes made by code rather than a rule
+const RESUME_RULE_ID = 'output-while-idle';
+const PERMISSION_RULE_ID = 'permission-prompt';
+
+/**
+ * Reads an agent's terminal output line by line and works out what it is
+ * doing. The rules come from the agent's driver and the user's rule files
+ * (see `register`); the permission-prompt and usage-summary detection below
+ * is Claude Code's and only runs for drivers that ask for it.
+ *
+ * Every status change is also emitted as a `trace` (a ParserTrace) saying
+ * which rule, timer or answer caused it. While a task or follow-up is being
+ * typed in, it also reports when the CLI is ready for it and when the CLI
+ * took it (see `watchInput`). Nothing is written to stdout: usage and
+ * permission prompts go out as `usage` and `permission:request` events,
+ * which the server logs.
+ */
 export class OutputParser extends EventEmitter {
+  private agents: Map<string, { driver: AgentDriver; projectId?: string }> = new Map();
   private buffers: Map<string, string> = new Map();
   private agentStates: Map<string, AgentStatus> = new Map();
-  private idleTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private idleTimers: Map<string, TimerHandle> = new Map();
   // Track the specific activity for decay (e.g., 'coding' decays to 'running' after a while)
-  private activityTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
-  // Debug: track last few state transitions for logging
-  public debug = true;
+  private activityTimers: Map<string, TimerHandle> = new Map();
+  // Permission prompt tracking
+  private recentLines: Map<string, string[]> = new Map();
+  private promptCaptures: Map<string, PromptCapture> = new Map();
+  private pendingPermissions: Map<string, PendingPermission> = new Map();
+  // Usage summary of the current turn, reported once the summary stops
+  private usageCaptures: Map<string, UsageCapture> = new Map();
+  private usageTimers: Map<string, TimerHandle> = new Map();
+  // The input signal a submission is waiting for, if any
+  private inputWatches: Map<string, InputSignal> = new Map();
+
+  constructor(private readonly rules: ParserRules, private readonly clock: ParserClock = SYSTEM_CLOCK) {
+    super();
+  }
+
+  /**
+   * Parse an agent with its driver's rules and its project's rule files.
+   * Agents never registered get Claude Code's built-in and global rules.
+   */
+  register(agentId: string, driver: AgentDriver, projectId?: string): void {
+    this.agents.set(agentId, { driver, projectId });
+  }
 
   /**
    * Feed raw stdout data from an agent's pty. Buffers partial lines and
@@ -160,49 +221,131 @@ export class OutputParser extends EventEmitter {
 
     for (const line of lines) {
       this.matchLine(agentId, line);
+      this.detectUsage(agentId, line);
+      this.detectPermissionPrompt(agentId, line);
+      this.detectInputSignal(agentId, line);
       this.detectAgentState(agentId, line);
     }
 
     // Also check partial line for state detection (prompts don't end with newline)
     if (partial) {
+      this.detectInputSignal(agentId, partial);
       this.detectAgentState(agentId, partial);
     }
   }
 
-  /** Flush buffered data for an agent (on exit). */
+  /**
+   * Watch an agent's output for its driver's `ready` or `accepted` pattern
+   * and emit `input:<signal>` the first time it matches. An agent has one
+   * watch at a time; a new one replaces the last.
+   */
+  watchInput(agentId: string, signal: InputSignal): void {
+    this.inputWatches.set(agentId, signal);
+  }
+
+  /** Stop watching for an input signal, e.g. when a submission gives up. */
+  unwatchInput(agentId: string): void {
+    this.inputWatches.delete(agentId);
+  }
+
+  /** Flush buffered data and any pending usage for an agent (on exit). */
   flush(agentId: string): void {
     const remaining = this.buffers.get(agentId);
     if (remaining) {
       this.matchLine(agentId, remaining);
+      this.detectUsage(agentId, remaining);
       this.buffers.delete(agentId);
     }
+    this.reportUsage(agentId);
+  }
+
+  /**
+   * Whether `line`, turning up in the output of an agent run by `driver`,
+   * would move the parser on: set a status, emit an event, count towards
+   * usage, open a permission prompt or signal that typed input was taken.
+   * Text an agent is given and echoes back, such as a handoff brief, leaves
+   * these lines out. The line is also tried inside a box, the way a TUI
+   * echoes its input.
+   */
+  wouldAct(driver: AgentDriver, projectId: string | undefined, line: string): boolean {
+    const { statusRules, eventRules } = this.rules.rulesFor(driver, projectId);
+    const { submission } = driver;
+    return [line, `│ ${line}`].some((form) => {
+      const clean = stripAnsi(form).trim();
+      const unboxed = clean.replace(BOX_CHARS, '').trim();
+      return statusRules.some(({ regex }) => regex.test(clean))
+        || eventRules.some(({ regex }) => regex.test(clean))
+        || (driver.usageSummaries && (COST_LINE.test(unboxed) || (!!firstMatch(INPUT_TOKENS, unboxed) && !!firstMatch(OUTPUT_TOKENS, unboxed))))
+        || (driver.permissionPrompts && PERMISSION_QUESTION.test(unboxed))
+        || (submission.mode === 'typed' && submission.accepted.test(unboxed));
+    });
+  }
+
+  /** The permission prompt an agent is blocked on, if any. */
+  getPendingPermission(agentId: string): PendingPermission | undefined {
+    return this.pendingPermissions.get(agentId);
+  }
+
+  /**
+   * Mark an agent's permission prompt as answered and resume normal state
+   * detection. `decision` is omitted when the answer was typed in the terminal.
+   */
+  resolvePermission(agentId: string, decision?: PermissionDecision): void {
+    const pending = this.pendingPermissions.get(agentId);
+    if (!pending) return;
+
+    this.pendingPermissions.delete(agentId);
+    this.emit('permission:resolved', {
+      agentId,
+      requestId: pending.request.requestId,
+      decision,
+      timestamp: this.clock.now(),
+    });
+    this.transitionState(agentId, 'running', { trigger: 'input' });
+    this.resetIdleTimer(agentId);
   }
 
-  /** Clean up all state for a removed agent. */
+  /** Clean up all state for a removed agent. Usage already printed is still reported. */
   clearBuffer(agentId: string): void {
+    this.reportUsage(agentId);
+    this.agents.delete(agentId);
     this.buffers.delete(agentId);
     this.agentStates.delete(agentId);
+    this.recentLines.delete(agentId);
+    this.promptCaptures.delete(agentId);
+    this.pendingPermissions.delete(agentId);
+    this.inputWatches.delete(agentId);
     for (const map of [this.idleTimers, this.activityTimers]) {
       const timer = map.get(agentId);
-      if (timer) { clearTimeout(timer); map.delete(agentId); }
+      if (timer) { this.clock.clearTimeout(timer); map.delete(agentId); }
     }
   }
 
   // ── internal ─────────────────────────────────────────────────────────
 
+  private driverFor(agentId: string): AgentDriver {
+    return this.agents.get(agentId)?.driver ?? getDriver(undefined);
+  }
+
+  private rulesFor(agentId: string): RuleSet {
+    return this.rules.rulesFor(this.driverFor(agentId), this.agents.get(agentId)?.projectId);
+  }
+
   private matchLine(agentId: string, line: string): void {
     const clean = stripAnsi(line);
 
-    for (const pattern of PATTERNS) {
-      const match = pattern.regex.exec(clean);
+    for (const rule of this.rulesFor(agentId).eventRules) {
+      const match = rule.regex.exec(clean);
       if (match) {
         const evt: ParsedEvent = {
           agentId,
-          timestamp: Date.now(),
-          event: pattern.event,
+          timestamp: this.clock.now(),
+          event: rule.event!,
         };
-        if (pattern.extractPath && match[1]) evt.path = match[1];
-        if (pattern.extractMessage && match[1]) evt.message = match[1].trim();
+        const path = captureGroup(match, rule.path);
+        const message = captureGroup(match, rule.message);
+        if (path) evt.path = path;
+        if (message) evt.message = message.trim();
 
         this.emit('parsed', evt);
         break; // first match only
@@ -211,8 +354,170 @@ export class OutputParser extends EventEmitter {
   }
 
   /**
-   * Detect agent activity state from a line of output.
-   * Checks idle patterns first (highest priority), then activity patterns.
+   * Collect cost and token figures from a usage summary. Lines are summed
+   * into the current turn, which is reported as one `usage` event once no
+   * new summary line has arrived for a moment.
+   */
+  private detectUsage(agentId: string, line: string): void {
+    if (!this.driverFor(agentId).usageSummaries) return;
+    const clean = stripAnsi(line).replace(BOX_CHARS, '').trim();
+    if (!clean) return;
+
+    const cost = COST_LINE.exec(clean);
+    const input = firstMatch(INPUT_TOKENS, clean);
+    const output = firstMatch(OUTPUT_TOKENS, clean);
+    if (!cost && !(input && output)) return;
+
+    let capture = this.usageCaptures.get(agentId);
+    if (!capture) {
+      capture = { inputTokens: 0, outputTokens: 0, costUsd: 0, lines: new Set() };
+      this.usageCaptures.set(agentId, capture);
+    }
+    if (capture.lines.has(clean)) return;
+    capture.lines.add(clean);
+
+    if (cost) {
+      capture.costUsd += parseFloat(cost[1].replace(/,/g, ''));
+    }
+    if (input && output) {
+      capture.inputTokens += parseTokenCount(input);
+      capture.outputTokens += parseTokenCount(output);
+    }
+
+    const existing = this.usageTimers.get(agentId);
+    if (existing) this.clock.clearTimeout(existing);
+    this.usageTimers.set(agentId, this.clock.setTimeout(() => this.reportUsage(agentId), USAGE_SETTLE_MS));
+  }
+
+  private reportUsage(agentId: string): void {
+    const timer = this.usageTimers.get(agentId);
+    if (timer) { this.clock.clearTimeout(timer); this.usageTimers.delete(agentId); }
+
+    const capture = this.usageCaptures.get(agentId);
+    if (!capture) return;
+    this.usageCaptures.delete(agentId);
+
+    const usage: ParsedUsage = {
+      agentId,
+      timestamp: this.clock.now(),
+      inputTokens: capture.inputTokens,
+      outputTokens: capture.outputTokens,
+      costUsd: capture.costUsd,
+    };
+    this.emit('usage', usage);
+  }
+
+  /**
+   * Recognize the CLI's tool-permission prompt. Emits `permission:request`
+   * once per prompt — the TUI redraws the box while it waits, so nothing
+   * more is captured until the pending prompt is resolved.
+   */
+  private detectPermissionPrompt(agentId: string, line: string): void {
+    if (!this.driverFor(agentId).permissionPrompts) return;
+    const clean = stripAnsi(line).replace(BOX_CHARS, '').trim();
+    if (!clean) return;
+
+    if (this.pendingPermissions.has(agentId)) return;
+
+    const capture = this.promptCaptures.get(agentId);
+
+    if (PERMISSION_QUESTION.test(clean)) {
+      this.promptCaptures.set(agentId, {
+        question: clean,
+        context: [...(this.recentLines.get(agentId) ?? [])],
+        options: [],
+      });
+      return;
+    }
+
+    if (capture) {
+      const option = PERMISSION_OPTION.exec(clean);
+      if (!option) {
+        // Something other than the option list — it wasn't a prompt after all
+        this.promptCaptures.delete(agentId);
+      } else {
+        capture.options.push({ key: option[1], label: option[2].trim() });
+        if (/^No\b/i.test(option[2])) {
+          this.promptCaptures.delete(agentId);
+          this.recentLines.delete(agentId);
+          this.openPermission(agentId, capture);
+        }
+        return;
+      }
+    }
+
+    const recent = this.recentLines.get(agentId) ?? [];
+    recent.push(clean);
+    if (recent.length > PERMISSION_CONTEXT_LINES) recent.shift();
+    this.recentLines.set(agentId, recent);
+  }
+
+  /** Emit the input signal being watched for once the driver's pattern for it shows up. */
+  private detectInputSignal(agentId: string, line: string): void {
+    const signal = this.inputWatches.get(agentId);
+    if (!signal) return;
+    const { submission } = this.driverFor(agentId);
+    if (submission.mode !== 'typed') return;
+    const clean = stripAnsi(line).replace(BOX_CHARS, '').trim();
+    if (!clean || !submission[signal].test(clean)) return;
+
+    this.inputWatches.delete(agentId);
+    const evt: ParsedInputSignal = { agentId, timestamp: this.clock.now(), line: clean };
+    this.emit(`input:${signal}`, evt);
+  }
+
+  private openPermission(agentId: string, capture: PromptCapture): void {
+    // Work out the tool from the nearest header above the question
+    let tool = 'Tool';
+    let detail = '';
+    for (let i = capture.context.length - 1; i >= 0; i--) {
+      const header = PERMISSION_HEADERS.find(({ regex }) => regex.test(capture.context[i]));
+      if (!header) continue;
+      const next = capture.context[i + 1] ?? '';
+      if (header.tool) {
+        tool = header.tool;
+        detail = next;
+      } else {
+        // "mcp__github__create_issue(title: ...)" → name + arguments
+        const paren = next.indexOf('(');
+        tool = paren > 0 ? next.slice(0, paren) : next || 'Tool';
+        detail = paren > 0 ? next.slice(paren + 1).replace(/\)\s*(?:\(MCP\))?$/, '') : '';
+      }
+      break;
+    }
+    const questionPath = QUESTION_PATH.exec(capture.question);
+    if (questionPath && (tool === 'Edit' || tool === 'Write' || !detail)) {
+      detail = questionPath[1];
+    }
+
+    const deny = capture.options.find((o) => /^No\b/i.test(o.label));
+    const always = capture.options.find((o) => /don't ask again|allow all|always/i.test(o.label));
+    const approve = capture.options.find((o) => /^Yes\b/i.test(o.label) && o !== always);
+
+    const request: PermissionRequest = {
+      requestId: randomUUID(),
+      tool,
+      detail,
+      question: capture.question,
+      ...(always && { alwaysLabel: always.label }),
+      timestamp: this.clock.now(),
+    };
+    this.pendingPermissions.set(agentId, {
+      request,
+      keys: {
+        approve: approve?.key ?? '1',
+        deny: deny?.key ?? '\x1b',
+        ...(always && { always: always.key }),
+      },
+    });
+
+    this.emit('permission:request', { agentId, request });
+    this.transitionState(agentId, 'awaiting-approval', { trigger: 'pattern', ruleId: PERMISSION_RULE_ID, line: capture.question });
+  }
+
+  /**
+   * Detect agent activity state from a line of output. Rules are tried by
+   * priority; the built-in idle rules outrank the activity rules.
    */
   private detectAgentState(agentId: string, line: string): void {
     const clean = stripAnsi(line).trim();
@@ -220,45 +525,40 @@ export class OutputParser extends EventEmitter {
 
     const current = this.agentStates.get(agentId) ?? 'running';
     if (TERMINAL_STATUSES.has(current)) return; // don't override completed/error
+    // Blocked on a permission prompt — only an answer moves it on
+    if (current === 'awaiting-approval' && this.pendingPermissions.has(agentId)) return;
 
-    // ── Check IDLE patterns first — they always win ──
-    for (const { status, regex } of IDLE_PATTERNS) {
-      if (regex.test(clean)) {
-        if (this.debug && current !== status) {
-          console.log(`[OutputParser] ${agentId.slice(0, 8)} IDLE match: "${clean.slice(0, 80)}" → ${status} (was ${current})`);
-        }
-        this.transitionState(agentId, status);
-        return;
-      }
+    const rule = this.rulesFor(agentId).statusRules.find(({ regex }) => regex.test(clean));
+    const status = rule?.status;
+
+    // ── Idle rules: the agent stopped working ──
+    if (status && !ACTIVE_STATUSES.has(status)) {
+      this.transitionState(agentId, status, { trigger: 'pattern', ruleId: rule!.id, line: clean });
+      return;
     }
 
-    // ── Check ACTIVITY patterns — to detect specific work types ──
-    for (const { status, regex } of ACTIVITY_PATTERNS) {
-      if (regex.test(clean)) {
-        // Don't let the generic 'running' catch-all override a specific active state.
-        // Specific states (coding, scanning, etc.) should only decay via the
-        // activity decay timer, not be immediately overridden by conversational text.
-        if (status === 'running' && current !== 'running' && ACTIVE_STATUSES.has(current)) {
-          this.resetIdleTimer(agentId);
-          return;
-        }
-        if (this.debug && current !== status) {
-          console.log(`[OutputParser] ${agentId.slice(0, 8)} ACTIVITY match: "${clean.slice(0, 80)}" → ${status} (was ${current})`);
-        }
-        this.transitionState(agentId, status);
+    // ── Activity rules — to detect specific work types ──
+    if (status) {
+      // Don't let the generic 'running' catch-all override a specific active state.
+      // Specific states (coding, scanning, etc.) should only decay via the
+      // activity decay timer, not be immediately overridden by conversational text.
+      if (status === 'running' && current !== 'running' && ACTIVE_STATUSES.has(current)) {
         this.resetIdleTimer(agentId);
-        // Set activity decay: specific states like 'coding' decay to 'running'
-        // after 10s without reinforcement, so they don't stick forever
-        if (status !== 'running') {
-          this.resetActivityDecay(agentId);
-        }
         return;
       }
+      this.transitionState(agentId, status, { trigger: 'pattern', ruleId: rule!.id, line: clean });
+      this.resetIdleTimer(agentId);
+      // Set activity decay: specific states like 'coding' decay to 'running'
+      // after 10s without reinforcement, so they don't stick forever
+      if (status !== 'running') {
+        this.resetActivityDecay(agentId);
+      }
+      return;
     }
 
     // ── Implicit activity: substantial output while idle → resume ──
     if (!ACTIVE_STATUSES.has(current) && clean.length > 30) {
-      this.transitionState(agentId, 'running');
+      this.transitionState(agentId, 'running', { trigger: 'pattern', ruleId: RESUME_RULE_ID, line: clean });
       this.resetIdleTimer(agentId);
       return;
     }
@@ -269,32 +569,47 @@ export class OutputParser extends EventEmitter {
     }
   }
 
-  private transitionState(agentId: string, newState: AgentStatus): void {
+  private transitionState(agentId: string, newState: AgentStatus, cause: TransitionCause): void {
     const current = this.agentStates.get(agentId);
     if (current === newState) return;
 
     this.agentStates.set(agentId, newState);
     this.emit('agent:activity', { agentId, state: newState });
 
+    const trace: ParserTrace = {
+      id: randomUUID(),
+      agentId,
+      timestamp: this.clock.now(),
+      from: current ?? 'launched',
+      to: newState,
+      trigger: cause.trigger,
+      ...(cause.trigger === 'pattern' && { ruleId: cause.ruleId, line: cause.line.slice(0, MAX_TRACE_LINE) }),
+      ...(cause.trigger === 'timer' && { timer: cause.timer }),
+    };
+    this.emit('trace', trace);
+
     // Clear idle timer when transitioning to idle states
     if (!ACTIVE_STATUSES.has(newState)) {
       const timer = this.idleTimers.get(agentId);
-      if (timer) { clearTimeout(timer); this.idleTimers.delete(agentId); }
+      if (timer) { this.clock.clearTimeout(timer); this.idleTimers.delete(agentId); }
     }
   }
 
-  /** After N seconds of no output, assume agent is waiting for input. */
+  /** After the driver's idle timeout with no output, assume agent is waiting for input. */
   private resetIdleTimer(agentId: string): void {
     const existing = this.idleTimers.get(agentId);
-    if (existing) clearTimeout(existing);
+    if (existing) this.clock.clearTimeout(existing);
+
+    const { idleTimeoutMs } = this.driverFor(agentId);
+    if (idleTimeoutMs === null) return;
 
-    const timer = setTimeout(() => {
+    const timer = this.clock.setTimeout(() => {
       const state = this.agentStates.get(agentId);
       if (state && ACTIVE_STATUSES.has(state)) {
-        this.transitionState(agentId, 'waiting');
+        this.transitionState(agentId, 'waiting', { trigger: 'timer', timer: 'idle' });
       }
       this.idleTimers.delete(agentId);
-    }, 8000);
+    }, idleTimeoutMs);
 
     this.idleTimers.set(agentId, timer);
   }
@@ -303,12 +618,12 @@ export class OutputParser extends EventEmitter {
    *  so the UI doesn't show a stale specific state. */
   private resetActivityDecay(agentId: string): void {
     const existing = this.activityTimers.get(agentId);
-    if (existing) clearTimeout(existing);
+    if (existing) this.clock.clearTimeout(existing);
 
-    const timer = setTimeout(() => {
+    const timer = this.clock.setTimeout(() => {
       const state = this.agentStates.get(agentId);
       if (state && ACTIVE_STATUSES.has(state) && state !== 'running') {
-        this.transitionState(agentId, 'running');
+        this.transitionState(agentId, 'running', { trigger: 'timer', timer: 'decay' });
       }
       this.activityTimers.delete(agentId);
     }, 12000);
@@ -322,6 +637,29 @@ export class OutputParser extends EventEmitter {
 // eslint-disable-next-line no-control-regex
 const ANSI_RE = /\x1b\[[0-9;?]*[A-Za-z]|\x1b\][^\x07]*\x07|\x1b[()][A-Z0-9]|\x1b[>=<]|\x1b\[[\d;]*m/g;
 
-function stripAnsi(str: string): string {
+export function stripAnsi(str: string): string {
   return str.replace(ANSI_RE, '');
 }
+
+/** A rule's capture group — by index or by name — from a match. */
+function captureGroup(match: RegExpExecArray, group: OutputRule['path']): string | undefined {
+  if (group === undefined) return undefined;
+  return typeof group === 'number' ? match[group] : match.groups?.[group];
+}
+
+function firstMatch(patterns: RegExp[], str: string): string | undefined {
+  for (const regex of patterns) {
+    const match = regex.exec(str);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/** "12,345" → 12345, "12.3k" → 12300, "1.2M" → 1200000 */
+function parseTokenCount(raw: string): number {
+  const match = /^([\d,]*(?:\.\d+)?)\s*([km]?)$/i.exec(raw.trim());
+  if (!match) return 0;
+  const value = parseFloat(match[1].replace(/,/g, ''));
+  const scale = match[2].toLowerCase() === 'k' ? 1_000 : match[2].toLowerCase() === 'm' ? 1_000_000 : 1;
+  return Math.round(value * scale);
+}
@@ -0,0 +1,74 @@
+import type { ParserTrace } from './types.js';
+
+// ── ParserInspector ──────────────────────────────────────────────────────
+
+// Transitions kept in memory for each agent
+const MAX_TRACES_PER_AGENT = 200;
+
+// Flagged transitions kept across restarts, oldest dropped first
+const MAX_FLAGGED = 500;
+
+/**
+ * The output parser's recent status transitions, per agent, for the parser
+ * inspector. Recent traces live in memory only. Traces the operator marks as
+ * false positives are also kept in the StateStore's `parserFlags` array,
+ * which is mutated in place; call `stateStore.save()` after flagging.
+ */
+export class ParserInspector {
+  private recent: Map<string, ParserTrace[]> = new Map();
+
+  constructor(private readonly flagged: ParserTrace[]) {}
+
+  record(trace: ParserTrace): void {
+    const traces = this.recent.get(trace.agentId) ?? [];
+    traces.push(trace);
+    if (traces.length > MAX_TRACES_PER_AGENT) {
+      traces.splice(0, traces.length - MAX_TRACES_PER_AGENT);
+    }
+    this.recent.set(trace.agentId, traces);
+  }
+
+  /** Recent traces and flagged ones, oldest first. */
+  list(): ParserTrace[] {
+    const byId = new Map<string, ParserTrace>();
+    for (const trace of this.flagged) byId.set(trace.id, trace);
+    for (const traces of this.recent.values()) {
+      for (const trace of traces) byId.set(trace.id, trace);
+    }
+    return [...byId.values()].sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /** Mark or clear a false positive. Undefined when the trace is no longer kept. */
+  flag(traceId: string, falsePositive: boolean): ParserTrace | undefined {
+    const trace = this.find(traceId);
+    if (!trace) return undefined;
+
+    const index = this.flagged.indexOf(trace);
+    if (falsePositive) {
+      trace.falsePositive = true;
+      if (index === -1) this.flagged.push(trace);
+      if (this.flagged.length > MAX_FLAGGED) {
+        this.flagged.splice(0, this.flagged.length - MAX_FLAGGED);
+      }
+    } else {
+      delete trace.falsePositive;
+      if (index !== -1) this.flagged.splice(index, 1);
+    }
+    return trace;
+  }
+
+  /** Drop a dismissed agent's recent traces. Its flagged ones are kept. */
+  forget(agentId: string): void {
+    this.recent.delete(agentId);
+  }
+
+  // ── internal ─────────────────────────────────────────────────────────
+
+  private find(traceId: string): ParserTrace | undefined {
+    for (const traces of this.recent.values()) {
+      const trace = traces.find((t) => t.id === traceId);
+      if (trace) return trace;
+    }
+    return this.flagged.find((t) => t.id === traceId);
+  }
+}
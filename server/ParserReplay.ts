@@ -0,0 +1,207 @@
+import { OutputParser, type ParsedEvent, type ParsedUsage, type ParserClock } from './OutputParser.js';
+import type { ParserRules } from './ParserRules.js';
+import type { AgentDriver } from './AgentDriver.js';
+import type { AgentDriverId, AgentStatus, ParserTrace, PermissionRequest, TraceTrigger } from './types.js';
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+/** One thing the parser reported, `t` seconds into the recording. */
+export type ReplayEntry =
+  | { t: number; type: 'status'; from: AgentStatus; to: AgentStatus; trigger: TraceTrigger; cause: string }
+  | { t: number; type: 'event'; event: string; path?: string; message?: string }
+  | { t: number; type: 'usage'; inputTokens: number; outputTokens: number; costUsd: number }
+  | { t: number; type: 'permission'; tool: string; detail: string };
+
+/** Contents of a fixture's `.expected.json`: how to replay it and what should come out. */
+export interface ReplayExpectation {
+  driver: AgentDriverId;
+  tailSeconds: number;
+  timeline: ReplayEntry[];
+}
+
+export interface ReplayOptions {
+  driver: AgentDriver;
+  /** Keep the clock running this long after the last chunk, so quiet timers can fire. */
+  tailSeconds: number;
+  /** Project whose rule files apply, as registered with ParserRules. */
+  projectId?: string;
+}
+
+type CastEvent = [number, string, string];
+
+// The parser keys everything by agent; a replay has just the one
+const REPLAY_AGENT_ID = 'replay';
+
+// ── VirtualClock ─────────────────────────────────────────────────────────
+
+/**
+ * A clock that only moves when told to. Timers due on the way fire in
+ * order, each with `now()` set to the time it was due.
+ */
+export class VirtualClock implements ParserClock {
+  private timers: Map<number, { due: number; callback: () => void }> = new Map();
+  private nextId = 1;
+
+  constructor(private time: number) {}
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): number {
+    const id = this.nextId++;
+    this.timers.set(id, { due: this.time + ms, callback });
+    return id;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers.delete(handle as number);
+  }
+
+  /** Move to `time`, firing every timer due by then, including ones set by other timers. */
+  advanceTo(time: number): void {
+    for (;;) {
+      let nextId: number | undefined;
+      for (const [id, timer] of this.timers) {
+        // Ids grow, so ties go to the timer set first
+        if (timer.due <= time && (nextId === undefined || timer.due < this.timers.get(nextId)!.due)) {
+          nextId = id;
+        }
+      }
+      if (nextId === undefined) break;
+
+      const timer = this.timers.get(nextId)!;
+      this.timers.delete(nextId);
+      this.time = Math.max(this.time, timer.due);
+      timer.callback();
+    }
+    this.time = Math.max(this.time, time);
+  }
+}
+
+// ── Replay ───────────────────────────────────────────────────────────────
+
+/**
+ * Read an asciicast v2 recording, as TranscriptStore writes them: a header
+ * line, then one `[seconds, code, data]` event per line.
+ */
+export function parseCast(text: string): { startedAt: number; events: CastEvent[] } {
+  const lines = text.split('\n').filter((line) => line.trim());
+  if (lines.length === 0) throw new Error('Empty recording');
+
+  let header: { version?: unknown; timestamp?: unknown };
+  try {
+    header = JSON.parse(lines[0]);
+  } catch {
+    throw new Error('Line 1: not a JSON header');
+  }
+  if (header.version !== 2) throw new Error('Line 1: only asciicast v2 recordings are supported');
+
+  const events: CastEvent[] = [];
+  for (const [index, line] of lines.slice(1).entries()) {
+    let event: unknown;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${index + 2}: not valid JSON`);
+    }
+    if (!Array.isArray(event) || typeof event[0] !== 'number' || typeof event[1] !== 'string' || typeof event[2] !== 'string') {
+      throw new Error(`Line ${index + 2}: expected [seconds, code, data]`);
+    }
+    events.push(event as CastEvent);
+  }
+  return { startedAt: typeof header.timestamp === 'number' ? header.timestamp * 1000 : 0, events };
+}
+
+/**
+ * Feed a recording's output through an OutputParser at the recorded pace
+ * and collect what it reports. Output chunks ('o') are parsed, input ('i')
+ * answers any open permission prompt, and a "resumed" marker starts a fresh
+ * parser session, as a resume does. Other markers and resizes are ignored.
+ */
+export function replayRecording(castText: string, rules: ParserRules, options: ReplayOptions): ReplayEntry[] {
+  const { startedAt, events } = parseCast(castText);
+  const clock = new VirtualClock(startedAt);
+  const parser = new OutputParser(rules, clock);
+
+  const timeline: ReplayEntry[] = [];
+  const elapsed = () => Math.round(clock.now() - startedAt) / 1000;
+
+  parser.on('trace', (trace: ParserTrace) => {
+    timeline.push({ t: elapsed(), type: 'status', from: trace.from, to: trace.to, trigger: trace.trigger, cause: describeCause(trace) });
+  });
+  parser.on('parsed', (evt: ParsedEvent) => {
+    timeline.push({
+      t: elapsed(), type: 'event', event: evt.event,
+      ...(evt.path && { path: evt.path }),
+      ...(evt.message && { message: evt.message }),
+    });
+  });
+  parser.on('usage', (usage: ParsedUsage) => {
+    timeline.push({ t: elapsed(), type: 'usage', inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, costUsd: usage.costUsd });
+  });
+  parser.on('permission:request', ({ request }: { request: PermissionRequest }) => {
+    timeline.push({ t: elapsed(), type: 'permission', tool: request.tool, detail: request.detail });
+  });
+
+  parser.register(REPLAY_AGENT_ID, options.driver, options.projectId);
+  for (const [seconds, code, data] of events) {
+    clock.advanceTo(startedAt + seconds * 1000);
+    if (code === 'o') {
+      parser.parse(REPLAY_AGENT_ID, data);
+    } else if (code === 'i') {
+      parser.resolvePermission(REPLAY_AGENT_ID);
+    } else if (code === 'm' && data === 'resumed') {
+      parser.clearBuffer(REPLAY_AGENT_ID);
+      parser.register(REPLAY_AGENT_ID, options.driver, options.projectId);
+    }
+  }
+  clock.advanceTo(clock.now() + options.tailSeconds * 1000);
+  parser.flush(REPLAY_AGENT_ID);
+  parser.clearBuffer(REPLAY_AGENT_ID);
+
+  return timeline;
+}
+
+// ── Output ───────────────────────────────────────────────────────────────
+
+/** One timeline line, e.g. "   12.345  status      running → waiting  pattern claude-code:idle#0". */
+export function formatEntry(entry: ReplayEntry): string {
+  const head = `${entry.t.toFixed(3).padStart(9)}  ${entry.type.padEnd(10)}  `;
+  switch (entry.type) {
+    case 'status':
+      return `${head}${`${entry.from} → ${entry.to}`.padEnd(28)} ${entry.trigger} ${entry.cause}`;
+    case 'event':
+      return `${head}${entry.event}${entry.path ? ` ${entry.path}` : ''}${entry.message ? ` "${entry.message}"` : ''}`;
+    case 'usage':
+      return `${head}${entry.inputTokens} in / ${entry.outputTokens} out / $${entry.costUsd.toFixed(4)}`;
+    case 'permission':
+      return `${head}${entry.tool}${entry.detail ? ` ${entry.detail}` : ''}`;
+  }
+}
+
+/**
+ * Where two timelines part ways, as lines to print. Empty when they match.
+ * Only the first difference is shown — everything after it usually shifts.
+ */
+export function compareTimelines(expected: ReplayEntry[], actual: ReplayEntry[]): string[] {
+  const length = Math.max(expected.length, actual.length);
+  for (let i = 0; i < length; i++) {
+    const want = expected[i] ? formatEntry(expected[i]) : '(end of timeline)';
+    const got = actual[i] ? formatEntry(actual[i]) : '(end of timeline)';
+    if (want === got) continue;
+    return [
+      `entry ${i + 1} of ${expected.length} expected, ${actual.length} produced`,
+      `  expected: ${want.trim()}`,
+      `  actual:   ${got.trim()}`,
+    ];
+  }
+  return [];
+}
+
+/** What changed the status: the rule id, or which timer ran out. */
+function describeCause(trace: ParserTrace): string {
+  if (trace.ruleId) return trace.ruleId;
+  if (trace.timer) return `${trace.timer}-timer`;
+  return 'operator-input';
+}
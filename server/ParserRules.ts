@@ -0,0 +1,283 @@
+import { EventEmitter } from 'node:events';
+import { readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { basename, join } from 'node:path';
+import { watch, type FSWatcher } from 'chokidar';
+import { parse as parseYaml } from 'yaml';
+import { isDriverId } from './drivers/index.js';
+import type { AgentDriver, OutputRule } from './AgentDriver.js';
+import type { AgentDriverId, AgentStatus } from './types.js';
+
+// ── Rule files ───────────────────────────────────────────────────────────
+// Users add output rules without touching the drivers, globally in
+// ~/.constellation-command/parser-rules.yaml and per project in
+// <project>/.constellation-rules.yaml (.yml and .json work too):
+//
+//   builtIn: true              # false drops the driver's built-in rules
+//   rules:
+//     - match: "Worked for \\d+"
+//       status: waiting
+//       priority: 250
+//     - match: "Wrote (?<file>\\S+)"
+//       flags: i
+//       event: file:edited
+//       path: file             # capture group name or index
+//       driver: claude-code    # only for this driver; all drivers when left out
+
+export const GLOBAL_RULES_FILES = ['parser-rules.yaml', 'parser-rules.yml', 'parser-rules.json'];
+export const PROJECT_RULES_FILES = ['.constellation-rules.yaml', '.constellation-rules.yml', '.constellation-rules.json'];
+
+// Statuses a rule may set — the rest are decided by the process, not its output
+const RULE_STATUSES = new Set<AgentStatus>([
+  'running', 'thinking', 'coding', 'executing', 'scanning', 'downloading',
+  'building', 'testing', 'waiting', 'paused',
+]);
+
+// Events the server acts on
+const RULE_EVENTS = new Set(['file:created', 'file:edited', 'build:started', 'build:succeeded', 'build:error', 'task:completed']);
+
+// 'g' and 'y' would make a shared regex remember where it last matched
+const RULE_FLAGS = /^[imsu]*$/;
+
+const DEFAULT_RULE_PRIORITY = 100;
+
+interface RuleFile {
+  builtIn: boolean;
+  rules: Array<OutputRule & { driver?: AgentDriverId }>;
+}
+
+/** Status and event rules for one driver in one project, highest priority first. */
+export interface RuleSet {
+  statusRules: OutputRule[];
+  eventRules: OutputRule[];
+}
+
+// ── ParserRules ──────────────────────────────────────────────────────────
+
+/**
+ * The output rules each agent is parsed with: its driver's built-in rules
+ * plus any from the global and project rule files. Files are watched and
+ * reloaded on change. A file that fails validation is reported and its last
+ * good version stays in effect.
+ *
+ * Emits `loaded` ({ file, projectId?, count }) and `error`
+ * ({ file, projectId?, message }).
+ */
+export class ParserRules extends EventEmitter {
+  private files: Map<string, RuleFile> = new Map();      // path → last good contents
+  private projectFiles: Map<string, string[]> = new Map(); // projectId → rule file paths
+  private watchers: Map<string, FSWatcher> = new Map();  // '' for global, else projectId
+  private cache: Map<string, RuleSet> = new Map();
+  private readonly globalFiles: string[];
+
+  constructor(configDir = join(homedir(), '.constellation-command')) {
+    super();
+    this.globalFiles = GLOBAL_RULES_FILES.map((name) => join(configDir, name));
+  }
+
+  /** Load the global rule files and reload them when they change. */
+  watchGlobal(): void {
+    this.watchFiles('', this.globalFiles);
+  }
+
+  /**
+   * Load a project's rule files and reload them when they change. Read
+   * synchronously so an agent launched right after is parsed with them.
+   */
+  watchProject(projectId: string, cwd: string): void {
+    if (this.watchers.has(projectId)) return;
+    const paths = PROJECT_RULES_FILES.map((name) => join(cwd, name));
+    this.projectFiles.set(projectId, paths);
+    this.watchFiles(projectId, paths);
+  }
+
+  /** Rules for an agent running under `driver` in a project. */
+  rulesFor(driver: AgentDriver, projectId?: string): RuleSet {
+    const key = `${driver.id}\0${projectId ?? ''}`;
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    // Project rules come before global ones, and both before the built-ins,
+    // so a user rule wins a tie in priority
+    const sources = [...(projectId ? this.projectFiles.get(projectId) ?? [] : []), ...this.globalFiles]
+      .map((path) => this.files.get(path))
+      .filter((file): file is RuleFile => !!file);
+    const rules: OutputRule[] = [];
+    for (const file of sources) {
+      rules.push(...file.rules.filter((rule) => !rule.driver || rule.driver === driver.id));
+    }
+    if (sources.every((file) => file.builtIn)) {
+      rules.push(...driver.rules);
+    }
+    // Array sort is stable: equal priorities keep the order above
+    rules.sort((a, b) => b.priority - a.priority);
+
+    const set: RuleSet = {
+      statusRules: rules.filter((rule) => rule.status),
+      eventRules: rules.filter((rule) => rule.event),
+    };
+    this.cache.set(key, set);
+    return set;
+  }
+
+  // ── internal ─────────────────────────────────────────────────────────
+
+  private watchFiles(key: string, paths: string[]): void {
+    const projectId = key || undefined;
+    for (const path of paths) {
+      this.load(path, projectId, false);
+    }
+
+    const watcher = watch(paths, { ignoreInitial: true, persistent: true });
+    watcher.on('add', (path: string) => this.load(path, projectId, true));
+    watcher.on('change', (path: string) => this.load(path, projectId, true));
+    watcher.on('unlink', (path: string) => {
+      if (!this.files.delete(path)) return;
+      this.cache.clear();
+      this.emit('loaded', { file: path, projectId, count: 0 });
+    });
+    watcher.on('error', (error: unknown) => {
+      this.emit('error', { file: paths[0], projectId, message: error instanceof Error ? error.message : String(error) });
+    });
+    this.watchers.set(key, watcher);
+  }
+
+  /** Read and validate one rule file. `reportMissing` is false on the initial load. */
+  private load(path: string, projectId: string | undefined, reportMissing: boolean): void {
+    let raw: string;
+    try {
+      raw = readFileSync(path, 'utf-8');
+    } catch (error) {
+      const missing = (error as NodeJS.ErrnoException).code === 'ENOENT';
+      if (!missing || reportMissing) {
+        this.emit('error', { file: path, projectId, message: (error as Error).message });
+      }
+      return;
+    }
+
+    const result = parseRuleFile(raw, path);
+    if (!result.valid) {
+      this.emit('error', { file: path, projectId, message: result.reason });
+      return;
+    }
+    this.files.set(path, result.file);
+    this.cache.clear();
+    this.emit('loaded', { file: path, projectId, count: result.file.rules.length });
+  }
+}
+
+// ── Validation ──────────────────────────────────────────────────────────
+
+/** Parse a rule file's text (JSON or YAML by extension) and check every rule. */
+function parseRuleFile(raw: string, path: string): { valid: true; file: RuleFile } | { valid: false; reason: string } {
+  let data: unknown;
+  try {
+    data = path.endsWith('.json') ? JSON.parse(raw) : parseYaml(raw);
+  } catch (error) {
+    return { valid: false, reason: `Not valid ${path.endsWith('.json') ? 'JSON' : 'YAML'}: ${(error as Error).message}` };
+  }
+  // An empty file has no rules yet
+  if (data === null || data === undefined) return { valid: true, file: { builtIn: true, rules: [] } };
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    return { valid: false, reason: 'Expected an object with a "rules" list' };
+  }
+
+  const doc = data as Record<string, unknown>;
+  if (doc.builtIn !== undefined && typeof doc.builtIn !== 'boolean') {
+    return { valid: false, reason: '"builtIn" must be true or false' };
+  }
+  if (doc.rules !== undefined && !Array.isArray(doc.rules)) {
+    return { valid: false, reason: '"rules" must be a list' };
+  }
+
+  const name = basename(path);
+  const rules: RuleFile['rules'] = [];
+  for (const [index, entry] of ((doc.rules as unknown[] | undefined) ?? []).entries()) {
+    const result = validateRule(entry);
+    if (!result.valid) {
+      return { valid: false, reason: `Rule ${index + 1}: ${result.reason}` };
+    }
+    rules.push({ id: result.id ?? `${name}#${index}`, ...result.rule });
+  }
+  return { valid: true, file: { builtIn: doc.builtIn !== false, rules } };
+}
+
+function validateRule(
+  entry: unknown,
+): { valid: true; id?: string; rule: Omit<RuleFile['rules'][number], 'id'> } | { valid: false; reason: string } {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    return { valid: false, reason: 'must be an object' };
+  }
+  const r = entry as Record<string, unknown>;
+
+  if (r.id !== undefined && (typeof r.id !== 'string' || !r.id.trim())) {
+    return { valid: false, reason: '"id" must be a non-empty string' };
+  }
+  if (typeof r.match !== 'string' || !r.match) {
+    return { valid: false, reason: '"match" must be a regular expression string' };
+  }
+  const flags = r.flags ?? '';
+  if (typeof flags !== 'string' || !RULE_FLAGS.test(flags)) {
+    return { valid: false, reason: '"flags" may only use i, m, s and u' };
+  }
+  let regex: RegExp;
+  try {
+    regex = new RegExp(r.match, flags);
+  } catch (error) {
+    return { valid: false, reason: `invalid "match": ${(error as Error).message}` };
+  }
+
+  if ((r.status === undefined) === (r.event === undefined)) {
+    return { valid: false, reason: 'needs exactly one of "status" and "event"' };
+  }
+  if (r.status !== undefined && !RULE_STATUSES.has(r.status as AgentStatus)) {
+    return { valid: false, reason: `"status" must be one of ${[...RULE_STATUSES].join(', ')}` };
+  }
+  if (r.event !== undefined && !RULE_EVENTS.has(r.event as string)) {
+    return { valid: false, reason: `"event" must be one of ${[...RULE_EVENTS].join(', ')}` };
+  }
+
+  const priority = r.priority ?? DEFAULT_RULE_PRIORITY;
+  if (typeof priority !== 'number' || !Number.isFinite(priority)) {
+    return { valid: false, reason: '"priority" must be a number' };
+  }
+  if (r.driver !== undefined && !isDriverId(r.driver)) {
+    return { valid: false, reason: `unknown driver "${String(r.driver)}"` };
+  }
+
+  const groups: { path?: number | string; message?: number | string } = {};
+  for (const field of ['path', 'message'] as const) {
+    const group = r[field];
+    if (group === undefined) continue;
+    if (r.event === undefined) {
+      return { valid: false, reason: `"${field}" only applies to event rules` };
+    }
+    if (!isCaptureGroup(group, regex)) {
+      return { valid: false, reason: `"${field}" must name a capture group in "match"` };
+    }
+    groups[field] = group;
+  }
+
+  return {
+    valid: true,
+    ...(typeof r.id === 'string' && { id: r.id.trim() }),
+    rule: {
+      regex,
+      ...(r.status !== undefined && { status: r.status as AgentStatus }),
+      ...(r.event !== undefined && { event: r.event as string }),
+      priority,
+      ...groups,
+      ...(r.driver !== undefined && { driver: r.driver as AgentDriverId }),
+    },
+  };
+}
+
+/** Whether `group` is a group index or name that exists in `regex`. */
+function isCaptureGroup(group: unknown, regex: RegExp): group is number | string {
+  // Matching an empty alternative reveals how many groups there are, and their names
+  const probe = new RegExp(`${regex.source}|`, regex.flags).exec('');
+  if (typeof group === 'number') {
+    return Number.isInteger(group) && group >= 1 && !!probe && group < probe.length;
+  }
+  return typeof group === 'string' && !!probe?.groups && group in probe.groups;
+}
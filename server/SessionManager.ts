@@ -1,9 +1,15 @@
 import { EventEmitter } from 'node:events';
+import { spawn, type ChildProcessWithoutNullStreams } from 'node:child_process';
 import * as pty from 'node-pty';
 import type { IPty } from 'node-pty';
 import type WebSocket from 'ws';
-import { OutputParser } from './OutputParser.js';
-import type { AgentStatus } from './types.js';
+import { OutputParser, type ParsedEvent, type ParsedInputSignal, type ParsedUsage } from './OutputParser.js';
+import { StreamJsonParser } from './StreamJsonParser.js';
+import { ParserRules } from './ParserRules.js';
+import { TranscriptStore, formatEndBanner, type TranscriptEndState } from './TranscriptStore.js';
+import { getDriver } from './drivers/index.js';
+import type { AgentDriver, TypedSubmission } from './AgentDriver.js';
+import type { AgentStatus, LaunchProfile, OutputMode, PermissionDecision, TerminalReason } from './types.js';
 
 // ── Session metadata ─────────────────────────────────────────────────────
 
@@ -16,12 +22,66 @@ export interface SessionInfo {
   launchedAt: number;
   completedAt?: number;
   elapsedMs: number;
+  sessionId: string;
 }
 
 const MAX_OUTPUT_BUFFER = 256 * 1024; // 256 KB scrollback buffer per session
 
+export interface LaunchConfig {
+  id: string;
+  projectId: string;
+  task: string;
+  cwd: string;
+  sessionId: string;
+  profile: LaunchProfile;
+  resume?: boolean;
+}
+
+/** The running CLI: a PTY for the interactive TUI, a plain child process for stream-json. */
+interface AgentProcess {
+  write(data: string): void;
+  resize(cols: number, rows: number): void;
+  kill(): void;
+}
+
+// Arrow keys and the like, which a stream-json agent's input line ignores
+// eslint-disable-next-line no-control-regex
+const ESCAPE_SEQUENCE = /\x1b(?:\[[0-9;?]*[A-Za-z~]|O[A-Za-z])/g;
+
+/**
+ * A task or follow-up being typed into a TUI. It waits for the prompt (the
+ * task does; follow-ups find it already drawn), is pasted, gets its Enter
+ * once the CLI has redrawn with the paste, then waits for the CLI to start
+ * on it. See TypedSubmission.
+ */
+interface PendingInput {
+  text: string;
+  turn: number;                        // 1 for the task
+  submission: TypedSubmission;
+  waitForPrompt: boolean;
+  phase: 'ready' | 'echo' | 'accepted';
+  attempts: number;                    // Times Enter has been pressed for it
+  echoed: boolean;                     // Output followed the paste, so the text is in the input box
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+// Bracketed paste markers: the CLI takes everything between them as typed text, newlines included
+const PASTE_START = '\x1b[200~';
+const PASTE_END = '\x1b[201~';
+
+// The CLI redraws as soon as a paste lands; if it stays quiet, Enter goes in after this long
+const ECHO_TIMEOUT_MS = 1000;
+
+/** "the task" or "turn 3", for logs. */
+function describeTurn(turn: number): string {
+  return turn === 1 ? 'the task' : `turn ${turn}`;
+}
+
 interface Session {
-  pty: IPty;
+  process: AgentProcess;
+  driver: AgentDriver;
+  outputMode: OutputMode;
+  sessionId: string;
   projectId: string;
   task: string;
   cwd: string;
@@ -30,43 +90,72 @@ interface Session {
   completedAt?: number;
   terminalClients: Set<WebSocket>;
   outputBuffer: string;
+  inputLine: string;       // Stream-json: the line being typed in the terminal
+  inputQueue: PendingInput[]; // Typed submissions, the first one in progress
 }
 
 // ── SessionManager ───────────────────────────────────────────────────────
 
 export class SessionManager extends EventEmitter {
   private sessions: Map<string, Session> = new Map();
+  public readonly parserRules: ParserRules;
   public readonly outputParser: OutputParser;
+  public readonly streamParser: StreamJsonParser;
+  public readonly transcripts: TranscriptStore;
 
   constructor() {
     super();
-    this.outputParser = new OutputParser();
-
-    // Listen for activity state changes from the output parser.
-    // The parser detects specific Claude Code activities (thinking, coding,
-    // executing, scanning, etc.) and emits state transitions.
-    this.outputParser.on('agent:activity', ({ agentId, state }: { agentId: string; state: AgentStatus }) => {
-      const session = this.sessions.get(agentId);
-      if (!session) return;
-      // Don't override terminal states
-      if (session.status === 'completed' || session.status === 'error') return;
-
-      if (session.status !== state) {
-        session.status = state;
-        this.emitStatus(agentId, state);
-      }
-    });
+    this.parserRules = new ParserRules();
+    this.outputParser = new OutputParser(this.parserRules);
+    this.streamParser = new StreamJsonParser();
+    this.transcripts = new TranscriptStore();
+
+    // Both parsers report the same events; which one an agent uses depends
+    // on its profile's output mode. File, build and usage events are passed
+    // on as `parsed` and `usage` whichever parser produced them.
+    for (const parser of [this.outputParser, this.streamParser]) {
+      // Listen for activity state changes from the parser — the specific
+      // Claude Code activity (thinking, coding, executing, scanning, etc.)
+      parser.on('agent:activity', ({ agentId, state }: { agentId: string; state: AgentStatus }) => {
+        const session = this.sessions.get(agentId);
+        if (!session) return;
+        // Don't override terminal states
+        if (session.status === 'completed' || session.status === 'error') return;
+
+        if (session.status !== state) {
+          session.status = state;
+          this.emitStatus(agentId, state);
+        }
+      });
+
+      parser.on('parsed', (evt: ParsedEvent) => {
+        // Mark parsed events on the recording timeline so playback can jump to them
+        const detail = evt.path ?? evt.message;
+        this.transcripts.mark(evt.agentId, detail ? `${evt.event} ${detail}` : evt.event);
+        this.emit('parsed', evt);
+      });
+
+      parser.on('usage', (usage: ParsedUsage) => this.emit('usage', usage));
+    }
+
+    // A typed submission moves on when the CLI shows its prompt or takes the input
+    this.outputParser.on('input:ready', ({ agentId }: ParsedInputSignal) => this.inputReady(agentId));
+    this.outputParser.on('input:accepted', ({ agentId }: ParsedInputSignal) => this.inputAccepted(agentId));
   }
 
   /**
-   * Spawn a new Claude Code CLI agent in a pseudo-terminal.
+   * Spawn an agent: in a pseudo-terminal for an interactive CLI, or as a
+   * plain child process for stream-json output.
+   *
+   * The profile's driver builds the command line and decides how the task is
+   * submitted. Claude Code is given `sessionId` so the conversation can be
+   * picked up again later; with `resume` set, it reopens that session instead
+   * of starting a new one, and no task is submitted.
+   *
+   * The launch profile supplies the executable, its arguments, model, extra
+   * environment, output mode and initial terminal size.
    */
-  launchAgent(config: {
-    id: string;
-    projectId: string;
-    task: string;
-    cwd: string;
-  }): void {
+  launchAgent(config: LaunchConfig): void {
     if (this.sessions.has(config.id)) {
       throw new Error(`Agent ${config.id} is already running`);
     }
@@ -76,16 +165,34 @@ export class SessionManager extends EventEmitter {
     const cleanEnv = { ...process.env } as Record<string, string>;
     delete cleanEnv.CLAUDECODE;
 
-    const ptyProcess = pty.spawn('claude', ['--dangerously-skip-permissions'], {
+    const { profile } = config;
+    const driver = getDriver(profile.driver);
+    const { command, args } = driver.spawnCommand(profile, {
+      task: config.task,
+      sessionId: config.sessionId,
+      resume: !!config.resume,
+    });
+    const env = { ...cleanEnv, ...profile.env };
+    const streaming = profile.outputMode === 'stream-json' && driver.supportsStreamJson;
+
+    const ptyProcess = streaming ? null : pty.spawn(command, args, {
       name: 'xterm-256color',
-      cols: 120,
-      rows: 40,
+      cols: profile.cols,
+      rows: profile.rows,
       cwd: config.cwd,
-      env: cleanEnv,
+      env,
     });
+    const child = streaming ? spawn(command, args, { cwd: config.cwd, env }) : null;
 
     const session: Session = {
-      pty: ptyProcess,
+      process: ptyProcess ?? {
+        write: (data) => { child!.stdin.write(data); },
+        resize: () => {},   // No terminal on the other end
+        kill: () => { child!.kill(); },
+      },
+      driver,
+      outputMode: streaming ? 'stream-json' : 'interactive',
+      sessionId: config.sessionId,
       projectId: config.projectId,
       task: config.task,
       cwd: config.cwd,
@@ -93,13 +200,19 @@ export class SessionManager extends EventEmitter {
       launchedAt: Date.now(),
       terminalClients: new Set(),
       outputBuffer: '',
+      inputLine: '',
+      inputQueue: [],
     };
 
     this.sessions.set(config.id, session);
+    this.transcripts.open(config.id, { cols: profile.cols, rows: profile.rows, title: config.task });
 
     // Emit initial status
     this.emitStatus(config.id, 'launched');
-    this.emitLog('info', config.id, config.projectId, 'SessionManager', `PTY spawned for agent ${config.id.slice(0, 8)} in ${config.cwd}`);
+    const kind = streaming ? 'Process' : 'PTY';
+    this.emitLog('info', config.id, config.projectId, 'SessionManager', config.resume
+      ? `${kind} respawned for agent ${config.id.slice(0, 8)} — resuming session ${config.sessionId.slice(0, 8)}`
+      : `${kind} spawned for agent ${config.id.slice(0, 8)} in ${config.cwd} (profile "${profile.name}", ${driver.id === 'claude-code' ? profile.permissionMode : driver.label}${streaming ? ', stream-json' : ''})`);
 
     // After a brief moment mark as running
     setTimeout(() => {
@@ -109,110 +222,49 @@ export class SessionManager extends EventEmitter {
       }
     }, 500);
 
-    // Track whether we've seen first output and whether task has been sent
-    let firstOutput = true;
-    let taskSent = false;
-
-    // Forward pty output → terminal WS clients + OutputParser + buffer
-    ptyProcess.onData((data: string) => {
-      if (firstOutput) {
-        firstOutput = false;
-        this.emitLog('info', config.id, config.projectId, 'SessionManager', `Agent ${config.id.slice(0, 8)} receiving stdout — Claude Code is running`);
-
-        // Now that Claude Code is producing output, it's safe to send the task.
-        // Wait a moment for the prompt to fully render, then send text + Enter.
-        if (config.task && !taskSent) {
-          taskSent = true;
-          setTimeout(() => {
-            ptyProcess.write(config.task);
-            // Longer gap before Enter to ensure Claude Code's input handler
-            // has fully processed the pasted text
-            setTimeout(() => {
-              ptyProcess.write('\r');
-              this.emitLog('info', config.id, config.projectId, 'SessionManager', `Task submitted to agent ${config.id.slice(0, 8)}`);
-            }, 300);
-          }, 500);
-        }
-      }
-
-      // Buffer output for replay when new terminal clients connect
-      session.outputBuffer += data;
-      if (session.outputBuffer.length > MAX_OUTPUT_BUFFER) {
-        session.outputBuffer = session.outputBuffer.slice(-MAX_OUTPUT_BUFFER);
-      }
-
-      // Send raw data to all connected terminal WebSocket clients
-      for (const ws of session.terminalClients) {
-        if (ws.readyState === 1 /* WebSocket.OPEN */) {
-          ws.send(data);
-        }
-      }
-
-      // Feed the output parser
-      this.outputParser.parse(config.id, data);
-    });
-
-    // Handle pty exit
-    ptyProcess.onExit(({ exitCode }) => {
-      this.outputParser.flush(config.id);
-
-      session.completedAt = Date.now();
-      session.status = exitCode === 0 ? 'completed' : 'error';
-      this.emitStatus(config.id, session.status);
-      this.emitLog(
-        exitCode === 0 ? 'info' : 'error',
-        config.id, config.projectId, 'SessionManager',
-        `Agent ${config.id.slice(0, 8)} exited with code ${exitCode}`
-      );
-
-      // Clean up parser buffer
-      this.outputParser.clearBuffer(config.id);
-    });
-
-    // Fallback: if no output arrives within 5 seconds, send the task anyway.
-    // This handles edge cases where Claude Code might be waiting for input
-    // before producing any output.
-    if (config.task) {
-      setTimeout(() => {
-        if (!taskSent) {
-          taskSent = true;
-          this.emitLog('info', config.id, config.projectId, 'SessionManager', `Fallback: sending task to agent ${config.id.slice(0, 8)} (no output detected)`);
-          ptyProcess.write(config.task);
-          setTimeout(() => {
-            ptyProcess.write('\r');
-          }, 300);
-        }
-      }, 5000);
+    if (child) {
+      this.runStreamSession(config, session, child);
+    } else {
+      this.outputParser.register(config.id, driver, config.projectId);
+      this.runPtySession(config, session, ptyProcess!);
     }
   }
 
   /**
-   * Return the pty instance for an agent.
+   * Whether the agent has a live process. Ended sessions live on only as
+   * transcripts (see `transcripts`).
+   */
+  isLive(agentId: string): boolean {
+    return this.sessions.has(agentId);
+  }
+
+  /**
+   * Whether a typed task or follow-up is still going in. A CLI draws its
+   * prompt before it has the task, so sitting at the prompt doesn't mean
+   * the agent is done until this is false.
    */
-  getSession(agentId: string): IPty | undefined {
-    return this.sessions.get(agentId)?.pty;
+  isTakingInput(agentId: string): boolean {
+    return (this.sessions.get(agentId)?.inputQueue.length ?? 0) > 0;
   }
 
   /**
-   * Kill the pty process for an agent.
+   * Kill an agent's process. An operator kill counts as completed;
+   * one over budget counts as an error.
    */
-  killSession(agentId: string): void {
+  killSession(agentId: string, reason: Exclude<TerminalReason, 'exited'> = 'killed'): void {
     const session = this.sessions.get(agentId);
     if (!session) return;
 
-    session.pty.kill();
+    session.process.kill();
     session.completedAt = Date.now();
-    session.status = 'completed';
-    this.emitStatus(agentId, 'completed');
-
-    // Close terminal WS clients
-    for (const ws of session.terminalClients) {
-      ws.close(1000, 'Agent killed');
-    }
-    session.terminalClients.clear();
+    session.status = reason === 'killed' ? 'completed' : 'error';
+    this.emitStatus(agentId, session.status, reason);
 
-    this.outputParser.clearBuffer(agentId);
-    this.sessions.delete(agentId);
+    this.endSession(agentId, session, {
+      status: session.status,
+      reason,
+      endedAt: session.completedAt,
+    });
   }
 
   /**
@@ -232,6 +284,7 @@ export class SessionManager extends EventEmitter {
         launchedAt: session.launchedAt,
         completedAt: session.completedAt,
         elapsedMs: (session.completedAt ?? now) - session.launchedAt,
+        sessionId: session.sessionId,
       });
     }
 
@@ -259,22 +312,73 @@ export class SessionManager extends EventEmitter {
   }
 
   /**
-   * Write data to an agent's pty stdin.
+   * Write terminal input to an agent: raw to a pty, line-edited for stream-json.
    */
   writeToSession(agentId: string, data: string): void {
     const session = this.sessions.get(agentId);
     if (!session) return;
-    session.pty.write(data);
+    if (session.outputMode === 'stream-json') {
+      this.typeIntoStream(agentId, session, data);
+      return;
+    }
+    session.process.write(data);
+    this.transcripts.input(agentId, data);
+    // Whoever is at the keyboard has answered any open permission prompt
+    this.outputParser.resolvePermission(agentId);
+  }
+
+  /**
+   * Give a live agent another instruction, submitted the way its task was:
+   * typed into the CLI's prompt, or sent as a user turn for stream-json.
+   * Typed follow-ups wait behind any submission still in progress, and a
+   * `submission:failed` event reports one the CLI never took. Argument-mode
+   * CLIs got their task on the command line, so a follow-up is written with
+   * an Enter straight after. Returns false if the agent has no live process.
+   */
+  sendPrompt(agentId: string, text: string, turn: number): boolean {
+    const session = this.sessions.get(agentId);
+    if (!session) return false;
+
+    this.transcripts.mark(agentId, 'prompted');
+    const { submission } = session.driver;
+    if (session.outputMode === 'stream-json') {
+      this.submitStreamTurn(agentId, session, text);
+    } else if (submission.mode === 'typed') {
+      this.queueInput(agentId, session, { text, turn, submission, waitForPrompt: false });
+    } else {
+      session.process.write(`${text}\r`);
+    }
+    return true;
+  }
+
+  /**
+   * Answer an agent's open permission prompt by sending the key for the
+   * chosen option. Returns false if the prompt is no longer open.
+   */
+  answerPermission(agentId: string, requestId: string, decision: PermissionDecision): boolean {
+    const session = this.sessions.get(agentId);
+    const pending = this.outputParser.getPendingPermission(agentId);
+    if (!session || !pending || pending.request.requestId !== requestId) return false;
+
+    // Without an "always" option, fall back to a one-off approval
+    const key = decision === 'always'
+      ? pending.keys.always ?? pending.keys.approve
+      : pending.keys[decision];
+    session.process.write(key);
+    this.transcripts.input(agentId, key);
+    this.outputParser.resolvePermission(agentId, decision);
+    return true;
   }
 
   /**
-   * Resize an agent's pty.
+   * Resize an agent's pty. Stream-json agents have no terminal to resize.
    */
   resizeSession(agentId: string, cols: number, rows: number): void {
     const session = this.sessions.get(agentId);
     if (!session) return;
     try {
-      session.pty.resize(cols, rows);
+      session.process.resize(cols, rows);
+      this.transcripts.resize(agentId, cols, rows);
     } catch {
       // pty may have already exited — ignore resize errors
     }
@@ -282,11 +386,292 @@ export class SessionManager extends EventEmitter {
 
   // ── internal ─────────────────────────────────────────────────────────
 
-  private emitStatus(agentId: string, status: AgentStatus): void {
+  /**
+   * Interactive CLI: scrape its output, and type the task in once its prompt
+   * shows if the driver submits that way.
+   */
+  private runPtySession(config: LaunchConfig, session: Session, ptyProcess: IPty): void {
+    const { driver } = session;
+    const { submission } = driver;
+    let firstOutput = true;
+    if (config.task && !config.resume) {
+      if (submission.mode === 'typed') {
+        this.queueInput(config.id, session, { text: config.task, turn: 1, submission, waitForPrompt: true });
+      } else {
+        this.emitLog('info', config.id, config.projectId, 'SessionManager', `Task passed to agent ${config.id.slice(0, 8)} on the command line`);
+      }
+    }
+
+    // Forward pty output → terminal WS clients + OutputParser + buffer
+    ptyProcess.onData((data: string) => {
+      if (firstOutput) {
+        firstOutput = false;
+        this.emitLog('info', config.id, config.projectId, 'SessionManager', `Agent ${config.id.slice(0, 8)} receiving stdout — ${driver.label} is running`);
+      }
+
+      this.output(config.id, session, data);
+
+      // Before parsing, so the output that shows the prompt isn't taken for the paste's echo
+      this.inputEchoed(config.id, session);
+
+      // Feed the output parser
+      this.outputParser.parse(config.id, data);
+    });
+
+    // Handle pty exit
+    ptyProcess.onExit(({ exitCode }) => {
+      this.outputParser.flush(config.id);
+      this.exited(config.id, session, exitCode);
+    });
+  }
+
+  /**
+   * Stream-json: the task goes in as a JSON user message straight away, and
+   * each output event is rendered for the terminal as it arrives. stdin stays
+   * open so later turns can be sent the same way.
+   */
+  private runStreamSession(config: LaunchConfig, session: Session, child: ChildProcessWithoutNullStreams): void {
+    let firstOutput = true;
+    child.stdout.setEncoding('utf-8');
+    child.stdout.on('data', (data: string) => {
+      if (firstOutput) {
+        firstOutput = false;
+        this.emitLog('info', config.id, config.projectId, 'SessionManager', `Agent ${config.id.slice(0, 8)} receiving stream events — ${session.driver.label} is running`);
+      }
+      const text = this.streamParser.parse(config.id, data);
+      if (text) this.output(config.id, session, text);
+    });
+
+    // Warnings and crashes come out on stderr as plain text
+    child.stderr.setEncoding('utf-8');
+    child.stderr.on('data', (data: string) => {
+      this.output(config.id, session, data.replace(/\r?\n/g, '\r\n'));
+    });
+
+    // A missing executable shows up here, followed by 'close'
+    child.on('error', (error: Error) => {
+      this.emitLog('error', config.id, config.projectId, 'SessionManager', `Agent ${config.id.slice(0, 8)} process error: ${error.message}`);
+    });
+
+    child.on('close', (code: number | null) => {
+      const rest = this.streamParser.flush(config.id);
+      if (rest) this.output(config.id, session, rest);
+      this.exited(config.id, session, code ?? 1);
+    });
+
+    if (config.task && !config.resume) {
+      this.submitStreamTurn(config.id, session, config.task);
+      this.emitLog('info', config.id, config.projectId, 'SessionManager', `Task submitted to agent ${config.id.slice(0, 8)}`);
+    }
+  }
+
+  // ── typed submission ─────────────────────────────────────────────────
+
+  private queueInput(agentId: string, session: Session, input: Omit<PendingInput, 'phase' | 'attempts' | 'echoed'>): void {
+    session.inputQueue.push({ ...input, phase: 'ready', attempts: 0, echoed: false });
+    if (session.inputQueue.length === 1) {
+      this.startInput(agentId, session);
+    }
+  }
+
+  /** Begin the submission at the head of the queue. */
+  private startInput(agentId: string, session: Session): void {
+    const input = session.inputQueue[0];
+    if (!input.waitForPrompt) {
+      this.pasteInput(agentId, session, input);
+      return;
+    }
+
+    input.phase = 'ready';
+    this.outputParser.watchInput(agentId, 'ready');
+    // A CLI that waits for input before drawing anything never shows the prompt
+    this.setInputTimer(input, input.submission.readyTimeoutMs, () => {
+      this.outputParser.unwatchInput(agentId);
+      this.emitLog('warn', agentId, session.projectId, 'SessionManager', `No input prompt from agent ${agentId.slice(0, 8)} after ${input.submission.readyTimeoutMs / 1000}s — typing ${describeTurn(input.turn)} anyway`);
+      this.pasteInput(agentId, session, input);
+    });
+  }
+
+  private inputReady(agentId: string): void {
+    const session = this.sessions.get(agentId);
+    const input = session?.inputQueue[0];
+    if (!session || input?.phase !== 'ready') return;
+    this.pasteInput(agentId, session, input);
+  }
+
+  private pasteInput(agentId: string, session: Session, input: PendingInput): void {
+    input.phase = 'echo';
+    input.echoed = false;
+    session.process.write(input.submission.bracketedPaste ? `${PASTE_START}${input.text}${PASTE_END}` : input.text);
+    this.setInputTimer(input, ECHO_TIMEOUT_MS, () => this.pressEnter(agentId, session, input));
+  }
+
+  /** Output after a paste means the CLI has the text: it's safe to press Enter. */
+  private inputEchoed(agentId: string, session: Session): void {
+    const input = session.inputQueue[0];
+    if (input?.phase !== 'echo') return;
+    input.echoed = true;
+    this.pressEnter(agentId, session, input);
+  }
+
+  private pressEnter(agentId: string, session: Session, input: PendingInput): void {
+    input.phase = 'accepted';
+    input.attempts++;
+    session.process.write('\r');
+    this.outputParser.watchInput(agentId, 'accepted');
+    this.setInputTimer(input, input.submission.acceptTimeoutMs, () => this.inputNotAccepted(agentId, session, input));
+  }
+
+  private inputAccepted(agentId: string): void {
+    const session = this.sessions.get(agentId);
+    const input = session?.inputQueue[0];
+    if (!session || input?.phase !== 'accepted') return;
+
+    clearTimeout(input.timer);
+    const retried = input.attempts > 1 ? ` on attempt ${input.attempts}` : '';
+    this.emitLog('info', agentId, session.projectId, 'SessionManager', `${input.turn === 1 ? 'Task' : `Turn ${input.turn}`} submitted to agent ${agentId.slice(0, 8)}${retried}`);
+    this.nextInput(agentId, session);
+  }
+
+  /**
+   * The CLI showed no sign of starting. If the paste was echoed only Enter
+   * went astray, so only Enter is sent again; otherwise the text is too.
+   */
+  private inputNotAccepted(agentId: string, session: Session, input: PendingInput): void {
+    this.outputParser.unwatchInput(agentId);
+
+    if (input.attempts > input.submission.retries) {
+      const reason = `${session.driver.label} didn't start on it after ${input.attempts} attempt${input.attempts === 1 ? '' : 's'}`;
+      this.emitLog('error', agentId, session.projectId, 'SessionManager', `Submission failed: agent ${agentId.slice(0, 8)} didn't accept ${describeTurn(input.turn)} — ${reason}`);
+      this.emit('submission:failed', { agentId, turn: input.turn, reason, timestamp: Date.now() });
+      this.nextInput(agentId, session);
+      return;
+    }
+
+    this.emitLog('warn', agentId, session.projectId, 'SessionManager', `Agent ${agentId.slice(0, 8)} hasn't taken ${describeTurn(input.turn)} — retrying (${input.attempts + 1} of ${input.submission.retries + 1})`);
+    if (input.echoed) {
+      this.pressEnter(agentId, session, input);
+    } else {
+      this.pasteInput(agentId, session, input);
+    }
+  }
+
+  private nextInput(agentId: string, session: Session): void {
+    session.inputQueue.shift();
+    if (session.inputQueue.length > 0) {
+      this.startInput(agentId, session);
+    }
+  }
+
+  private setInputTimer(input: PendingInput, ms: number, callback: () => void): void {
+    clearTimeout(input.timer);
+    input.timer = setTimeout(callback, ms);
+  }
+
+  /** Send a user turn to a stream-json agent and echo it in its terminal. */
+  private submitStreamTurn(agentId: string, session: Session, text: string): void {
+    session.process.write(`${JSON.stringify({ type: 'user', message: { role: 'user', content: text } })}\n`);
+    this.output(agentId, session, `\x1b[1m❯ ${text.replace(/\r?\n/g, '\r\n  ')}\x1b[0m\r\n`);
+    this.streamParser.submitted(agentId);
+  }
+
+  /**
+   * Keystrokes from the terminal for a stream-json agent. There is no TUI to
+   * edit the line, so it is echoed and edited here and sent as a turn on Enter.
+   */
+  private typeIntoStream(agentId: string, session: Session, data: string): void {
+    for (const ch of data.replace(ESCAPE_SEQUENCE, '')) {
+      if (ch === '\r' || ch === '\n') {
+        const line = session.inputLine.trim();
+        session.inputLine = '';
+        this.output(agentId, session, '\r\n');
+        if (line) this.submitStreamTurn(agentId, session, line);
+      } else if (ch === '\x7f' || ch === '\b') {
+        if (session.inputLine) {
+          session.inputLine = session.inputLine.slice(0, -1);
+          this.output(agentId, session, '\b \b');
+        }
+      } else if (ch >= ' ') {
+        session.inputLine += ch;
+        this.output(agentId, session, ch);
+      }
+    }
+  }
+
+  /** Record output and pass it on to attached terminals. */
+  private output(agentId: string, session: Session, data: string): void {
+    // Full output goes to disk; the in-memory buffer only keeps the tail
+    this.transcripts.append(agentId, data);
+
+    // Buffer output for replay when new terminal clients connect
+    session.outputBuffer += data;
+    if (session.outputBuffer.length > MAX_OUTPUT_BUFFER) {
+      session.outputBuffer = session.outputBuffer.slice(-MAX_OUTPUT_BUFFER);
+    }
+
+    // Send raw data to all connected terminal WebSocket clients
+    for (const ws of session.terminalClients) {
+      if (ws.readyState === 1 /* WebSocket.OPEN */) {
+        ws.send(data);
+      }
+    }
+  }
+
+  /** The CLI exited on its own; its driver decides what the exit code means. */
+  private exited(agentId: string, session: Session, exitCode: number): void {
+    // Session was killed — its end is already accounted for
+    if (this.sessions.get(agentId) !== session) return;
+
+    session.completedAt = Date.now();
+    session.status = session.driver.classifyExit(exitCode);
+    this.emitStatus(agentId, session.status);
+    this.emitLog(
+      session.status === 'completed' ? 'info' : 'error',
+      agentId, session.projectId, 'SessionManager',
+      `Agent ${agentId.slice(0, 8)} exited with code ${exitCode}`
+    );
+
+    this.endSession(agentId, session, {
+      status: session.status,
+      reason: 'exited',
+      exitCode,
+      endedAt: session.completedAt,
+    });
+  }
+
+  /**
+   * Retire a session: mark the end on any attached terminals, close them,
+   * and hand the output over to the transcript store.
+   */
+  private endSession(agentId: string, session: Session, endState: TranscriptEndState): void {
+    const banner = formatEndBanner(endState);
+    for (const ws of session.terminalClients) {
+      if (ws.readyState === 1 /* WebSocket.OPEN */) {
+        ws.send(banner);
+      }
+      ws.close(1000, endState.reason === 'exited' ? 'Agent exited' : 'Agent killed');
+    }
+    session.terminalClients.clear();
+
+    // Nothing is left to type into
+    clearTimeout(session.inputQueue[0]?.timer);
+    session.inputQueue = [];
+
+    this.outputParser.clearBuffer(agentId);
+    this.streamParser.clearBuffer(agentId);
+    this.sessions.delete(agentId);
+
+    this.transcripts.close(agentId, endState).catch((error: Error) => {
+      this.emitLog('warn', agentId, session.projectId, 'TranscriptStore', `Failed to finalize transcript for agent ${agentId.slice(0, 8)}: ${error.message}`);
+    });
+  }
+
+  private emitStatus(agentId: string, status: AgentStatus, reason?: TerminalReason): void {
     this.emit('agent:status', {
       agentId,
       status,
       timestamp: Date.now(),
+      ...(reason && { reason }),
     });
   }
 
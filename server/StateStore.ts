@@ -0,0 +1,190 @@
+import { readFile, writeFile, rename, mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { homedir } from 'node:os';
+import type { Agent, AgentStatus, LaunchProfile, ParserTrace, PlanningTask, Project, QueueEntry, UsageSummary } from './types.js';
+import { DEFAULT_PROFILE_ID, createDefaultProfile, normalizeLaunchProfile } from './launchProfiles.js';
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+interface PersistedState {
+  version: number;
+  projects: Record<string, Project>;
+  agents: Record<string, Agent>;
+  profiles?: Record<string, LaunchProfile>;
+  plans?: Record<string, PlanningTask[]>;
+  queue?: QueueEntry[];
+  usage?: UsageSummary;
+  parserFlags?: ParserTrace[];
+}
+
+// ── Constants ────────────────────────────────────────────────────────────
+
+const STATE_VERSION = 1;
+
+// Statuses that mean the agent had already finished when the state was written.
+// Any other status means the PTY died with the server, so it comes back as 'interrupted'.
+const FINISHED_STATUSES = new Set<AgentStatus>(['completed', 'error', 'interrupted']);
+
+// ── StateStore ───────────────────────────────────────────────────────────
+
+/**
+ * Durable store for projects, their mission plans and agents, kept in
+ * ~/.constellation-command/state.json next to auth.json.
+ *
+ * The `projects`, `agents`, `profiles`, `plans` and `usage` records and the
+ * `queue` and `parserFlags` arrays are mutated in place by the server;
+ * call `save()` after every mutation. Writes go to a temp file first and
+ * are renamed over the real file so a crash never leaves half-written JSON.
+ */
+export class StateStore {
+  readonly projects: Record<string, Project> = {};
+  readonly agents: Record<string, Agent> = {};
+  readonly profiles: Record<string, LaunchProfile> = {};
+  readonly plans: Record<string, PlanningTask[]> = {};
+  readonly queue: QueueEntry[] = [];
+  readonly usage: UsageSummary = { byProject: {}, byDay: {} };
+  readonly parserFlags: ParserTrace[] = [];
+
+  private configDir: string;
+  private statePath: string;
+  private writing: Promise<void> | null = null;
+  private dirty = false;
+  // Set when a state file that couldn't be read also couldn't be moved aside
+  private blocked: string | null = null;
+
+  constructor() {
+    this.configDir = join(homedir(), '.constellation-command');
+    this.statePath = join(this.configDir, 'state.json');
+  }
+
+  getStatePath(): string {
+    return this.statePath;
+  }
+
+  /**
+   * Load persisted state from disk. Agents that were still running when the
+   * server went down are marked 'interrupted'. Queued agents never had a
+   * PTY, so they stay queued in their saved order.
+   *
+   * A missing file is a fresh start. A corrupt or unreadable one is renamed
+   * to state.json.corrupt-<timestamp> before anything is saved over it; if
+   * even that fails, nothing is saved this run.
+   */
+  async load(): Promise<{ projects: number; agents: number; interrupted: number }> {
+    await mkdir(this.configDir, { recursive: true });
+
+    let state: PersistedState | null = null;
+    try {
+      const raw = await readFile(this.statePath, 'utf-8');
+      state = JSON.parse(raw) as PersistedState;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        await this.setAside(error as Error);
+      }
+    }
+
+    let interrupted = 0;
+    if (state) {
+      Object.assign(this.projects, state.projects ?? {});
+      const queuedIds = new Set((state.queue ?? []).map((e) => e.agentId));
+      for (const agent of Object.values(state.agents ?? {})) {
+        if (agent.status === 'queued' && queuedIds.has(agent.id)) {
+          this.agents[agent.id] = agent;
+          continue;
+        }
+        if (!FINISHED_STATUSES.has(agent.status)) {
+          agent.status = 'interrupted';
+          agent.completedAt = agent.completedAt ?? Date.now();
+          interrupted++;
+        }
+        // The prompt died with the PTY
+        delete agent.pendingPermission;
+        this.agents[agent.id] = agent;
+      }
+      for (const profile of Object.values(state.profiles ?? {})) {
+        this.profiles[profile.id] = normalizeLaunchProfile(profile);
+      }
+      Object.assign(this.plans, state.plans ?? {});
+      this.queue.push(...(state.queue ?? []).filter((e) => this.agents[e.agentId]?.status === 'queued'));
+      Object.assign(this.usage.byProject, state.usage?.byProject ?? {});
+      Object.assign(this.usage.byDay, state.usage?.byDay ?? {});
+      this.parserFlags.push(...(state.parserFlags ?? []));
+    }
+
+    // The built-in profile is always available
+    if (!this.profiles[DEFAULT_PROFILE_ID]) {
+      this.profiles[DEFAULT_PROFILE_ID] = createDefaultProfile();
+    }
+
+    if (interrupted > 0) {
+      this.save();
+    }
+
+    return {
+      projects: Object.keys(this.projects).length,
+      agents: Object.keys(this.agents).length,
+      interrupted,
+    };
+  }
+
+  /**
+   * Persist the current state. Concurrent calls are coalesced: if a write is
+   * already in flight, one more write is queued to capture the latest state.
+   */
+  save(): void {
+    if (this.blocked) return;
+    if (this.writing) {
+      this.dirty = true;
+      return;
+    }
+
+    this.writing = this.write()
+      .catch((error: Error) => {
+        console.error(`[StateStore] Failed to write ${this.statePath}: ${error.message}`);
+      })
+      .finally(() => {
+        this.writing = null;
+        if (this.dirty) {
+          this.dirty = false;
+          this.save();
+        }
+      });
+  }
+
+  /** Resolve once any pending write has reached disk. */
+  async flush(): Promise<void> {
+    while (this.writing) {
+      await this.writing;
+    }
+  }
+
+  // ── internal ─────────────────────────────────────────────────────────
+
+  /** Move a state file that failed to load out of the way, or stop saving if it can't be moved. */
+  private async setAside(error: Error): Promise<void> {
+    const asidePath = `${this.statePath}.corrupt-${Date.now()}`;
+    try {
+      await rename(this.statePath, asidePath);
+      console.error(`[StateStore] Could not load ${this.statePath} (${error.message}) — moved it to ${asidePath} and starting empty`);
+    } catch (renameError) {
+      this.blocked = `${this.statePath} could not be loaded (${error.message}) or moved aside (${(renameError as Error).message})`;
+      console.error(`[StateStore] ${this.blocked} — state will not be saved until it is fixed`);
+    }
+  }
+
+  private async write(): Promise<void> {
+    const state: PersistedState = {
+      version: STATE_VERSION,
+      projects: this.projects,
+      agents: this.agents,
+      profiles: this.profiles,
+      plans: this.plans,
+      queue: this.queue,
+      usage: this.usage,
+      parserFlags: this.parserFlags,
+    };
+    const tmpPath = `${this.statePath}.${process.pid}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(state, null, 2), { mode: 0o600 });
+    await rename(tmpPath, this.statePath);
+  }
+}
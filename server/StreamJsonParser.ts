@@ -0,0 +1,323 @@
+import { EventEmitter } from 'node:events';
+import type { ParsedEvent, ParsedUsage } from './OutputParser.js';
+import type { AgentStatus } from './types.js';
+
+// ── Stream events ────────────────────────────────────────────────────────
+// With `--output-format stream-json` the CLI writes one JSON object per line
+// instead of drawing its TUI. Only the fields used here are typed.
+
+interface ContentBlock {
+  type: string;                   // 'text' | 'thinking' | 'tool_use' | 'tool_result'
+  text?: string;
+  id?: string;                    // tool_use
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;           // tool_result
+  content?: unknown;
+  is_error?: boolean;
+}
+
+interface StreamEvent {
+  type: string;                   // 'system' | 'assistant' | 'user' | 'result'
+  subtype?: string;
+  model?: string;
+  message?: {
+    id?: string;
+    content?: ContentBlock[] | string;
+    usage?: { input_tokens?: number; output_tokens?: number };
+  };
+  is_error?: boolean;
+  result?: string;
+  duration_ms?: number;
+  total_cost_usd?: number;
+}
+
+// ── Tool → status mapping ────────────────────────────────────────────────
+
+const TOOL_STATUSES: Record<string, AgentStatus> = {
+  Write: 'coding',
+  Edit: 'coding',
+  MultiEdit: 'coding',
+  NotebookEdit: 'coding',
+  Bash: 'executing',
+  Read: 'scanning',
+  Glob: 'scanning',
+  Grep: 'scanning',
+  LS: 'scanning',
+  WebFetch: 'downloading',
+  WebSearch: 'downloading',
+};
+
+// Bash commands that count as a build or a test run, as in the Claude Code driver's patterns
+const BUILD_COMMAND = /\b(?:npm run build|npm run compile|vite build|tsc|webpack|esbuild|rollup|npm install|npm ci|yarn install|pnpm install|pip install)\b/i;
+const TEST_COMMAND = /\b(?:npm run test|npm test|npx playwright|npx jest|pytest|vitest|mocha)\b/i;
+
+// Terminal statuses — don't override these
+const TERMINAL_STATUSES = new Set<AgentStatus>(['completed', 'error']);
+
+interface PendingTool {
+  name: string;
+  build: boolean;                 // A Bash build command, reported when its result arrives
+}
+
+interface StreamState {
+  status: AgentStatus;
+  tools: Map<string, PendingTool>; // tool_use id → tool still waiting for its result
+  countedMessages: Set<string>;     // Assistant message ids whose tokens were counted
+  inputTokens: number;              // Tokens of the turn in progress
+  outputTokens: number;
+  reportedCostUsd: number;          // The CLI reports cost cumulatively per process
+}
+
+// ── StreamJsonParser ─────────────────────────────────────────────────────
+
+/**
+ * Counterpart of OutputParser for agents launched with stream-json output.
+ * Each event maps straight to a status, so there are no idle or decay
+ * timers: a tool call sets the activity, a tool result hands back to the
+ * model, and the `result` event ends the turn.
+ *
+ * Emits the same `agent:activity`, `parsed` and `usage` events as
+ * OutputParser. `parse()` returns the events rendered as terminal text, so
+ * the xterm view and transcripts look much like an interactive session.
+ */
+export class StreamJsonParser extends EventEmitter {
+  private buffers: Map<string, string> = new Map();
+  private states: Map<string, StreamState> = new Map();
+
+  /** Feed raw stdout. Returns the text to show in the agent's terminal. */
+  parse(agentId: string, data: string): string {
+    const lines = ((this.buffers.get(agentId) ?? '') + data).split('\n');
+    this.buffers.set(agentId, lines.pop() ?? '');
+    return lines.map((line) => this.handleLine(agentId, line)).join('');
+  }
+
+  /** Handle a trailing partial line (on exit). */
+  flush(agentId: string): string {
+    const remaining = this.buffers.get(agentId);
+    this.buffers.delete(agentId);
+    return remaining ? this.handleLine(agentId, remaining) : '';
+  }
+
+  /** A new user turn was written to the agent's stdin. */
+  submitted(agentId: string): void {
+    this.transition(agentId, 'running');
+  }
+
+  /** Clean up all state for a removed agent. */
+  clearBuffer(agentId: string): void {
+    this.buffers.delete(agentId);
+    this.states.delete(agentId);
+  }
+
+  // ── internal ─────────────────────────────────────────────────────────
+
+  private state(agentId: string): StreamState {
+    let state = this.states.get(agentId);
+    if (!state) {
+      state = {
+        status: 'running',
+        tools: new Map(),
+        countedMessages: new Set(),
+        inputTokens: 0,
+        outputTokens: 0,
+        reportedCostUsd: 0,
+      };
+      this.states.set(agentId, state);
+    }
+    return state;
+  }
+
+  private handleLine(agentId: string, line: string): string {
+    const trimmed = line.trim();
+    if (!trimmed) return '';
+
+    let event: StreamEvent;
+    try {
+      event = JSON.parse(trimmed) as StreamEvent;
+    } catch {
+      // Not an event — a warning or crash output; show it as it is
+      return `${line}\r\n`;
+    }
+    if (!event || typeof event !== 'object') return '';
+
+    switch (event.type) {
+      case 'system':
+        if (event.subtype !== 'init') return '';
+        this.transition(agentId, 'running');
+        return dim(`● Session started${event.model ? ` · ${event.model}` : ''}`);
+
+      case 'assistant':
+        return this.handleAssistant(agentId, event);
+
+      case 'user':
+        return this.handleToolResults(agentId, event);
+
+      case 'result':
+        return this.handleResult(agentId, event);
+
+      default:
+        return '';
+    }
+  }
+
+  private handleAssistant(agentId: string, event: StreamEvent): string {
+    const state = this.state(agentId);
+    const message = event.message;
+    if (!message) return '';
+
+    // A message arrives as several events sharing one id and one usage figure
+    if (message.usage && message.id && !state.countedMessages.has(message.id)) {
+      state.countedMessages.add(message.id);
+      state.inputTokens += message.usage.input_tokens ?? 0;
+      state.outputTokens += message.usage.output_tokens ?? 0;
+    }
+
+    let out = '';
+    for (const block of contentBlocks(message.content)) {
+      if (block.type === 'thinking') {
+        this.transition(agentId, 'thinking');
+        out += dim('✻ Thinking…');
+      } else if (block.type === 'text' && block.text) {
+        this.transition(agentId, 'running');
+        out += `${block.text.replace(/\r?\n/g, '\r\n')}\r\n`;
+      } else if (block.type === 'tool_use' && block.name) {
+        out += this.handleToolUse(agentId, block);
+      }
+    }
+    return out;
+  }
+
+  private handleToolUse(agentId: string, block: ContentBlock): string {
+    const state = this.state(agentId);
+    const name = block.name!;
+    const input = block.input ?? {};
+    const now = Date.now();
+
+    const filePath = stringField(input, 'file_path') ?? stringField(input, 'notebook_path');
+    const command = stringField(input, 'command');
+
+    let status = TOOL_STATUSES[name] ?? 'running';
+    let build = false;
+    if (name === 'Bash' && command) {
+      if (TEST_COMMAND.test(command)) {
+        status = 'testing';
+      } else if (BUILD_COMMAND.test(command)) {
+        status = 'building';
+        build = true;
+      }
+    }
+    this.transition(agentId, status);
+
+    if (filePath && status === 'coding') {
+      this.emitParsed({ agentId, timestamp: now, event: name === 'Write' ? 'file:created' : 'file:edited', path: filePath });
+    }
+    if (build) {
+      this.emitParsed({ agentId, timestamp: now, event: 'build:started' });
+    }
+    if (block.id) {
+      state.tools.set(block.id, { name, build });
+    }
+
+    const detail = filePath ?? command ?? stringField(input, 'pattern') ?? stringField(input, 'url') ?? stringField(input, 'query') ?? '';
+    return cyan(`⏺ ${name}${detail ? `(${truncate(detail, 120)})` : ''}`);
+  }
+
+  private handleToolResults(agentId: string, event: StreamEvent): string {
+    const state = this.state(agentId);
+    let out = '';
+    for (const block of contentBlocks(event.message?.content)) {
+      if (block.type !== 'tool_result') continue;
+      const tool = block.tool_use_id ? state.tools.get(block.tool_use_id) : undefined;
+      if (block.tool_use_id) state.tools.delete(block.tool_use_id);
+
+      const text = resultText(block.content);
+      const firstLine = text.split('\n').find((l) => l.trim()) ?? '';
+      if (tool?.build) {
+        this.emitParsed(block.is_error
+          ? { agentId, timestamp: Date.now(), event: 'build:error', message: firstLine.trim() }
+          : { agentId, timestamp: Date.now(), event: 'build:succeeded' });
+      }
+
+      const lineCount = text ? text.split('\n').length : 0;
+      const summary = `  ⎿ ${truncate(firstLine.trim(), 100)}${lineCount > 1 ? ` (+${lineCount - 1} lines)` : ''}`;
+      out += block.is_error ? red(summary) : dim(summary);
+    }
+    // The model has the results and is working out what to do next
+    if (out) this.transition(agentId, 'running');
+    return out;
+  }
+
+  private handleResult(agentId: string, event: StreamEvent): string {
+    const state = this.state(agentId);
+    const now = Date.now();
+
+    const cost = Math.max(0, (event.total_cost_usd ?? state.reportedCostUsd) - state.reportedCostUsd);
+    state.reportedCostUsd = Math.max(state.reportedCostUsd, event.total_cost_usd ?? 0);
+    if (cost > 0 || state.inputTokens > 0 || state.outputTokens > 0) {
+      const usage: ParsedUsage = {
+        agentId,
+        timestamp: now,
+        inputTokens: state.inputTokens,
+        outputTokens: state.outputTokens,
+        costUsd: cost,
+      };
+      this.emit('usage', usage);
+    }
+    state.inputTokens = 0;
+    state.outputTokens = 0;
+    state.tools.clear();
+
+    if (!event.is_error) {
+      this.emitParsed({ agentId, timestamp: now, event: 'task:completed' });
+    }
+    this.transition(agentId, 'waiting');
+
+    const seconds = event.duration_ms !== undefined ? ` in ${(event.duration_ms / 1000).toFixed(1)}s` : '';
+    const costLabel = cost > 0 ? ` · $${cost.toFixed(4)}` : '';
+    return event.is_error
+      ? red(`✻ Turn failed${seconds}${event.result ? `: ${truncate(event.result, 200)}` : ''}`)
+      : green(`✻ Done${seconds}${costLabel}`);
+  }
+
+  private transition(agentId: string, status: AgentStatus): void {
+    const state = this.state(agentId);
+    if (state.status === status || TERMINAL_STATUSES.has(state.status)) return;
+    state.status = status;
+    this.emit('agent:activity', { agentId, state: status });
+  }
+
+  private emitParsed(evt: ParsedEvent): void {
+    this.emit('parsed', evt);
+  }
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function contentBlocks(content: ContentBlock[] | string | undefined): ContentBlock[] {
+  if (Array.isArray(content)) return content.filter((b) => b && typeof b === 'object');
+  return typeof content === 'string' ? [{ type: 'text', text: content }] : [];
+}
+
+function resultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.map((c) => (c && typeof c === 'object' && typeof c.text === 'string' ? c.text : '')).join('\n');
+  }
+  return '';
+}
+
+function stringField(input: Record<string, unknown>, key: string): string | undefined {
+  const value = input[key];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function truncate(str: string, max: number): string {
+  const flat = str.replace(/\s*\n\s*/g, ' ');
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
+
+const dim = (text: string) => `\x1b[2m${text}\x1b[0m\r\n`;
+const cyan = (text: string) => `\x1b[36m${text}\x1b[0m\r\n`;
+const green = (text: string) => `\x1b[32m${text}\x1b[0m\r\n`;
+const red = (text: string) => `\x1b[31m${text}\x1b[0m\r\n`;
@@ -0,0 +1,277 @@
+import { createWriteStream, mkdirSync, existsSync, openSync, readSync, fstatSync, closeSync, type WriteStream } from 'node:fs';
+import { readFile, writeFile, access, open as openFile, constants } from 'node:fs/promises';
+import { join } from 'node:path';
+import { homedir } from 'node:os';
+import type { AgentStatus, TerminalReason } from './types.js';
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+export interface TranscriptEndState {
+  status: AgentStatus;
+  reason: TerminalReason;
+  exitCode?: number;
+  endedAt: number;
+}
+
+export interface RecordingOptions {
+  cols: number;
+  rows: number;
+  title?: string;
+}
+
+interface Recording {
+  log: WriteStream;
+  cast: WriteStream;
+  /** Wall-clock time the current session started recording. */
+  startedAt: number;
+  /** Seconds already on the cast timeline from earlier sessions. */
+  offset: number;
+}
+
+// ── TranscriptStore ──────────────────────────────────────────────────────
+
+/**
+ * Full PTY output for every agent, kept on disk under
+ * ~/.constellation-command/transcripts/. Unlike the in-memory scrollback
+ * buffer this is never truncated, and it outlives the session so finished
+ * agents can still be reviewed.
+ *
+ *   <agentId>.log   raw output, appended across resumes
+ *   <agentId>.cast  the same output as an asciicast v2 recording
+ *   <agentId>.json  end state of the most recent session
+ *
+ * Parser events are written into the cast as markers, and operator input
+ * as input events so `npm run replay -- record` can follow the session past
+ * a permission prompt. Input may hold secrets, so it never leaves the
+ * server: `readRecording`, which serves downloads, drops it. A resumed agent
+ * continues its existing recording: the timeline picks up where the
+ * previous session stopped and a "resumed" marker is added.
+ */
+export class TranscriptStore {
+  private dir: string;
+  private recordings: Map<string, Recording> = new Map();
+
+  constructor() {
+    this.dir = join(homedir(), '.constellation-command', 'transcripts');
+  }
+
+  /** Start (or continue) recording output for an agent. */
+  open(agentId: string, options: RecordingOptions): void {
+    if (this.recordings.has(agentId)) return;
+    mkdirSync(this.dir, { recursive: true });
+
+    const castPath = this.castPath(agentId);
+    const continuing = existsSync(castPath);
+    const offset = continuing ? lastEventTime(castPath) : 0;
+
+    const recording: Recording = {
+      log: this.createStream(agentId, this.logPath(agentId)),
+      cast: this.createStream(agentId, castPath),
+      startedAt: Date.now(),
+      offset,
+    };
+    this.recordings.set(agentId, recording);
+
+    if (continuing) {
+      this.writeEvent(recording, 'm', 'resumed');
+      this.writeEvent(recording, 'r', `${options.cols}x${options.rows}`);
+    } else {
+      recording.cast.write(JSON.stringify({
+        version: 2,
+        width: options.cols,
+        height: options.rows,
+        timestamp: Math.floor(recording.startedAt / 1000),
+        title: options.title,
+        env: { TERM: 'xterm-256color' },
+      }) + '\n');
+    }
+  }
+
+  append(agentId: string, data: string): void {
+    const recording = this.recordings.get(agentId);
+    if (!recording) return;
+    recording.log.write(data);
+    this.writeEvent(recording, 'o', data);
+  }
+
+  /** Record input the operator sent. Only the replay tool reads it back from disk. */
+  input(agentId: string, data: string): void {
+    const recording = this.recordings.get(agentId);
+    if (!recording) return;
+    this.writeEvent(recording, 'i', data);
+  }
+
+  /** Record a terminal size change. */
+  resize(agentId: string, cols: number, rows: number): void {
+    const recording = this.recordings.get(agentId);
+    if (!recording) return;
+    this.writeEvent(recording, 'r', `${cols}x${rows}`);
+  }
+
+  /**
+   * Add a marker to the recording. Labels are "<event type> <detail>",
+   * e.g. "file:created src/index.ts".
+   */
+  mark(agentId: string, label: string): void {
+    const recording = this.recordings.get(agentId);
+    if (!recording) return;
+    this.writeEvent(recording, 'm', label);
+  }
+
+  /** Stop recording and remember how the session ended. */
+  async close(agentId: string, endState: TranscriptEndState): Promise<void> {
+    const recording = this.recordings.get(agentId);
+    if (recording) {
+      this.recordings.delete(agentId);
+      await Promise.all([
+        new Promise<void>((resolve) => recording.log.end(resolve)),
+        new Promise<void>((resolve) => recording.cast.end(resolve)),
+      ]);
+    }
+    await writeFile(this.metaPath(agentId), JSON.stringify(endState, null, 2), { mode: 0o600 });
+  }
+
+  async has(agentId: string): Promise<boolean> {
+    return canRead(this.logPath(agentId));
+  }
+
+  async read(agentId: string): Promise<string> {
+    return readFile(this.logPath(agentId), 'utf-8');
+  }
+
+  /**
+   * The last `bytes` of the raw output, starting at a line boundary. Empty
+   * when the agent has no transcript.
+   */
+  async readTail(agentId: string, bytes: number): Promise<string> {
+    let file;
+    try {
+      file = await openFile(this.logPath(agentId), 'r');
+    } catch {
+      return '';
+    }
+    try {
+      const { size } = await file.stat();
+      const length = Math.min(size, bytes);
+      const buffer = Buffer.alloc(length);
+      await file.read(buffer, 0, length, size - length);
+      const text = buffer.toString('utf-8');
+      // The first line is cut off unless the whole file was read
+      return length < size ? text.slice(text.indexOf('\n') + 1) : text;
+    } finally {
+      await file.close();
+    }
+  }
+
+  async hasRecording(agentId: string): Promise<boolean> {
+    return canRead(this.castPath(agentId));
+  }
+
+  /**
+   * The asciicast v2 recording for download or playback, including output
+   * recorded so far for a live agent. Input events are left out — anything
+   * typed into the terminal, tokens included, would travel with the file.
+   */
+  async readRecording(agentId: string): Promise<string> {
+    return withoutInput(await readFile(this.castPath(agentId), 'utf-8'));
+  }
+
+  async getEndState(agentId: string): Promise<TranscriptEndState | null> {
+    try {
+      return JSON.parse(await readFile(this.metaPath(agentId), 'utf-8')) as TranscriptEndState;
+    } catch {
+      return null;
+    }
+  }
+
+  // ── internal ─────────────────────────────────────────────────────────
+
+  private writeEvent(recording: Recording, code: 'o' | 'i' | 'r' | 'm', data: string): void {
+    const elapsed = recording.offset + (Date.now() - recording.startedAt) / 1000;
+    recording.cast.write(JSON.stringify([Number(elapsed.toFixed(6)), code, data]) + '\n');
+  }
+
+  private createStream(agentId: string, path: string): WriteStream {
+    const stream = createWriteStream(path, { flags: 'a', mode: 0o600 });
+    stream.on('error', (error) => {
+      console.error(`[TranscriptStore] ${agentId.slice(0, 8)}: ${error.message}`);
+    });
+    return stream;
+  }
+
+  private logPath(agentId: string): string {
+    return join(this.dir, `${sanitizeId(agentId)}.log`);
+  }
+
+  private castPath(agentId: string): string {
+    return join(this.dir, `${sanitizeId(agentId)}.cast`);
+  }
+
+  private metaPath(agentId: string): string {
+    return join(this.dir, `${sanitizeId(agentId)}.json`);
+  }
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+/** Agent IDs come from the client — keep them from escaping the transcript dir. */
+function sanitizeId(agentId: string): string {
+  return agentId.replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+async function canRead(path: string): Promise<boolean> {
+  try {
+    await access(path, constants.R_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Time of the last event in an existing cast file. Only the tail is read —
+ * recordings of long sessions can be large.
+ */
+function lastEventTime(castPath: string): number {
+  const TAIL_BYTES = 64 * 1024;
+  const fd = openSync(castPath, 'r');
+  try {
+    const size = fstatSync(fd).size;
+    const length = Math.min(size, TAIL_BYTES);
+    const buffer = Buffer.alloc(length);
+    readSync(fd, buffer, 0, length, size - length);
+
+    const lines = buffer.toString('utf-8').split('\n').reverse();
+    for (const line of lines) {
+      try {
+        const event = JSON.parse(line) as unknown;
+        if (Array.isArray(event) && typeof event[0] === 'number') return event[0];
+      } catch {
+        // Partial first line of the tail, or the header
+      }
+    }
+    return 0;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/** A cast without its input ('i') events. Event lines are JSON arrays, so `[<time>,"i",` is exact. */
+export function withoutInput(cast: string): string {
+  return cast
+    .split('\n')
+    .filter((line) => !/^\[[\d.e+-]+,\s*"i",/.test(line))
+    .join('\n');
+}
+
+/** ANSI banner appended to a replayed transcript so the end state is obvious. */
+export function formatEndBanner(endState: TranscriptEndState | null, fallbackStatus?: AgentStatus): string {
+  const status = (endState?.status ?? fallbackStatus ?? 'completed').toUpperCase();
+  const details: string[] = [];
+  if (endState?.reason === 'killed') details.push('terminated by operator');
+  if (endState?.reason === 'budget-exceeded') details.push('budget exceeded');
+  if (endState?.exitCode !== undefined) details.push(`exit ${endState.exitCode}`);
+  if (endState?.endedAt) details.push(new Date(endState.endedAt).toLocaleString());
+  const color = status === 'COMPLETED' ? '36' : status === 'ERROR' ? '31' : '33';
+  return `\r\n\x1b[${color}m━━━ SESSION ENDED: ${status}${details.length ? ` · ${details.join(' · ')}` : ''} ━━━\x1b[0m\r\n`;
+}
@@ -0,0 +1,66 @@
+import type { Agent, UsageRecord, UsageSummary, UsageTotals } from './types.js';
+
+// ── UsageLedger ──────────────────────────────────────────────────────────
+
+// Turns kept on each agent; the agent's total still covers all of them
+const MAX_TURNS_PER_AGENT = 200;
+
+// Days of history kept in the per-day totals
+const MAX_DAYS = 90;
+
+export function emptyUsage(): UsageTotals {
+  return { inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+/** Local calendar date of a timestamp, as YYYY-MM-DD. */
+export function usageDay(timestamp: number): string {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/**
+ * Token and cost accounting. Each turn is added to the agent that ran it and
+ * to running totals per project and per day, which are kept after the agent
+ * is dismissed. The summary record belongs to the StateStore and is mutated
+ * in place, as are the agents; call `stateStore.save()` after recording.
+ */
+export class UsageLedger {
+  constructor(private readonly summary: UsageSummary) {}
+
+  all(): UsageSummary {
+    return this.summary;
+  }
+
+  /** Add a turn's usage to the agent, its project and the day. */
+  record(agent: Agent, turn: UsageRecord): UsageTotals {
+    const usage = (agent.usage ??= { total: emptyUsage(), turns: [] });
+    addTo(usage.total, turn);
+    usage.turns.push(turn);
+    if (usage.turns.length > MAX_TURNS_PER_AGENT) {
+      usage.turns.splice(0, usage.turns.length - MAX_TURNS_PER_AGENT);
+    }
+
+    addTo((this.summary.byProject[agent.projectId] ??= emptyUsage()), turn);
+    addTo((this.summary.byDay[usageDay(turn.timestamp)] ??= emptyUsage()), turn);
+    this.pruneDays();
+
+    return usage.total;
+  }
+
+  // ── internal ─────────────────────────────────────────────────────────
+
+  private pruneDays(): void {
+    const days = Object.keys(this.summary.byDay).sort();
+    for (const day of days.slice(0, Math.max(0, days.length - MAX_DAYS))) {
+      delete this.summary.byDay[day];
+    }
+  }
+}
+
+function addTo(totals: UsageTotals, turn: UsageTotals): void {
+  totals.inputTokens += turn.inputTokens;
+  totals.outputTokens += turn.outputTokens;
+  // Round away float drift — costs are printed to four decimals
+  totals.costUsd = Math.round((totals.costUsd + turn.costUsd) * 1e6) / 1e6;
+}
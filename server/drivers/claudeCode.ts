@@ -0,0 +1,167 @@
+import { ACTIVITY_PRIORITY, EVENT_PRIORITY, IDLE_PRIORITY, toRules, type AgentDriver, type OutputRule } from '../AgentDriver.js';
+import type { LaunchProfile } from '../types.js';
+
+// ── Command line ─────────────────────────────────────────────────────────
+
+/** Added to the command line by the permission mode, never stored in `args`. */
+export const SKIP_PERMISSIONS_FLAG = '--dangerously-skip-permissions';
+
+/** Non-interactive mode: JSON events out, JSON user messages in, stdin kept open for later turns. */
+export const STREAM_JSON_FLAGS = ['--print', '--output-format', 'stream-json', '--input-format', 'stream-json', '--verbose'];
+
+/** Full argument list for a launch, before the session flags. */
+export function buildProfileArgs(profile: LaunchProfile): string[] {
+  const args = profile.permissionMode === 'bypass' ? [SKIP_PERMISSIONS_FLAG] : [];
+  if (profile.outputMode === 'stream-json') {
+    args.push(...STREAM_JSON_FLAGS);
+  }
+  args.push(...profile.args);
+  if (profile.model) {
+    args.push('--model', profile.model);
+  }
+  return args;
+}
+
+// ── Regex patterns for detecting Claude Code structured output ───────────
+
+const EVENT_RULES = toRules('claude-code:event', EVENT_PRIORITY, [
+  // File creation
+  { event: 'file:created', regex: /\b(?:Created|Writing|Creating)\b.*?((?:\/[\w.\-]+)+|(?:[\w.\-]+\/[\w.\-/]+))/, path: 1 },
+  // File edit
+  { event: 'file:edited', regex: /\b(?:Edited|Updated|Modified)\b.*?((?:\/[\w.\-]+)+|(?:[\w.\-]+\/[\w.\-/]+))/, path: 1 },
+  // Build started
+  { event: 'build:started', regex: /\b(?:npm run|Building|Compiling)\b/ },
+  // Build success
+  { event: 'build:succeeded', regex: /\b(?:Build succeeded|compiled successfully|Successfully compiled)\b/i },
+  // Build error
+  { event: 'build:error', regex: /(?:^|\s)(?:Error:|error:|failed|FAIL)\b(.*)/, message: 1 },
+  // Task complete
+  { event: 'task:completed', regex: /\b(?:Task completed|Done!|Finished|All done|completed successfully)\b/i },
+]);
+
+// ── Claude Code CLI activity detection ───────────────────────────────────
+// Each pattern maps to a specific AgentStatus. Within a priority, order
+// matters — first match wins.
+// These are checked against ANSI-stripped output lines.
+
+// Patterns that signal the agent has STOPPED working (highest priority)
+const IDLE_RULES = toRules('claude-code:idle', IDLE_PRIORITY, [
+  // "✻ Worked for Xm Ys" — definitive turn completion
+  { status: 'waiting', regex: /Worked for \d+/ },
+  // Cost/token summary — turn just ended
+  { status: 'waiting', regex: /Total cost:|tokens?\s+used|input.*output.*tokens/i },
+  // Bare prompt character — awaiting input
+  { status: 'waiting', regex: /^[>❯]\s*$/ },
+  // Confirmation prompts
+  { status: 'waiting', regex: /\[Y\/n\]|\[y\/N\]|Press Enter|Hit enter/i },
+  // Disconnected
+  { status: 'paused', regex: /\[DISCONNECTED\]|Terminal session ended/i },
+  // Reconnecting
+  { status: 'paused', regex: /\[RECONNECT|RETRY|Reconnecting/i },
+]);
+
+// Patterns that signal the agent IS working (checked when idle, to resume).
+// These are intentionally broad — Claude Code renders tool calls with
+// box-drawing characters (╭─ Read, ├ Edit, etc.), plain text, or various
+// TUI formats. We match tool names loosely, anywhere in the line.
+const ACTIVITY_RULES = toRules('claude-code:activity', ACTIVITY_PRIORITY, [
+  // ── THINKING ──
+  // Claude Code shows "✻ Thinking...", "Thinking...", or just "Thinking" as a status
+  // Require dots or start-of-line/spinner context to avoid matching conversational "thinking"
+  { status: 'thinking', regex: /(?:^|[✻⠋⠙⠹⠸⠼⠴⠦⠧⠇⠏])\s*Thinking/i },
+  { status: 'thinking', regex: /Thinking\.{2,3}/i },
+  { status: 'thinking', regex: /thought for \d+/i },
+
+  // ── CODING — file write/edit operations ──
+  // Tool headers: "╭─ Write", "├ Edit", "│ Edit", etc.
+  { status: 'coding', regex: /[│├╭╰─]\s*(?:Write|Edit|NotebookEdit)\b/ },
+  // Tool names at line start or after whitespace
+  { status: 'coding', regex: /^\s*(?:Write|Edit|NotebookEdit)\b/ },
+  // Tool parameter keywords unique to file editing (old_string/new_string only appear in Edit)
+  { status: 'coding', regex: /\b(?:old_string|new_string)\b/i },
+  // Action confirmations
+  { status: 'coding', regex: /\b(?:Wrote|Updated|Created|Modified)\s+(?:\/|[a-zA-Z].*\.(?:ts|tsx|js|jsx|py|rs|go|css|html|json|md))/i },
+
+  // ── EXECUTING — bash/shell operations ──
+  // Tool header: "╭─ Bash", "├ Bash", etc.
+  { status: 'executing', regex: /[│├╭╰─]\s*Bash\b/ },
+  { status: 'executing', regex: /^\s*Bash\b/ },
+  // Shell prompt indicators
+  { status: 'executing', regex: /^\s*[\$❯]\s+\w/ },
+  // Specific command invocations
+  { status: 'executing', regex: /\b(?:npm run|npx |node |python |pip |git |cargo |make |docker )\b/i },
+
+  // ── SCANNING — reading/searching files ──
+  // Tool headers: "╭─ Read", "├ Glob", "│ Grep", etc.
+  { status: 'scanning', regex: /[│├╭╰─]\s*(?:Read|Glob|Grep)\b/ },
+  { status: 'scanning', regex: /^\s*(?:Read|Glob|Grep)\b/ },
+  // Search result indicators
+  { status: 'scanning', regex: /\b(?:Found \d+ (?:files?|matches?)|No matches)\b/i },
+
+  // ── DOWNLOADING — web operations ──
+  // Tool headers
+  { status: 'downloading', regex: /[│├╭╰─]\s*(?:WebFetch|WebSearch)\b/ },
+  { status: 'downloading', regex: /^\s*(?:WebFetch|WebSearch)\b/ },
+  { status: 'downloading', regex: /\b(?:Fetching URL|Searching the web)\b/i },
+
+  // ── BUILDING — compile/bundle operations ──
+  { status: 'building', regex: /\b(?:npm run build|npm run compile|vite build|tsc|webpack|esbuild|rollup)\b/i },
+  { status: 'building', regex: /\b(?:npm install|npm ci|yarn install|pnpm install|pip install)\b/i },
+  { status: 'building', regex: /\b(?:modules? transformed|built in \d+)/i },
+
+  // ── TESTING — test execution ──
+  { status: 'testing', regex: /\b(?:npm run test|npm test|npx playwright|npx jest|pytest|vitest|mocha)\b/i },
+  { status: 'testing', regex: /\b(?:test:e2e|test:unit|test:integration)\b/i },
+  { status: 'testing', regex: /\b(?:PASS|FAIL|Tests:)\b.*\b(?:test|spec|suite)\b/i },
+  { status: 'testing', regex: /\d+ (?:passed|failed|pending|skipped)/i },
+
+  // ── GENERAL ACTIVE — catch-all tool/activity indicators ──
+  // Other Claude Code tool names
+  { status: 'running', regex: /[│├╭╰─]\s*(?:Task|Skill|AskUser|EnterPlanMode|TodoWrite|SendMessage)\b/ },
+  { status: 'running', regex: /\bTool Result\b/i },
+
+  // Spinner/streaming characters (braille spinners used by many CLIs, Claude's ✻)
+  { status: 'running', regex: /[⠋⠙⠹⠸⠼⠴⠦⠧⠇⠏⣾⣽⣻⢿⡿⣟⣯⣷✻]/ },
+]);
+
+const RULES: OutputRule[] = [...EVENT_RULES, ...IDLE_RULES, ...ACTIVITY_RULES];
+
+// ── Driver ───────────────────────────────────────────────────────────────
+
+/**
+ * The Claude Code CLI. Each agent gets a session id so the conversation can
+ * be resumed, and the task is typed into the TUI once it has drawn.
+ */
+export const claudeCodeDriver: AgentDriver = {
+  id: 'claude-code',
+  label: 'Claude Code',
+
+  spawnCommand(profile, { sessionId, resume }) {
+    const args = buildProfileArgs(profile);
+    args.push(resume ? '--resume' : '--session-id', sessionId);
+    return { command: profile.command, args };
+  },
+
+  // The input box ("> " with its placeholder, or the shortcuts hint under it)
+  // means the TUI takes keystrokes; the "esc to interrupt" spinner or a tool
+  // call means it took the prompt
+  submission: {
+    mode: 'typed',
+    ready: /^[>❯](?:\s|$)|\? for shortcuts/,
+    accepted: /esc to interrupt|^[⏺●]\s*\S/i,
+    bracketedPaste: true,
+    readyTimeoutMs: 10000,
+    acceptTimeoutMs: 5000,
+    retries: 2,
+  },
+  canResume: true,
+  supportsStreamJson: true,
+
+  rules: RULES,
+  // After 8 seconds of no output, assume the agent is waiting for input
+  idleTimeoutMs: 8000,
+  permissionPrompts: true,
+  usageSummaries: true,
+
+  classifyExit: (exitCode) => (exitCode === 0 ? 'completed' : 'error'),
+};
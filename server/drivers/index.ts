@@ -0,0 +1,24 @@
+import type { AgentDriver } from '../AgentDriver.js';
+import type { AgentDriverId } from '../types.js';
+import { claudeCodeDriver } from './claudeCode.js';
+import { shellDriver } from './shell.js';
+import { simulationDriver } from './simulation.js';
+
+// ── Registry ─────────────────────────────────────────────────────────────
+
+export const DEFAULT_DRIVER_ID: AgentDriverId = 'claude-code';
+
+const DRIVERS: Record<AgentDriverId, AgentDriver> = {
+  'claude-code': claudeCodeDriver,
+  shell: shellDriver,
+  simulation: simulationDriver,
+};
+
+export function isDriverId(id: unknown): id is AgentDriverId {
+  return typeof id === 'string' && Object.prototype.hasOwnProperty.call(DRIVERS, id);
+}
+
+/** The driver for an id; unknown or missing ids get the Claude Code driver. */
+export function getDriver(id: AgentDriverId | undefined): AgentDriver {
+  return (id && DRIVERS[id]) || DRIVERS[DEFAULT_DRIVER_ID];
+}
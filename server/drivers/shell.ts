@@ -0,0 +1,62 @@
+import { ACTIVITY_PRIORITY, EVENT_PRIORITY, IDLE_PRIORITY, toRules, type AgentDriver, type OutputRule } from '../AgentDriver.js';
+
+// ── Command line ─────────────────────────────────────────────────────────
+
+/** Replaced by the task in any argument that contains it. */
+export const TASK_PLACEHOLDER = '{task}';
+
+// ── Output patterns ──────────────────────────────────────────────────────
+// Nothing is known about the command's output, so only conventions most
+// tools share are matched: compiler and test-runner summaries, error lines
+// and yes/no questions. Tool names and spinners are left out.
+
+const EVENT_RULES = toRules('shell:event', EVENT_PRIORITY, [
+  { event: 'build:succeeded', regex: /\b(?:Build succeeded|compiled successfully|Successfully compiled)\b/i },
+  { event: 'build:error', regex: /(?:^|\s)(?:Error:|error:|FAIL)\b(.*)/, message: 1 },
+]);
+
+const IDLE_RULES = toRules('shell:idle', IDLE_PRIORITY, [
+  // The command is asking a question
+  { status: 'waiting', regex: /\[Y\/n\]|\[y\/N\]|\(y\/n\)|Press Enter|Hit enter/i },
+]);
+
+const ACTIVITY_RULES = toRules('shell:activity', ACTIVITY_PRIORITY, [
+  { status: 'building', regex: /\b(?:npm run build|npm run compile|vite build|tsc|webpack|esbuild|rollup)\b/i },
+  { status: 'building', regex: /\b(?:npm install|npm ci|yarn install|pnpm install|pip install)\b/i },
+  { status: 'testing', regex: /\b(?:npm run test|npm test|npx playwright|npx jest|pytest|vitest|mocha)\b/i },
+  { status: 'testing', regex: /\d+ (?:passed|failed|pending|skipped)/i },
+]);
+
+const RULES: OutputRule[] = [...EVENT_RULES, ...IDLE_RULES, ...ACTIVITY_RULES];
+
+// ── Driver ───────────────────────────────────────────────────────────────
+
+/**
+ * Any terminal program — another coding agent, a script, a build. The task
+ * goes on the command line: into each argument containing `{task}`, or as
+ * the last argument when none does. The agent counts as running until the
+ * process exits, however quiet it is, and its exit code decides the outcome.
+ */
+export const shellDriver: AgentDriver = {
+  id: 'shell',
+  label: 'Shell command',
+
+  spawnCommand(profile, { task }) {
+    const hasPlaceholder = profile.args.some((a) => a.includes(TASK_PLACEHOLDER));
+    const args = hasPlaceholder
+      ? profile.args.map((a) => a.split(TASK_PLACEHOLDER).join(task))
+      : [...profile.args, ...(task ? [task] : [])];
+    return { command: profile.command, args };
+  },
+
+  submission: { mode: 'argument' },
+  canResume: false,
+  supportsStreamJson: false,
+
+  rules: RULES,
+  idleTimeoutMs: null,
+  permissionPrompts: false,
+  usageSummaries: false,
+
+  classifyExit: (exitCode) => (exitCode === 0 ? 'completed' : 'error'),
+};
@@ -0,0 +1,81 @@
+import { createRequire } from 'node:module';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import type { AgentDriver, TaskSubmission } from '../AgentDriver.js';
+import type { LaunchProfile } from '../types.js';
+import { DEFAULT_SCENARIO } from '../simulation/scenarios.js';
+import { claudeCodeDriver } from './claudeCode.js';
+
+// ── Runner ───────────────────────────────────────────────────────────────
+
+// The runner sits next to this module's build output: runner.ts under tsx, runner.js in dist
+const RUNNER_PATH = fileURLToPath(new URL(
+  `../simulation/runner${import.meta.url.slice(import.meta.url.lastIndexOf('.'))}`,
+  import.meta.url,
+));
+
+// Agents run in their project's directory, where a bare "tsx" wouldn't resolve
+const RUNNER_NODE_ARGS = RUNNER_PATH.endsWith('.ts')
+  ? ['--import', pathToFileURL(createRequire(import.meta.url).resolve('tsx')).href]
+  : [];
+
+/** `[sim:build-error]` anywhere in a task picks that scenario for the launch. */
+const SCENARIO_TAG = /\[sim:([\w.\/-]+)\]/;
+
+// ── Environment ──────────────────────────────────────────────────────────
+
+/**
+ * The scenario named by CC_SIMULATE, when set: "1" or "true" plays the
+ * default scenario, anything else is taken as a scenario name or file.
+ * Undefined when simulation is off.
+ */
+export function readSimulationMode(): string | undefined {
+  const value = process.env.CC_SIMULATE?.trim();
+  if (!value || value === '0' || value === 'false') return undefined;
+  return value === '1' || value === 'true' ? DEFAULT_SCENARIO : value;
+}
+
+/**
+ * How simulated agents take their task. CC_SIMULATE_SUBMISSION=typed has the
+ * runner draw an input prompt and the task typed into it with Claude Code's
+ * submission settings; otherwise the task is passed on the command line.
+ */
+export function readSimulationSubmission(): TaskSubmission {
+  return process.env.CC_SIMULATE_SUBMISSION?.trim() === 'typed' ? claudeCodeDriver.submission : { mode: 'argument' };
+}
+
+/** A launch profile that plays `scenario` instead of running a real CLI. */
+export function simulateProfile(profile: LaunchProfile, scenario: string): LaunchProfile {
+  return { ...profile, driver: 'simulation', command: scenario, args: [], outputMode: 'interactive' };
+}
+
+// ── Driver ───────────────────────────────────────────────────────────────
+
+/**
+ * A scripted stand-in for Claude Code. The profile's command names a
+ * scenario (see simulation/scenarios.ts) and a Node process plays it in the
+ * PTY: the same kind of output, on a realistic schedule, with real files
+ * written into the agent's directory. Claude Code's output rules apply, so
+ * statuses, events, permission prompts and costs come out as they would for
+ * the real CLI, with no network or API key.
+ */
+export const simulationDriver: AgentDriver = {
+  id: 'simulation',
+  label: 'Simulation',
+
+  spawnCommand(profile, { task }) {
+    const scenario = SCENARIO_TAG.exec(task)?.[1] ?? (profile.command || DEFAULT_SCENARIO);
+    const taskArgs = simulationDriver.submission.mode === 'typed' ? ['--typed', scenario] : [scenario, task];
+    return { command: process.execPath, args: [...RUNNER_NODE_ARGS, RUNNER_PATH, ...taskArgs] };
+  },
+
+  submission: readSimulationSubmission(),
+  canResume: false,
+  supportsStreamJson: false,
+
+  rules: claudeCodeDriver.rules,
+  idleTimeoutMs: claudeCodeDriver.idleTimeoutMs,
+  permissionPrompts: true,
+  usageSummaries: true,
+
+  classifyExit: (exitCode) => (exitCode === 0 ? 'completed' : 'error'),
+};
@@ -0,0 +1,103 @@
+import { execFile } from 'node:child_process';
+import { stripAnsi } from './OutputParser.js';
+import type { Agent } from './types.js';
+
+// ── Handoff briefs ───────────────────────────────────────────────────────
+
+// Transcript bytes read for the brief; the cleaned tail is cut to TAIL_LINES
+export const HANDOFF_TAIL_BYTES = 64 * 1024;
+const TAIL_LINES = 40;
+const MAX_LINE_LENGTH = 240;
+const MAX_LISTED_FILES = 50;
+const GIT_TIMEOUT_MS = 5000;
+
+// Lines with nothing to read once the TUI chrome is gone: box borders,
+// spinner frames, the empty input prompt
+const NOISE_LINE = /^[\s─━│┃╭╮╰╯├┤┬┴┼═║╔╗╚╝✻✽✶✳✢·*•❯>]*$/;
+
+export interface HandoffSources {
+  transcriptTail: string;  // Raw end of the predecessor's PTY output
+  gitChanges: string[];    // `git status --porcelain` lines for its directory
+}
+
+/**
+ * The brief a successor gets before its task: how the predecessor ended,
+ * the instructions it was given after the task, the files it changed and
+ * the last of its terminal output. The task itself is not repeated — the
+ * successor's prompt is the brief followed by the same task.
+ *
+ * The successor echoes its prompt, and its parser reads the echo like any
+ * other output. Lines of the old output that `isSignal` says the parser
+ * would act on — costs, file and build events, status changes — are left
+ * out, or the successor would be credited with its predecessor's work.
+ */
+export function buildHandoffBrief(agent: Agent, sources: HandoffSources, isSignal: (line: string) => boolean): string {
+  const parts: string[] = [
+    `Handoff: you are taking over from agent ${agent.id.slice(0, 8)}, which ${describeEnd(agent)}. ` +
+      'It was working on the task below. Carry on from where it stopped — check the current state of the files before redoing any of its work.',
+  ];
+
+  const turns = agent.turns ?? [];
+  if (turns.length > 0) {
+    parts.push(`Instructions it was given after the task:\n${turns.map((t) => `  ${t.number}. ${t.text}`).join('\n')}`);
+  }
+
+  const files = agent.changedFiles ?? [];
+  if (files.length > 0) {
+    const listed = files.slice(-MAX_LISTED_FILES).map((path) => `  - ${path}`);
+    if (files.length > MAX_LISTED_FILES) listed.unshift(`  (${files.length - MAX_LISTED_FILES} earlier files not listed)`);
+    parts.push(`Files it created or edited:\n${listed.join('\n')}`);
+  }
+
+  if (sources.gitChanges.length > 0) {
+    parts.push(`Uncommitted changes in the working directory:\n${sources.gitChanges.slice(0, MAX_LISTED_FILES).map((line) => `  ${line}`).join('\n')}`);
+  }
+
+  const tail = cleanTranscript(sources.transcriptTail).filter((line) => !isSignal(line));
+  if (tail.length > 0) {
+    parts.push(`The end of its terminal output:\n"""\n${tail.join('\n')}\n"""`);
+  }
+
+  parts.push('Its task:');
+  return parts.join('\n\n');
+}
+
+/** `git status --porcelain` lines for `cwd`; none when it isn't a repository. */
+export function readGitChanges(cwd: string): Promise<string[]> {
+  return new Promise((resolve) => {
+    execFile('git', ['status', '--porcelain', '--untracked-files=all'], { cwd, timeout: GIT_TIMEOUT_MS }, (error, stdout) => {
+      resolve(error ? [] : stdout.split('\n').filter((line) => line.trim()));
+    });
+  });
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function describeEnd(agent: Agent): string {
+  switch (agent.status) {
+    case 'completed':
+      return agent.endReason === 'killed' ? 'was terminated by the operator' : 'exited normally';
+    case 'error':
+      return agent.endReason === 'budget-exceeded' ? 'ran out of its time budget' : 'exited with an error';
+    case 'interrupted':
+      return 'was cut off when the server restarted';
+    default:
+      return `was stopped while ${agent.status}`;
+  }
+}
+
+/**
+ * Readable lines from raw PTY output: escape codes removed, each line as it
+ * was last redrawn, TUI chrome dropped and repeated redraws collapsed.
+ */
+function cleanTranscript(raw: string): string[] {
+  const lines: string[] = [];
+  for (const rawLine of stripAnsi(raw).split('\n')) {
+    const redraws = rawLine.split('\r').filter((segment) => segment.trim());
+    // eslint-disable-next-line no-control-regex
+    const line = (redraws[redraws.length - 1] ?? '').replace(/[\x00-\x08\x0b-\x1f\x7f]/g, '').trimEnd();
+    if (NOISE_LINE.test(line) || line === lines[lines.length - 1]) continue;
+    lines.push(line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH)}…` : line);
+  }
+  return lines.slice(-TAIL_LINES);
+}
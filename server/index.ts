@@ -1,4 +1,5 @@
 import { createServer } from 'node:http';
+import { randomUUID } from 'node:crypto';
 import { parse as parseUrl } from 'node:url';
 import { join, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
@@ -7,10 +8,41 @@ import { WebSocketServer, WebSocket } from 'ws';
 import { SessionManager } from './SessionManager.js';
 import { FileWatcher } from './FileWatcher.js';
 import { GitMonitor } from './GitMonitor.js';
-import { authManager, securityHeaders } from './auth.js';
+import { StateStore } from './StateStore.js';
+import { LaunchQueue, readConcurrencyLimits } from './LaunchQueue.js';
+import { MissionPlans, buildTaskPrompt, getTaskLaunchStates } from './MissionPlans.js';
+import { formatEndBanner } from './TranscriptStore.js';
+import { ConflictTracker } from './ConflictTracker.js';
+import { FleetBroadcaster } from './FleetBroadcaster.js';
+import { BudgetMonitor, validateBudget } from './BudgetMonitor.js';
+import { UsageLedger } from './UsageLedger.js';
+import { ParserInspector } from './ParserInspector.js';
+import { buildHandoffBrief, readGitChanges, HANDOFF_TAIL_BYTES } from './handoff.js';
+import { getDriver } from './drivers/index.js';
+import { readSimulationMode, simulateProfile } from './drivers/simulation.js';
+import type { ParsedEvent, ParsedUsage } from './OutputParser.js';
+import {
+  createAgentWorktree,
+  summarizeWorktree,
+  readWorktreeDiff,
+  mergeAgentWorktree,
+  removeAgentWorktree,
+} from './worktrees.js';
+import { authManager, securityHeaders, authMiddleware } from './auth.js';
 import type {
   Agent,
+  AgentBudget,
+  AgentTurn,
+  BudgetKind,
   Project,
+  FileConflict,
+  FleetBroadcast,
+  TerminalReason,
+  LaunchProfile,
+  PermissionDecision,
+  PermissionRequest,
+  ParserTrace,
+  QueueEntry,
   ClientMessage,
   ServerMessage,
   StateSyncMessage,
@@ -23,10 +55,14 @@ import {
   validateProjectPath,
   validateAgentCwd,
 } from './pathSecurity.js';
+import { discoverProjectDirectories, writeProjectMetadata } from './projectDiscovery.js';
+import { DEFAULT_PROFILE_ID, validateLaunchProfile, toProfileRecord } from './launchProfiles.js';
 
 // ── Config ───────────────────────────────────────────────────────────────
 
 const PORT = parseInt(process.env.PORT ?? '3000', 10);
+// CC_SIMULATE: every launch plays this scenario instead of running its profile's CLI
+const SIMULATED_SCENARIO = readSimulationMode();
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
 // ── Express app ──────────────────────────────────────────────────────────
@@ -122,6 +158,47 @@ app.get('/auth/status', (req, res) => {
   }
 });
 
+// ── Agent API routes ─────────────────────────────────────────────────────
+
+// Download an agent's terminal recording as an asciicast v2 file
+// (playable with `asciinema play` or the asciinema web player).
+app.get('/api/agents/:id/recording', authMiddleware, async (req, res) => {
+  const agentId = String(req.params.id);
+  if (!agents[agentId] || !(await sessionManager.transcripts.hasRecording(agentId))) {
+    res.status(404).json({ error: `No recording for agent ${agentId}` });
+    return;
+  }
+
+  try {
+    const cast = await sessionManager.transcripts.readRecording(agentId);
+    res.setHeader('Content-Type', 'application/x-asciicast');
+    res.setHeader('Content-Disposition', `attachment; filename="agent-${agentId.slice(0, 8)}.cast"`);
+    res.send(cast);
+  } catch (error) {
+    res.status(500).json({ error: `Failed to read recording: ${(error as Error).message}` });
+  }
+});
+
+// Download the patch of a worktree agent's changes against the commit its
+// branch started from (uncommitted files included).
+app.get('/api/agents/:id/diff', authMiddleware, async (req, res) => {
+  const agentId = String(req.params.id);
+  const worktree = agents[agentId]?.worktree;
+  if (!worktree) {
+    res.status(404).json({ error: `Agent ${agentId} has no worktree` });
+    return;
+  }
+
+  try {
+    const patch = await readWorktreeDiff(worktree);
+    res.setHeader('Content-Type', 'text/x-diff');
+    res.setHeader('Content-Disposition', `attachment; filename="agent-${agentId.slice(0, 8)}.patch"`);
+    res.send(patch);
+  } catch (error) {
+    res.status(500).json({ error: `Failed to read diff: ${(error as Error).message}` });
+  }
+});
+
 // Serve static files from dist/client in production
 const clientDistPath = join(__dirname, '..', 'dist', 'client');
 app.use(express.static(clientDistPath));
@@ -135,14 +212,25 @@ const httpServer = createServer(app);
 
 // ── State ────────────────────────────────────────────────────────────────
 
-const projects: Record<string, Project> = {};
-const agents: Record<string, Agent> = {};
+// Projects, agents, launch profiles and the launch queue are persisted to
+// ~/.constellation-command/state.json. Call stateStore.save() after every mutation.
+const stateStore = new StateStore();
+const projects: Record<string, Project> = stateStore.projects;
+const agents: Record<string, Agent> = stateStore.agents;
+const profiles: Record<string, LaunchProfile> = stateStore.profiles;
+const launchQueue = new LaunchQueue(stateStore.queue, readConcurrencyLimits());
+const missionPlans = new MissionPlans(stateStore.plans);
+const usageLedger = new UsageLedger(stateStore.usage);
+const parserInspector = new ParserInspector(stateStore.parserFlags);
 
 // ── Core services ────────────────────────────────────────────────────────
 
 const sessionManager = new SessionManager();
 const fileWatcher = new FileWatcher();
 const gitMonitor = new GitMonitor();
+const conflictTracker = new ConflictTracker(agents, projects);
+const budgetMonitor = new BudgetMonitor(agents);
+const fleetBroadcaster = new FleetBroadcaster(agents, (agentId) => sessionManager.isTakingInput(agentId));
 
 // ── WebSocket server (noServer mode — we handle upgrade ourselves) ──────
 
@@ -151,6 +239,9 @@ const wss = new WebSocketServer({ noServer: true });
 // Track clients connected to /ws/events
 const eventClients: Set<WebSocket> = new Set();
 
+// Event clients with the parser inspector open — only they are sent traces
+const traceClients: Set<WebSocket> = new Set();
+
 // ── Broadcast helper ─────────────────────────────────────────────────────
 
 function broadcast(msg: ServerMessage): void {
@@ -162,6 +253,16 @@ function broadcast(msg: ServerMessage): void {
   }
 }
 
+function sendTrace(trace: ParserTrace): void {
+  const msg: ServerMessage = { type: 'parser:trace', payload: { trace } };
+  const payload = JSON.stringify(msg);
+  for (const ws of traceClients) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(payload);
+    }
+  }
+}
+
 let logCounter = 0;
 function broadcastLog(
   level: LogEntry['level'],
@@ -182,22 +283,409 @@ function broadcastLog(
   broadcast({ type: 'log', payload: { entry } });
 }
 
+/** Deterministic palette slot (0-7) for projects that don't specify one. */
+function paletteIndexFor(key: string): number {
+  return Math.abs([...key].reduce((h, c) => ((h << 5) - h) + c.charCodeAt(0), 0)) % 8;
+}
+
 function buildStateSync(): StateSyncMessage {
   return {
     type: 'state:sync',
-    payload: { projects, agents, baseDir: getBaseDirectory() },
+    payload: {
+      projects,
+      agents,
+      profiles,
+      plans: missionPlans.all(),
+      queue: launchQueue.list(),
+      limits: launchQueue.limits,
+      conflicts: conflictTracker.active(),
+      fleet: fleetBroadcaster.recent(),
+      usage: usageLedger.all(),
+      baseDir: getBaseDirectory(),
+    },
   };
 }
 
+/**
+ * Pick the launch profile for a new agent: the one requested, else the
+ * project's default, else the built-in profile. A requested profile that
+ * doesn't exist is an error; a stale project default is not.
+ */
+function resolveLaunchProfile(projectId: string, requestedId?: string): LaunchProfile | null {
+  if (requestedId) {
+    return profiles[requestedId] ?? null;
+  }
+  const projectDefault = projects[projectId]?.defaultProfileId;
+  return (projectDefault && profiles[projectDefault]) || profiles[DEFAULT_PROFILE_ID];
+}
+
+/** Register a new agent with its project. The caller queues it. */
+function createAgent(
+  id: string,
+  projectId: string,
+  task: string,
+  cwd: string,
+  profile: LaunchProfile,
+  budget: AgentBudget | undefined = projects[projectId].defaultBudget,
+): Agent {
+  agents[id] = {
+    id,
+    projectId,
+    task,
+    cwd,
+    status: 'queued',
+    launchedAt: Date.now(),
+    sessionId: randomUUID(),
+    profile: toProfileRecord(profile),
+    ...(budget && { budget: { ...budget } }),
+  };
+  projects[projectId].agents.push(id);
+  return agents[id];
+}
+
+function formatBudget(budget: AgentBudget | undefined): string {
+  const parts = [
+    budget?.maxRuntimeMinutes && `${budget.maxRuntimeMinutes} min runtime`,
+    budget?.maxIdleMinutes && `${budget.maxIdleMinutes} min idle`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'unlimited';
+}
+
+// Agents that have stopped running and may be resumed, merged or dismissed
+const FINISHED_STATUSES = new Set<Agent['status']>(['completed', 'error', 'interrupted']);
+
+// Files remembered per agent for handoff briefs, most recent kept
+const MAX_CHANGED_FILES = 200;
+
+// ── Launch queue ─────────────────────────────────────────────────────────
+
+/** Agents holding a PTY, in total and per project. */
+function countRunningAgents(): { total: number; byProject: Record<string, number> } {
+  const byProject: Record<string, number> = {};
+  let total = 0;
+  for (const agent of Object.values(agents)) {
+    // A finished agent's session is torn down right after its status event.
+    // A 'launched' agent without a session is still setting up its worktree.
+    const holdsSlot = sessionManager.isLive(agent.id) || agent.status === 'launched';
+    if (!holdsSlot || agent.status === 'completed' || agent.status === 'error') continue;
+    total++;
+    byProject[agent.projectId] = (byProject[agent.projectId] ?? 0) + 1;
+  }
+  return { total, byProject };
+}
+
+function broadcastQueue(): void {
+  broadcast({ type: 'queue:update', payload: { queue: launchQueue.list() } });
+}
+
+/** Start every queued agent that fits under the concurrency limits. */
+function drainLaunchQueue(): void {
+  const ready = launchQueue.takeReady(countRunningAgents());
+  if (ready.length === 0) return;
+
+  for (const entry of ready) {
+    startQueuedAgent(entry);
+  }
+  broadcastQueue();
+}
+
+function startQueuedAgent(entry: QueueEntry): void {
+  const agent = agents[entry.agentId];
+  if (!agent) return;
+
+  // Use the agent's profile if it still exists — it may have been edited or
+  // deleted while the agent waited
+  const saved = (agent.profile && profiles[agent.profile.id]) || profiles[DEFAULT_PROFILE_ID];
+  if (agent.profile && !profiles[agent.profile.id]) {
+    broadcastLog('warn', 'AgentManager', `Profile "${agent.profile.name}" no longer exists — agent ${agent.id.slice(0, 8)} uses "${saved.name}"`, agent.id, agent.projectId);
+  }
+  const profile = SIMULATED_SCENARIO ? simulateProfile(saved, SIMULATED_SCENARIO) : saved;
+  agent.profile = toProfileRecord(profile);
+
+  const resume = entry.resumeFrom !== undefined;
+  agent.status = 'launched';
+  agent.runStartedAt = Date.now();
+  delete agent.waitingSince;
+  delete agent.endReason;
+  if (resume) {
+    agent.completedAt = undefined;
+    agent.resumeCount = (agent.resumeCount ?? 0) + 1;
+    if (agent.worktree) {
+      // New work on the branch — it gets summarized and offered again when done
+      delete agent.worktree.diffStat;
+      delete agent.worktree.filesChanged;
+      delete agent.worktree.mergedInto;
+      delete agent.worktree.mergedAt;
+    }
+  } else {
+    agent.launchedAt = Date.now();
+  }
+  stateStore.save();
+
+  if (resume) {
+    broadcast({
+      type: 'agent:resumed',
+      payload: { agentId: agent.id, resumeCount: agent.resumeCount!, timestamp: Date.now() },
+    });
+    broadcastLog('info', 'AgentManager', `Agent ${agent.id.slice(0, 8)} resuming session ${agent.sessionId!.slice(0, 8)}`, agent.id, agent.projectId);
+  } else {
+    broadcastLog('info', 'AgentManager', `Agent ${agent.id.slice(0, 8)} launched for project "${projects[agent.projectId]?.name}"`, agent.id, agent.projectId);
+  }
+
+  // A successor's first prompt is its handoff brief followed by the task
+  const launch = () => sessionManager.launchAgent({
+    id: agent.id,
+    projectId: agent.projectId,
+    task: agent.handoff && !resume ? `${agent.handoff.brief}\n\n${agent.task}` : agent.task,
+    cwd: agent.cwd,
+    sessionId: agent.sessionId!,
+    profile,
+    resume,
+  });
+
+  // Worktree isolation: a fresh launch gets its own branch and checkout first
+  if (!resume && profile.isolation === 'worktree' && !agent.worktree) {
+    prepareWorktree(agent).then(launch, (error: Error) => failLaunch(agent, error.message));
+  } else {
+    launch();
+  }
+}
+
+/** Mark an agent that never got a PTY as failed and free its slot. */
+function failLaunch(agent: Agent, reason: string): void {
+  agent.status = 'error';
+  agent.completedAt = Date.now();
+  stateStore.save();
+
+  broadcastLog('error', 'AgentManager', `Agent ${agent.id.slice(0, 8)} could not start: ${reason}`, agent.id, agent.projectId);
+  broadcast({
+    type: 'agent:status',
+    payload: { agentId: agent.id, status: 'error', timestamp: agent.completedAt },
+  });
+
+  drainLaunchQueue();
+  const planned = missionPlans.findByAgent(agent.id);
+  if (planned) {
+    runMissionSequencer(planned.projectId);
+  }
+}
+
+/**
+ * Put an agent in the queue and start it if there's room. Otherwise it is
+ * announced as queued.
+ */
+function enqueueAgent(agent: Agent, resumeFrom?: Agent['status'], position: 'back' | 'front' = 'back'): void {
+  agent.status = 'queued';
+  launchQueue.enqueue({
+    agentId: agent.id,
+    projectId: agent.projectId,
+    enqueuedAt: Date.now(),
+    ...(resumeFrom && { resumeFrom }),
+  }, position);
+  stateStore.save();
+
+  drainLaunchQueue();
+  if (agent.status !== 'queued') return;
+
+  const running = countRunningAgents();
+  const { maxAgents, maxAgentsPerProject } = launchQueue.limits;
+  broadcast({
+    type: 'agent:status',
+    payload: { agentId: agent.id, status: 'queued', timestamp: Date.now() },
+  });
+  broadcastLog(
+    'info',
+    'LaunchQueue',
+    `Agent ${agent.id.slice(0, 8)} queued at position ${launchQueue.position(agent.id)} — ` +
+      `${running.total}/${maxAgents} running, ${running.byProject[agent.projectId] ?? 0}/${maxAgentsPerProject} in this project`,
+    agent.id,
+    agent.projectId,
+  );
+  broadcastQueue();
+}
+
+/**
+ * Take an agent out of the queue. A queued launch is dropped entirely; a
+ * queued resume goes back to the status it had before.
+ */
+function cancelQueuedAgent(agentId: string): boolean {
+  const entry = launchQueue.remove(agentId);
+  if (!entry) return false;
+  const agent = agents[agentId];
+
+  if (entry.resumeFrom) {
+    if (agent) {
+      agent.status = entry.resumeFrom;
+      broadcast({
+        type: 'agent:status',
+        payload: { agentId, status: entry.resumeFrom, timestamp: Date.now() },
+      });
+    }
+    broadcastLog('info', 'LaunchQueue', `Queued resume of agent ${agentId.slice(0, 8)} cancelled`, agentId, entry.projectId);
+  } else {
+    delete agents[agentId];
+    const project = projects[entry.projectId];
+    if (project) {
+      project.agents = project.agents.filter((id) => id !== agentId);
+    }
+    const releasedPlans = missionPlans.release(agentId);
+    broadcast({ type: 'agent:removed', payload: { agentId } });
+    for (const projectId of releasedPlans) {
+      broadcastPlan(projectId);
+    }
+    broadcastLog('info', 'LaunchQueue', `Queued launch of agent ${agentId.slice(0, 8)} cancelled`, agentId, entry.projectId);
+  }
+
+  stateStore.save();
+  broadcastQueue();
+  return true;
+}
+
+// ── Worktrees ────────────────────────────────────────────────────────────
+
+// Agents whose branch is being merged — dismissing them would pull the
+// worktree out from under git
+const mergingAgents = new Set<string>();
+
+function broadcastWorktree(agent: Agent): void {
+  broadcast({
+    type: 'agent:worktree',
+    payload: { agentId: agent.id, worktree: agent.worktree ?? null, cwd: agent.cwd },
+  });
+}
+
+/** Give an agent its own worktree and branch, and run it there. */
+async function prepareWorktree(agent: Agent): Promise<void> {
+  const worktree = await createAgentWorktree(projects[agent.projectId].cwd, agent.id);
+  agent.worktree = worktree;
+  agent.cwd = worktree.path;
+  stateStore.save();
+
+  broadcastWorktree(agent);
+  broadcastLog('info', 'Worktree', `Agent ${agent.id.slice(0, 8)} working on branch ${worktree.branch} (from ${worktree.baseBranch})`, agent.id, agent.projectId);
+}
+
+/** Summarize a finished agent's branch so the client can offer to merge it. */
+function offerWorktreeMerge(agent: Agent): void {
+  const worktree = agent.worktree!;
+  summarizeWorktree(worktree)
+    .then(({ diffStat, filesChanged }) => {
+      worktree.diffStat = diffStat;
+      worktree.filesChanged = filesChanged;
+      stateStore.save();
+      broadcastWorktree(agent);
+      broadcastLog(
+        filesChanged > 0 ? 'success' : 'info',
+        'Worktree',
+        filesChanged > 0
+          ? `Agent ${agent.id.slice(0, 8)} finished on ${worktree.branch} — ${filesChanged} file(s) changed, ready to merge`
+          : `Agent ${agent.id.slice(0, 8)} finished on ${worktree.branch} with no changes`,
+        agent.id,
+        agent.projectId,
+      );
+    })
+    .catch((error: Error) => {
+      broadcastLog('warn', 'Worktree', `Could not summarize ${worktree.branch}: ${error.message}`, agent.id, agent.projectId);
+    });
+}
+
+// ── Turns ────────────────────────────────────────────────────────────────
+
+/**
+ * Send a live agent another instruction and record it as its next turn.
+ * The caller has checked that the agent can take it.
+ */
+function sendTurn(agent: Agent, text: string): AgentTurn {
+  const turns = agent.turns ?? (agent.turns = []);
+  // The task was turn 1
+  const turn = { number: turns.length + 2, text, sentAt: Date.now() };
+  turns.push(turn);
+  sessionManager.sendPrompt(agent.id, text, turn.number);
+  stateStore.save();
+
+  broadcast({ type: 'agent:prompted', payload: { agentId: agent.id, turn } });
+  broadcastLog('info', 'AgentManager', `Agent ${agent.id.slice(0, 8)} turn ${turn.number}: ${text.length > 80 ? `${text.slice(0, 80)}…` : text}`, agent.id, agent.projectId);
+  return turn;
+}
+
+// ── Mission plans ────────────────────────────────────────────────────────
+
+function broadcastPlan(projectId: string): void {
+  broadcast({ type: 'plan:update', payload: { projectId, tasks: missionPlans.get(projectId) } });
+}
+
+// Scheduled tasks already reported as held, so each is logged once
+const heldTasks = new Set<string>();
+
+/**
+ * Launch every scheduled task in a project whose prerequisites are done.
+ * Tasks held by a failed prerequisite stay scheduled and go ahead if that
+ * prerequisite is resumed and completes.
+ */
+function runMissionSequencer(projectId: string): void {
+  const project = projects[projectId];
+  const tasks = missionPlans.get(projectId);
+  if (!project || !tasks.some((t) => t.scheduled)) return;
+
+  const states = getTaskLaunchStates(tasks, agents);
+  let launched = 0;
+
+  for (const task of tasks) {
+    if (!task.scheduled) continue;
+    const { state, blockers } = states[task.id];
+
+    if (state === 'held') {
+      if (!heldTasks.has(task.id)) {
+        heldTasks.add(task.id);
+        broadcastLog('warn', 'MissionSequencer', `Task "${task.text}" held — prerequisite "${blockers[0].text}" did not complete`, undefined, projectId);
+      }
+      continue;
+    }
+    heldTasks.delete(task.id);
+    if (state !== 'ready') continue;
+
+    // A profile deleted while the task waited falls back to the project default
+    const profile = resolveLaunchProfile(projectId, task.profileId) ?? resolveLaunchProfile(projectId)!;
+    if (task.profileId && !profiles[task.profileId]) {
+      broadcastLog('warn', 'MissionSequencer', `Launch profile for "${task.text}" no longer exists — using "${profile.name}"`, undefined, projectId);
+    }
+
+    const agent = createAgent(randomUUID(), projectId, buildTaskPrompt(project, tasks, task, agents), project.cwd, profile);
+    missionPlans.assign(projectId, task.id, agent.id);
+    // Clients learn about agents they didn't launch themselves from here
+    broadcast({ type: 'agent:created', payload: { agent } });
+    broadcastLog('info', 'MissionSequencer', `Prerequisites of "${task.text}" complete — launching agent ${agent.id.slice(0, 8)}`, agent.id, projectId);
+    enqueueAgent(agent);
+    launched++;
+  }
+
+  if (launched > 0) {
+    stateStore.save();
+    broadcastPlan(projectId);
+  }
+}
+
 // ── Wire up service events → broadcast ──────────────────────────────────
 
-sessionManager.on('agent:status', (data: { agentId: string; status: string; timestamp: number }) => {
+sessionManager.on('agent:status', (data: { agentId: string; status: string; timestamp: number; reason?: TerminalReason }) => {
   // Update local agent state
-  if (agents[data.agentId]) {
-    agents[data.agentId].status = data.status as Agent['status'];
+  const agent = agents[data.agentId];
+  if (agent) {
+    // The idle clock runs for one unbroken stretch of waiting
+    if (data.status === 'waiting' && agent.status !== 'waiting') {
+      agent.waitingSince = data.timestamp;
+    } else if (data.status !== 'waiting') {
+      delete agent.waitingSince;
+    }
+    agent.status = data.status as Agent['status'];
+    if (data.status !== 'awaiting-approval') {
+      delete agent.pendingPermission;
+    }
     if (data.status === 'completed' || data.status === 'error') {
-      agents[data.agentId].completedAt = data.timestamp;
+      agent.completedAt = data.timestamp;
+      if (data.reason) agent.endReason = data.reason;
     }
+    stateStore.save();
   }
 
   broadcastLog(
@@ -214,18 +702,78 @@ sessionManager.on('agent:status', (data: { agentId: string; status: string; time
       agentId: data.agentId,
       status: data.status as Agent['status'],
       timestamp: data.timestamp,
+      ...(data.reason && { reason: data.reason }),
     },
   });
+
+  // Broadcast orders held for a busy agent go in now that it's idle
+  if (data.status === 'waiting') {
+    fleetBroadcaster.agentIdle(data.agentId);
+  }
+
+  // A slot just freed up
+  if (data.status === 'completed' || data.status === 'error') {
+    drainLaunchQueue();
+    conflictTracker.release(data.agentId);
+    budgetMonitor.release(data.agentId);
+    fleetBroadcaster.release(data.agentId);
+
+    if (agents[data.agentId]?.worktree) {
+      offerWorktreeMerge(agents[data.agentId]);
+    }
+
+    // Dependents of a planned task may now launch (or be held)
+    const planned = missionPlans.findByAgent(data.agentId);
+    if (planned) {
+      runMissionSequencer(planned.projectId);
+    }
+  }
 });
 
 sessionManager.on('log', (data: { level: string; agentId: string; projectId: string; source: string; message: string }) => {
   broadcastLog(data.level as LogEntry['level'], data.source, data.message, data.agentId, data.projectId);
 });
 
-sessionManager.outputParser.on('parsed', (evt) => {
+sessionManager.outputParser.on('permission:request', ({ agentId, request }: { agentId: string; request: PermissionRequest }) => {
+  const agent = agents[agentId];
+  if (!agent) return;
+  agent.pendingPermission = request;
+  stateStore.save();
+
+  broadcastLog('warn', 'PermissionGate', `Agent ${agentId.slice(0, 8)} requests ${request.tool}${request.detail ? `: ${request.detail}` : ''}`, agentId, agent.projectId);
+  broadcast({
+    type: 'agent:permission-request',
+    payload: { agentId, request },
+  });
+});
+
+sessionManager.outputParser.on('permission:resolved', (data: { agentId: string; requestId: string; decision?: PermissionDecision; timestamp: number }) => {
+  const agent = agents[data.agentId];
+  if (agent?.pendingPermission?.requestId === data.requestId) {
+    delete agent.pendingPermission;
+    stateStore.save();
+  }
+  broadcast({
+    type: 'agent:permission-resolved',
+    payload: data,
+  });
+});
+
+sessionManager.outputParser.on('trace', (trace: ParserTrace) => {
+  parserInspector.record(trace);
+  sendTrace(trace);
+});
+
+sessionManager.on('parsed', (evt: ParsedEvent) => {
   const { event, agentId, timestamp, path, message } = evt;
 
   if (event === 'file:created' || event === 'file:edited') {
+    conflictTracker.recordParsed(agentId, path ?? '', timestamp);
+    const agent = agents[agentId];
+    if (agent && path && !agent.changedFiles?.includes(path)) {
+      agent.changedFiles = [...(agent.changedFiles ?? []), path].slice(-MAX_CHANGED_FILES);
+      stateStore.save();
+    }
     broadcast({
       type: event as 'file:created' | 'file:edited',
       payload: { agentId, path: path ?? '', timestamp },
@@ -243,13 +791,78 @@ sessionManager.outputParser.on('parsed', (evt) => {
   }
 });
 
+sessionManager.on('submission:failed', (data: { agentId: string; turn: number; reason: string; timestamp: number }) => {
+  const agent = agents[data.agentId];
+  if (!agent) return;
+  const turn = agent.turns?.find((t) => t.number === data.turn);
+  if (turn) {
+    turn.failed = data.reason;
+    stateStore.save();
+  }
+  fleetBroadcaster.submissionFailed(data.agentId, data.turn, data.reason);
+  broadcast({ type: 'agent:submission-failed', payload: data });
+});
+
+fleetBroadcaster.on('fleet:deliver', (data: { broadcastId: string; agentId: string; text: string }) => {
+  const agent = agents[data.agentId];
+  if (!agent || !sessionManager.isLive(data.agentId)) return;
+  const turn = sendTurn(agent, data.text);
+  fleetBroadcaster.delivered(data.broadcastId, data.agentId, turn.number);
+});
+
+fleetBroadcaster.on('fleet:update', (broadcasts: FleetBroadcast[]) => {
+  broadcast({ type: 'fleet:update', payload: { broadcasts } });
+});
+
+sessionManager.on('usage', (usage: ParsedUsage) => {
+  const agent = agents[usage.agentId];
+  if (!agent) return;
+  const { agentId, ...turn } = usage;
+  const total = usageLedger.record(agent, turn);
+  stateStore.save();
+  broadcastLog(
+    'info', 'UsageMeter',
+    `Agent ${agentId.slice(0, 8)} turn: ${turn.inputTokens} in / ${turn.outputTokens} out tokens, $${turn.costUsd.toFixed(4)}`,
+    agentId, agent.projectId,
+  );
+  broadcast({
+    type: 'usage:update',
+    payload: { agentId, turn, total, summary: usageLedger.all() },
+  });
+});
+
 fileWatcher.on('fs:change', (data) => {
+  conflictTracker.recordFsChange(data.projectId, data.path, data.timestamp);
   broadcast({
     type: 'fs:change',
     payload: data,
   });
 });
 
+conflictTracker.on('conflict:detected', (conflict: FileConflict) => {
+  const [first, second] = conflict.agentIds.map((id) => id.slice(0, 8));
+  broadcastLog('warn', 'ConflictDetector', `Agents ${first} and ${second} both edited ${conflict.path}`, conflict.agentIds[1], conflict.projectId);
+  broadcast({
+    type: 'conflict:detected',
+    payload: { conflict },
+  });
+});
+
+budgetMonitor.on('budget:warning', (data: { agentId: string; kind: BudgetKind; limitMinutes: number; remainingMs: number }) => {
+  const agent = agents[data.agentId];
+  if (!agent) return;
+  const left = Math.max(1, Math.round(data.remainingMs / 60_000));
+  broadcastLog('warn', 'BudgetMonitor', `Agent ${data.agentId.slice(0, 8)} has ${left} min of its ${data.limitMinutes} min ${data.kind} budget left`, data.agentId, agent.projectId);
+  broadcast({ type: 'budget:warning', payload: data });
+});
+
+budgetMonitor.on('budget:exceeded', (data: { agentId: string; kind: BudgetKind; limitMinutes: number }) => {
+  const agent = agents[data.agentId];
+  if (!agent) return;
+  broadcastLog('error', 'BudgetMonitor', `Agent ${data.agentId.slice(0, 8)} exceeded its ${data.limitMinutes} min ${data.kind} budget — terminating`, data.agentId, agent.projectId);
+  sessionManager.killSession(data.agentId, 'budget-exceeded');
+});
+
 gitMonitor.on('git:status', (data) => {
   broadcast({
     type: 'git:status',
@@ -257,6 +870,67 @@ gitMonitor.on('git:status', (data) => {
   });
 });
 
+// Without these listeners an 'error' emit would throw and take the server down
+gitMonitor.on('error', ({ projectId, error }: { projectId: string; error: Error }) => {
+  console.warn(`[GitMonitor] ${projectId}: ${error.message}`);
+});
+
+fileWatcher.on('error', ({ projectId, error }: { projectId: string; error: unknown }) => {
+  console.warn(`[FileWatcher] ${projectId}: ${error instanceof Error ? error.message : String(error)}`);
+});
+
+// ── Parser rules ─────────────────────────────────────────────────────────
+
+sessionManager.parserRules.on('loaded', ({ file, projectId, count }: { file: string; projectId?: string; count: number }) => {
+  broadcastLog('info', 'ParserRules', `${count} parser rule(s) in effect from ${file}`, undefined, projectId);
+});
+
+sessionManager.parserRules.on('error', ({ file, projectId, message }: { file: string; projectId?: string; message: string }) => {
+  broadcastLog('error', 'ParserRules', `${file} not loaded — ${message}`, undefined, projectId);
+});
+
+// ── Project discovery ────────────────────────────────────────────────────
+
+/**
+ * Scan the base directory and adopt every project folder that isn't
+ * registered yet. Returns the number of newly adopted projects.
+ */
+async function discoverProjects(): Promise<number> {
+  const known = new Set(Object.values(projects).map((p) => p.cwd));
+  const discovered = await discoverProjectDirectories();
+  let adopted = 0;
+
+  for (const dir of discovered) {
+    if (known.has(dir.cwd)) continue;
+
+    const id = randomUUID();
+    const name = dir.metadata.name ?? dir.dirName;
+    projects[id] = {
+      id,
+      name,
+      description: dir.metadata.description ?? '',
+      cwd: dir.cwd,
+      status: 'active',
+      agents: [],
+      paletteIndex: dir.metadata.paletteIndex ?? paletteIndexFor(dir.dirName),
+    };
+
+    fileWatcher.watch(id, dir.cwd);
+    sessionManager.parserRules.watchProject(id, dir.cwd);
+    if (dir.isGitRepo) {
+      gitMonitor.startMonitoring(id, dir.cwd);
+    }
+
+    broadcastLog('info', 'ProjectManager', `Discovered project "${name}" at ${dir.cwd}`, undefined, id);
+    adopted++;
+  }
+
+  if (adopted > 0) {
+    stateStore.save();
+  }
+  return adopted;
+}
+
 // ── Handle HTTP upgrade → route to correct WS path ──────────────────────
 
 httpServer.on('upgrade', (request, socket, head) => {
@@ -297,11 +971,9 @@ httpServer.on('upgrade', (request, socket, head) => {
 
 // ── Terminal WS handler ──────────────────────────────────────────────────
 
-function handleTerminalConnection(ws: WebSocket, agentId: string): void {
-  const ptyInstance = sessionManager.getSession(agentId);
-
-  if (!ptyInstance) {
-    ws.close(1008, `No active session for agent ${agentId}`);
+async function handleTerminalConnection(ws: WebSocket, agentId: string): Promise<void> {
+  if (!sessionManager.isLive(agentId)) {
+    await replayTranscript(ws, agentId);
     return;
   }
 
@@ -319,6 +991,33 @@ function handleTerminalConnection(ws: WebSocket, agentId: string): void {
   });
 }
 
+/**
+ * Serve a finished agent's transcript read-only. Input from the client is
+ * ignored and the socket is closed once the transcript has been sent.
+ */
+async function replayTranscript(ws: WebSocket, agentId: string): Promise<void> {
+  const { transcripts } = sessionManager;
+  if (!(await transcripts.has(agentId))) {
+    ws.close(1008, `No active session for agent ${agentId}`);
+    return;
+  }
+
+  try {
+    const [output, endState] = await Promise.all([
+      transcripts.read(agentId),
+      transcripts.getEndState(agentId),
+    ]);
+    if (ws.readyState !== WebSocket.OPEN) return;
+
+    ws.send('\x1b[2m[ARCHIVED TRANSCRIPT — read-only]\x1b[0m\r\n');
+    ws.send(output);
+    ws.send(formatEndBanner(endState, agents[agentId]?.status));
+    ws.close(1000, 'Transcript complete');
+  } catch (error) {
+    ws.close(1011, `Failed to read transcript: ${(error as Error).message}`);
+  }
+}
+
 // ── Events WS handler ───────────────────────────────────────────────────
 
 function handleEventsConnection(ws: WebSocket): void {
@@ -335,20 +1034,22 @@ function handleEventsConnection(ws: WebSocket): void {
       return; // ignore malformed messages
     }
 
-    handleClientMessage(msg);
+    handleClientMessage(msg, ws);
   });
 
   ws.on('close', () => {
     eventClients.delete(ws);
+    traceClients.delete(ws);
   });
 }
 
 // ── Client message dispatcher ────────────────────────────────────────────
 
-async function handleClientMessage(msg: ClientMessage): Promise<void> {
+async function handleClientMessage(msg: ClientMessage, ws: WebSocket): Promise<void> {
   switch (msg.type) {
     case 'agent:launch': {
-      const { id, projectId, task, cwd } = msg.payload;
+      const { id, projectId, cwd, profileId, taskId, budget } = msg.payload;
+      let { task } = msg.payload;
 
       const projectCwd = projects[projectId]?.cwd;
       if (!projectCwd) {
@@ -370,27 +1071,528 @@ async function handleClientMessage(msg: ClientMessage): Promise<void> {
         break;
       }
 
-      // Register agent in state
-      agents[id] = {
-        id,
-        projectId,
-        task,
-        cwd,
-        status: 'launched',
-        launchedAt: Date.now(),
-      };
+      const profile = resolveLaunchProfile(projectId, profileId);
+      if (!profile) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: `Launch profile "${profileId}" not found`, context: 'agent:launch' },
+        });
+        broadcast({ type: 'agent:removed', payload: { agentId: id } });
+        break;
+      }
+
+      const budgetCheck = validateBudget(budget);
+      if (!budgetCheck.valid) {
+        broadcast({ type: 'validation:error', payload: { message: budgetCheck.reason, context: 'agent:launch' } });
+        broadcast({ type: 'agent:removed', payload: { agentId: id } });
+        break;
+      }
+
+      // Launches for a plan task get their prompt from the plan, and a task
+      // runs at most one agent at a time
+      if (taskId) {
+        const planTask = missionPlans.find(projectId, taskId);
+        const reason = !planTask
+          ? `Task "${taskId}" not found in the mission plan`
+          : planTask.agentId && agents[planTask.agentId]
+          ? `Task "${planTask.text}" already has agent ${planTask.agentId.slice(0, 8)}`
+          : null;
+        if (reason) {
+          broadcast({ type: 'validation:error', payload: { message: reason, context: 'agent:launch' } });
+          // Drop the placeholder the launching client added
+          broadcast({ type: 'agent:removed', payload: { agentId: id } });
+          break;
+        }
+        task = buildTaskPrompt(projects[projectId], missionPlans.get(projectId), planTask!, agents);
+      }
 
-      // Add agent to project
-      projects[projectId].agents.push(id);
+      // A launch without a budget falls back to the project default
+      const agent = budget === undefined
+        ? createAgent(id, projectId, task, cwd, profile)
+        : createAgent(id, projectId, task, cwd, profile, budgetCheck.budget);
+      if (taskId) {
+        missionPlans.assign(projectId, taskId, id);
+        broadcastPlan(projectId);
+      }
 
-      broadcastLog('info', 'AgentManager', `Agent ${id.slice(0, 8)} launched for project "${projects[projectId].name}"`, id, projectId);
-      sessionManager.launchAgent({ id, projectId, task, cwd });
+      // Starts now if under the concurrency limits, otherwise waits its turn
+      enqueueAgent(agent);
+      break;
+    }
+
+    case 'agent:resume': {
+      const { agentId } = msg.payload;
+      const agent = agents[agentId];
+
+      if (!agent || !agent.sessionId) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: `Agent "${agentId}" has no session to resume`, context: 'agent:resume' },
+        });
+        break;
+      }
+
+      if (agent.status !== 'completed' && agent.status !== 'error' && agent.status !== 'interrupted') {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: `Agent ${agentId.slice(0, 8)} is still running`, context: 'agent:resume' },
+        });
+        break;
+      }
+
+      const driver = getDriver(agent.profile?.driver);
+      if (!driver.canResume) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: `Agent ${agentId.slice(0, 8)} runs under the ${driver.label} driver, which can't resume a session`, context: 'agent:resume' },
+        });
+        break;
+      }
+
+      const projectCwd = projects[agent.projectId]?.cwd;
+      const validation = projectCwd
+        ? await validateAgentCwd(agent.cwd, projectCwd)
+        : { valid: false, reason: `Project "${agent.projectId}" not found` };
+      if (!validation.valid) {
+        broadcastLog('warn', 'PathSecurity', `Agent resume blocked: ${validation.reason}`, agentId, agent.projectId);
+        broadcast({
+          type: 'validation:error',
+          payload: { message: validation.reason!, context: 'agent:resume' },
+        });
+        break;
+      }
+
+      // Resumes count against the concurrency limits like launches
+      enqueueAgent(agent, agent.status);
+      break;
+    }
+
+    case 'agent:prompt': {
+      const { agentId } = msg.payload;
+      const text = typeof msg.payload.text === 'string' ? msg.payload.text.trim() : '';
+      const agent = agents[agentId];
+
+      if (!agent || !sessionManager.isLive(agentId)) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: `Agent ${agentId.slice(0, 8)} isn't running — resume it first`, context: 'agent:prompt' },
+        });
+        break;
+      }
+
+      if (!text) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: 'Enter an instruction to send', context: 'agent:prompt' },
+        });
+        break;
+      }
+
+      // Typing now would answer the prompt instead
+      if (agent.pendingPermission) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: `Agent ${agentId.slice(0, 8)} is waiting on a permission prompt — answer it first`, context: 'agent:prompt' },
+        });
+        break;
+      }
+
+      sendTurn(agent, text);
+      break;
+    }
+
+    case 'fleet:broadcast': {
+      const { projectId, agentIds } = msg.payload;
+      const text = typeof msg.payload.text === 'string' ? msg.payload.text.trim() : '';
+      const project = projects[projectId];
+
+      if (!project) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: `Project ${projectId} not found`, context: 'fleet:broadcast' },
+        });
+        break;
+      }
+
+      if (!text) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: 'Enter orders to broadcast', context: 'fleet:broadcast' },
+        });
+        break;
+      }
+
+      const wholeProject = !Array.isArray(agentIds) || agentIds.length === 0;
+      const targets = Object.values(agents).filter((a) =>
+        a.projectId === projectId
+        && sessionManager.isLive(a.id)
+        && (wholeProject || agentIds!.includes(a.id)));
+      if (targets.length === 0) {
+        broadcast({
+          type: 'validation:error',
+          payload: {
+            message: wholeProject ? `No agents are running in ${project.name}` : 'None of the chosen agents are running',
+            context: 'fleet:broadcast',
+          },
+        });
+        break;
+      }
+
+      const sent = fleetBroadcaster.broadcast(projectId, text, targets.map((a) => a.id), wholeProject);
+      const held = sent.deliveries.filter((d) => d.status === 'pending').length;
+      broadcastLog(
+        'info', 'FleetCommand',
+        `Orders for ${targets.length} agent(s) in ${project.name}${held > 0 ? ` (${held} held until idle)` : ''}: ${text.length > 80 ? `${text.slice(0, 80)}…` : text}`,
+        undefined, projectId,
+      );
+      break;
+    }
+
+    case 'agent:permission-response': {
+      const { agentId, requestId, decision } = msg.payload;
+      const agent = agents[agentId];
+      const request = agent?.pendingPermission;
+
+      if (decision !== 'approve' && decision !== 'deny' && decision !== 'always') {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: `Unknown permission decision "${decision}"`, context: 'agent:permission-response' },
+        });
+        break;
+      }
+
+      if (!request || request.requestId !== requestId || !sessionManager.answerPermission(agentId, requestId, decision)) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: `Agent ${agentId.slice(0, 8)} has no open permission request`, context: 'agent:permission-response' },
+        });
+        break;
+      }
+
+      const verdict = decision === 'deny' ? 'denied' : decision === 'always' ? 'always allowed' : 'approved';
+      broadcastLog(decision === 'deny' ? 'warn' : 'success', 'PermissionGate', `${request.tool} ${verdict} for agent ${agentId.slice(0, 8)}${request.detail ? `: ${request.detail}` : ''}`, agentId, agent.projectId);
       break;
     }
 
     case 'agent:kill': {
       const { agentId } = msg.payload;
-      sessionManager.killSession(agentId);
+      // Killing an agent that hasn't started just cancels it
+      if (!cancelQueuedAgent(agentId)) {
+        sessionManager.killSession(agentId);
+      }
+      break;
+    }
+
+    case 'worktree:merge': {
+      const { agentId } = msg.payload;
+      const agent = agents[agentId];
+      const project = agent ? projects[agent.projectId] : undefined;
+      const reason = !agent?.worktree || !project
+        ? `Agent ${String(agentId).slice(0, 8)} has no worktree`
+        : !FINISHED_STATUSES.has(agent.status)
+        ? `Agent ${agentId.slice(0, 8)} is still running`
+        : agent.worktree.mergedAt
+        ? `Branch ${agent.worktree.branch} is already merged`
+        : mergingAgents.has(agentId)
+        ? `Branch ${agent.worktree.branch} is already being merged`
+        : null;
+      if (reason) {
+        broadcast({ type: 'validation:error', payload: { message: reason, context: 'worktree:merge' } });
+        break;
+      }
+
+      const worktree = agent.worktree!;
+      const planned = missionPlans.findByAgent(agentId);
+      const message = `${planned?.task.text ?? 'Agent work'} (agent ${agentId.slice(0, 8)})`;
+      mergingAgents.add(agentId);
+      try {
+        worktree.mergedInto = await mergeAgentWorktree(project!.cwd, worktree, message);
+        worktree.mergedAt = Date.now();
+        stateStore.save();
+        broadcastWorktree(agent);
+        broadcastLog('success', 'Worktree', `Branch ${worktree.branch} merged into ${worktree.mergedInto}`, agentId, agent.projectId);
+      } catch (error) {
+        broadcastLog('error', 'Worktree', (error as Error).message, agentId, agent.projectId);
+        broadcast({ type: 'validation:error', payload: { message: (error as Error).message, context: 'worktree:merge' } });
+      } finally {
+        mergingAgents.delete(agentId);
+      }
+      break;
+    }
+
+    case 'agent:dismiss': {
+      const { agentId } = msg.payload;
+      const agent = agents[agentId];
+      const reason = !agent || !FINISHED_STATUSES.has(agent.status)
+        ? `Agent ${String(agentId).slice(0, 8)} is not finished`
+        : mergingAgents.has(agentId)
+        ? `Agent ${agentId.slice(0, 8)} is being merged`
+        : null;
+      if (reason) {
+        broadcast({ type: 'validation:error', payload: { message: reason, context: 'agent:dismiss' } });
+        break;
+      }
+      const project = projects[agent.projectId];
+
+      // Unmerged branches are kept so the work isn't lost with the checkout
+      if (agent.worktree && project) {
+        const { branch, mergedAt } = agent.worktree;
+        try {
+          await removeAgentWorktree(project.cwd, agent.worktree, !!mergedAt);
+          broadcastLog('info', 'Worktree', mergedAt
+            ? `Worktree and merged branch ${branch} removed`
+            : `Worktree removed — unmerged branch ${branch} kept`, agentId, agent.projectId);
+        } catch (error) {
+          broadcastLog('warn', 'Worktree', `Could not remove worktree ${agent.worktree.path}: ${(error as Error).message}`, agentId, agent.projectId);
+        }
+      }
+
+      delete agents[agentId];
+      if (project) {
+        project.agents = project.agents.filter((id) => id !== agentId);
+      }
+      parserInspector.forget(agentId);
+      // A completed task stays done without its agent
+      const releasedPlans = missionPlans.release(agentId, agent.status === 'completed');
+      stateStore.save();
+
+      broadcast({ type: 'agent:removed', payload: { agentId } });
+      for (const projectId of releasedPlans) {
+        broadcastPlan(projectId);
+      }
+      broadcastLog('info', 'AgentManager', `Agent ${agentId.slice(0, 8)} dismissed`, agentId, agent.projectId);
+      break;
+    }
+
+    case 'agent:handoff': {
+      const { agentId } = msg.payload;
+      const agent = agents[agentId];
+      const project = agent ? projects[agent.projectId] : undefined;
+      const taken = Object.values(agents).find((a) => a.handoff?.from === agentId);
+      const reason = !agent || !project
+        ? `Agent ${String(agentId).slice(0, 8)} not found`
+        : agent.status === 'queued'
+        ? `Agent ${agentId.slice(0, 8)} hasn't started — cancel it instead`
+        // Its worktree is still being set up: there is no session to stop yet
+        : agent.status === 'launched' && !sessionManager.isLive(agentId)
+        ? `Agent ${agentId.slice(0, 8)} is still starting — try again once it's running`
+        : taken
+        ? `Agent ${agentId.slice(0, 8)} already handed off to ${taken.id.slice(0, 8)}`
+        : mergingAgents.has(agentId)
+        ? `Agent ${agentId.slice(0, 8)} is being merged`
+        : null;
+      if (reason) {
+        broadcast({ type: 'validation:error', payload: { message: reason, context: 'agent:handoff' } });
+        break;
+      }
+
+      // An unmerged worktree goes to the successor, which carries on in the same checkout
+      const keepsWorktree = !!agent.worktree && !agent.worktree.mergedAt;
+      const cwd = keepsWorktree || !agent.worktree ? agent.cwd : project!.cwd;
+      const validation = await validateAgentCwd(cwd, project!.cwd);
+      if (!validation.valid) {
+        broadcastLog('warn', 'PathSecurity', `Agent handoff blocked: ${validation.reason}`, agentId, agent.projectId);
+        broadcast({ type: 'validation:error', payload: { message: validation.reason!, context: 'agent:handoff' } });
+        break;
+      }
+
+      const [transcriptTail, gitChanges] = await Promise.all([
+        sessionManager.transcripts.readTail(agentId, HANDOFF_TAIL_BYTES),
+        readGitChanges(agent.cwd),
+      ]);
+      // Dismissed or handed off while the brief was being put together
+      if (agents[agentId] !== agent || Object.values(agents).some((a) => a.handoff?.from === agentId)) break;
+      const driver = getDriver(agent.profile?.driver);
+      const brief = buildHandoffBrief(agent, { transcriptTail, gitChanges }, (line) =>
+        sessionManager.outputParser.wouldAct(driver, agent.projectId, line));
+
+      const profile = (agent.profile && profiles[agent.profile.id]) || resolveLaunchProfile(agent.projectId)!;
+      const successor = createAgent(randomUUID(), agent.projectId, agent.task, cwd, profile, agent.budget);
+      successor.handoff = { from: agentId, brief, createdAt: Date.now() };
+      if (keepsWorktree) {
+        successor.worktree = agent.worktree;
+        delete successor.worktree!.diffStat;
+        delete successor.worktree!.filesChanged;
+        delete agent.worktree;
+      }
+      const planned = missionPlans.findByAgent(agentId);
+      if (planned) {
+        missionPlans.assign(planned.projectId, planned.task.id, successor.id);
+        broadcastPlan(planned.projectId);
+      }
+
+      broadcastLog(
+        'info',
+        'AgentManager',
+        `Agent ${agentId.slice(0, 8)} handed off to ${successor.id.slice(0, 8)} — ` +
+          `${agent.changedFiles?.length ?? 0} file(s) changed, ${gitChanges.length} uncommitted`,
+        successor.id,
+        successor.projectId,
+      );
+      // The client didn't create the successor
+      broadcast({ type: 'agent:created', payload: { agent: successor } });
+      if (keepsWorktree) broadcastWorktree(agent);
+
+      // A stuck agent is stopped so the two don't work side by side. The
+      // successor is queued first, at the front, so the slot goes to it
+      // rather than to launches that were already waiting.
+      const stopping = sessionManager.isLive(agentId);
+      enqueueAgent(successor, undefined, stopping ? 'front' : 'back');
+      if (stopping) {
+        broadcastLog('info', 'AgentManager', `Stopping agent ${agentId.slice(0, 8)} to hand off`, agentId, agent.projectId);
+        sessionManager.killSession(agentId);
+      }
+      break;
+    }
+
+    case 'queue:reorder': {
+      const { agentId, index } = msg.payload;
+      if (typeof index !== 'number' || !launchQueue.move(agentId, index)) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: `Agent ${String(agentId).slice(0, 8)} is not queued`, context: 'queue:reorder' },
+        });
+        break;
+      }
+      stateStore.save();
+      broadcastLog('info', 'LaunchQueue', `Agent ${agentId.slice(0, 8)} moved to position ${launchQueue.position(agentId)}`, agentId, agents[agentId]?.projectId);
+      broadcastQueue();
+      break;
+    }
+
+    case 'queue:cancel': {
+      const { agentId } = msg.payload;
+      if (!cancelQueuedAgent(agentId)) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: `Agent ${String(agentId).slice(0, 8)} is not queued`, context: 'queue:cancel' },
+        });
+      }
+      break;
+    }
+
+    case 'plan:add': {
+      const { projectId } = msg.payload;
+      const text = typeof msg.payload.text === 'string' ? msg.payload.text.trim() : '';
+      if (!projects[projectId] || !text) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: !text ? 'Task text is empty' : `Project "${projectId}" not found`, context: 'plan:add' },
+        });
+        break;
+      }
+      missionPlans.add(projectId, text);
+      stateStore.save();
+      broadcastPlan(projectId);
+      break;
+    }
+
+    case 'plan:remove':
+    case 'plan:toggle': {
+      const { projectId, taskId } = msg.payload;
+      const changed = msg.type === 'plan:remove'
+        ? missionPlans.remove(projectId, taskId)
+        : !!missionPlans.toggle(projectId, taskId);
+      if (!changed) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: `Task "${taskId}" not found in the mission plan`, context: msg.type },
+        });
+        break;
+      }
+      stateStore.save();
+      broadcastPlan(projectId);
+      // Checking off or removing a prerequisite can unblock its dependents
+      runMissionSequencer(projectId);
+      break;
+    }
+
+    case 'plan:reorder': {
+      const { projectId, taskId, index } = msg.payload;
+      if (typeof index !== 'number' || !missionPlans.move(projectId, taskId, index)) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: `Task "${taskId}" not found in the mission plan`, context: 'plan:reorder' },
+        });
+        break;
+      }
+      stateStore.save();
+      broadcastPlan(projectId);
+      break;
+    }
+
+    case 'plan:assign': {
+      const { projectId, taskId, agentId } = msg.payload;
+      const agent = agentId ? agents[agentId] : undefined;
+      if (agentId && agent?.projectId !== projectId) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: `Agent ${String(agentId).slice(0, 8)} does not belong to this project`, context: 'plan:assign' },
+        });
+        break;
+      }
+      if (!missionPlans.assign(projectId, taskId, agentId ?? undefined)) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: `Task "${taskId}" not found in the mission plan`, context: 'plan:assign' },
+        });
+        break;
+      }
+      stateStore.save();
+      broadcastPlan(projectId);
+      break;
+    }
+
+    case 'plan:depend': {
+      const { projectId, taskId, prerequisiteId, enabled } = msg.payload;
+      const result = missionPlans.setDependency(projectId, taskId, prerequisiteId, !!enabled);
+      if (!result.valid) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: result.reason, context: 'plan:depend' },
+        });
+        break;
+      }
+      stateStore.save();
+      broadcastPlan(projectId);
+      runMissionSequencer(projectId);
+      break;
+    }
+
+    case 'plan:schedule': {
+      const { projectId, taskIds, scheduled, profileId } = msg.payload;
+      if (!Array.isArray(taskIds)) break;
+      if (scheduled && profileId && !profiles[profileId]) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: `Launch profile "${profileId}" not found`, context: 'plan:schedule' },
+        });
+        break;
+      }
+      const count = missionPlans.schedule(projectId, taskIds, !!scheduled, profileId);
+      if (count === 0) break;
+      stateStore.save();
+      broadcastPlan(projectId);
+      broadcastLog('info', 'MissionSequencer', `${count} task(s) ${scheduled ? 'scheduled to launch when their prerequisites complete' : 'unscheduled'}`, undefined, projectId);
+      runMissionSequencer(projectId);
+      break;
+    }
+
+    case 'plan:import': {
+      const { plans } = msg.payload;
+      const imported: string[] = [];
+      for (const [projectId, tasks] of Object.entries(plans ?? {})) {
+        if (projects[projectId] && Array.isArray(tasks) && missionPlans.import(projectId, tasks, agents)) {
+          imported.push(projectId);
+        }
+      }
+      if (imported.length === 0) break;
+      stateStore.save();
+      broadcastLog('info', 'MissionSequencer', `Imported ${imported.length} mission plan(s) from browser storage`);
+      for (const projectId of imported) {
+        broadcastPlan(projectId);
+        runMissionSequencer(projectId);
+      }
       break;
     }
 
@@ -427,11 +1629,13 @@ async function handleClientMessage(msg: ClientMessage): Promise<void> {
           cwd,
           status: 'active',
           agents: [],
-          paletteIndex: Math.abs([...projectId].reduce((h, c) => ((h << 5) - h) + c.charCodeAt(0), 0)) % 8,
+          paletteIndex: paletteIndexFor(projectId),
         };
+        stateStore.save();
       }
 
       fileWatcher.watch(projectId, cwd);
+      sessionManager.parserRules.watchProject(projectId, cwd);
       break;
     }
 
@@ -478,14 +1682,161 @@ async function handleClientMessage(msg: ClientMessage): Promise<void> {
         agents: [],
         paletteIndex: paletteIndex ?? 0,
       };
+      stateStore.save();
+      // Record name/description in the folder so it can be re-adopted by a rescan
+      await writeProjectMetadata(projectCwd, { name, description, paletteIndex: projects[id].paletteIndex });
       // Start file watcher on the created directory
       fileWatcher.watch(id, projectCwd);
+      sessionManager.parserRules.watchProject(id, projectCwd);
       broadcastLog('success', 'ProjectManager', `Project "${name}" created at ${projectCwd}`, undefined, id);
       // Broadcast updated state
       broadcast(buildStateSync());
       break;
     }
 
+    case 'project:rescan': {
+      const adopted = await discoverProjects();
+      broadcastLog('info', 'ProjectManager', `Rescan complete — ${adopted} new project(s) found`);
+      broadcast(buildStateSync());
+      break;
+    }
+
+    case 'project:setDefaultProfile': {
+      const { projectId, profileId } = msg.payload;
+      const project = projects[projectId];
+      if (!project) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: `Project "${projectId}" not found`, context: 'project:setDefaultProfile' },
+        });
+        break;
+      }
+      if (profileId && !profiles[profileId]) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: `Launch profile "${profileId}" not found`, context: 'project:setDefaultProfile' },
+        });
+        break;
+      }
+
+      if (profileId) {
+        project.defaultProfileId = profileId;
+      } else {
+        delete project.defaultProfileId;
+      }
+      stateStore.save();
+      broadcastLog('info', 'ProjectManager', `Project "${project.name}" default profile → ${profileId ? profiles[profileId].name : 'built-in'}`, undefined, projectId);
+      broadcast(buildStateSync());
+      break;
+    }
+
+    case 'project:setDefaultBudget': {
+      const { projectId } = msg.payload;
+      const project = projects[projectId];
+      if (!project) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: `Project "${projectId}" not found`, context: 'project:setDefaultBudget' },
+        });
+        break;
+      }
+      const result = validateBudget(msg.payload.budget);
+      if (!result.valid) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: result.reason, context: 'project:setDefaultBudget' },
+        });
+        break;
+      }
+
+      if (result.budget) {
+        project.defaultBudget = result.budget;
+      } else {
+        delete project.defaultBudget;
+      }
+      stateStore.save();
+      broadcastLog('info', 'ProjectManager', `Project "${project.name}" default budget → ${formatBudget(result.budget)}`, undefined, projectId);
+      broadcast(buildStateSync());
+      break;
+    }
+
+    case 'profile:save': {
+      const result = validateLaunchProfile(msg.payload.profile);
+      if (!result.valid) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: result.reason, context: 'profile:save' },
+        });
+        break;
+      }
+
+      const { profile } = result;
+      const isNew = !profiles[profile.id];
+      profiles[profile.id] = profile;
+      stateStore.save();
+      broadcastLog('info', 'ProfileManager', `Launch profile "${profile.name}" ${isNew ? 'created' : 'updated'}`);
+      broadcast(buildStateSync());
+      break;
+    }
+
+    case 'profile:delete': {
+      const { profileId } = msg.payload;
+      if (profileId === DEFAULT_PROFILE_ID) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: 'The built-in launch profile cannot be deleted', context: 'profile:delete' },
+        });
+        break;
+      }
+      const profile = profiles[profileId];
+      if (!profile) break;
+
+      delete profiles[profileId];
+      // Projects that defaulted to it fall back to the built-in profile
+      for (const project of Object.values(projects)) {
+        if (project.defaultProfileId === profileId) {
+          delete project.defaultProfileId;
+        }
+      }
+      stateStore.save();
+      broadcastLog('info', 'ProfileManager', `Launch profile "${profile.name}" deleted`);
+      broadcast(buildStateSync());
+      break;
+    }
+
+    case 'parser:subscribe': {
+      traceClients.add(ws);
+      const snapshot: ServerMessage = { type: 'parser:traces', payload: { traces: parserInspector.list() } };
+      ws.send(JSON.stringify(snapshot));
+      break;
+    }
+
+    case 'parser:unsubscribe': {
+      traceClients.delete(ws);
+      break;
+    }
+
+    case 'parser:flag': {
+      const { traceId, falsePositive } = msg.payload;
+      const trace = parserInspector.flag(traceId, falsePositive);
+      if (!trace) {
+        broadcast({
+          type: 'validation:error',
+          payload: { message: 'That transition is no longer kept', context: 'parser:flag' },
+        });
+        break;
+      }
+      stateStore.save();
+      const cause = trace.ruleId ?? (trace.timer ? `${trace.timer} timer` : 'operator input');
+      broadcastLog(
+        'info', 'ParserInspector',
+        `${trace.from} → ${trace.to} (${cause}) ${falsePositive ? 'marked' : 'unmarked'} as a false positive`,
+        trace.agentId, agents[trace.agentId]?.projectId,
+      );
+      sendTrace(trace);
+      break;
+    }
+
     case 'state:request': {
       broadcast(buildStateSync());
       break;
@@ -502,6 +1853,31 @@ async function handleClientMessage(msg: ClientMessage): Promise<void> {
   await ensureBaseDirectory();
   console.log(`Base project directory: ${getBaseDirectory()}`);
 
+  const restored = await stateStore.load();
+  console.log(`State: ${restored.projects} project(s), ${restored.agents} agent(s) restored from ${stateStore.getStatePath()}`);
+  if (restored.interrupted > 0) {
+    console.log(`State: ${restored.interrupted} agent(s) marked interrupted (server stopped while they were running)`);
+  }
+  sessionManager.parserRules.watchGlobal();
+  for (const project of Object.values(projects)) {
+    fileWatcher.watch(project.id, project.cwd);
+    sessionManager.parserRules.watchProject(project.id, project.cwd);
+  }
+
+  const adopted = await discoverProjects();
+  console.log(`Discovery: ${adopted} existing project folder(s) adopted from ${getBaseDirectory()}`);
+
+  const { maxAgents, maxAgentsPerProject } = launchQueue.limits;
+  console.log(`Launch queue: up to ${maxAgents} agent(s), ${maxAgentsPerProject} per project — ${launchQueue.list().length} waiting`);
+  if (SIMULATED_SCENARIO) {
+    console.log(`Simulation: every agent plays the "${SIMULATED_SCENARIO}" scenario instead of running its CLI`);
+  }
+  drainLaunchQueue();
+  budgetMonitor.start();
+  for (const projectId of Object.keys(missionPlans.all())) {
+    runMissionSequencer(projectId);
+  }
+
   httpServer.listen(PORT, '0.0.0.0', () => {
     console.log(`ConstellationCommand server listening on 0.0.0.0:${PORT}`);
   });
@@ -0,0 +1,174 @@
+import { DEFAULT_DRIVER_ID, getDriver, isDriverId } from './drivers/index.js';
+import { SKIP_PERMISSIONS_FLAG } from './drivers/claudeCode.js';
+import { BUILT_IN_SCENARIOS, isScenarioRef } from './simulation/scenarios.js';
+import type { LaunchProfile, LaunchProfileRecord, OutputMode, PermissionMode, WorkspaceIsolation } from './types.js';
+
+// ── Built-in profile ────────────────────────────────────────────────────
+// Always present and not deletable. Matches how agents were launched before
+// profiles existed, so projects without a default keep working unchanged.
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export function createDefaultProfile(): LaunchProfile {
+  return {
+    id: DEFAULT_PROFILE_ID,
+    name: 'Claude Code',
+    driver: 'claude-code',
+    command: 'claude',
+    args: [],
+    env: {},
+    permissionMode: 'bypass',
+    isolation: 'shared',
+    outputMode: 'interactive',
+    cols: 120,
+    rows: 40,
+  };
+}
+
+// ── Validation ──────────────────────────────────────────────────────────
+
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const MIN_COLS = 40;
+const MAX_COLS = 500;
+const MIN_ROWS = 10;
+const MAX_ROWS = 200;
+
+/**
+ * Check a client-supplied profile and return a clean copy. Fields are
+ * type-checked individually since the payload comes straight off the socket.
+ */
+export function validateLaunchProfile(
+  input: unknown,
+): { valid: true; profile: LaunchProfile } | { valid: false; reason: string } {
+  if (!input || typeof input !== 'object') {
+    return { valid: false, reason: 'Profile is required' };
+  }
+  const p = input as Record<string, unknown>;
+
+  if (typeof p.id !== 'string' || !p.id.trim()) {
+    return { valid: false, reason: 'Profile id is required' };
+  }
+  if (typeof p.name !== 'string' || !p.name.trim()) {
+    return { valid: false, reason: 'Profile name is required' };
+  }
+  if (typeof p.command !== 'string' || !p.command.trim()) {
+    return { valid: false, reason: 'Profile command is required' };
+  }
+  if (!Array.isArray(p.args) || p.args.some((a) => typeof a !== 'string')) {
+    return { valid: false, reason: 'Profile args must be a list of strings' };
+  }
+  if (p.model !== undefined && typeof p.model !== 'string') {
+    return { valid: false, reason: 'Profile model must be a string' };
+  }
+
+  const env: Record<string, string> = {};
+  if (p.env !== undefined) {
+    if (!p.env || typeof p.env !== 'object' || Array.isArray(p.env)) {
+      return { valid: false, reason: 'Profile env must be an object' };
+    }
+    for (const [key, value] of Object.entries(p.env)) {
+      if (!ENV_NAME.test(key)) {
+        return { valid: false, reason: `Invalid environment variable name "${key}"` };
+      }
+      if (typeof value !== 'string') {
+        return { valid: false, reason: `Environment variable ${key} must be a string` };
+      }
+      env[key] = value;
+    }
+  }
+
+  const cols = Number(p.cols);
+  const rows = Number(p.rows);
+  if (!Number.isInteger(cols) || cols < MIN_COLS || cols > MAX_COLS) {
+    return { valid: false, reason: `Terminal columns must be between ${MIN_COLS} and ${MAX_COLS}` };
+  }
+  if (!Number.isInteger(rows) || rows < MIN_ROWS || rows > MAX_ROWS) {
+    return { valid: false, reason: `Terminal rows must be between ${MIN_ROWS} and ${MAX_ROWS}` };
+  }
+
+  if (p.driver !== undefined && !isDriverId(p.driver)) {
+    return { valid: false, reason: `Unknown agent driver "${String(p.driver)}"` };
+  }
+  if (p.driver === 'simulation' && !isScenarioRef(p.command.trim())) {
+    return { valid: false, reason: `Simulation profiles need a scenario: ${Object.keys(BUILT_IN_SCENARIOS).join(', ')} or a .yaml/.json file` };
+  }
+  if (p.permissionMode !== undefined && p.permissionMode !== 'bypass' && p.permissionMode !== 'supervised') {
+    return { valid: false, reason: 'Permission mode must be "bypass" or "supervised"' };
+  }
+  if (p.isolation !== undefined && p.isolation !== 'shared' && p.isolation !== 'worktree') {
+    return { valid: false, reason: 'Isolation must be "shared" or "worktree"' };
+  }
+  if (p.outputMode !== undefined && p.outputMode !== 'interactive' && p.outputMode !== 'stream-json') {
+    return { valid: false, reason: 'Output mode must be "interactive" or "stream-json"' };
+  }
+  if (p.outputMode === 'stream-json' && !getDriver(p.driver as LaunchProfile['driver']).supportsStreamJson) {
+    return { valid: false, reason: `Stream JSON output needs the ${getDriver(DEFAULT_DRIVER_ID).label} driver` };
+  }
+
+  const model = typeof p.model === 'string' && p.model.trim() ? p.model.trim() : undefined;
+  const profile = normalizeLaunchProfile({
+    id: p.id.trim(),
+    name: p.name.trim(),
+    driver: p.driver as LaunchProfile['driver'],
+    command: p.command.trim(),
+    args: (p.args as string[]).filter((a) => a.length > 0),
+    ...(model && { model }),
+    env,
+    permissionMode: p.permissionMode as PermissionMode,
+    isolation: p.isolation as WorkspaceIsolation,
+    outputMode: p.outputMode as OutputMode,
+    cols,
+    rows,
+  });
+  // There is no prompt to answer without the TUI. Checked after normalizing:
+  // a profile without a mode or the skip-permissions flag is supervised.
+  if (profile.outputMode === 'stream-json' && profile.permissionMode === 'supervised') {
+    return { valid: false, reason: 'Stream JSON output needs bypass permissions — a supervised agent would have nowhere to ask' };
+  }
+  return { valid: true, profile };
+}
+
+/**
+ * Move the skip-permissions flag out of `args` and into `permissionMode`.
+ * Profiles saved before the mode existed have no `permissionMode`; they keep
+ * launching the way they did, judged by whether the flag was in their args.
+ * Profiles without an isolation setting run in the shared project directory,
+ * those without an output mode in the interactive TUI, and those without a
+ * driver under Claude Code.
+ */
+export function normalizeLaunchProfile(profile: LaunchProfile): LaunchProfile {
+  const driver = profile.driver ?? DEFAULT_DRIVER_ID;
+  // Another program's arguments are its own, flag or not
+  const hadFlag = driver === 'claude-code' && profile.args.includes(SKIP_PERMISSIONS_FLAG);
+  return {
+    ...profile,
+    args: driver === 'claude-code' ? profile.args.filter((a) => a !== SKIP_PERMISSIONS_FLAG) : profile.args,
+    permissionMode: profile.permissionMode ?? (hadFlag ? 'bypass' : 'supervised'),
+    isolation: profile.isolation ?? 'shared',
+    outputMode: profile.outputMode ?? 'interactive',
+    driver,
+  };
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+/**
+ * What gets stored on the Agent: enough to see how it was launched.
+ * Environment values are left out — they often hold API keys.
+ */
+export function toProfileRecord(profile: LaunchProfile): LaunchProfileRecord {
+  return {
+    id: profile.id,
+    name: profile.name,
+    driver: profile.driver,
+    command: profile.command,
+    args: [...profile.args],
+    ...(profile.model && { model: profile.model }),
+    envKeys: Object.keys(profile.env),
+    permissionMode: profile.permissionMode,
+    isolation: profile.isolation,
+    outputMode: profile.outputMode,
+    cols: profile.cols,
+    rows: profile.rows,
+  };
+}
@@ -1,5 +1,5 @@
 import { homedir } from 'node:os';
-import { join, resolve } from 'node:path';
+import { join, relative, resolve } from 'node:path';
 import { mkdir, realpath, access, constants } from 'node:fs/promises';
 
 // ── Base directory ──────────────────────────────────────────────────────
@@ -10,6 +10,15 @@ export function getBaseDirectory(): string {
   return BASE_DIR;
 }
 
+// Agent worktrees live outside the projects so they never show up in a
+// project's git status or get adopted as projects by a rescan
+const WORKTREE_DIR = resolve(join(homedir(), '.constellation-command', 'worktrees'));
+
+/** Directory holding the agent worktrees of the project at `projectCwd`. */
+export function getWorktreeRoot(projectCwd: string): string {
+  return join(WORKTREE_DIR, relative(BASE_DIR, resolve(projectCwd)));
+}
+
 export async function ensureBaseDirectory(): Promise<void> {
   await mkdir(BASE_DIR, { recursive: true });
 }
@@ -78,7 +87,11 @@ export async function validateAgentCwd(cwd: string, projectCwd: string): Promise
   try {
     const resolved = await realpath(cwd);
     const resolvedProject = projectCheck.resolved!;
-    if (!resolved.startsWith(resolvedProject + '/') && resolved !== resolvedProject) {
+    // The project's agent worktrees count as part of the project
+    const worktreeRoot = getWorktreeRoot(resolvedProject);
+    const inProject = resolved.startsWith(resolvedProject + '/') || resolved === resolvedProject;
+    const inWorktree = resolved.startsWith(worktreeRoot + '/');
+    if (!inProject && !inWorktree) {
       return { valid: false, reason: `Agent CWD "${cwd}" is outside the project directory` };
     }
     return { valid: true, resolved };
@@ -0,0 +1,78 @@
+import { join } from 'node:path';
+import { readdir, readFile, writeFile, access, constants } from 'node:fs/promises';
+import { getBaseDirectory } from './pathSecurity.js';
+
+// ── Project metadata file ───────────────────────────────────────────────
+// Optional JSON file inside a project folder that names and describes it.
+// Written on project:create so the folder can be re-adopted later.
+
+export const PROJECT_METADATA_FILE = '.constellation.json';
+
+export interface ProjectMetadata {
+  name?: string;
+  description?: string;
+  paletteIndex?: number;
+}
+
+export async function readProjectMetadata(cwd: string): Promise<ProjectMetadata> {
+  try {
+    const raw = await readFile(join(cwd, PROJECT_METADATA_FILE), 'utf-8');
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const metadata: ProjectMetadata = {};
+    if (typeof parsed.name === 'string' && parsed.name.trim()) metadata.name = parsed.name.trim();
+    if (typeof parsed.description === 'string') metadata.description = parsed.description;
+    if (typeof parsed.paletteIndex === 'number') metadata.paletteIndex = parsed.paletteIndex;
+    return metadata;
+  } catch {
+    // Missing or malformed metadata — caller falls back to the folder name
+    return {};
+  }
+}
+
+export async function writeProjectMetadata(cwd: string, metadata: ProjectMetadata): Promise<void> {
+  await writeFile(join(cwd, PROJECT_METADATA_FILE), JSON.stringify(metadata, null, 2) + '\n');
+}
+
+// ── Directory discovery ─────────────────────────────────────────────────
+
+export interface DiscoveredProject {
+  cwd: string;
+  dirName: string;
+  metadata: ProjectMetadata;
+  isGitRepo: boolean;
+}
+
+/**
+ * List every project folder directly under the base directory.
+ * Hidden folders (".something") are skipped.
+ */
+export async function discoverProjectDirectories(): Promise<DiscoveredProject[]> {
+  const baseDir = getBaseDirectory();
+  const entries = await readdir(baseDir, { withFileTypes: true });
+  const result: DiscoveredProject[] = [];
+
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name.startsWith('.')) continue;
+
+    const cwd = join(baseDir, entry.name);
+    result.push({
+      cwd,
+      dirName: entry.name,
+      metadata: await readProjectMetadata(cwd),
+      isGitRepo: await exists(join(cwd, '.git')),
+    });
+  }
+
+  return result.sort((a, b) => a.dirName.localeCompare(b.dirName));
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path, constants.F_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,193 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { basename, dirname, join, resolve } from 'node:path';
+import { homedir } from 'node:os';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { ParserRules } from './ParserRules.js';
+import { DEFAULT_DRIVER_ID, getDriver, isDriverId } from './drivers/index.js';
+import { compareTimelines, formatEntry, replayRecording, type ReplayExpectation } from './ParserReplay.js';
+import type { AgentDriverId } from './types.js';
+
+// ── Usage ────────────────────────────────────────────────────────────────
+
+const USAGE = `Replay recorded agent sessions through the output parser.
+
+  npm run replay -- <recording.cast | directory>... [options]
+      Replay each recording. One with a <name>.expected.json next to it is
+      checked against it; otherwise its timeline is printed.
+
+  npm run replay -- record <agent id | recording.cast> <fixture name> [options]
+      Copy an agent's transcript into the fixture library and write its
+      expected timeline from this run. Check the printed timeline first.
+
+Options:
+  --driver <id>     claude-code, shell or simulation (default: from the expected file, else claude-code)
+  --tail <seconds>  keep the clock running after the last chunk (default: from the expected file, else 0)
+  --project <dir>   also apply the rule files in <dir>
+  --update          rewrite each expected file from this run
+`;
+
+const FIXTURE_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'tests', 'fixtures', 'parser');
+const TRANSCRIPT_DIR = join(homedir(), '.constellation-command', 'transcripts');
+
+// Rule files under --project are registered as this project
+const REPLAY_PROJECT_ID = 'replay';
+
+interface CliOptions {
+  driver?: AgentDriverId;
+  tailSeconds?: number;
+  update: boolean;
+  rules: ParserRules;
+  projectId?: string;
+}
+
+// ── Commands ─────────────────────────────────────────────────────────────
+
+/** Replay one recording. Returns false when it doesn't match its expected timeline. */
+function replayFile(castPath: string, options: CliOptions): boolean {
+  const expectedPath = castPath.replace(/\.cast$/, '.expected.json');
+  const expected = existsSync(expectedPath)
+    ? JSON.parse(readFileSync(expectedPath, 'utf-8')) as ReplayExpectation
+    : undefined;
+  const driver = options.driver ?? expected?.driver ?? DEFAULT_DRIVER_ID;
+  const tailSeconds = options.tailSeconds ?? expected?.tailSeconds ?? 0;
+
+  const timeline = replayRecording(readFileSync(castPath, 'utf-8'), options.rules, {
+    driver: getDriver(driver),
+    tailSeconds,
+    projectId: options.projectId,
+  });
+  const name = basename(castPath);
+
+  if (options.update) {
+    const expectation: ReplayExpectation = { driver, tailSeconds, timeline };
+    writeFileSync(expectedPath, JSON.stringify(expectation, null, 2) + '\n');
+    console.log(`WROTE ${name} (${timeline.length} entries)`);
+    for (const entry of timeline) console.log(formatEntry(entry));
+    return true;
+  }
+  if (!expected) {
+    console.log(`${name} (${driver}, no expected timeline)`);
+    for (const entry of timeline) console.log(formatEntry(entry));
+    return true;
+  }
+
+  const differences = compareTimelines(expected.timeline, timeline);
+  if (differences.length === 0) {
+    console.log(`PASS ${name} (${timeline.length} entries)`);
+    return true;
+  }
+  console.log(`FAIL ${name}`);
+  for (const line of differences) console.log(`  ${line}`);
+  return false;
+}
+
+function recordFixture(source: string, name: string, options: CliOptions): void {
+  const castPath = source.endsWith('.cast') ? resolve(source) : join(TRANSCRIPT_DIR, `${source}.cast`);
+  if (!existsSync(castPath)) {
+    throw new Error(`No recording at ${castPath}`);
+  }
+  if (!/^[\w-]+$/.test(name)) {
+    throw new Error('Fixture names may only use letters, digits, "-" and "_"');
+  }
+  mkdirSync(FIXTURE_DIR, { recursive: true });
+  const fixturePath = join(FIXTURE_DIR, `${name}.cast`);
+  // Fixtures get committed — keep when the operator typed, not what
+  writeFileSync(fixturePath, redactInput(readFileSync(castPath, 'utf-8')));
+  replayFile(fixturePath, { ...options, update: true });
+}
+
+/** Blank the data of a cast's input events; the replay only needs their timing. */
+function redactInput(cast: string): string {
+  return cast
+    .split('\n')
+    .map((line) => {
+      try {
+        const event = JSON.parse(line) as unknown;
+        return Array.isArray(event) && event[1] === 'i' ? JSON.stringify([event[0], 'i', '']) : line;
+      } catch {
+        return line; // Header or a truncated last line
+      }
+    })
+    .join('\n');
+}
+
+/** Recordings named on the command line; a directory stands for the .cast files in it. */
+function collectRecordings(paths: string[]): string[] {
+  return paths.flatMap((path) => {
+    if (!statSync(path).isDirectory()) return [path];
+    return readdirSync(path)
+      .filter((file) => file.endsWith('.cast'))
+      .sort()
+      .map((file) => join(path, file));
+  });
+}
+
+// ── Main ─────────────────────────────────────────────────────────────────
+
+function main(): number {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      driver: { type: 'string' },
+      tail: { type: 'string' },
+      project: { type: 'string' },
+      update: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    return values.help ? 0 : 2;
+  }
+  if (values.driver !== undefined && !isDriverId(values.driver)) {
+    throw new Error(`Unknown driver "${values.driver}"`);
+  }
+  const tailSeconds = values.tail === undefined ? undefined : Number(values.tail);
+  if (tailSeconds !== undefined && !(tailSeconds >= 0)) {
+    throw new Error('--tail must be a number of seconds');
+  }
+
+  // Only the driver's built-in rules apply unless --project names a folder with rule files
+  const rules = new ParserRules();
+  rules.on('error', ({ file, message }: { file: string; message: string }) => {
+    throw new Error(`${file}: ${message}`);
+  });
+  if (values.project) {
+    rules.watchProject(REPLAY_PROJECT_ID, resolve(values.project));
+  }
+  const options: CliOptions = {
+    driver: values.driver as AgentDriverId | undefined,
+    tailSeconds,
+    update: values.update,
+    rules,
+    ...(values.project && { projectId: REPLAY_PROJECT_ID }),
+  };
+
+  if (positionals[0] === 'record') {
+    if (positionals.length !== 3) {
+      console.log(USAGE);
+      return 2;
+    }
+    recordFixture(positionals[1], positionals[2], options);
+    return 0;
+  }
+
+  let failed = 0;
+  const recordings = collectRecordings(positionals);
+  for (const castPath of recordings) {
+    if (!replayFile(castPath, options)) failed++;
+  }
+  if (recordings.length > 1) {
+    console.log(`\n${recordings.length - failed} passed, ${failed} failed`);
+  }
+  return failed > 0 ? 1 : 0;
+}
+
+try {
+  // The rule file watcher would keep the process alive
+  process.exit(main());
+} catch (error) {
+  console.error(`replay: ${(error as Error).message}`);
+  process.exit(2);
+}
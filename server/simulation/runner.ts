@@ -0,0 +1,142 @@
+import { appendFileSync, mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, relative, resolve, isAbsolute } from 'node:path';
+import { loadScenario, type ScenarioStep } from './scenarios.js';
+
+// ── Simulated agent ──────────────────────────────────────────────────────
+// Started by the simulation driver in the agent's PTY as
+// `runner <scenario> <task>`, with the agent's directory as cwd. Plays the
+// scenario and exits with its exit code. CC_SIMULATE_SPEED speeds up
+// (or, below 1, slows down) every delay. Started as `runner --typed
+// <scenario>`, it first draws an input prompt and takes the task typed or
+// pasted into it, the way Claude Code does.
+
+const PASTE_START = '\x1b[200~';
+const PASTE_END = '\x1b[201~';
+
+const SPINNER_FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
+const SPINNER_INTERVAL_MS = 100;
+
+const speed = Number(process.env.CC_SIMULATE_SPEED) > 0 ? Number(process.env.CC_SIMULATE_SPEED) : 1;
+const sleep = (ms: number) => new Promise<void>((resolveSleep) => setTimeout(resolveSleep, ms / speed));
+
+function print(text: string): void {
+  process.stdout.write(text + '\n');
+}
+
+async function spin(label: string, durationMs: number): Promise<void> {
+  const started = Date.now();
+  for (let frame = 0; (Date.now() - started) * speed < durationMs; frame++) {
+    process.stdout.write(`\r${SPINNER_FRAMES[frame % SPINNER_FRAMES.length]} ${label}… (esc to interrupt)`);
+    await sleep(SPINNER_INTERVAL_MS);
+  }
+  process.stdout.write('\r\x1b[2K');
+}
+
+/** Write a file under the working directory; paths that climb out of it are refused. */
+function writeFile(path: string, content: string, append: boolean): void {
+  const target = resolve(path);
+  const rel = relative(process.cwd(), target);
+  if (!rel || rel.startsWith('..') || isAbsolute(rel)) {
+    throw new Error(`Refusing to write outside the project: ${path}`);
+  }
+  mkdirSync(dirname(target), { recursive: true });
+  if (append) {
+    appendFileSync(target, content);
+  } else {
+    writeFileSync(target, content);
+  }
+}
+
+/** Resolve on the next keypress, the way an interactive prompt waits. */
+function waitForInput(): Promise<void> {
+  if (process.stdin.isTTY) process.stdin.setRawMode(true);
+  process.stdin.resume();
+  return new Promise((resolveInput) => {
+    process.stdin.once('data', () => {
+      process.stdin.pause();
+      resolveInput();
+    });
+  });
+}
+
+/**
+ * Draw an input prompt and resolve with the text entered into it. Enter
+ * submits, except inside a bracketed paste where it is part of the text.
+ * Input is echoed as it arrives.
+ */
+function readPrompt(): Promise<string> {
+  print('> \n  ? for shortcuts');
+  if (process.stdin.isTTY) process.stdin.setRawMode(true);
+  process.stdin.setEncoding('utf-8');
+  process.stdin.resume();
+  return new Promise((resolveInput) => {
+    let pending = '';
+    let text = '';
+    let pasting = false;
+    const onData = (chunk: string) => {
+      pending += chunk;
+      while (pending) {
+        if (pending.startsWith(PASTE_START) || pending.startsWith(PASTE_END)) {
+          pasting = pending.startsWith(PASTE_START);
+          pending = pending.slice(PASTE_START.length);
+          continue;
+        }
+        // The rest of a paste marker split across chunks is still to come
+        if (PASTE_START.startsWith(pending) || PASTE_END.startsWith(pending)) return;
+
+        const char = pending[0];
+        pending = pending.slice(1);
+        if (char === '\r' && !pasting) {
+          process.stdin.off('data', onData);
+          process.stdin.pause();
+          print('');
+          resolveInput(text.trim());
+          return;
+        }
+        text += char === '\r' ? '\n' : char;
+        process.stdout.write(char === '\r' ? '\n' : char);
+      }
+    };
+    process.stdin.on('data', onData);
+  });
+}
+
+async function runStep(step: ScenarioStep, task: string): Promise<void> {
+  const fill = (text: string) => text.split('{task}').join(task);
+  if ('print' in step) {
+    print(fill(step.print));
+  } else if ('spin' in step) {
+    await spin(step.spin, step.for);
+  } else if ('write' in step) {
+    writeFile(fill(step.write), fill(step.content), step.append ?? false);
+  } else {
+    await waitForInput();
+  }
+}
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const typed = args[0] === '--typed';
+  const [scenarioRef, argumentTask = ''] = typed ? args.slice(1) : args;
+  const loaded = loadScenario(scenarioRef ?? '', process.cwd());
+  if (!loaded.valid) {
+    print(`Error: ${loaded.reason}`);
+    return 2;
+  }
+
+  const task = typed ? await readPrompt() : argumentTask;
+
+  for (const step of loaded.scenario.steps) {
+    if (step.after) await sleep(step.after);
+    await runStep(step, task);
+  }
+  return loaded.scenario.exitCode;
+}
+
+main().then(
+  (exitCode) => process.exit(exitCode),
+  (error: Error) => {
+    print(`Error: ${error.message}`);
+    process.exit(2);
+  },
+);
@@ -0,0 +1,239 @@
+import { readFileSync } from 'node:fs';
+import { isAbsolute, resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+
+// ── Scenario format ──────────────────────────────────────────────────────
+// A simulated agent plays a scenario: steps run in order, each `after` ms
+// after the previous one, and the process exits with `exitCode`. Output
+// imitates Claude Code's terminal so the usual parser rules apply. In text,
+// {task} becomes the task. Scenarios are built in (below) or read from a
+// .yaml/.yml/.json file:
+//
+//   description: Writes a file and fails the build
+//   exitCode: 1
+//   steps:
+//     - spin: Thinking          # spinner frames with this label…
+//       for: 1500               # …for this many ms
+//     - after: 300
+//       print: "╭─ Write src/app.ts"
+//     - write: src/app.ts       # a real file, relative to the agent's directory
+//       content: "export {};\n"
+//     - waitForInput: true      # block until a key is pressed (permission prompts)
+
+export type ScenarioStep = { after?: number } & (
+  | { print: string }
+  | { spin: string; for: number }
+  | { write: string; content: string; append?: boolean }
+  | { waitForInput: true }
+);
+
+export interface Scenario {
+  description: string;
+  exitCode: number;
+  steps: ScenarioStep[];
+}
+
+const SCENARIO_FILE = /\.(?:ya?ml|json)$/i;
+
+// ── Built-in scenarios ───────────────────────────────────────────────────
+
+const BANNER = [
+  '╭───────────────────────────────────────────╮',
+  '│ ✻ Welcome to Claude Code! (simulation)     │',
+  '╰───────────────────────────────────────────╯',
+  '',
+  '> {task}',
+].join('\n');
+
+const TURN_SUMMARY = [
+  'Total cost:            $0.0312',
+  'Usage by model:',
+  '    claude-sonnet:  8.4k input, 1.1k output, 22.0k cache read, 2.3k cache write',
+].join('\n');
+
+export const BUILT_IN_SCENARIOS: Record<string, Scenario> = {
+  success: {
+    description: 'Reads, writes a file, builds, tests and finishes',
+    exitCode: 0,
+    steps: [
+      { after: 400, print: BANNER },
+      { after: 300, spin: 'Thinking', for: 1800 },
+      { print: '╭─ Read package.json\n│ Read 32 lines\n╰─' },
+      { after: 900, spin: 'Thinking', for: 1200 },
+      { print: '╭─ Write src/simulated.ts' },
+      { after: 400, write: 'src/simulated.ts', content: '// Written by a simulated agent for: {task}\nexport const simulated = true;\n' },
+      { print: 'Created src/simulated.ts\n╰─' },
+      { after: 1200, print: '╭─ Bash npm run build' },
+      { after: 1500, print: '│ ✓ 42 modules transformed.\n│ Build succeeded in 1.12s\n╰─' },
+      { after: 800, print: '╭─ Bash npm test' },
+      { after: 1800, print: '│ Tests:  12 passed, 12 total\n╰─' },
+      { after: 600, print: 'Task completed: {task}' },
+      { after: 300, print: '\n✻ Worked for 12s' },
+      { after: 200, print: TURN_SUMMARY },
+    ],
+  },
+
+  'build-error': {
+    description: 'Writes a file, the build fails and the agent exits with an error',
+    exitCode: 1,
+    steps: [
+      { after: 400, print: BANNER },
+      { after: 300, spin: 'Thinking', for: 1500 },
+      { print: '╭─ Write src/broken.ts' },
+      { after: 400, write: 'src/broken.ts', content: 'export const answer: number = "forty-two";\n' },
+      { print: 'Created src/broken.ts\n╰─' },
+      { after: 1000, print: '╭─ Bash npm run build' },
+      { after: 1600, print: "│ src/broken.ts(1,14): error TS2322: Type 'string' is not assignable to type 'number'.\n╰─" },
+      { after: 500, print: '\n✻ Worked for 5s' },
+      { after: 200, print: TURN_SUMMARY },
+    ],
+  },
+
+  permission: {
+    description: 'Asks permission to run a command, waits for an answer, then finishes',
+    exitCode: 0,
+    steps: [
+      { after: 400, print: BANNER },
+      { after: 300, spin: 'Thinking', for: 1200 },
+      {
+        print: [
+          '╭──────────────────────────────────────────────╮',
+          '│ Bash command                                 │',
+          '│                                              │',
+          '│   npm install lodash                         │',
+          '│   Add lodash as a dependency                 │',
+          '│                                              │',
+          '│ Do you want to proceed?                      │',
+          '│ ❯ 1. Yes                                     │',
+          "│   2. Yes, and don't ask again for npm install│",
+          '│   3. No, and tell Claude what to do (esc)    │',
+          '╰──────────────────────────────────────────────╯',
+        ].join('\n'),
+      },
+      { waitForInput: true },
+      { after: 300, print: '╭─ Bash npm install lodash\n│ added 1 package in 1s\n╰─' },
+      { after: 800, print: 'Task completed: {task}' },
+      { after: 300, print: '\n✻ Worked for 4s' },
+    ],
+  },
+
+  waiting: {
+    description: 'Does some work, then sits at the prompt until a key is pressed',
+    exitCode: 0,
+    steps: [
+      { after: 400, print: BANNER },
+      { after: 300, spin: 'Thinking', for: 1500 },
+      { print: '╭─ Read src/index.ts\n│ Read 120 lines\n╰─' },
+      { after: 600, print: 'Which database should the new endpoint use?\n\n✻ Worked for 3s\n\n> ' },
+      { waitForInput: true },
+      { after: 300, spin: 'Thinking', for: 1000 },
+      { print: 'Task completed: {task}\n\n✻ Worked for 2s' },
+    ],
+  },
+
+  'long-running': {
+    description: 'Keeps working for about a minute, for budget and queue tests',
+    exitCode: 0,
+    steps: [
+      { after: 400, print: BANNER },
+      { after: 300, spin: 'Thinking', for: 15000 },
+      { print: '╭─ Grep "TODO" in src\n│ Found 14 matches\n╰─' },
+      { after: 500, spin: 'Thinking', for: 15000 },
+      { print: '╭─ Bash npm test' },
+      { after: 300, spin: 'Running tests', for: 15000 },
+      { print: '│ Tests:  40 passed, 40 total\n╰─' },
+      { after: 500, spin: 'Thinking', for: 15000 },
+      { print: 'Task completed: {task}\n\n✻ Worked for 62s' },
+    ],
+  },
+
+  crash: {
+    description: 'Exits with code 2 almost immediately',
+    exitCode: 2,
+    steps: [
+      { after: 400, print: BANNER },
+      { after: 800, print: 'Error: simulated crash — the CLI exited unexpectedly' },
+    ],
+  },
+};
+
+export const DEFAULT_SCENARIO = 'success';
+
+// ── Loading ──────────────────────────────────────────────────────────────
+
+/** Whether `ref` can name a scenario: a built-in name or a scenario file. */
+export function isScenarioRef(ref: string): boolean {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_SCENARIOS, ref) || SCENARIO_FILE.test(ref);
+}
+
+/** A built-in scenario by name, or one read from a file relative to `cwd`. */
+export function loadScenario(ref: string, cwd: string): { valid: true; scenario: Scenario } | { valid: false; reason: string } {
+  if (Object.prototype.hasOwnProperty.call(BUILT_IN_SCENARIOS, ref)) {
+    return { valid: true, scenario: BUILT_IN_SCENARIOS[ref] };
+  }
+  if (!SCENARIO_FILE.test(ref)) {
+    return { valid: false, reason: `Unknown scenario "${ref}" — use one of ${Object.keys(BUILT_IN_SCENARIOS).join(', ')} or a .yaml/.json file` };
+  }
+
+  const path = isAbsolute(ref) ? ref : resolve(cwd, ref);
+  let data: unknown;
+  try {
+    const raw = readFileSync(path, 'utf-8');
+    data = /\.json$/i.test(path) ? JSON.parse(raw) : parseYaml(raw);
+  } catch (error) {
+    return { valid: false, reason: `Cannot read ${path}: ${(error as Error).message}` };
+  }
+  return validateScenario(data);
+}
+
+function validateScenario(data: unknown): { valid: true; scenario: Scenario } | { valid: false; reason: string } {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { valid: false, reason: 'Expected an object with a "steps" list' };
+  }
+  const doc = data as Record<string, unknown>;
+  const exitCode = doc.exitCode ?? 0;
+  if (!Number.isInteger(exitCode) || (exitCode as number) < 0 || (exitCode as number) > 255) {
+    return { valid: false, reason: '"exitCode" must be a whole number from 0 to 255' };
+  }
+  if (!Array.isArray(doc.steps)) {
+    return { valid: false, reason: '"steps" must be a list' };
+  }
+
+  for (const [index, step] of (doc.steps as unknown[]).entries()) {
+    const reason = checkStep(step);
+    if (reason) return { valid: false, reason: `Step ${index + 1}: ${reason}` };
+  }
+  return {
+    valid: true,
+    scenario: {
+      description: typeof doc.description === 'string' ? doc.description : '',
+      exitCode: exitCode as number,
+      steps: doc.steps as ScenarioStep[],
+    },
+  };
+}
+
+/** Why a scenario step is malformed, or null when it is fine. */
+function checkStep(step: unknown): string | null {
+  if (!step || typeof step !== 'object' || Array.isArray(step)) return 'must be an object';
+  const s = step as Record<string, unknown>;
+  if (s.after !== undefined && (typeof s.after !== 'number' || s.after < 0)) {
+    return '"after" must be a number of milliseconds';
+  }
+
+  const kinds = ['print', 'spin', 'write', 'waitForInput'].filter((key) => s[key] !== undefined);
+  if (kinds.length !== 1) return 'needs exactly one of "print", "spin", "write" or "waitForInput"';
+  switch (kinds[0]) {
+    case 'print':
+      return typeof s.print === 'string' ? null : '"print" must be a string';
+    case 'spin':
+      if (typeof s.spin !== 'string') return '"spin" must be a label';
+      return typeof s.for === 'number' && s.for >= 0 ? null : '"for" must be a number of milliseconds';
+    case 'write':
+      if (typeof s.write !== 'string' || !s.write) return '"write" must be a file path';
+      if (typeof s.content !== 'string') return '"content" must be a string';
+      return s.append === undefined || typeof s.append === 'boolean' ? null : '"append" must be true or false';
+    default:
+      return s.waitForInput === true ? null : '"waitForInput" must be true';
+  }
+}
@@ -1,6 +1,7 @@
 // ── Agent & Project domain types ──────────────────────────────────────────
 
 export type AgentStatus =
+  | 'queued'        // Waiting in the launch queue for a free slot
   | 'launched'      // PTY spawned, CLI booting
   | 'running'       // General active state (fallback)
   | 'thinking'      // "Thinking..." — reasoning phase
@@ -11,9 +12,11 @@ export type AgentStatus =
   | 'building'      // npm/compile/build operations
   | 'testing'       // Running tests
   | 'waiting'       // Awaiting user input (turn complete)
+  | 'awaiting-approval' // Blocked on a tool-permission prompt (supervised mode)
   | 'paused'        // Disconnected / reconnecting
   | 'completed'     // PTY exited successfully
-  | 'error';        // PTY exited with error
+  | 'error'         // PTY exited with error
+  | 'interrupted';  // PTY was lost when the server stopped
 
 export interface Agent {
   id: string;
@@ -23,6 +26,34 @@ export interface Agent {
   status: AgentStatus;
   launchedAt: number;
   completedAt?: number;
+  sessionId?: string;      // Claude Code session ID, used for --resume
+  resumeCount?: number;    // Number of times the session has been resumed
+  profile?: LaunchProfileRecord; // Launch profile in effect when the agent was launched
+  pendingPermission?: PermissionRequest; // Open tool-permission prompt, if any
+  worktree?: AgentWorktree; // Dedicated git worktree, for profiles with worktree isolation
+  budget?: AgentBudget;    // Runtime limits, enforced by the BudgetMonitor
+  runStartedAt?: number;   // When the current session started (launch or resume)
+  waitingSince?: number;   // When the agent last entered 'waiting'
+  endReason?: TerminalReason; // Why the last session ended, when it didn't exit on its own
+  usage?: AgentUsage;      // Tokens and cost read from the CLI's usage summaries
+  turns?: AgentTurn[];     // Follow-up prompts sent after the task, oldest first
+  changedFiles?: string[]; // Files the parser saw it create or edit, first seen first
+  handoff?: AgentHandoff;  // Set when it took over from another agent
+}
+
+/** An instruction sent to a live agent after its task. The task is turn 1. */
+export interface AgentTurn {
+  number: number;          // 2 for the first follow-up
+  text: string;
+  sentAt: number;
+  failed?: string;         // Why the CLI never took it, if it didn't
+}
+
+/** How an agent took over from a finished or stuck predecessor. */
+export interface AgentHandoff {
+  from: string;            // Predecessor's agent ID
+  brief: string;           // Put before the task when the successor launches
+  createdAt: number;
 }
 
 export interface Project {
@@ -33,6 +64,217 @@ export interface Project {
   status: 'active' | 'idle' | 'error';
   agents: string[];
   paletteIndex: number;
+  defaultProfileId?: string; // Launch profile used when a launch doesn't pick one
+  defaultBudget?: AgentBudget; // Budget used when a launch doesn't set one
+}
+
+// ── Budgets ──────────────────────────────────────────────────────────────
+
+/** Limits on how long an agent may run. Unset fields are unlimited. */
+export interface AgentBudget {
+  maxRuntimeMinutes?: number; // Wall-clock time per session — a resume starts the clock again
+  maxIdleMinutes?: number;    // Time spent in 'waiting' without a break
+}
+
+export type BudgetKind = 'runtime' | 'idle';
+
+/** How a session ended: on its own, terminated by the operator, or over budget. */
+export type TerminalReason = 'exited' | 'killed' | 'budget-exceeded';
+
+// ── Mission plans ────────────────────────────────────────────────────────
+
+export interface PlanningTask {
+  id: string;
+  text: string;
+  completed: boolean;
+  agentId?: string;      // Agent launched for this task
+  dependsOn?: string[];  // Prerequisite task ids
+  scheduled?: boolean;   // Launch automatically once prerequisites complete
+  profileId?: string;    // Launch profile for the scheduled launch (unset = project default)
+}
+
+// ── Launch queue ─────────────────────────────────────────────────────────
+
+export interface QueueEntry {
+  agentId: string;
+  projectId: string;
+  enqueuedAt: number;
+  resumeFrom?: AgentStatus; // Set for a queued resume: the status to restore if cancelled
+}
+
+export interface ConcurrencyLimits {
+  maxAgents: number;            // Running agents across all projects
+  maxAgentsPerProject: number;  // Running agents within one project
+}
+
+// ── Tool permissions ─────────────────────────────────────────────────────
+
+/**
+ * 'bypass' launches with --dangerously-skip-permissions; 'supervised' leaves
+ * it off so the CLI asks before each tool use.
+ */
+export type PermissionMode = 'bypass' | 'supervised';
+
+export type PermissionDecision = 'approve' | 'deny' | 'always';
+
+/** A tool-permission prompt the CLI is blocked on. */
+export interface PermissionRequest {
+  requestId: string;
+  tool: string;              // e.g. "Bash", "Edit", "WebFetch"
+  detail: string;            // Command, path or URL the tool wants to use
+  question: string;          // The prompt's question line, verbatim
+  alwaysLabel?: string;      // Text of the "don't ask again" option, when offered
+  timestamp: number;
+}
+
+// ── Worktrees ────────────────────────────────────────────────────────────
+
+/**
+ * 'shared' runs the agent in the project directory; 'worktree' gives it its
+ * own git worktree and branch so parallel agents don't edit the same files.
+ */
+export type WorkspaceIsolation = 'shared' | 'worktree';
+
+export interface AgentWorktree {
+  path: string;           // Worktree directory — also the agent's cwd
+  branch: string;         // Branch created for the agent
+  baseBranch: string;     // Branch the project had checked out at launch
+  baseCommit: string;     // Commit the branch started from
+  diffStat?: string;      // `git diff --stat` against baseCommit, set when the agent finishes
+  filesChanged?: number;
+  mergedInto?: string;    // Branch the work was merged into
+  mergedAt?: number;
+}
+
+// ── File conflicts ───────────────────────────────────────────────────────
+
+/** Two live agents wrote the same file. */
+export interface FileConflict {
+  id: string;
+  projectId: string;
+  path: string;                 // Relative to the project directory
+  agentIds: [string, string];   // The agent that touched it first, then the one that just wrote it
+  timestamp: number;
+}
+
+// ── Fleet broadcasts ─────────────────────────────────────────────────────
+
+/**
+ * Where a broadcast stands for one agent: waiting for the agent to go idle,
+ * sent as one of its turns, sent but never taken by the CLI, or dropped
+ * because the agent finished first.
+ */
+export type FleetDeliveryStatus = 'pending' | 'delivered' | 'failed' | 'dropped';
+
+export interface FleetDelivery {
+  agentId: string;
+  status: FleetDeliveryStatus;
+  turn?: number;                // The agent's turn, once delivered
+  detail?: string;              // Why it failed or was dropped
+  updatedAt: number;
+}
+
+/** The same orders sent to every live agent in a project, or to a chosen set. */
+export interface FleetBroadcast {
+  id: string;
+  projectId: string;
+  text: string;
+  wholeProject: boolean;        // False when the agents were picked by hand
+  createdAt: number;
+  deliveries: FleetDelivery[];
+}
+
+// ── Usage ────────────────────────────────────────────────────────────────
+
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/** What one turn of an agent used, as the CLI reported it. */
+export interface UsageRecord extends UsageTotals {
+  timestamp: number;
+}
+
+export interface AgentUsage {
+  total: UsageTotals;
+  turns: UsageRecord[];  // Most recent last, capped
+}
+
+/** Running totals that outlive the agents they came from. */
+export interface UsageSummary {
+  byProject: Record<string, UsageTotals>;
+  byDay: Record<string, UsageTotals>; // Keyed by local date, YYYY-MM-DD
+}
+
+// ── Parser inspector ─────────────────────────────────────────────────────
+
+/**
+ * What moved an agent's status: a rule matching an output line, a quiet
+ * timer running out, or the operator answering a prompt.
+ */
+export type TraceTrigger = 'pattern' | 'timer' | 'input';
+
+/** One status transition made by the output parser, for tuning its rules. */
+export interface ParserTrace {
+  id: string;
+  agentId: string;
+  timestamp: number;
+  from: AgentStatus;
+  to: AgentStatus;
+  trigger: TraceTrigger;
+  ruleId?: string;          // 'pattern': the rule that matched, or 'output-while-idle' / 'permission-prompt'
+  line?: string;            // 'pattern': the output line, ANSI stripped
+  timer?: 'idle' | 'decay'; // 'timer': no output for a while, or a specific activity fading to running
+  falsePositive?: boolean;  // Marked by the operator as the wrong call
+}
+
+// ── Launch profiles ──────────────────────────────────────────────────────
+
+/**
+ * 'interactive' runs the CLI's TUI in a PTY and reads its status from the
+ * screen; 'stream-json' runs it non-interactively and reads its JSON events.
+ */
+export type OutputMode = 'interactive' | 'stream-json';
+
+/**
+ * How the agent is driven: 'claude-code' knows the Claude Code CLI's flags
+ * and screen; 'shell' runs any command with the task as an argument;
+ * 'simulation' plays a scripted scenario instead of running an agent, and
+ * its `command` names the scenario.
+ */
+export type AgentDriverId = 'claude-code' | 'shell' | 'simulation';
+
+export interface LaunchProfile {
+  id: string;
+  name: string;
+  driver: AgentDriverId;
+  command: string;               // Executable to spawn
+  args: string[];                // Passed before the session flags (--session-id / --resume)
+  model?: string;                // Passed as --model when set
+  env: Record<string, string>;   // Added to the server's environment
+  permissionMode: PermissionMode;
+  isolation: WorkspaceIsolation;
+  outputMode: OutputMode;
+  cols: number;                  // Initial terminal size
+  rows: number;
+}
+
+/** Snapshot of a profile recorded on an agent. Env values are omitted. */
+export interface LaunchProfileRecord {
+  id: string;
+  name: string;
+  driver?: AgentDriverId;        // Absent on agents launched before drivers existed
+  command: string;
+  args: string[];
+  model?: string;
+  envKeys: string[];
+  permissionMode?: PermissionMode; // Absent on agents launched before modes existed
+  isolation?: WorkspaceIsolation;
+  outputMode?: OutputMode;       // Absent on agents launched before stream-json existed
+  cols: number;
+  rows: number;
 }
 
 // ── WebSocket messages: Client → Server ──────────────────────────────────
@@ -44,6 +286,9 @@ export interface AgentLaunchMessage {
     projectId: string;
     task: string;
     cwd: string;
+    profileId?: string;
+    taskId?: string; // Mission plan task — the server builds the prompt from the plan
+    budget?: AgentBudget; // Overrides the project's default budget
   };
 }
 
@@ -52,6 +297,118 @@ export interface AgentKillMessage {
   payload: { agentId: string };
 }
 
+export interface AgentResumeMessage {
+  type: 'agent:resume';
+  payload: { agentId: string };
+}
+
+export interface AgentPromptMessage {
+  type: 'agent:prompt';
+  payload: { agentId: string; text: string };
+}
+
+/** Orders for every live agent in a project, or for `agentIds` only. */
+export interface FleetBroadcastMessage {
+  type: 'fleet:broadcast';
+  payload: { projectId: string; text: string; agentIds?: string[] };
+}
+
+/** Replace an agent with a successor briefed on its work. Stops it if it's still running. */
+export interface AgentHandoffMessage {
+  type: 'agent:handoff';
+  payload: { agentId: string };
+}
+
+export interface AgentPermissionResponseMessage {
+  type: 'agent:permission-response';
+  payload: {
+    agentId: string;
+    requestId: string;
+    decision: PermissionDecision;
+  };
+}
+
+export interface AgentDismissMessage {
+  type: 'agent:dismiss';
+  payload: { agentId: string };
+}
+
+export interface WorktreeMergeMessage {
+  type: 'worktree:merge';
+  payload: { agentId: string };
+}
+
+export interface QueueReorderMessage {
+  type: 'queue:reorder';
+  payload: {
+    agentId: string;
+    index: number; // 0-based target position
+  };
+}
+
+export interface QueueCancelMessage {
+  type: 'queue:cancel';
+  payload: { agentId: string };
+}
+
+export interface PlanAddMessage {
+  type: 'plan:add';
+  payload: { projectId: string; text: string };
+}
+
+export interface PlanRemoveMessage {
+  type: 'plan:remove';
+  payload: { projectId: string; taskId: string };
+}
+
+export interface PlanToggleMessage {
+  type: 'plan:toggle';
+  payload: { projectId: string; taskId: string };
+}
+
+export interface PlanReorderMessage {
+  type: 'plan:reorder';
+  payload: {
+    projectId: string;
+    taskId: string;
+    index: number; // 0-based target position
+  };
+}
+
+export interface PlanAssignMessage {
+  type: 'plan:assign';
+  payload: {
+    projectId: string;
+    taskId: string;
+    agentId: string | null; // null unlinks the task
+  };
+}
+
+export interface PlanDependMessage {
+  type: 'plan:depend';
+  payload: {
+    projectId: string;
+    taskId: string;
+    prerequisiteId: string;
+    enabled: boolean;
+  };
+}
+
+export interface PlanScheduleMessage {
+  type: 'plan:schedule';
+  payload: {
+    projectId: string;
+    taskIds: string[];
+    scheduled: boolean;
+    profileId?: string;
+  };
+}
+
+export interface PlanImportMessage {
+  type: 'plan:import';
+  payload: { plans: Record<string, PlanningTask[]> }; // Browser-stored plans, keyed by project id
+}
+
 export interface TerminalInputMessage {
   type: 'terminal:input';
   payload: {
@@ -105,13 +462,76 @@ export interface ProjectCreateMessage {
   };
 }
 
+export interface ProjectRescanMessage {
+  type: 'project:rescan';
+}
+
+export interface ProjectSetDefaultProfileMessage {
+  type: 'project:setDefaultProfile';
+  payload: {
+    projectId: string;
+    profileId: string | null;
+  };
+}
+
+export interface ProjectSetDefaultBudgetMessage {
+  type: 'project:setDefaultBudget';
+  payload: {
+    projectId: string;
+    budget: AgentBudget | null;
+  };
+}
+
+export interface ProfileSaveMessage {
+  type: 'profile:save';
+  payload: { profile: LaunchProfile };
+}
+
+export interface ProfileDeleteMessage {
+  type: 'profile:delete';
+  payload: { profileId: string };
+}
+
 export interface StateRequestMessage {
   type: 'state:request';
 }
 
+export interface ParserSubscribeMessage {
+  type: 'parser:subscribe';
+}
+
+export interface ParserUnsubscribeMessage {
+  type: 'parser:unsubscribe';
+}
+
+export interface ParserFlagMessage {
+  type: 'parser:flag';
+  payload: {
+    traceId: string;
+    falsePositive: boolean;
+  };
+}
+
 export type ClientMessage =
   | AgentLaunchMessage
   | AgentKillMessage
+  | AgentResumeMessage
+  | AgentPromptMessage
+  | FleetBroadcastMessage
+  | AgentHandoffMessage
+  | AgentPermissionResponseMessage
+  | AgentDismissMessage
+  | WorktreeMergeMessage
+  | QueueReorderMessage
+  | QueueCancelMessage
+  | PlanAddMessage
+  | PlanRemoveMessage
+  | PlanToggleMessage
+  | PlanReorderMessage
+  | PlanAssignMessage
+  | PlanDependMessage
+  | PlanScheduleMessage
+  | PlanImportMessage
   | TerminalInputMessage
   | TerminalResizeMessage
   | ProjectWatchMessage
@@ -119,6 +539,14 @@ export type ClientMessage =
   | GitMonitorStartMessage
   | GitMonitorStopMessage
   | ProjectCreateMessage
+  | ProjectRescanMessage
+  | ProjectSetDefaultProfileMessage
+  | ProjectSetDefaultBudgetMessage
+  | ProfileSaveMessage
+  | ProfileDeleteMessage
+  | ParserSubscribeMessage
+  | ParserUnsubscribeMessage
+  | ParserFlagMessage
   | StateRequestMessage;
 
 // ── WebSocket messages: Server → Client ──────────────────────────────────
@@ -128,16 +556,106 @@ export interface StateSyncMessage {
   payload: {
     projects: Record<string, Project>;
     agents: Record<string, Agent>;
+    profiles: Record<string, LaunchProfile>;
+    plans: Record<string, PlanningTask[]>;
+    queue: QueueEntry[];
+    limits: ConcurrencyLimits;
+    conflicts: FileConflict[];
+    fleet: FleetBroadcast[];
+    usage: UsageSummary;
     baseDir: string;
   };
 }
 
+export interface PlanUpdateMessage {
+  type: 'plan:update';
+  payload: { projectId: string; tasks: PlanningTask[] };
+}
+
+export interface QueueUpdateMessage {
+  type: 'queue:update';
+  payload: { queue: QueueEntry[] };
+}
+
+/** An agent the server launched on its own, which no client has added yet. */
+export interface AgentCreatedMessage {
+  type: 'agent:created';
+  payload: { agent: Agent };
+}
+
+export interface AgentRemovedMessage {
+  type: 'agent:removed';
+  payload: { agentId: string };
+}
+
+export interface AgentWorktreeMessage {
+  type: 'agent:worktree';
+  payload: { agentId: string; worktree: AgentWorktree | null; cwd: string };
+}
+
 export interface AgentStatusMessage {
   type: 'agent:status';
   payload: {
     agentId: string;
     status: AgentStatus;
     timestamp: number;
+    reason?: TerminalReason; // Set when the session was ended by the server
+  };
+}
+
+export interface BudgetWarningMessage {
+  type: 'budget:warning';
+  payload: {
+    agentId: string;
+    kind: BudgetKind;
+    limitMinutes: number;
+    remainingMs: number;
+  };
+}
+
+export interface AgentResumedMessage {
+  type: 'agent:resumed';
+  payload: {
+    agentId: string;
+    resumeCount: number;
+    timestamp: number;
+  };
+}
+
+export interface AgentPromptedMessage {
+  type: 'agent:prompted';
+  payload: {
+    agentId: string;
+    turn: AgentTurn;
+  };
+}
+
+/** A task or follow-up the CLI never accepted, even after retries. */
+export interface AgentSubmissionFailedMessage {
+  type: 'agent:submission-failed';
+  payload: {
+    agentId: string;
+    turn: number;          // 1 for the task
+    reason: string;
+    timestamp: number;
+  };
+}
+
+export interface AgentPermissionRequestMessage {
+  type: 'agent:permission-request';
+  payload: {
+    agentId: string;
+    request: PermissionRequest;
+  };
+}
+
+export interface AgentPermissionResolvedMessage {
+  type: 'agent:permission-resolved';
+  payload: {
+    agentId: string;
+    requestId: string;
+    decision?: PermissionDecision; // Absent when answered from the terminal
+    timestamp: number;
   };
 }
 
@@ -177,6 +695,38 @@ export interface FsChangeMessage {
   };
 }
 
+export interface UsageUpdateMessage {
+  type: 'usage:update';
+  payload: {
+    agentId: string;
+    turn: UsageRecord;
+    total: UsageTotals;      // The agent's running total
+    summary: UsageSummary;
+  };
+}
+
+/** Sent to a client when it subscribes: recent and flagged traces, oldest first. */
+export interface ParserTracesMessage {
+  type: 'parser:traces';
+  payload: { traces: ParserTrace[] };
+}
+
+/** A new trace, or a trace whose false-positive mark changed. Subscribers only. */
+export interface ParserTraceMessage {
+  type: 'parser:trace';
+  payload: { trace: ParserTrace };
+}
+
+export interface ConflictDetectedMessage {
+  type: 'conflict:detected';
+  payload: { conflict: FileConflict };
+}
+
+export interface FleetUpdateMessage {
+  type: 'fleet:update';
+  payload: { broadcasts: FleetBroadcast[] };
+}
+
 export interface GitStatusMessage {
   type: 'git:status';
   payload: {
@@ -220,10 +770,26 @@ export interface LogMessage {
 export type ServerMessage =
   | StateSyncMessage
   | AgentStatusMessage
+  | AgentResumedMessage
+  | AgentPromptedMessage
+  | AgentSubmissionFailedMessage
+  | BudgetWarningMessage
+  | AgentCreatedMessage
+  | AgentRemovedMessage
+  | AgentWorktreeMessage
+  | PlanUpdateMessage
+  | QueueUpdateMessage
+  | AgentPermissionRequestMessage
+  | AgentPermissionResolvedMessage
   | FileEventMessage
   | BuildEventMessage
   | TaskCompletedMessage
   | FsChangeMessage
+  | ConflictDetectedMessage
+  | FleetUpdateMessage
+  | UsageUpdateMessage
+  | ParserTracesMessage
+  | ParserTraceMessage
   | GitStatusMessage
   | ValidationErrorMessage
   | LogMessage;
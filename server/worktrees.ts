@@ -0,0 +1,124 @@
+import { execFile } from 'node:child_process';
+import { mkdir, realpath } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { AgentWorktree } from './types.js';
+import { getWorktreeRoot } from './pathSecurity.js';
+
+// ── git helper ───────────────────────────────────────────────────────────
+
+const GIT_TIMEOUT_MS = 30_000;
+const MAX_DIFF_BYTES = 20 * 1024 * 1024;
+
+function git(args: string[], cwd: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, timeout: GIT_TIMEOUT_MS, maxBuffer: MAX_DIFF_BYTES }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(`git ${args[0]} failed: ${(stderr || error.message).trim()}`));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
+
+/**
+ * Commits made on the server's behalf need an identity. Use the repo's own
+ * if it has one, otherwise a fixed fallback.
+ */
+async function identityArgs(cwd: string): Promise<string[]> {
+  const email = await git(['config', 'user.email'], cwd).catch(() => '');
+  return email.trim()
+    ? []
+    : ['-c', 'user.name=Constellation Command', '-c', 'user.email=constellation@localhost'];
+}
+
+// ── Worktree lifecycle ───────────────────────────────────────────────────
+
+/**
+ * Create a worktree on a new branch for an agent, starting from the
+ * project's current HEAD. The project must be a git repository with at
+ * least one commit.
+ */
+export async function createAgentWorktree(projectCwd: string, agentId: string): Promise<AgentWorktree> {
+  const baseCommit = (await git(['rev-parse', '--verify', 'HEAD'], projectCwd).catch(() => {
+    throw new Error('Worktree isolation needs the project to be a git repository with at least one commit');
+  })).trim();
+  const baseBranch = (await git(['rev-parse', '--abbrev-ref', 'HEAD'], projectCwd)).trim();
+
+  const root = getWorktreeRoot(await realpath(projectCwd));
+  await mkdir(root, { recursive: true });
+
+  const name = `agent-${agentId.slice(0, 8)}`;
+  const worktree: AgentWorktree = {
+    path: join(root, name),
+    branch: `constellation/${name}`,
+    baseBranch,
+    baseCommit,
+  };
+  await git(['worktree', 'add', '-b', worktree.branch, worktree.path, baseCommit], projectCwd);
+  return worktree;
+}
+
+/**
+ * Stage everything in the worktree — including files the agent created but
+ * never added — so diffs against the base commit see all of its work.
+ */
+async function stageAll(worktree: AgentWorktree): Promise<void> {
+  await git(['add', '-A'], worktree.path);
+}
+
+/** `git diff --stat` of the agent's work and the number of files it touched. */
+export async function summarizeWorktree(worktree: AgentWorktree): Promise<{ diffStat: string; filesChanged: number }> {
+  await stageAll(worktree);
+  const [stat, names] = await Promise.all([
+    git(['diff', '--cached', '--stat', worktree.baseCommit], worktree.path),
+    git(['diff', '--cached', '--name-only', worktree.baseCommit], worktree.path),
+  ]);
+  return {
+    diffStat: stat.trimEnd(),
+    filesChanged: names.split('\n').filter((line) => line.trim()).length,
+  };
+}
+
+/** Full patch of the agent's work against the base commit. */
+export async function readWorktreeDiff(worktree: AgentWorktree): Promise<string> {
+  await stageAll(worktree);
+  return git(['diff', '--cached', '--binary', worktree.baseCommit], worktree.path);
+}
+
+/**
+ * Commit whatever the agent left uncommitted on its branch, then merge the
+ * branch into the branch the project has checked out. A conflicting merge
+ * is aborted so the project is left as it was. Returns the target branch.
+ */
+export async function mergeAgentWorktree(projectCwd: string, worktree: AgentWorktree, message: string): Promise<string> {
+  await stageAll(worktree);
+  const pending = await git(['diff', '--cached', '--name-only'], worktree.path);
+  if (pending.trim()) {
+    await git([...(await identityArgs(worktree.path)), 'commit', '-m', message], worktree.path);
+  }
+
+  const target = (await git(['rev-parse', '--abbrev-ref', 'HEAD'], projectCwd)).trim();
+  if (target === 'HEAD') {
+    throw new Error('The project checkout is on a detached HEAD — check out a branch to merge into');
+  }
+
+  try {
+    await git([...(await identityArgs(projectCwd)), 'merge', '--no-ff', '--no-edit', worktree.branch], projectCwd);
+  } catch (error) {
+    await git(['merge', '--abort'], projectCwd).catch(() => {});
+    throw new Error(`Merging ${worktree.branch} into ${target} failed — ${(error as Error).message}`);
+  }
+  return target;
+}
+
+/**
+ * Remove the worktree directory. The branch is deleted only when asked,
+ * so unmerged work stays reachable.
+ */
+export async function removeAgentWorktree(projectCwd: string, worktree: AgentWorktree, deleteBranch: boolean): Promise<void> {
+  await git(['worktree', 'remove', '--force', worktree.path], projectCwd);
+  if (deleteBranch) {
+    await git(['branch', '-D', worktree.branch], projectCwd);
+  }
+}
@@ -11,12 +11,14 @@ import LaunchModal from './components/Planning/LaunchModal';
 import GalaxyMap from './components/Incubator/GalaxyMap';
 import CreateProjectModal from './components/Incubator/CreateProjectModal';
 import SystemLogs from './components/Logs/SystemLogs';
+import ParserInspector from './components/Inspector/ParserInspector';
 import StatusView from './components/Status/StatusView';
 import WarpEffect from './components/Viewscreen/WarpEffect';
 import TransporterEffect from './components/Viewscreen/TransporterEffect';
 import ShieldEffect from './components/Viewscreen/ShieldEffect';
 import ScanSweep from './components/Viewscreen/ScanSweep';
 import EmptyTactical from './components/Viewscreen/EmptyTactical';
+import FleetCommandBar from './components/Viewscreen/FleetCommandBar';
 import WelcomeOverlay from './components/Welcome/WelcomeOverlay';
 import LoginOverlay from './components/Auth/LoginOverlay';
 import ToastContainer from './components/Feedback/ToastContainer';
@@ -36,6 +38,7 @@ const VIEW_SUBTITLES: Record<string, string> = {
   planning: 'MISSION PLANNING',
   logs: 'SYSTEM LOGS',
   status: 'SHIP STATUS',
+  inspector: 'PARSER INSPECTOR',
 };
 
 export default function App() {
@@ -46,7 +49,7 @@ export default function App() {
     openChannel, closeChannel,
   } = useUIStore();
   const { projects, activeProjectId } = useProjectStore();
-  const { agents } = useAgentStore();
+  const { agents, fleetBroadcasts } = useAgentStore();
   const { phase, suggestedView, welcomeSeen, computePhase, addToast } = useFlowStore();
   const { phase: authPhase, token: authToken, checkStatus: checkAuthStatus } = useAuthStore();
   const { sendMessage, connectionStatus } = useWebSocket(authToken);
@@ -76,6 +79,11 @@ export default function App() {
     return agentList.filter(a => a.projectId === activeProject.id);
   }, [agentList, activeProject]);
 
+  const projectBroadcasts = useMemo(
+    () => fleetBroadcasts.filter((b) => b.projectId === activeProject?.id),
+    [fleetBroadcasts, activeProject],
+  );
+
   // Compute flow phase whenever projects/agents change
   useEffect(() => {
     computePhase(Object.keys(projects).length, activeAgents.length, completedAgents.length);
@@ -115,10 +123,13 @@ export default function App() {
           });
         } else if (agent.status === 'error') {
           setShieldActive(true);
+          const overBudget = agent.endReason === 'budget-exceeded';
           addToast({
             type: 'error',
-            title: 'AGENT ERROR',
-            message: `Agent ${agent.id.slice(0, 6).toUpperCase()} encountered an error`,
+            title: overBudget ? 'BUDGET EXCEEDED' : 'AGENT ERROR',
+            message: overBudget
+              ? `Agent ${agent.id.slice(0, 6).toUpperCase()} ran out of its time budget and was terminated`
+              : `Agent ${agent.id.slice(0, 6).toUpperCase()} encountered an error`,
             duration: 8000,
           });
         }
@@ -248,6 +259,19 @@ export default function App() {
               <OrbitalField
                 agents={projectAgents}
                 onMoonClick={(agentId) => openChannel(agentId)}
+                onPermissionDecision={(agentId, requestId, decision) =>
+                  sendMessage({ type: 'agent:permission-response', agentId, requestId, decision })}
+                onSendOrders={(agentId, text) => sendMessage({ type: 'agent:prompt', agentId, text })}
+              />
+            </div>
+
+            {/* Fleet command bar — orders for every agent in the project */}
+            <div style={{ position: 'absolute', left: 12, right: 12, bottom: 12 }}>
+              <FleetCommandBar
+                agents={projectAgents}
+                broadcasts={projectBroadcasts}
+                onBroadcast={(text, agentIds) =>
+                  sendMessage({ type: 'fleet:broadcast', projectId: activeProject.id, text, agentIds })}
               />
             </div>
           </div>
@@ -279,7 +303,10 @@ export default function App() {
 
       {/* Project Incubator / Galaxy Map View */}
       {currentView === 'incubator' && (
-        <GalaxyMap onCreateProject={() => setShowCreateProject(true)} />
+        <GalaxyMap
+          onCreateProject={() => setShowCreateProject(true)}
+          onRescan={() => sendMessage({ type: 'project:rescan' })}
+        />
       )}
 
       {/* System Logs View */}
@@ -288,6 +315,11 @@ export default function App() {
       {/* Ship Status View */}
       {currentView === 'status' && <StatusView />}
 
+      {/* Parser Inspector View */}
+      {currentView === 'inspector' && (
+        <ParserInspector sendMessage={sendMessage} connected={connectionStatus === 'connected'} />
+      )}
+
       {/* HUD Overlay */}
       <HUD
         title={activeProject?.name ?? 'NO ACTIVE MISSION'}
@@ -1,18 +1,29 @@
-import React, { useEffect, useRef } from 'react';
-import type { AgentEvent } from '../../types';
+import React, { useEffect, useMemo, useRef } from 'react';
+import type { AgentEvent, AgentTurn } from '../../types';
 
 /* ============================================================
    ActivityFeed - Telemetry Event Stream
 
    Scrollable event list that auto-scrolls to bottom on new events.
    Displays parsed agent events with type-based icons and relative
-   timestamps. Designed for the right sidebar of the Agent Console.
+   timestamps. Follow-up orders sent to the agent are listed
+   among the events as numbered turns, flagged when the CLI
+   never accepted them. Designed for the right
+   sidebar of the Agent Console.
    ============================================================ */
 
 interface ActivityFeedProps {
   events: AgentEvent[];
+  turns?: AgentTurn[];
 }
 
+type FeedRow =
+  | { kind: 'event'; event: AgentEvent; timestamp: number }
+  | { kind: 'turn'; turn: AgentTurn; timestamp: number };
+
+const TURN_VISUAL = { icon: '\u00BB', color: 'var(--cyan-glow, #00c8ff)', glowColor: 'rgba(0, 200, 255, 0.5)' };
+const FAILED_TURN_VISUAL = { icon: '\u2717', color: 'var(--red-alert, #ff3344)', glowColor: 'rgba(255, 51, 68, 0.5)' };
+
 /* ---------- Event Icon/Color Mapping ---------- */
 
 interface EventVisual {
@@ -21,7 +32,7 @@ interface EventVisual {
   glowColor: string;
 }
 
-function getEventVisual(type: AgentEvent['type']): EventVisual {
+export function getEventVisual(type: AgentEvent['type']): EventVisual {
   switch (type) {
     case 'file:created':
       return { icon: '+', color: 'var(--green-success, #00ff88)', glowColor: 'rgba(0, 255, 136, 0.4)' };
@@ -87,17 +98,22 @@ function relativeTime(timestamp: number): string {
 
 /* ---------- Component ---------- */
 
-export default function ActivityFeed({ events }: ActivityFeedProps) {
+export default function ActivityFeed({ events, turns = [] }: ActivityFeedProps) {
   const scrollRef = useRef<HTMLDivElement>(null);
-  const prevLengthRef = useRef(events.length);
+
+  const rows = useMemo<FeedRow[]>(() => [
+    ...events.map((event): FeedRow => ({ kind: 'event', event, timestamp: event.timestamp })),
+    ...turns.map((turn): FeedRow => ({ kind: 'turn', turn, timestamp: turn.sentAt })),
+  ].sort((a, b) => a.timestamp - b.timestamp), [events, turns]);
+  const prevLengthRef = useRef(rows.length);
 
   // Auto-scroll to bottom when new events arrive
   useEffect(() => {
-    if (events.length > prevLengthRef.current && scrollRef.current) {
+    if (rows.length > prevLengthRef.current && scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-    prevLengthRef.current = events.length;
-  }, [events.length]);
+    prevLengthRef.current = rows.length;
+  }, [rows.length]);
 
   return (
     <div style={styles.container}>
@@ -112,17 +128,25 @@ export default function ActivityFeed({ events }: ActivityFeedProps) {
 
       {/* Event List */}
       <div ref={scrollRef} style={styles.scrollArea}>
-        {events.length === 0 ? (
+        {rows.length === 0 ? (
           <div style={styles.emptyState}>
             <span style={styles.emptyIcon}>{'\u2026'}</span>
             <span style={styles.emptyText}>Awaiting telemetry...</span>
           </div>
         ) : (
-          events.map((event) => {
-            const visual = getEventVisual(event.type);
-            const description = getEventDescription(event);
+          rows.map((row) => {
+            const visual = row.kind === 'turn'
+              ? (row.turn.failed ? FAILED_TURN_VISUAL : TURN_VISUAL)
+              : getEventVisual(row.event.type);
+            const description = row.kind === 'turn'
+              ? `Turn ${row.turn.number}${row.turn.failed ? ' not accepted' : ''}: ${row.turn.text}`
+              : getEventDescription(row.event);
             return (
-              <div key={event.id} style={styles.eventRow}>
+              <div
+                key={row.kind === 'turn' ? `turn-${row.turn.number}` : row.event.id}
+                style={row.kind === 'turn' ? { ...styles.eventRow, ...styles.turnRow } : styles.eventRow}
+                title={row.kind === 'turn' ? row.turn.failed ?? row.turn.text : undefined}
+              >
                 {/* Icon */}
                 <span
                   style={{
@@ -137,7 +161,7 @@ export default function ActivityFeed({ events }: ActivityFeedProps) {
                 {/* Description + Timestamp */}
                 <div style={styles.eventContent}>
                   <span style={styles.eventDescription}>{description}</span>
-                  <span style={styles.eventTimestamp}>{relativeTime(event.timestamp)}</span>
+                  <span style={styles.eventTimestamp}>{relativeTime(row.timestamp)}</span>
                 </div>
               </div>
             );
@@ -230,6 +254,12 @@ const styles: Record<string, React.CSSProperties> = {
     animation: 'fade-in-up 0.25s ease-out',
   },
 
+  turnRow: {
+    background: 'rgba(0, 200, 255, 0.04)',
+    borderLeft: '2px solid rgba(0, 200, 255, 0.4)',
+    paddingLeft: 10,
+  },
+
   eventIcon: {
     fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
     fontSize: '13px',
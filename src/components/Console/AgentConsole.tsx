@@ -2,6 +2,9 @@ import React, { useEffect, useCallback, useMemo, useState } from 'react';
 import { useAgentStore } from '../../stores/agentStore';
 import ActivityFeed from './ActivityFeed';
 import TerminalContainer from './TerminalContainer';
+import PermissionCard from './PermissionCard';
+import SendOrders from './SendOrders';
+import type { PermissionDecision } from '../../types';
 
 /* ============================================================
    AgentConsole - Slide-in Bridge Console Panel
@@ -58,6 +61,18 @@ function getStatusVisual(status: string): StatusVisual {
         glowColor: 'rgba(255, 51, 68, 0.5)',
         label: 'ERROR',
       };
+    case 'interrupted':
+      return {
+        color: '#b45309',
+        glowColor: 'rgba(180, 83, 9, 0.5)',
+        label: 'INTERRUPTED',
+      };
+    case 'awaiting-approval':
+      return {
+        color: '#ff2d95',
+        glowColor: 'rgba(255, 45, 149, 0.5)',
+        label: 'NEEDS APPROVAL',
+      };
     default:
       return {
         color: 'var(--text-secondary, #7a8ba8)',
@@ -117,6 +132,19 @@ export default function AgentConsole({ agentId, onClose, sendMessage, authToken
     sendMessage({ type: 'agent:kill', agentId });
   }, [agentId, sendMessage]);
 
+  const handleResume = useCallback(() => {
+    sendMessage({ type: 'agent:resume', agentId });
+  }, [agentId, sendMessage]);
+
+  const handleSendOrders = useCallback((text: string) => {
+    sendMessage({ type: 'agent:prompt', agentId, text });
+  }, [agentId, sendMessage]);
+
+  const handlePermissionDecision = useCallback((decision: PermissionDecision) => {
+    if (!agent?.pendingPermission) return;
+    sendMessage({ type: 'agent:permission-response', agentId, requestId: agent.pendingPermission.requestId, decision });
+  }, [agentId, agent?.pendingPermission, sendMessage]);
+
   /* ---------- Close with Animation ---------- */
   const handleClose = useCallback(() => {
     setIsClosing(true);
@@ -134,6 +162,9 @@ export default function AgentConsole({ agentId, onClose, sendMessage, authToken
   const events = agent?.events ?? [];
   const filesChanged = agent?.filesChanged ?? 0;
   const agentTask = agent?.task ?? 'Unknown Task';
+  const isFinished = agent?.status === 'completed' || agent?.status === 'error' || agent?.status === 'interrupted';
+  // Shell commands have no conversation to reopen
+  const canResume = !!agent?.sessionId && isFinished && (agent.profile?.driver ?? 'claude-code') === 'claude-code';
 
   return (
     <>
@@ -278,21 +309,34 @@ export default function AgentConsole({ agentId, onClose, sendMessage, authToken
               {/* Terminal header bar */}
               <div style={styles.terminalHeader}>
                 <span style={styles.terminalHeaderDot} />
-                <span style={styles.terminalHeaderTitle}>TERMINAL SESSION</span>
+                <span style={styles.terminalHeaderTitle}>{isFinished ? 'ARCHIVED TRANSCRIPT' : 'TERMINAL SESSION'}</span>
                 <span style={styles.terminalHeaderId}>{agentId.slice(0, 12)}</span>
               </div>
 
+              {/* Open permission prompt */}
+              {agent?.pendingPermission && (
+                <div style={styles.permissionSlot}>
+                  <PermissionCard request={agent.pendingPermission} onDecision={handlePermissionDecision} />
+                </div>
+              )}
+
               {/* Terminal content */}
               <div style={styles.terminalContent}>
-                <TerminalContainer agentId={agentId} sendMessage={sendMessage} authToken={authToken} />
+                <TerminalContainer key={`${agentId}-${agent?.resumeCount ?? 0}`} agentId={agentId} sendMessage={sendMessage} authToken={authToken} readOnly={isFinished} />
               </div>
             </div>
 
+            {/* Follow-up orders */}
+            {agent && !isFinished && (
+              <div style={styles.ordersSlot}>
+                <SendOrders agent={agent} onSend={handleSendOrders} />
+              </div>
+            )}
           </div>
 
           {/* Activity Feed Sidebar */}
           <div style={styles.activitySidebar}>
-            <ActivityFeed events={events} />
+            <ActivityFeed events={events} turns={agent?.turns} />
           </div>
         </div>
 
@@ -322,6 +366,25 @@ export default function AgentConsole({ agentId, onClose, sendMessage, authToken
               <span style={styles.cornerClipBR} />
               <span style={styles.actionButtonLabel}>TERMINATE AGENT</span>
             </button>
+
+            {/* Resume Session */}
+            {canResume && (
+              <button
+                onClick={handleResume}
+                style={{
+                  ...styles.actionButton,
+                  borderColor: 'var(--cyan-glow, #00c8ff)',
+                  color: 'var(--cyan-glow, #00c8ff)',
+                  boxShadow: '0 0 8px rgba(0, 200, 255, 0.3)',
+                }}
+              >
+                <span style={styles.cornerClipTL} />
+                <span style={styles.cornerClipTR} />
+                <span style={styles.cornerClipBL} />
+                <span style={styles.cornerClipBR} />
+                <span style={styles.actionButtonLabel}>RESUME</span>
+              </button>
+            )}
           </div>
         </footer>
       </div>
@@ -588,6 +651,12 @@ const styles: Record<string, React.CSSProperties> = {
     opacity: 0.5,
   },
 
+  permissionSlot: {
+    padding: '8px 12px',
+    borderBottom: '1px solid rgba(0, 200, 255, 0.1)',
+    flexShrink: 0,
+  },
+
   terminalContent: {
     flex: 1,
     position: 'relative',
@@ -595,6 +664,11 @@ const styles: Record<string, React.CSSProperties> = {
   },
 
   /* --- Activity Sidebar --- */
+  ordersSlot: {
+    marginTop: 8,
+    flexShrink: 0,
+  },
+
   activitySidebar: {
     width: 200,
     flexShrink: 0,
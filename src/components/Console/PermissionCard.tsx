@@ -0,0 +1,177 @@
+import React from 'react';
+import type { PermissionDecision, PermissionRequest } from '../../types';
+
+/* ============================================================
+   PermissionCard - Tool Permission Prompt
+
+   Shown while a supervised agent is blocked on the CLI's
+   "Do you want to proceed?" prompt. The server answers by
+   writing the chosen option to the agent's PTY.
+
+   `compact` is the small variant floated above a moon.
+   ============================================================ */
+
+interface PermissionCardProps {
+  request: PermissionRequest;
+  onDecision: (decision: PermissionDecision) => void;
+  compact?: boolean;
+}
+
+export default function PermissionCard({ request, onDecision, compact = false }: PermissionCardProps) {
+  const decide = (decision: PermissionDecision) => (e: React.MouseEvent) => {
+    // Keep the click from reaching the moon / terminal underneath
+    e.stopPropagation();
+    onDecision(decision);
+  };
+
+  return (
+    <div
+      style={compact ? { ...styles.card, ...styles.cardCompact } : styles.card}
+      onClick={(e) => e.stopPropagation()}
+      role="alertdialog"
+      aria-label={`Permission request: ${request.tool}`}
+    >
+      <div style={styles.header}>
+        <span style={styles.headerLabel}>PERMISSION REQUEST</span>
+        <span style={styles.toolBadge}>{request.tool}</span>
+      </div>
+
+      {request.detail && (
+        <div
+          style={compact ? { ...styles.detail, ...styles.detailCompact } : styles.detail}
+          title={request.detail}
+        >
+          {request.detail}
+        </div>
+      )}
+
+      {!compact && <div style={styles.question}>{request.question}</div>}
+
+      <div style={styles.actions}>
+        <button onClick={decide('approve')} style={{ ...styles.button, ...styles.approve }}>
+          APPROVE
+        </button>
+        {request.alwaysLabel && (
+          <button
+            onClick={decide('always')}
+            style={{ ...styles.button, ...styles.always }}
+            title={request.alwaysLabel}
+          >
+            ALWAYS ALLOW
+          </button>
+        )}
+        <button onClick={decide('deny')} style={{ ...styles.button, ...styles.deny }}>
+          DENY
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/* ==========================================================
+   Styles
+   ========================================================== */
+
+const styles: Record<string, React.CSSProperties> = {
+  card: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 8,
+    padding: '10px 12px',
+    background: 'rgba(10, 14, 23, 0.95)',
+    border: '1px solid rgba(255, 45, 149, 0.5)',
+    borderLeft: '3px solid #ff2d95',
+    borderRadius: 2,
+    boxShadow: '0 0 16px rgba(255, 45, 149, 0.2)',
+    cursor: 'default',
+  },
+
+  cardCompact: {
+    width: 220,
+    gap: 6,
+    padding: '8px 10px',
+  },
+
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+
+  headerLabel: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '8px',
+    fontWeight: 700,
+    letterSpacing: '2px',
+    color: '#ff2d95',
+  },
+
+  toolBadge: {
+    padding: '1px 6px',
+    border: '1px solid rgba(255, 45, 149, 0.4)',
+    borderRadius: 2,
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '10px',
+    color: 'var(--text-primary, #e0f0ff)',
+    whiteSpace: 'nowrap',
+  },
+
+  detail: {
+    padding: '4px 6px',
+    background: 'rgba(255, 255, 255, 0.04)',
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '11px',
+    color: 'var(--text-primary, #e0f0ff)',
+    wordBreak: 'break-all',
+  },
+
+  detailCompact: {
+    fontSize: '10px',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+    wordBreak: 'normal',
+  },
+
+  question: {
+    fontFamily: "var(--font-body, 'Rajdhani', sans-serif)",
+    fontSize: '12px',
+    color: 'var(--text-secondary, #7a8ba8)',
+  },
+
+  actions: {
+    display: 'flex',
+    gap: 6,
+  },
+
+  button: {
+    flex: 1,
+    padding: '5px 6px',
+    borderRadius: 2,
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '7px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+  },
+
+  approve: {
+    border: '1px solid rgba(0, 255, 136, 0.4)',
+    background: 'rgba(0, 255, 136, 0.08)',
+    color: 'var(--green-success, #00ff88)',
+  },
+
+  always: {
+    border: '1px solid rgba(0, 200, 255, 0.4)',
+    background: 'rgba(0, 200, 255, 0.08)',
+    color: 'var(--cyan-glow, #00c8ff)',
+  },
+
+  deny: {
+    border: '1px solid rgba(255, 51, 68, 0.4)',
+    background: 'rgba(255, 51, 68, 0.08)',
+    color: 'var(--red-alert, #ff3344)',
+  },
+};
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import type { Agent } from '../../types';
+
+/* ============================================================
+   SendOrders - Follow-up Instruction Input
+
+   One-line input that sends a live agent another instruction
+   (`agent:prompt`). The server submits it the way the task was
+   submitted and records it as the agent's next turn. Disabled
+   while the agent can't take orders.
+
+   `compact` is the small variant shown in the moon's tooltip.
+   ============================================================ */
+
+interface SendOrdersProps {
+  agent: Agent;
+  onSend: (text: string) => void;
+  compact?: boolean;
+}
+
+/** Why the agent can't be given orders right now, or null when it can. */
+export function ordersBlockedReason(agent: Agent): string | null {
+  switch (agent.status) {
+    case 'queued':
+    case 'launching':
+      return 'Agent is still starting';
+    case 'awaiting-approval':
+      return 'Answer the permission request first';
+    case 'completed':
+    case 'error':
+    case 'interrupted':
+      return 'Agent is not running';
+    default:
+      return null;
+  }
+}
+
+export default function SendOrders({ agent, onSend, compact = false }: SendOrdersProps) {
+  const [text, setText] = useState('');
+  const blocked = ordersBlockedReason(agent);
+  const canSend = !blocked && text.trim().length > 0;
+
+  const send = () => {
+    if (!canSend) return;
+    onSend(text.trim());
+    setText('');
+  };
+
+  return (
+    <div
+      style={compact ? { ...styles.container, ...styles.containerCompact } : styles.container}
+      // Keep clicks and keys from reaching the moon / terminal underneath
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => e.stopPropagation()}
+    >
+      <span style={styles.prompt}>{'❯'}</span>
+      <input
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            send();
+          }
+        }}
+        placeholder={blocked ?? (agent.status === 'waiting' ? 'Send orders…' : 'Queue orders for the next turn…')}
+        disabled={!!blocked}
+        style={compact ? { ...styles.input, ...styles.inputCompact } : styles.input}
+        spellCheck={false}
+        aria-label="Send orders to agent"
+      />
+      <button
+        onClick={send}
+        disabled={!canSend}
+        style={{ ...styles.sendButton, opacity: canSend ? 1 : 0.35, cursor: canSend ? 'pointer' : 'not-allowed' }}
+      >
+        SEND
+      </button>
+    </div>
+  );
+}
+
+/* ==========================================================
+   Styles
+   ========================================================== */
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+    padding: '6px 10px',
+    background: 'rgba(10, 14, 23, 0.9)',
+    border: '1px solid rgba(0, 200, 255, 0.25)',
+    borderRadius: 2,
+  },
+
+  containerCompact: {
+    width: 240,
+    gap: 6,
+    padding: '4px 6px',
+  },
+
+  prompt: {
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '12px',
+    color: 'var(--cyan-glow, #00c8ff)',
+    textShadow: '0 0 6px rgba(0, 200, 255, 0.5)',
+    flexShrink: 0,
+  },
+
+  input: {
+    flex: 1,
+    minWidth: 0,
+    padding: '4px 0',
+    background: 'transparent',
+    border: 'none',
+    outline: 'none',
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '12px',
+    color: 'var(--text-primary, #e0f0ff)',
+  },
+
+  inputCompact: {
+    fontSize: '10px',
+    padding: '2px 0',
+  },
+
+  sendButton: {
+    padding: '4px 10px',
+    border: '1px solid rgba(0, 200, 255, 0.4)',
+    borderRadius: 2,
+    background: 'rgba(0, 200, 255, 0.08)',
+    color: 'var(--cyan-glow, #00c8ff)',
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '7px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    whiteSpace: 'nowrap',
+    flexShrink: 0,
+  },
+};
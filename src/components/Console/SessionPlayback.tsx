@@ -0,0 +1,396 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { Terminal } from '@xterm/xterm';
+import TerminalContainer from './TerminalContainer';
+import { getEventVisual } from './ActivityFeed';
+import { fetchRecording, parseCast, type CastMarker, type CastRecording } from '../../utils/recording';
+import type { AgentEvent } from '../../types';
+
+/* ============================================================
+   SessionPlayback - Recorded Session Replay
+
+   Replays an agent's asciicast recording in a TerminalContainer
+   without a live PTY. Play/pause, speed control, a seek bar, and
+   markers for parser events (files, builds, completion) that
+   jump the playhead straight to that moment.
+   ============================================================ */
+
+interface SessionPlaybackProps {
+  agentId: string;
+  authToken?: string | null;
+}
+
+const SPEEDS = [0.5, 1, 2, 4, 8];
+
+/* ---------- Helpers ---------- */
+
+function formatTime(seconds: number): string {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mmss = `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+  return h > 0 ? `${h}:${mmss}` : mmss;
+}
+
+function describeMarker(marker: CastMarker): string {
+  const label = marker.type.replace(':', ' ').toUpperCase();
+  return marker.detail ? `${label} — ${marker.detail}` : label;
+}
+
+/* ==========================================================
+   Main Component
+   ========================================================== */
+
+export default function SessionPlayback({ agentId, authToken }: SessionPlaybackProps) {
+  const [recording, setRecording] = useState<CastRecording | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [terminal, setTerminal] = useState<Terminal | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [position, setPosition] = useState(0);
+
+  // Playback engine state — changes every frame, so kept out of React state
+  const cursorRef = useRef(0);   // index of the next recording event to apply
+  const renderedRef = useRef(0); // time the terminal has been drawn up to
+  const positionRef = useRef(0);
+
+  /* ---------- Load recording ---------- */
+  useEffect(() => {
+    let cancelled = false;
+    setRecording(null);
+    setError(null);
+    setPlaying(false);
+    fetchRecording(agentId, authToken)
+      .then((text) => {
+        if (!cancelled) setRecording(parseCast(text));
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [agentId, authToken]);
+
+  /* ---------- Rendering ---------- */
+
+  // Draw the terminal as it looked at `time`. Moving forward only applies the
+  // new events; moving backward redraws from the start.
+  const renderTo = useCallback((time: number) => {
+    if (!terminal || !recording) return;
+
+    if (time < renderedRef.current) {
+      terminal.reset();
+      terminal.resize(recording.width, recording.height);
+      cursorRef.current = 0;
+    }
+
+    const { events } = recording;
+    let chunk = '';
+    let i = cursorRef.current;
+    while (i < events.length && events[i].time <= time) {
+      const event = events[i];
+      if (event.kind === 'o') {
+        chunk += event.data;
+      } else {
+        // Resize once the output before it has been parsed
+        const [cols, rows] = event.data.split('x').map(Number);
+        terminal.write(chunk, () => {
+          if (cols > 0 && rows > 0) terminal.resize(cols, rows);
+        });
+        chunk = '';
+      }
+      i++;
+    }
+    if (chunk) terminal.write(chunk);
+
+    cursorRef.current = i;
+    renderedRef.current = time;
+  }, [terminal, recording]);
+
+  const seek = useCallback((time: number) => {
+    positionRef.current = time;
+    renderTo(time);
+    setPosition(time);
+  }, [renderTo]);
+
+  // Fresh terminal or recording — start from the beginning
+  useEffect(() => {
+    if (!terminal || !recording) return;
+    terminal.reset();
+    terminal.resize(recording.width, recording.height);
+    cursorRef.current = 0;
+    renderedRef.current = 0;
+    seek(0);
+  }, [terminal, recording, seek]);
+
+  /* ---------- Play loop ---------- */
+  useEffect(() => {
+    if (!playing || !recording) return;
+
+    let last = performance.now();
+    let frame = requestAnimationFrame(function tick(now) {
+      const next = Math.min(positionRef.current + ((now - last) / 1000) * speed, recording.duration);
+      last = now;
+      seek(next);
+      if (next >= recording.duration) {
+        setPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, recording, seek]);
+
+  /* ---------- Controls ---------- */
+
+  const togglePlay = useCallback(() => {
+    if (!recording) return;
+    if (!playing && positionRef.current >= recording.duration) {
+      seek(0);
+    }
+    setPlaying((p) => !p);
+  }, [playing, recording, seek]);
+
+  const markers = recording?.markers ?? [];
+  const duration = recording?.duration ?? 0;
+  const nextMarker = markers.find((m) => m.time > position + 0.05);
+  const prevMarker = [...markers].reverse().find((m) => m.time < position - 0.5);
+  const lastMarker = [...markers].reverse().find((m) => m.time <= position);
+
+  return (
+    <div style={styles.container}>
+      {/* Terminal */}
+      <div style={styles.screen}>
+        <TerminalContainer
+          agentId={agentId}
+          sendMessage={noop}
+          playback
+          onReady={setTerminal}
+        />
+        {!recording && (
+          <div style={styles.overlay}>
+            {error ? `RECORDING UNAVAILABLE: ${error}` : 'LOADING RECORDING...'}
+          </div>
+        )}
+      </div>
+
+      {/* Timeline */}
+      <div style={styles.timeline}>
+        <input
+          type="range"
+          min={0}
+          max={duration || 1}
+          step={0.01}
+          value={position}
+          disabled={!recording}
+          onChange={(e) => seek(Number(e.target.value))}
+          style={styles.seekBar}
+          aria-label="Playback position"
+        />
+        {duration > 0 && markers.map((marker, i) => (
+          <button
+            key={`${marker.time}-${i}`}
+            onClick={() => seek(marker.time)}
+            title={`${describeMarker(marker)} @ ${formatTime(marker.time)}`}
+            style={{
+              ...styles.marker,
+              left: `${(marker.time / duration) * 100}%`,
+              background: getEventVisual(marker.type as AgentEvent['type']).color,
+            }}
+          />
+        ))}
+      </div>
+
+      {/* Controls */}
+      <div style={styles.controls}>
+        <button onClick={togglePlay} disabled={!recording} style={styles.playBtn}>
+          {playing ? 'PAUSE' : 'PLAY'}
+        </button>
+        <button
+          onClick={() => prevMarker && seek(prevMarker.time)}
+          disabled={!prevMarker}
+          style={styles.controlBtn}
+          title="Previous event"
+        >
+          {'◀'} EVENT
+        </button>
+        <button
+          onClick={() => nextMarker && seek(nextMarker.time)}
+          disabled={!nextMarker}
+          style={styles.controlBtn}
+          title="Next event"
+        >
+          EVENT {'▶'}
+        </button>
+
+        <span style={styles.time}>
+          {formatTime(position)} / {formatTime(duration)}
+        </span>
+
+        <span style={styles.lastEvent}>
+          {lastMarker ? describeMarker(lastMarker) : ''}
+        </span>
+
+        <div style={styles.speedGroup}>
+          {SPEEDS.map((s) => (
+            <button
+              key={s}
+              onClick={() => setSpeed(s)}
+              style={{
+                ...styles.speedBtn,
+                ...(s === speed ? styles.speedBtnActive : {}),
+              }}
+            >
+              {s}{'×'}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function noop() {
+  // Playback has no backend to talk to
+}
+
+/* ==========================================================
+   Styles
+   ========================================================== */
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    width: '100%',
+    height: '100%',
+    minHeight: 0,
+  },
+
+  screen: {
+    position: 'relative',
+    flex: 1,
+    minHeight: 0,
+    overflow: 'auto',
+  },
+
+  overlay: {
+    position: 'absolute',
+    inset: 0,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '10px',
+    fontWeight: 700,
+    letterSpacing: '2px',
+    color: 'var(--text-secondary, #7a8ba8)',
+    background: 'rgba(10, 14, 23, 0.85)',
+  },
+
+  timeline: {
+    position: 'relative',
+    height: 18,
+    margin: '6px 12px 0',
+    flexShrink: 0,
+  },
+
+  seekBar: {
+    width: '100%',
+    margin: 0,
+    accentColor: '#00c8ff',
+    cursor: 'pointer',
+  },
+
+  marker: {
+    position: 'absolute',
+    top: 0,
+    width: 3,
+    height: 8,
+    padding: 0,
+    border: 'none',
+    borderRadius: 1,
+    transform: 'translateX(-1px)',
+    cursor: 'pointer',
+    opacity: 0.9,
+  },
+
+  controls: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+    padding: '6px 12px 8px',
+    borderTop: '1px solid rgba(0, 200, 255, 0.08)',
+    flexShrink: 0,
+  },
+
+  playBtn: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '9px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    color: 'var(--green-success, #00ff88)',
+    border: '1px solid rgba(0, 255, 136, 0.4)',
+    background: 'rgba(0, 255, 136, 0.08)',
+    padding: '4px 14px',
+    minWidth: 64,
+    cursor: 'pointer',
+    borderRadius: 2,
+  },
+
+  controlBtn: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '8px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    color: 'var(--cyan-glow, #00c8ff)',
+    border: '1px solid rgba(0, 200, 255, 0.3)',
+    background: 'rgba(0, 200, 255, 0.06)',
+    padding: '4px 10px',
+    cursor: 'pointer',
+    borderRadius: 2,
+  },
+
+  time: {
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '11px',
+    color: 'var(--text-primary, #e0f0ff)',
+    flexShrink: 0,
+  },
+
+  lastEvent: {
+    flex: 1,
+    minWidth: 0,
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '10px',
+    color: 'var(--text-secondary, #7a8ba8)',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+
+  speedGroup: {
+    display: 'flex',
+    gap: 2,
+    flexShrink: 0,
+  },
+
+  speedBtn: {
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '10px',
+    color: 'var(--text-secondary, #7a8ba8)',
+    border: '1px solid rgba(122, 139, 168, 0.25)',
+    background: 'transparent',
+    padding: '2px 6px',
+    cursor: 'pointer',
+    borderRadius: 2,
+  },
+
+  speedBtnActive: {
+    color: 'var(--cyan-glow, #00c8ff)',
+    borderColor: 'rgba(0, 200, 255, 0.5)',
+    background: 'rgba(0, 200, 255, 0.1)',
+  },
+};
@@ -9,6 +9,10 @@ import '@xterm/xterm/css/xterm.css';
 
    Creates an xterm.js terminal instance, connects it to the
    backend via WebSocket (AttachAddon), and handles resize events.
+   In readOnly mode it shows the archived transcript of a
+   finished agent instead: no input, no resize. In playback mode
+   there is no connection at all — the parent drives the terminal
+   handed to it through onReady (see SessionPlayback).
    Themed to match the starship bridge console aesthetic.
    ============================================================ */
 
@@ -16,6 +20,9 @@ interface TerminalContainerProps {
   agentId: string;
   sendMessage: (msg: any) => void;
   authToken?: string | null;
+  readOnly?: boolean;
+  playback?: boolean;
+  onReady?: (terminal: Terminal | null) => void;
 }
 
 /* ---------- xterm Theme ---------- */
@@ -45,7 +52,14 @@ const XTERM_THEME = {
   brightWhite: '#ffffff',
 };
 
-export default function TerminalContainer({ agentId, sendMessage, authToken }: TerminalContainerProps) {
+export default function TerminalContainer({
+  agentId,
+  sendMessage,
+  authToken,
+  readOnly = false,
+  playback = false,
+  onReady,
+}: TerminalContainerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const terminalRef = useRef<Terminal | null>(null);
   const fitAddonRef = useRef<FitAddon | null>(null);
@@ -62,7 +76,8 @@ export default function TerminalContainer({ agentId, sendMessage, authToken }: T
       fontFamily: "'JetBrains Mono', 'Fira Code', monospace",
       fontSize: 13,
       lineHeight: 1.4,
-      cursorBlink: true,
+      cursorBlink: !readOnly && !playback,
+      disableStdin: readOnly || playback,
       cursorStyle: 'bar',
       cursorWidth: 2,
       allowTransparency: true,
@@ -79,6 +94,17 @@ export default function TerminalContainer({ agentId, sendMessage, authToken }: T
     /* ---------- Open Terminal ---------- */
     terminal.open(container);
 
+    /* ---------- Playback: parent writes, recording sets the size ---------- */
+    if (playback) {
+      onReady?.(terminal);
+      return () => {
+        onReady?.(null);
+        terminal.dispose();
+        terminalRef.current = null;
+        fitAddonRef.current = null;
+      };
+    }
+
     // Initial fit after the terminal is rendered
     requestAnimationFrame(() => {
       try {
@@ -94,7 +120,9 @@ export default function TerminalContainer({ agentId, sendMessage, authToken }: T
     const tokenParam = authToken ? `?token=${encodeURIComponent(authToken)}` : '';
     const wsUrl = `${protocol}//${host}/ws/terminal/${agentId}${tokenParam}`;
 
-    terminal.writeln('\x1b[36m[CONNECTING]\x1b[0m Connecting to agent terminal...');
+    terminal.writeln(readOnly
+      ? '\x1b[36m[LOADING]\x1b[0m Loading archived transcript...'
+      : '\x1b[36m[CONNECTING]\x1b[0m Connecting to agent terminal...');
 
     let wsAttempt = 0;
     const maxAttempts = 3;
@@ -106,8 +134,10 @@ export default function TerminalContainer({ agentId, sendMessage, authToken }: T
       wsRef.current = ws;
 
       ws.onopen = () => {
-        terminal.writeln('\x1b[32m--- TERMINAL SESSION ESTABLISHED ---\x1b[0m\r\n');
-        const attachAddon = new AttachAddon(ws);
+        if (!readOnly) {
+          terminal.writeln('\x1b[32m--- TERMINAL SESSION ESTABLISHED ---\x1b[0m\r\n');
+        }
+        const attachAddon = new AttachAddon(ws, { bidirectional: !readOnly });
         terminal.loadAddon(attachAddon);
       };
 
@@ -134,6 +164,8 @@ export default function TerminalContainer({ agentId, sendMessage, authToken }: T
       if (!fitAddonRef.current || !terminalRef.current) return;
       try {
         fitAddonRef.current.fit();
+        // Archived transcripts have no pty to resize
+        if (readOnly) return;
         const { cols, rows } = terminalRef.current;
         sendMessage({
           type: 'terminal:resize',
@@ -178,12 +210,12 @@ export default function TerminalContainer({ agentId, sendMessage, authToken }: T
 
       fitAddonRef.current = null;
     };
-  }, [agentId, sendMessage, authToken]);
+  }, [agentId, sendMessage, authToken, readOnly, playback, onReady]);
 
   return (
     <div
       ref={containerRef}
-      style={styles.container}
+      style={playback ? { ...styles.container, overflow: 'visible' } : styles.container}
       data-agent-terminal={agentId}
     />
   );
@@ -0,0 +1,162 @@
+import React from 'react';
+import type { AgentWorktree } from '../../types';
+
+/* ============================================================
+   WorktreePanel - Isolated Branch Summary
+
+   Shown under the mission bar for a finished agent that ran in
+   its own git worktree: the branch, what it changed against
+   the commit it started from, and the merge / patch actions.
+   ============================================================ */
+
+interface WorktreePanelProps {
+  worktree: AgentWorktree;
+  onMerge: () => void;
+  onDownloadPatch: () => void;
+}
+
+export default function WorktreePanel({ worktree, onMerge, onDownloadPatch }: WorktreePanelProps) {
+  const summarized = worktree.filesChanged !== undefined;
+  const hasChanges = (worktree.filesChanged ?? 0) > 0;
+
+  return (
+    <div style={styles.panel}>
+      <div style={styles.header}>
+        <span style={styles.headerLabel}>WORKTREE</span>
+        <span style={styles.branch} title={worktree.path}>{worktree.branch}</span>
+        <span style={styles.base}>from {worktree.baseBranch} @ {worktree.baseCommit.slice(0, 7)}</span>
+        <span style={styles.spacer} />
+        {worktree.mergedAt ? (
+          <span style={styles.merged}>MERGED INTO {worktree.mergedInto?.toUpperCase()}</span>
+        ) : (
+          <span style={styles.files}>
+            {!summarized ? 'SUMMARIZING…' : hasChanges ? `${worktree.filesChanged} FILE(S) CHANGED` : 'NO CHANGES'}
+          </span>
+        )}
+      </div>
+
+      {hasChanges && worktree.diffStat && (
+        <pre style={styles.diffStat}>{worktree.diffStat}</pre>
+      )}
+
+      {hasChanges && (
+        <div style={styles.actions}>
+          {!worktree.mergedAt && (
+            <button onClick={onMerge} style={{ ...styles.button, ...styles.merge }}>
+              MERGE INTO {worktree.baseBranch.toUpperCase()}
+            </button>
+          )}
+          <button onClick={onDownloadPatch} style={styles.button} title="Download the changes as a .patch file">
+            DOWNLOAD .PATCH
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ==========================================================
+   Styles
+   ========================================================== */
+
+const styles: Record<string, React.CSSProperties> = {
+  panel: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 6,
+    padding: '8px 16px',
+    borderBottom: '1px solid rgba(0, 200, 255, 0.08)',
+    background: 'rgba(0, 255, 136, 0.03)',
+    flexShrink: 0,
+  },
+
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+    minWidth: 0,
+  },
+
+  headerLabel: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '8px',
+    fontWeight: 700,
+    letterSpacing: '2px',
+    color: 'var(--green-success, #00ff88)',
+  },
+
+  branch: {
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '11px',
+    color: 'var(--text-primary, #e0f0ff)',
+    whiteSpace: 'nowrap',
+  },
+
+  base: {
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '10px',
+    color: 'var(--text-secondary, #7a8ba8)',
+    whiteSpace: 'nowrap',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+  },
+
+  spacer: {
+    flex: 1,
+  },
+
+  files: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '8px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    color: 'var(--text-secondary, #7a8ba8)',
+    whiteSpace: 'nowrap',
+  },
+
+  merged: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '8px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    color: 'var(--green-success, #00ff88)',
+    whiteSpace: 'nowrap',
+  },
+
+  diffStat: {
+    margin: 0,
+    maxHeight: 96,
+    overflow: 'auto',
+    padding: '4px 6px',
+    background: 'rgba(255, 255, 255, 0.04)',
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '10px',
+    lineHeight: 1.4,
+    color: 'var(--text-primary, #e0f0ff)',
+  },
+
+  actions: {
+    display: 'flex',
+    gap: 6,
+  },
+
+  button: {
+    padding: '4px 12px',
+    border: '1px solid rgba(0, 200, 255, 0.4)',
+    borderRadius: 2,
+    background: 'rgba(0, 200, 255, 0.08)',
+    color: 'var(--cyan-glow, #00c8ff)',
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '8px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+  },
+
+  merge: {
+    border: '1px solid rgba(0, 255, 136, 0.4)',
+    background: 'rgba(0, 255, 136, 0.08)',
+    color: 'var(--green-success, #00ff88)',
+  },
+};
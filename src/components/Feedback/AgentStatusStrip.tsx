@@ -19,10 +19,12 @@ export default function AgentStatusStrip() {
     building: '#f59e0b',
     testing: '#84cc16',
     waiting: '#ff9f1c',
+    'awaiting-approval': '#ff2d95',
     paused: '#64748b',
     launching: '#8b5cf6',
     completed: '#5a7a9a',
     error: '#ff3344',
+    interrupted: '#b45309',
     queued: '#7a8ba8',
   };
 
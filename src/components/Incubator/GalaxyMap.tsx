@@ -13,6 +13,7 @@ import { PLANET_THEMES } from '../Viewscreen/Planet';
 
 interface GalaxyMapProps {
   onCreateProject: () => void;
+  onRescan: () => void;
 }
 
 /* ---------- Layout Constants ---------- */
@@ -405,7 +406,7 @@ function HoverTooltip({ project, x, y }: TooltipProps) {
    Main Component
    ========================================================== */
 
-export default function GalaxyMap({ onCreateProject }: GalaxyMapProps) {
+export default function GalaxyMap({ onCreateProject, onRescan }: GalaxyMapProps) {
   const { projects } = useProjectStore();
   const { setActiveProject } = useProjectStore();
 
@@ -465,23 +466,41 @@ export default function GalaxyMap({ onCreateProject }: GalaxyMapProps) {
           <div style={styles.headerDecorRight} />
         </div>
 
-        <button
-          onClick={onCreateProject}
-          onMouseEnter={() => setHoveredButton('create')}
-          onMouseLeave={() => setHoveredButton(null)}
-          style={{
-            ...styles.createButton,
-            boxShadow: hoveredButton === 'create'
-              ? '0 0 20px rgba(0, 200, 255, 0.5), inset 0 0 12px rgba(0, 200, 255, 0.1)'
-              : '0 0 10px rgba(0, 200, 255, 0.3)',
-            transform: hoveredButton === 'create'
-              ? 'scale(1.03)'
-              : 'scale(1)',
-          }}
-        >
-          <span style={styles.createButtonIcon}>{'\u002B'}</span>
-          NEW PROJECT
-        </button>
+        <div style={styles.headerActions}>
+          <button
+            onClick={onRescan}
+            onMouseEnter={() => setHoveredButton('rescan')}
+            onMouseLeave={() => setHoveredButton(null)}
+            style={{
+              ...styles.rescanButton,
+              background: hoveredButton === 'rescan'
+                ? 'rgba(0, 200, 255, 0.08)'
+                : 'transparent',
+            }}
+            title="Scan the projects directory for existing project folders"
+          >
+            <span style={styles.createButtonIcon}>{'\u21BB'}</span>
+            RESCAN
+          </button>
+
+          <button
+            onClick={onCreateProject}
+            onMouseEnter={() => setHoveredButton('create')}
+            onMouseLeave={() => setHoveredButton(null)}
+            style={{
+              ...styles.createButton,
+              boxShadow: hoveredButton === 'create'
+                ? '0 0 20px rgba(0, 200, 255, 0.5), inset 0 0 12px rgba(0, 200, 255, 0.1)'
+                : '0 0 10px rgba(0, 200, 255, 0.3)',
+              transform: hoveredButton === 'create'
+                ? 'scale(1.03)'
+                : 'scale(1)',
+            }}
+          >
+            <span style={styles.createButtonIcon}>{'\u002B'}</span>
+            NEW PROJECT
+          </button>
+        </div>
       </div>
 
       {/* ========== GALAXY MAP SVG ========== */}
@@ -618,6 +637,31 @@ const styles: Record<string, React.CSSProperties> = {
     background: 'linear-gradient(90deg, var(--cyan-glow, #00c8ff), transparent)',
   },
 
+  headerActions: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 12,
+  },
+
+  /* --- Rescan Button --- */
+  rescanButton: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    height: 36,
+    padding: '0 18px',
+    border: '1px solid rgba(0, 200, 255, 0.35)',
+    color: 'var(--text-secondary, #7a8ba8)',
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '10px',
+    fontWeight: 700,
+    letterSpacing: '2px',
+    cursor: 'pointer',
+    transition: 'all 0.15s ease',
+    clipPath: 'polygon(8px 0%, calc(100% - 8px) 0%, 100% 8px, 100% calc(100% - 8px), calc(100% - 8px) 100%, 8px 100%, 0% calc(100% - 8px), 0% 8px)',
+  },
+
   /* --- Create Button --- */
   createButton: {
     position: 'relative',
@@ -0,0 +1,586 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useInspectorStore } from '../../stores/inspectorStore';
+import { useAgentStore } from '../../stores/agentStore';
+import type { ParserTrace, WSClientMessage } from '../../types';
+
+/* ============================================================
+   ParserInspector — Output Parser Transition Trace
+
+   Lists every status change the output parser made, per agent,
+   with the rule, timer or answer behind it. Marking a wrong call
+   as a false positive keeps it (across restarts) and counts it
+   against its rule, so the rules that misfire most stand out.
+   ============================================================ */
+
+interface ParserInspectorProps {
+  sendMessage: (msg: WSClientMessage) => void;
+  connected: boolean;
+}
+
+/* ---------- Constants ---------- */
+
+const TRIGGER_FILTERS = ['ALL', 'PATTERN', 'TIMER', 'INPUT', 'FLAGGED'] as const;
+type TriggerFilter = (typeof TRIGGER_FILTERS)[number];
+
+const TRIGGER_COLORS: Record<ParserTrace['trigger'], string> = {
+  pattern: 'var(--cyan-glow, #00c8ff)',
+  timer: 'var(--amber-alert, #ff9f1c)',
+  input: 'var(--green-success, #00ff88)',
+};
+
+const FLAG_COLOR = 'var(--red-alert, #ff3344)';
+
+// Rules listed in the footer, most flagged first
+const MAX_RULE_COUNTS = 5;
+
+/* ---------- Utility ---------- */
+
+function formatTimestamp(ts: number): string {
+  const d = new Date(ts);
+  const hh = String(d.getHours()).padStart(2, '0');
+  const mm = String(d.getMinutes()).padStart(2, '0');
+  const ss = String(d.getSeconds()).padStart(2, '0');
+  const ms = String(d.getMilliseconds()).padStart(3, '0');
+  return `${hh}:${mm}:${ss}.${ms}`;
+}
+
+/** What a trace's rule column shows: the rule id, or which timer ran out. */
+function describeCause(trace: ParserTrace): string {
+  if (trace.ruleId) return trace.ruleId;
+  if (trace.timer) return trace.timer === 'idle' ? 'idle timeout' : 'activity decay';
+  return 'operator input';
+}
+
+/* ==========================================================
+   Main Component
+   ========================================================== */
+
+export default function ParserInspector({ sendMessage, connected }: ParserInspectorProps) {
+  const traces = useInspectorStore((s) => s.traces);
+  const agents = useAgentStore((s) => s.agents);
+
+  /* ---------- Local State ---------- */
+  const [selectedAgentId, setSelectedAgentId] = useState<string | null>(null);
+  const [activeFilter, setActiveFilter] = useState<TriggerFilter>('ALL');
+  const [hoveredRow, setHoveredRow] = useState<string | null>(null);
+
+  /* ---------- Subscription ---------- */
+  // Traces are only sent while the inspector is open; a reconnect subscribes again
+  useEffect(() => {
+    if (!connected) return;
+    sendMessage({ type: 'parser:subscribe' });
+    return () => sendMessage({ type: 'parser:unsubscribe' });
+  }, [connected, sendMessage]);
+
+  /* ---------- Per-Agent Counts ---------- */
+  const agentRows = useMemo(() => {
+    const counts = new Map<string, { total: number; flagged: number }>();
+    for (const trace of traces) {
+      const count = counts.get(trace.agentId) ?? { total: 0, flagged: 0 };
+      count.total++;
+      if (trace.falsePositive) count.flagged++;
+      counts.set(trace.agentId, count);
+    }
+    return [...counts.entries()].map(([agentId, count]) => ({ agentId, ...count }));
+  }, [traces]);
+
+  /* ---------- Filtered Traces ---------- */
+  const filteredTraces = useMemo(() => {
+    return traces
+      .filter((t) => !selectedAgentId || t.agentId === selectedAgentId)
+      .filter((t) => {
+        if (activeFilter === 'ALL') return true;
+        if (activeFilter === 'FLAGGED') return !!t.falsePositive;
+        return t.trigger === activeFilter.toLowerCase();
+      })
+      .reverse(); // newest first
+  }, [traces, selectedAgentId, activeFilter]);
+
+  /* ---------- Flags by Rule ---------- */
+  const ruleCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const trace of traces) {
+      if (!trace.falsePositive) continue;
+      const cause = describeCause(trace);
+      counts.set(cause, (counts.get(cause) ?? 0) + 1);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, MAX_RULE_COUNTS);
+  }, [traces]);
+
+  const flaggedCount = traces.filter((t) => t.falsePositive).length;
+
+  /* ---------- Handlers ---------- */
+  const handleToggleFlag = (trace: ParserTrace) => {
+    sendMessage({ type: 'parser:flag', traceId: trace.id, falsePositive: !trace.falsePositive });
+  };
+
+  const agentLabel = (agentId: string): string => {
+    const agent = agents[agentId];
+    return agent ? agent.task : 'Dismissed agent';
+  };
+
+  /* ==========================================================
+     Render
+     ========================================================== */
+
+  return (
+    <div style={styles.container}>
+      {/* --- Header Bar --- */}
+      <div style={styles.header}>
+        <div style={styles.headerLeft}>
+          <span style={styles.title}>PARSER INSPECTOR</span>
+          <span style={styles.countBadge}>{filteredTraces.length}</span>
+        </div>
+
+        <div style={styles.filterGroup}>
+          {TRIGGER_FILTERS.map((filter) => {
+            const isActive = activeFilter === filter;
+            const color = filter === 'FLAGGED'
+              ? FLAG_COLOR
+              : filter === 'ALL'
+                ? 'var(--cyan-glow, #00c8ff)'
+                : TRIGGER_COLORS[filter.toLowerCase() as ParserTrace['trigger']];
+            return (
+              <button
+                key={filter}
+                onClick={() => setActiveFilter(filter)}
+                style={{
+                  ...styles.filterButton,
+                  color: isActive ? '#0a0e17' : color,
+                  background: isActive ? color : 'transparent',
+                  borderColor: isActive ? color : 'rgba(0, 200, 255, 0.2)',
+                }}
+              >
+                {filter}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div style={styles.body}>
+        {/* --- Agent List --- */}
+        <div style={styles.agentList}>
+          <button
+            onClick={() => setSelectedAgentId(null)}
+            style={{ ...styles.agentRow, ...(selectedAgentId === null && styles.agentRowSelected) }}
+          >
+            <span style={styles.agentName}>ALL AGENTS</span>
+            <span style={styles.agentCount}>{traces.length}</span>
+          </button>
+          {agentRows.map(({ agentId, total, flagged }) => (
+            <button
+              key={agentId}
+              onClick={() => setSelectedAgentId(agentId)}
+              title={agentLabel(agentId)}
+              style={{ ...styles.agentRow, ...(selectedAgentId === agentId && styles.agentRowSelected) }}
+            >
+              <span style={styles.agentName}>
+                <span style={styles.agentId}>[{agentId.slice(0, 8)}]</span> {agentLabel(agentId)}
+              </span>
+              <span style={styles.agentCount}>
+                {total}
+                {flagged > 0 && <span style={{ color: FLAG_COLOR }}> {'⚑'}{flagged}</span>}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        {/* --- Trace Table --- */}
+        <div style={styles.traceArea}>
+          {filteredTraces.length === 0 ? (
+            <div style={styles.emptyState}>
+              <span style={styles.emptyText}>NO TRANSITIONS</span>
+              <span style={styles.emptySubtext}>
+                {connected ? 'Status changes from terminal output appear here' : 'Awaiting uplink...'}
+              </span>
+            </div>
+          ) : (
+            filteredTraces.map((trace, index) => {
+              const isHovered = hoveredRow === trace.id;
+              return (
+                <div
+                  key={trace.id}
+                  onMouseEnter={() => setHoveredRow(trace.id)}
+                  onMouseLeave={() => setHoveredRow(null)}
+                  style={{
+                    ...styles.traceRow,
+                    background: trace.falsePositive
+                      ? 'rgba(255, 51, 68, 0.08)'
+                      : isHovered
+                        ? 'rgba(0, 200, 255, 0.06)'
+                        : index % 2 === 0
+                          ? 'rgba(13, 19, 33, 0.4)'
+                          : 'rgba(10, 14, 23, 0.6)',
+                  }}
+                >
+                  <span style={styles.traceTimestamp}>{formatTimestamp(trace.timestamp)}</span>
+                  {!selectedAgentId && <span style={styles.agentId}>[{trace.agentId.slice(0, 8)}]</span>}
+                  <span style={styles.traceTransition}>
+                    {trace.from.toUpperCase()} {'→'} {trace.to.toUpperCase()}
+                  </span>
+                  <span
+                    style={{
+                      ...styles.triggerBadge,
+                      color: TRIGGER_COLORS[trace.trigger],
+                      borderColor: TRIGGER_COLORS[trace.trigger],
+                    }}
+                  >
+                    {trace.trigger.toUpperCase()}
+                  </span>
+                  <span style={styles.traceRule} title={describeCause(trace)}>{describeCause(trace)}</span>
+                  <span style={styles.traceLine} title={trace.line}>{trace.line ?? ''}</span>
+                  <button
+                    onClick={() => handleToggleFlag(trace)}
+                    title={trace.falsePositive ? 'Clear the false-positive mark' : 'Mark as a false positive'}
+                    style={{
+                      ...styles.flagButton,
+                      color: trace.falsePositive ? '#0a0e17' : FLAG_COLOR,
+                      background: trace.falsePositive ? FLAG_COLOR : 'transparent',
+                      opacity: trace.falsePositive || isHovered ? 1 : 0.4,
+                    }}
+                  >
+                    {'⚑'} FALSE POSITIVE
+                  </button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+
+      {/* --- Footer --- */}
+      <div style={styles.footer}>
+        <span style={styles.footerItem}>
+          <span style={styles.footerLabel}>TRANSITIONS</span>
+          <span style={styles.footerValue}>{traces.length}</span>
+        </span>
+        <span style={styles.footerDivider}>{'│'}</span>
+        <span style={styles.footerItem}>
+          <span style={styles.footerLabel}>FLAGGED</span>
+          <span style={{ ...styles.footerValue, color: FLAG_COLOR }}>{flaggedCount}</span>
+        </span>
+        {ruleCounts.length > 0 && (
+          <>
+            <span style={styles.footerDivider}>{'│'}</span>
+            <span style={styles.footerItem}>
+              <span style={styles.footerLabel}>MOST FLAGGED</span>
+              {ruleCounts.map(([cause, count]) => (
+                <span key={cause} style={styles.ruleCount}>
+                  {cause} <span style={{ color: FLAG_COLOR }}>{count}</span>
+                </span>
+              ))}
+            </span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/* ==========================================================
+   Styles
+   ========================================================== */
+
+const styles: Record<string, React.CSSProperties> = {
+  /* --- Container --- */
+  container: {
+    position: 'fixed',
+    top: 48,
+    left: 220,
+    bottom: 64,
+    right: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    background: 'var(--panel-bg, rgba(13, 19, 33, 0.85))',
+    borderLeft: '1px solid var(--panel-border, rgba(0, 200, 255, 0.3))',
+    fontFamily: "var(--font-body, 'Rajdhani', sans-serif)",
+    color: 'var(--text-primary, #e0f0ff)',
+    zIndex: 50,
+    overflow: 'hidden',
+  },
+
+  /* --- Header --- */
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: '10px 20px',
+    borderBottom: '1px solid rgba(0, 200, 255, 0.2)',
+    background: 'linear-gradient(180deg, rgba(13, 19, 33, 0.95) 0%, rgba(13, 19, 33, 0.8) 100%)',
+    flexShrink: 0,
+    gap: 16,
+    flexWrap: 'wrap',
+  },
+
+  headerLeft: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 12,
+    flexShrink: 0,
+  },
+
+  title: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '14px',
+    fontWeight: 700,
+    letterSpacing: '3px',
+    color: 'var(--cyan-glow, #00c8ff)',
+    textShadow: '0 0 12px rgba(0, 200, 255, 0.5), 0 0 30px rgba(0, 200, 255, 0.2)',
+  },
+
+  countBadge: {
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '11px',
+    fontWeight: 600,
+    padding: '2px 8px',
+    borderRadius: '2px',
+    background: 'rgba(0, 200, 255, 0.12)',
+    border: '1px solid rgba(0, 200, 255, 0.3)',
+    color: 'var(--cyan-glow, #00c8ff)',
+    letterSpacing: '1px',
+  },
+
+  filterGroup: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 4,
+  },
+
+  filterButton: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '9px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    padding: '4px 10px',
+    border: '1px solid',
+    cursor: 'pointer',
+    transition: 'all 0.15s ease',
+    whiteSpace: 'nowrap',
+  },
+
+  /* --- Body --- */
+  body: {
+    flex: 1,
+    display: 'flex',
+    minHeight: 0,
+  },
+
+  /* --- Agent List --- */
+  agentList: {
+    width: 240,
+    flexShrink: 0,
+    overflowY: 'auto',
+    borderRight: '1px solid rgba(0, 200, 255, 0.15)',
+    scrollbarWidth: 'thin' as any,
+    scrollbarColor: 'rgba(0, 200, 255, 0.3) rgba(10, 14, 23, 0.5)',
+  },
+
+  agentRow: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    width: '100%',
+    padding: '8px 14px',
+    background: 'transparent',
+    border: 'none',
+    borderBottom: '1px solid rgba(0, 200, 255, 0.06)',
+    borderLeft: '2px solid transparent',
+    color: 'var(--text-primary, #e0f0ff)',
+    cursor: 'pointer',
+    textAlign: 'left' as const,
+  },
+
+  agentRowSelected: {
+    background: 'rgba(0, 200, 255, 0.1)',
+    borderLeft: '2px solid var(--cyan-glow, #00c8ff)',
+  },
+
+  agentName: {
+    fontFamily: "var(--font-body, 'Rajdhani', sans-serif)",
+    fontSize: '12px',
+    fontWeight: 600,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+    minWidth: 0,
+  },
+
+  agentId: {
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '10px',
+    color: 'rgba(0, 200, 255, 0.5)',
+    letterSpacing: '0.5px',
+    flexShrink: 0,
+  },
+
+  agentCount: {
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '10px',
+    color: 'var(--text-secondary, #7a8ba8)',
+    flexShrink: 0,
+  },
+
+  /* --- Trace Table --- */
+  traceArea: {
+    flex: 1,
+    overflowY: 'auto',
+    overflowX: 'hidden',
+    scrollbarWidth: 'thin' as any,
+    scrollbarColor: 'rgba(0, 200, 255, 0.3) rgba(10, 14, 23, 0.5)',
+  },
+
+  traceRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 12,
+    padding: '6px 20px',
+    borderBottom: '1px solid rgba(0, 200, 255, 0.04)',
+    transition: 'background 0.1s ease',
+    minHeight: 32,
+  },
+
+  traceTimestamp: {
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '11px',
+    fontWeight: 500,
+    color: 'var(--text-secondary, #7a8ba8)',
+    letterSpacing: '0.5px',
+    flexShrink: 0,
+    minWidth: 95,
+  },
+
+  traceTransition: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '9px',
+    fontWeight: 700,
+    letterSpacing: '1px',
+    flexShrink: 0,
+    minWidth: 170,
+  },
+
+  triggerBadge: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '8px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    padding: '2px 8px',
+    border: '1px solid',
+    borderRadius: '1px',
+    textAlign: 'center' as const,
+    flexShrink: 0,
+    minWidth: 60,
+  },
+
+  traceRule: {
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '11px',
+    color: 'var(--cyan-glow, #00c8ff)',
+    flexShrink: 0,
+    width: 190,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+
+  traceLine: {
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '11px',
+    color: 'var(--text-primary, #e0f0ff)',
+    flex: 1,
+    minWidth: 0,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+
+  flagButton: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '8px',
+    fontWeight: 700,
+    letterSpacing: '1px',
+    padding: '3px 8px',
+    border: `1px solid ${FLAG_COLOR}`,
+    cursor: 'pointer',
+    transition: 'all 0.15s ease',
+    flexShrink: 0,
+    whiteSpace: 'nowrap',
+  },
+
+  /* --- Empty State --- */
+  emptyState: {
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    justifyContent: 'center',
+    height: '100%',
+    gap: 12,
+    opacity: 0.7,
+  },
+
+  emptyText: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '16px',
+    fontWeight: 700,
+    letterSpacing: '4px',
+    color: 'var(--text-secondary, #7a8ba8)',
+    textShadow: '0 0 8px rgba(122, 139, 168, 0.3)',
+  },
+
+  emptySubtext: {
+    fontFamily: "var(--font-body, 'Rajdhani', sans-serif)",
+    fontSize: '13px',
+    fontWeight: 400,
+    letterSpacing: '2px',
+    color: 'var(--text-secondary, #7a8ba8)',
+    opacity: 0.6,
+  },
+
+  /* --- Footer --- */
+  footer: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 20,
+    padding: '8px 20px',
+    borderTop: '1px solid rgba(0, 200, 255, 0.2)',
+    background: 'linear-gradient(0deg, rgba(13, 19, 33, 0.95) 0%, rgba(13, 19, 33, 0.8) 100%)',
+    flexShrink: 0,
+    flexWrap: 'wrap',
+  },
+
+  footerItem: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+  },
+
+  footerLabel: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '9px',
+    fontWeight: 600,
+    letterSpacing: '1.5px',
+    color: 'var(--text-secondary, #7a8ba8)',
+  },
+
+  footerValue: {
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '12px',
+    fontWeight: 600,
+    color: 'var(--cyan-glow, #00c8ff)',
+    letterSpacing: '1px',
+    textShadow: '0 0 6px rgba(0, 200, 255, 0.3)',
+  },
+
+  ruleCount: {
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '11px',
+    color: 'var(--text-primary, #e0f0ff)',
+  },
+
+  footerDivider: {
+    color: 'rgba(0, 200, 255, 0.2)',
+    fontSize: '14px',
+  },
+};
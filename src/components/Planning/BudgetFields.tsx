@@ -0,0 +1,146 @@
+import React from 'react';
+import type { AgentBudget, Project } from '../../types';
+
+/* ============================================================
+   BudgetFields - Runtime Budget Inputs
+
+   Wall-clock and idle-time limits for the next launch, in
+   minutes. A blank field keeps the project's default for that
+   limit and 0 means unlimited. The current values can become
+   the project default.
+   ============================================================ */
+
+export interface BudgetFieldValues {
+  maxRuntimeMinutes: string;           // '' = project default
+  maxIdleMinutes: string;
+}
+
+export const EMPTY_BUDGET_FIELDS: BudgetFieldValues = { maxRuntimeMinutes: '', maxIdleMinutes: '' };
+
+/**
+ * Budget to send with a launch, or `undefined` when both fields are blank
+ * so the server applies the project default. A blank field next to a
+ * filled one still takes the project default for that limit.
+ */
+export function resolveBudget(values: BudgetFieldValues, projectDefault?: AgentBudget): AgentBudget | undefined {
+  if (!values.maxRuntimeMinutes && !values.maxIdleMinutes) return undefined;
+  const pick = (raw: string, fallback: number | undefined) => (raw === '' ? fallback ?? 0 : Number(raw));
+  return {
+    maxRuntimeMinutes: pick(values.maxRuntimeMinutes, projectDefault?.maxRuntimeMinutes),
+    maxIdleMinutes: pick(values.maxIdleMinutes, projectDefault?.maxIdleMinutes),
+  };
+}
+
+interface BudgetFieldsProps {
+  project: Project | null;
+  value: BudgetFieldValues;
+  onChange: (value: BudgetFieldValues) => void;
+  sendMessage: (msg: any) => void;
+}
+
+export default function BudgetFields({ project, value, onChange, sendMessage }: BudgetFieldsProps) {
+  const projectDefault = project?.defaultBudget;
+  const budget = resolveBudget(value, projectDefault);
+  const canMakeDefault = !!project && !!budget && (
+    (budget.maxRuntimeMinutes || undefined) !== projectDefault?.maxRuntimeMinutes ||
+    (budget.maxIdleMinutes || undefined) !== projectDefault?.maxIdleMinutes
+  );
+
+  const fields: Array<{ key: keyof BudgetFieldValues; label: string; title: string }> = [
+    { key: 'maxRuntimeMinutes', label: 'MAX RUNTIME', title: 'Terminate the agent after this many minutes of running' },
+    { key: 'maxIdleMinutes', label: 'MAX IDLE', title: 'Terminate the agent after waiting for input this many minutes' },
+  ];
+
+  return (
+    <div style={styles.row}>
+      {fields.map(({ key, label, title }) => (
+        <label key={key} style={styles.field} title={title}>
+          <span style={styles.label}>{label}</span>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={value[key]}
+            onChange={(e) => onChange({ ...value, [key]: e.target.value })}
+            placeholder={projectDefault?.[key] ? String(projectDefault[key]) : 'unlimited'}
+            style={styles.input}
+          />
+          <span style={styles.unit}>MIN</span>
+        </label>
+      ))}
+
+      {canMakeDefault && (
+        <button
+          onClick={() => sendMessage({ type: 'project:setDefaultBudget', projectId: project!.id, budget })}
+          style={styles.smallButton}
+          title="Use these limits for launches in this project that don't set their own"
+        >
+          SET AS DEFAULT
+        </button>
+      )}
+    </div>
+  );
+}
+
+/* ==========================================================
+   Styles
+   ========================================================== */
+
+const styles: Record<string, React.CSSProperties> = {
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 12,
+  },
+
+  field: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 6,
+    flex: 1,
+    minWidth: 0,
+  },
+
+  label: {
+    flexShrink: 0,
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '7px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    color: 'var(--text-secondary, #7a8ba8)',
+  },
+
+  input: {
+    flex: 1,
+    minWidth: 0,
+    padding: '6px 8px',
+    background: 'var(--space-void, #0a0e17)',
+    border: '1px solid rgba(0, 200, 255, 0.25)',
+    borderRadius: 2,
+    color: 'var(--text-primary, #e0f0ff)',
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '12px',
+    outline: 'none',
+  },
+
+  unit: {
+    flexShrink: 0,
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '9px',
+    color: 'var(--text-secondary, #7a8ba8)',
+  },
+
+  smallButton: {
+    flexShrink: 0,
+    padding: '6px 10px',
+    border: '1px solid rgba(0, 200, 255, 0.3)',
+    borderRadius: 2,
+    background: 'rgba(0, 200, 255, 0.06)',
+    color: 'var(--cyan-glow, #00c8ff)',
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '7px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    cursor: 'pointer',
+  },
+};
@@ -0,0 +1,191 @@
+import React, { useMemo } from 'react';
+import type { PlanningTask } from '../../stores/planningStore';
+import { getTaskDepths, type TaskLaunchInfo, type TaskLaunchState } from '../../utils/taskGraph';
+
+/* ============================================================
+   DependencyGraph - Mission Plan Prerequisite Map
+
+   Lays the plan out left to right: tasks without prerequisites
+   in the first column, each dependent one column past its
+   deepest prerequisite. Nodes are colored by launch state.
+   ============================================================ */
+
+interface DependencyGraphProps {
+  tasks: PlanningTask[];
+  states: Record<string, TaskLaunchInfo>;
+}
+
+const NODE_WIDTH = 168;
+const NODE_HEIGHT = 30;
+const COLUMN_GAP = 56;
+const ROW_GAP = 12;
+const PADDING = 12;
+
+export const TASK_STATE_COLORS: Record<TaskLaunchState, string> = {
+  done: '#00ff88',
+  launched: '#ff9f1c',
+  ready: '#00c8ff',
+  waiting: '#7a8ba8',
+  held: '#ff3344',
+};
+
+export default function DependencyGraph({ tasks, states }: DependencyGraphProps) {
+  /* ---------- Layout ---------- */
+  const layout = useMemo(() => {
+    const depths = getTaskDepths(tasks);
+    const rowsPerColumn: number[] = [];
+    const positions: Record<string, { x: number; y: number }> = {};
+
+    for (const task of tasks) {
+      const column = depths[task.id] ?? 0;
+      const row = rowsPerColumn[column] ?? 0;
+      rowsPerColumn[column] = row + 1;
+      positions[task.id] = {
+        x: PADDING + column * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+      };
+    }
+
+    const columns = rowsPerColumn.length;
+    const rows = Math.max(0, ...rowsPerColumn);
+    return {
+      positions,
+      width: PADDING * 2 + columns * NODE_WIDTH + Math.max(0, columns - 1) * COLUMN_GAP,
+      height: PADDING * 2 + rows * NODE_HEIGHT + Math.max(0, rows - 1) * ROW_GAP,
+    };
+  }, [tasks]);
+
+  const indexOf = (taskId: string) => tasks.findIndex((t) => t.id === taskId);
+
+  return (
+    <div style={styles.container}>
+      <svg width={layout.width} height={layout.height} style={styles.svg}>
+        <defs>
+          <marker id="dep-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+            <path d="M0,0 L8,4 L0,8 z" fill="rgba(0, 200, 255, 0.5)" />
+          </marker>
+        </defs>
+
+        {/* Edges: prerequisite → dependent */}
+        {tasks.flatMap((task) =>
+          (task.dependsOn ?? []).map((prerequisiteId) => {
+            const from = layout.positions[prerequisiteId];
+            const to = layout.positions[task.id];
+            if (!from || !to) return null;
+            const x1 = from.x + NODE_WIDTH;
+            const y1 = from.y + NODE_HEIGHT / 2;
+            const x2 = to.x - 2;
+            const y2 = to.y + NODE_HEIGHT / 2;
+            const bend = (x2 - x1) / 2;
+            const held = states[task.id]?.state === 'held'
+              && states[task.id].blockers.some((b) => b.id === prerequisiteId);
+            return (
+              <path
+                key={`${prerequisiteId}-${task.id}`}
+                d={`M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`}
+                fill="none"
+                stroke={held ? 'rgba(255, 51, 68, 0.6)' : 'rgba(0, 200, 255, 0.35)'}
+                strokeWidth={1.2}
+                strokeDasharray={held ? '4 3' : undefined}
+                markerEnd="url(#dep-arrow)"
+              />
+            );
+          }),
+        )}
+
+        {/* Nodes */}
+        {tasks.map((task) => {
+          const pos = layout.positions[task.id];
+          const info = states[task.id];
+          const color = TASK_STATE_COLORS[info?.state ?? 'waiting'];
+          const number = String(indexOf(task.id) + 1).padStart(2, '0');
+          const label = task.text.length > 20 ? `${task.text.slice(0, 19)}…` : task.text;
+          return (
+            <g key={task.id} transform={`translate(${pos.x}, ${pos.y})`}>
+              <title>{`${number}. ${task.text} — ${(info?.state ?? 'waiting').toUpperCase()}`}</title>
+              <rect
+                width={NODE_WIDTH}
+                height={NODE_HEIGHT}
+                rx={2}
+                fill="rgba(10, 14, 23, 0.9)"
+                stroke={color}
+                strokeOpacity={0.6}
+              />
+              <rect width={3} height={NODE_HEIGHT} fill={color} />
+              <text x={10} y={19} style={styles.nodeNumber}>{number}</text>
+              <text x={30} y={19} style={styles.nodeLabel}>{label}</text>
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Legend */}
+      <div style={styles.legend}>
+        {(Object.keys(TASK_STATE_COLORS) as TaskLaunchState[]).map((state) => (
+          <span key={state} style={styles.legendItem}>
+            <span style={{ ...styles.legendDot, backgroundColor: TASK_STATE_COLORS[state] }} />
+            {state.toUpperCase()}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/* ==========================================================
+   Styles
+   ========================================================== */
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    background: 'var(--panel-bg, rgba(13, 19, 33, 0.85))',
+    border: '1px solid var(--panel-border, rgba(0, 200, 255, 0.3))',
+    borderRadius: 2,
+    backdropFilter: 'blur(8px)',
+    boxShadow: '0 0 20px rgba(0, 0, 0, 0.3), inset 0 0 30px rgba(0, 200, 255, 0.02)',
+    overflowX: 'auto',
+  },
+
+  svg: {
+    display: 'block',
+  },
+
+  nodeNumber: {
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '9px',
+    fontWeight: 600,
+    fill: 'var(--text-secondary, #7a8ba8)',
+  },
+
+  nodeLabel: {
+    fontFamily: "var(--font-body, 'Rajdhani', sans-serif)",
+    fontSize: '12px',
+    fontWeight: 500,
+    fill: 'var(--text-primary, #e0f0ff)',
+  },
+
+  legend: {
+    display: 'flex',
+    gap: 14,
+    padding: '8px 12px',
+    borderTop: '1px solid rgba(0, 200, 255, 0.08)',
+  },
+
+  legendItem: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 5,
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '7px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    color: 'var(--text-secondary, #7a8ba8)',
+  },
+
+  legendDot: {
+    display: 'inline-block',
+    width: 6,
+    height: 6,
+    borderRadius: '50%',
+  },
+};
@@ -4,6 +4,8 @@ import { useAgentStore } from '../../stores/agentStore';
 import { usePlanningStore } from '../../stores/planningStore';
 import { useUIStore } from '../../stores/uiStore';
 import { generateId } from '../../utils/generateId';
+import ProfileSelect from './ProfileSelect';
+import BudgetFields, { EMPTY_BUDGET_FIELDS, resolveBudget } from './BudgetFields';
 
 /* ============================================================
    LaunchModal - Agent Launch Dialog
@@ -27,6 +29,8 @@ export default function LaunchModal({ onClose, sendMessage }: LaunchModalProps)
   const activeProject = activeProjectId ? projects[activeProjectId] : null;
 
   const [task, setTask] = useState('');
+  const [profileId, setProfileId] = useState(''); // '' = project default
+  const [budgetFields, setBudgetFields] = useState(EMPTY_BUDGET_FIELDS);
   const [isClosing, setIsClosing] = useState(false);
   const [hoveredButton, setHoveredButton] = useState<string | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -86,6 +90,7 @@ export default function LaunchModal({ onClose, sendMessage }: LaunchModalProps)
     const cwd = activeProject?.cwd || '';
     const agentId = generateId();
     const fullPrompt = buildPrompt(trimmedTask);
+    const budget = resolveBudget(budgetFields, activeProject?.defaultBudget);
 
     // Register agent in client store immediately
     useAgentStore.getState().addAgent({
@@ -97,6 +102,7 @@ export default function LaunchModal({ onClose, sendMessage }: LaunchModalProps)
       launchedAt: Date.now(),
       filesChanged: 0,
       events: [],
+      budget: budget ?? activeProject?.defaultBudget,
     });
 
     // Send launch message to server with full context prompt
@@ -106,6 +112,8 @@ export default function LaunchModal({ onClose, sendMessage }: LaunchModalProps)
       projectId,
       task: fullPrompt,
       cwd,
+      ...(profileId && { profileId }),
+      ...(budget && { budget }),
     });
 
     // Navigate to tactical view and auto-open console
@@ -114,7 +122,7 @@ export default function LaunchModal({ onClose, sendMessage }: LaunchModalProps)
     setTimeout(() => openConsole(agentId), 800);
 
     handleClose();
-  }, [task, activeProject, sendMessage, handleClose, buildPrompt]);
+  }, [task, profileId, budgetFields, activeProject, sendMessage, handleClose, buildPrompt]);
 
   /* ---------- Keyboard shortcut: Ctrl/Cmd + Enter to launch ---------- */
   const handleKeyDown = useCallback(
@@ -211,6 +219,34 @@ export default function LaunchModal({ onClose, sendMessage }: LaunchModalProps)
             />
           </div>
 
+          {/* Launch Profile */}
+          <div style={styles.fieldGroup}>
+            <label style={styles.fieldLabel}>
+              <span style={styles.fieldLabelIcon}>{'\u25B8'}</span>
+              LAUNCH PROFILE
+            </label>
+            <ProfileSelect
+              project={activeProject}
+              value={profileId}
+              onChange={setProfileId}
+              sendMessage={sendMessage}
+            />
+          </div>
+
+          {/* Runtime Budget */}
+          <div style={styles.fieldGroup}>
+            <label style={styles.fieldLabel}>
+              <span style={styles.fieldLabelIcon}>{'\u25B8'}</span>
+              RUNTIME BUDGET
+            </label>
+            <BudgetFields
+              project={activeProject}
+              value={budgetFields}
+              onChange={setBudgetFields}
+              sendMessage={sendMessage}
+            />
+          </div>
+
           {/* Working Directory (read-only) */}
           <div style={styles.fieldGroup}>
             <label style={styles.fieldLabel}>
@@ -0,0 +1,549 @@
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { useProfileStore, DEFAULT_PROFILE_ID } from '../../stores/profileStore';
+import { generateId } from '../../utils/generateId';
+import type { AgentDriverId, LaunchProfile, OutputMode, PermissionMode, WorkspaceIsolation } from '../../types';
+
+/* ============================================================
+   LaunchProfilesModal - Launch Profile Editor
+
+   Lists the server's launch profiles and edits one at a time:
+   driver, executable, arguments, model, permission mode,
+   workspace isolation, output mode, extra environment variables
+   and initial terminal size. Model, permissions and output only
+   apply to the Claude Code driver; a simulation profile's command
+   names its scenario. Changes are sent to the server, which
+   validates them and broadcasts the updated list.
+   ============================================================ */
+
+interface LaunchProfilesModalProps {
+  onClose: () => void;
+  sendMessage: (msg: any) => void;
+  initialProfileId?: string;
+}
+
+/* ---------- Form <-> Profile ---------- */
+
+// Command filled in when the driver changes and the old driver's default is still there
+const DEFAULT_COMMANDS: Partial<Record<AgentDriverId, string>> = {
+  'claude-code': 'claude',
+  simulation: 'success',
+};
+
+const SIMULATION_SCENARIOS = 'success, build-error, permission, waiting, long-running, crash';
+
+interface ProfileForm {
+  id: string;
+  name: string;
+  driver: AgentDriverId;
+  command: string;
+  args: string;   // one argument per line
+  model: string;
+  permissionMode: PermissionMode;
+  isolation: WorkspaceIsolation;
+  outputMode: OutputMode;
+  env: string;    // KEY=VALUE per line
+  cols: string;
+  rows: string;
+}
+
+function toForm(profile: LaunchProfile): ProfileForm {
+  return {
+    id: profile.id,
+    name: profile.name,
+    driver: profile.driver ?? 'claude-code',
+    command: profile.command,
+    args: profile.args.join('\n'),
+    model: profile.model ?? '',
+    permissionMode: profile.permissionMode,
+    isolation: profile.isolation ?? 'shared',
+    outputMode: profile.outputMode ?? 'interactive',
+    env: Object.entries(profile.env).map(([k, v]) => `${k}=${v}`).join('\n'),
+    cols: String(profile.cols),
+    rows: String(profile.rows),
+  };
+}
+
+function emptyForm(): ProfileForm {
+  return {
+    id: generateId(),
+    name: '',
+    driver: 'claude-code',
+    command: 'claude',
+    args: '',
+    model: '',
+    permissionMode: 'bypass',
+    isolation: 'shared',
+    outputMode: 'interactive',
+    env: '',
+    cols: '120',
+    rows: '40',
+  };
+}
+
+function fromForm(form: ProfileForm): LaunchProfile {
+  const env: Record<string, string> = {};
+  for (const line of form.env.split('\n')) {
+    const eq = line.indexOf('=');
+    if (eq > 0) env[line.slice(0, eq).trim()] = line.slice(eq + 1);
+  }
+  const claude = form.driver === 'claude-code';
+  return {
+    id: form.id,
+    name: form.name.trim(),
+    driver: form.driver,
+    command: form.command.trim(),
+    args: form.driver === 'simulation' ? [] : form.args.split('\n').map((a) => a.trim()).filter(Boolean),
+    ...(claude && form.model.trim() && { model: form.model.trim() }),
+    env,
+    permissionMode: form.permissionMode,
+    isolation: form.isolation,
+    outputMode: claude ? form.outputMode : 'interactive',
+    cols: parseInt(form.cols, 10),
+    rows: parseInt(form.rows, 10),
+  };
+}
+
+/* ==========================================================
+   Main Component
+   ========================================================== */
+
+export default function LaunchProfilesModal({ onClose, sendMessage, initialProfileId }: LaunchProfilesModalProps) {
+  const profiles = useProfileStore((state) => state.profiles);
+  const profileList = useMemo(
+    () => Object.values(profiles).sort((a, b) =>
+      a.id === DEFAULT_PROFILE_ID ? -1 : b.id === DEFAULT_PROFILE_ID ? 1 : a.name.localeCompare(b.name)),
+    [profiles],
+  );
+
+  const [form, setForm] = useState<ProfileForm>(() => {
+    const initial = profiles[initialProfileId ?? DEFAULT_PROFILE_ID];
+    return initial ? toForm(initial) : emptyForm();
+  });
+
+  const isNew = !profiles[form.id];
+  const isBuiltIn = form.id === DEFAULT_PROFILE_ID;
+  const canSave = form.name.trim().length > 0 && form.command.trim().length > 0;
+  const isClaude = form.driver === 'claude-code';
+  const isSimulation = form.driver === 'simulation';
+
+  /* ---------- Escape closes this modal only ---------- */
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopImmediatePropagation();
+        onClose();
+      }
+    };
+    // Capture phase so the launch modal underneath doesn't also close
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [onClose]);
+
+  const update = useCallback((field: keyof ProfileForm, value: string) => {
+    setForm((f) => ({ ...f, [field]: value }));
+  }, []);
+
+  const changeDriver = useCallback((driver: AgentDriverId) => {
+    setForm((f) => ({
+      ...f,
+      driver,
+      command: f.command === DEFAULT_COMMANDS[f.driver] ? DEFAULT_COMMANDS[driver] ?? f.command : f.command,
+    }));
+  }, []);
+
+  const handleSave = useCallback(() => {
+    if (!canSave) return;
+    sendMessage({ type: 'profile:save', profile: fromForm(form) });
+  }, [canSave, form, sendMessage]);
+
+  const handleDelete = useCallback(() => {
+    if (isNew || isBuiltIn) return;
+    sendMessage({ type: 'profile:delete', profileId: form.id });
+    const fallback = profiles[DEFAULT_PROFILE_ID];
+    setForm(fallback ? toForm(fallback) : emptyForm());
+  }, [isNew, isBuiltIn, form.id, profiles, sendMessage]);
+
+  // Portalled to <body>: the launch modal's transform would otherwise
+  // become the containing block for this fixed-position panel
+  return createPortal(
+    <>
+      <div style={styles.backdrop} onClick={onClose} />
+
+      {/* Keys stay here — the React tree still bubbles into the launch modal */}
+      <div style={styles.modal} onKeyDown={(e) => e.stopPropagation()}>
+        {/* ========== HEADER ========== */}
+        <header style={styles.header}>
+          <span style={styles.headerTitle}>LAUNCH PROFILES</span>
+          <button onClick={onClose} style={styles.closeButton} aria-label="Close profiles">
+            {'✕'}
+          </button>
+        </header>
+
+        <div style={styles.body}>
+          {/* ========== PROFILE LIST ========== */}
+          <div style={styles.list}>
+            {profileList.map((profile) => (
+              <button
+                key={profile.id}
+                onClick={() => setForm(toForm(profile))}
+                style={{
+                  ...styles.listItem,
+                  ...(profile.id === form.id ? styles.listItemActive : {}),
+                }}
+              >
+                <span style={styles.listItemName}>{profile.name}</span>
+                {profile.id === DEFAULT_PROFILE_ID && <span style={styles.builtInBadge}>BUILT-IN</span>}
+              </button>
+            ))}
+            <button onClick={() => setForm(emptyForm())} style={styles.newButton}>
+              + NEW PROFILE
+            </button>
+          </div>
+
+          {/* ========== EDITOR ========== */}
+          <div style={styles.editor}>
+            <Field label="NAME">
+              <input value={form.name} onChange={(e) => update('name', e.target.value)} style={styles.input} spellCheck={false} />
+            </Field>
+            <Field label="DRIVER" hint="how the agent is started and read">
+              <select
+                value={form.driver}
+                onChange={(e) => changeDriver(e.target.value as AgentDriverId)}
+                style={styles.input}
+                disabled={isBuiltIn}
+              >
+                <option value="claude-code">Claude Code — session ids, TUI status, permissions, usage</option>
+                <option value="shell">Shell command — any program, task as an argument</option>
+                <option value="simulation">Simulation — scripted Claude Code output, no network</option>
+              </select>
+            </Field>
+            <Field
+              label={isSimulation ? 'SCENARIO' : 'COMMAND'}
+              hint={isSimulation ? `${SIMULATION_SCENARIOS}, or a .yaml/.json file in the project` : undefined}
+            >
+              <input value={form.command} onChange={(e) => update('command', e.target.value)} style={styles.inputMono} spellCheck={false} />
+            </Field>
+            {!isSimulation && (
+              <Field label="ARGUMENTS" hint={isClaude ? 'one per line' : 'one per line; {task} becomes the task, otherwise it goes last'}>
+                <textarea value={form.args} onChange={(e) => update('args', e.target.value)} style={styles.textarea} rows={3} spellCheck={false} />
+              </Field>
+            )}
+            {isClaude && (
+              <>
+                <Field label="MODEL" hint="passed as --model, blank for the CLI default">
+                  <input value={form.model} onChange={(e) => update('model', e.target.value)} style={styles.inputMono} spellCheck={false} placeholder="e.g. sonnet" />
+                </Field>
+                <Field label="PERMISSIONS" hint="supervised agents ask before using tools">
+                  <select
+                    value={form.permissionMode}
+                    onChange={(e) => update('permissionMode', e.target.value)}
+                    style={styles.input}
+                  >
+                    <option value="bypass">Bypass — --dangerously-skip-permissions</option>
+                    <option value="supervised">Supervised — approve each tool use</option>
+                  </select>
+                </Field>
+              </>
+            )}
+            <Field label="WORKSPACE" hint="worktree agents work on their own branch">
+              <select
+                value={form.isolation}
+                onChange={(e) => update('isolation', e.target.value)}
+                style={styles.input}
+              >
+                <option value="shared">Shared — the project directory</option>
+                <option value="worktree">Worktree — own git worktree and branch</option>
+              </select>
+            </Field>
+            {isClaude && (
+              <Field label="OUTPUT" hint="stream JSON reads status from events instead of the screen; needs bypass">
+                <select
+                  value={form.outputMode}
+                  onChange={(e) => update('outputMode', e.target.value)}
+                  style={styles.input}
+                >
+                  <option value="interactive">Interactive — the terminal UI</option>
+                  <option value="stream-json">Stream JSON — --print --output-format stream-json</option>
+                </select>
+              </Field>
+            )}
+            <Field label="ENVIRONMENT" hint="KEY=VALUE per line">
+              <textarea value={form.env} onChange={(e) => update('env', e.target.value)} style={styles.textarea} rows={3} spellCheck={false} />
+            </Field>
+            <div style={styles.sizeRow}>
+              <Field label="COLUMNS">
+                <input type="number" value={form.cols} onChange={(e) => update('cols', e.target.value)} style={styles.inputMono} />
+              </Field>
+              <Field label="ROWS">
+                <input type="number" value={form.rows} onChange={(e) => update('rows', e.target.value)} style={styles.inputMono} />
+              </Field>
+            </div>
+          </div>
+        </div>
+
+        {/* ========== FOOTER ========== */}
+        <footer style={styles.footer}>
+          {!isNew && !isBuiltIn ? (
+            <button onClick={handleDelete} style={styles.deleteButton}>DELETE</button>
+          ) : <span />}
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            style={{ ...styles.saveButton, opacity: canSave ? 1 : 0.35, cursor: canSave ? 'pointer' : 'not-allowed' }}
+          >
+            {isNew ? 'CREATE PROFILE' : 'SAVE PROFILE'}
+          </button>
+        </footer>
+      </div>
+    </>,
+    document.body,
+  );
+}
+
+/* ---------- Field wrapper ---------- */
+
+function Field({ label, hint, children }: { label: string; hint?: string; children: React.ReactNode }) {
+  return (
+    <label style={styles.field}>
+      <span style={styles.fieldLabel}>
+        {label}
+        {hint && <span style={styles.fieldHint}>{hint}</span>}
+      </span>
+      {children}
+    </label>
+  );
+}
+
+/* ==========================================================
+   Styles
+   ========================================================== */
+
+const inputBase: React.CSSProperties = {
+  width: '100%',
+  padding: '7px 10px',
+  background: 'var(--space-void, #0a0e17)',
+  border: '1px solid rgba(0, 200, 255, 0.25)',
+  borderRadius: 2,
+  color: 'var(--text-primary, #e0f0ff)',
+  outline: 'none',
+  boxSizing: 'border-box',
+};
+
+const styles: Record<string, React.CSSProperties> = {
+  backdrop: {
+    position: 'fixed',
+    inset: 0,
+    background: 'rgba(0, 0, 0, 0.5)',
+    zIndex: 950,
+    animation: 'fade-in 0.2s ease-out',
+  },
+
+  modal: {
+    position: 'fixed',
+    top: '50%',
+    left: '50%',
+    transform: 'translate(-50%, -50%)',
+    width: '92vw',
+    maxWidth: 720,
+    maxHeight: '88vh',
+    display: 'flex',
+    flexDirection: 'column',
+    background: 'var(--space-deep, #0d1321)',
+    border: '1px solid var(--panel-border, rgba(0, 200, 255, 0.3))',
+    borderRadius: 2,
+    zIndex: 960,
+    animation: 'fade-in 0.25s ease-out',
+    boxShadow: '0 0 40px rgba(0, 0, 0, 0.6), 0 0 80px rgba(0, 200, 255, 0.08)',
+  },
+
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: '14px 20px',
+    borderBottom: '1px solid rgba(0, 200, 255, 0.15)',
+  },
+
+  headerTitle: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '12px',
+    fontWeight: 700,
+    letterSpacing: '3px',
+    color: 'var(--cyan-glow, #00c8ff)',
+    textShadow: '0 0 10px rgba(0, 200, 255, 0.4)',
+  },
+
+  closeButton: {
+    width: 28,
+    height: 28,
+    border: '1px solid rgba(0, 200, 255, 0.2)',
+    borderRadius: 2,
+    background: 'rgba(0, 0, 0, 0.3)',
+    color: 'var(--text-secondary, #7a8ba8)',
+    fontSize: '12px',
+    cursor: 'pointer',
+    padding: 0,
+  },
+
+  body: {
+    display: 'flex',
+    gap: 16,
+    padding: 20,
+    overflow: 'auto',
+    minHeight: 0,
+  },
+
+  list: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 4,
+    width: 180,
+    flexShrink: 0,
+  },
+
+  listItem: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 6,
+    padding: '8px 10px',
+    border: '1px solid rgba(0, 200, 255, 0.1)',
+    borderRadius: 2,
+    background: 'rgba(0, 0, 0, 0.2)',
+    color: 'var(--text-primary, #e0f0ff)',
+    cursor: 'pointer',
+    textAlign: 'left',
+  },
+
+  listItemActive: {
+    borderColor: 'rgba(0, 200, 255, 0.5)',
+    background: 'rgba(0, 200, 255, 0.08)',
+  },
+
+  listItemName: {
+    fontFamily: "var(--font-body, 'Rajdhani', sans-serif)",
+    fontSize: '13px',
+    fontWeight: 600,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+
+  builtInBadge: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '6px',
+    fontWeight: 700,
+    letterSpacing: '1px',
+    color: 'var(--text-secondary, #7a8ba8)',
+    flexShrink: 0,
+  },
+
+  newButton: {
+    marginTop: 6,
+    padding: '8px 10px',
+    border: '1px dashed rgba(0, 200, 255, 0.3)',
+    borderRadius: 2,
+    background: 'transparent',
+    color: 'var(--cyan-glow, #00c8ff)',
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '8px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    cursor: 'pointer',
+  },
+
+  editor: {
+    flex: 1,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 12,
+    minWidth: 0,
+  },
+
+  field: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 5,
+    flex: 1,
+  },
+
+  fieldLabel: {
+    display: 'flex',
+    alignItems: 'baseline',
+    gap: 8,
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '8px',
+    fontWeight: 700,
+    letterSpacing: '2px',
+    color: 'var(--text-secondary, #7a8ba8)',
+  },
+
+  fieldHint: {
+    fontFamily: "var(--font-body, 'Rajdhani', sans-serif)",
+    fontSize: '11px',
+    fontWeight: 500,
+    letterSpacing: '0.3px',
+    opacity: 0.6,
+  },
+
+  input: {
+    ...inputBase,
+    fontFamily: "var(--font-body, 'Rajdhani', sans-serif)",
+    fontSize: '14px',
+  },
+
+  inputMono: {
+    ...inputBase,
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '12px',
+  },
+
+  textarea: {
+    ...inputBase,
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '12px',
+    resize: 'vertical',
+  },
+
+  sizeRow: {
+    display: 'flex',
+    gap: 12,
+  },
+
+  footer: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: '12px 20px',
+    borderTop: '1px solid rgba(0, 200, 255, 0.15)',
+  },
+
+  deleteButton: {
+    height: 34,
+    padding: '0 18px',
+    border: '1px solid rgba(255, 51, 68, 0.4)',
+    borderRadius: 1,
+    background: 'rgba(255, 51, 68, 0.06)',
+    color: 'var(--red-alert, #ff3344)',
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '9px',
+    fontWeight: 700,
+    letterSpacing: '2px',
+    cursor: 'pointer',
+  },
+
+  saveButton: {
+    height: 34,
+    padding: '0 22px',
+    border: '1px solid var(--cyan-glow, #00c8ff)',
+    borderRadius: 1,
+    background: 'linear-gradient(180deg, rgba(0, 200, 255, 0.1) 0%, rgba(0, 200, 255, 0.03) 100%)',
+    color: 'var(--cyan-glow, #00c8ff)',
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '10px',
+    fontWeight: 700,
+    letterSpacing: '2px',
+    textShadow: '0 0 8px rgba(0, 200, 255, 0.5)',
+  },
+};
@@ -3,14 +3,20 @@ import { useProjectStore } from '../../stores/projectStore';
 import { useAgentStore } from '../../stores/agentStore';
 import { usePlanningStore } from '../../stores/planningStore';
 import { useUIStore } from '../../stores/uiStore';
-import { generateId } from '../../utils/generateId';
+import { useFlowStore } from '../../stores/flowStore';
+import { getTaskLaunchStates, wouldCreateCycle } from '../../utils/taskGraph';
+import { launchPlanningTask } from '../../utils/missionLaunch';
+import ProfileSelect from './ProfileSelect';
+import DependencyGraph, { TASK_STATE_COLORS } from './DependencyGraph';
 
 /* ============================================================
    MissionPlanning - Mission Briefing / Task Planning View
 
    Full-screen view styled like a military briefing document on
    a sci-fi command screen. Allows the commander to define tasks,
-   assign agents, and launch missions.
+   their prerequisites, assign agents, and launch missions.
+   Tasks still waiting on prerequisites are scheduled and
+   launched by the mission sequencer (useMissionSequencer).
    ============================================================ */
 
 interface MissionPlanningProps {
@@ -26,7 +32,7 @@ function getAgentStatusColor(status: string): string {
     executing: '#00c8ff', scanning: '#14b8a6', downloading: '#38bdf8',
     building: '#f59e0b', testing: '#84cc16', waiting: '#ff9f1c',
     paused: '#64748b', launching: '#8b5cf6', completed: '#5a7a9a',
-    error: '#ff3344',
+    error: '#ff3344', interrupted: '#b45309', 'awaiting-approval': '#ff2d95',
   };
   return colors[status] || '#7a8ba8';
 }
@@ -39,14 +45,20 @@ export default function MissionPlanning({ sendMessage, onWarp }: MissionPlanning
   const { projects, activeProjectId } = useProjectStore();
   const { agents } = useAgentStore();
   const { setView } = useUIStore();
-  const planningStore = usePlanningStore();
+  const planTasks = usePlanningStore((s) => s.tasks);
 
   const activeProject = activeProjectId ? projects[activeProjectId] : null;
 
-  const tasks = activeProjectId ? planningStore.getProjectTasks(activeProjectId) : [];
+  // Plans live on the server; every change below goes out as a plan:* message
+  const tasks = useMemo(
+    () => (activeProjectId ? planTasks[activeProjectId] ?? [] : []),
+    [planTasks, activeProjectId],
+  );
   const [newTaskText, setNewTaskText] = useState('');
   const [hoveredTaskId, setHoveredTaskId] = useState<string | null>(null);
   const [hoveredButton, setHoveredButton] = useState<string | null>(null);
+  const [profileId, setProfileId] = useState(''); // '' = project default
+  const [editingDepsId, setEditingDepsId] = useState<string | null>(null);
 
   /* ---------- Project Agents ---------- */
   const projectAgents = useMemo(() => {
@@ -80,13 +92,19 @@ export default function MissionPlanning({ sendMessage, onWarp }: MissionPlanning
     return map;
   }, [tasks, agents, projectAgents]);
 
+  /* ---------- Launch States (ready / waiting / held ...) ---------- */
+  const launchStates = useMemo(() => getTaskLaunchStates(tasks, agents), [tasks, agents]);
+  const hasDependencies = tasks.some((t) => (t.dependsOn ?? []).length > 0);
+  const taskNumber = (taskId: string) =>
+    String(tasks.findIndex((t) => t.id === taskId) + 1).padStart(2, '0');
+
   /* ---------- Add Task ---------- */
   const handleAddTask = useCallback(() => {
     const text = newTaskText.trim();
     if (!text || !activeProjectId) return;
-    planningStore.addTask(activeProjectId, text);
+    sendMessage({ type: 'plan:add', projectId: activeProjectId, text });
     setNewTaskText('');
-  }, [newTaskText, activeProjectId, planningStore]);
+  }, [newTaskText, activeProjectId, sendMessage]);
 
   const handleAddTaskKeyDown = useCallback(
     (e: React.KeyboardEvent<HTMLInputElement>) => {
@@ -100,96 +118,94 @@ export default function MissionPlanning({ sendMessage, onWarp }: MissionPlanning
   /* ---------- Toggle Task ---------- */
   const handleToggleTask = useCallback((taskId: string) => {
     if (!activeProjectId) return;
-    planningStore.toggleTask(activeProjectId, taskId);
-  }, [activeProjectId, planningStore]);
+    sendMessage({ type: 'plan:toggle', projectId: activeProjectId, taskId });
+  }, [activeProjectId, sendMessage]);
 
   /* ---------- Remove Task ---------- */
   const handleRemoveTask = useCallback((taskId: string) => {
     if (!activeProjectId) return;
-    planningStore.removeTask(activeProjectId, taskId);
-  }, [activeProjectId, planningStore]);
-
-  /* ---------- Build Full Task Prompt ---------- */
-  const buildPrompt = useCallback((taskText: string) => {
-    const parts: string[] = [];
-    parts.push(`Project: ${activeProject?.name ?? 'Unknown'}`);
-    if (activeProject?.description) {
-      parts.push(`Description: ${activeProject.description}`);
-    }
-    if (tasks.length > 0) {
-      const taskList = tasks.map((t, i) => `  ${i + 1}. ${t.completed ? '[DONE] ' : ''}${t.text}`).join('\n');
-      parts.push(`Mission Plan:\n${taskList}`);
+    sendMessage({ type: 'plan:remove', projectId: activeProjectId, taskId });
+  }, [activeProjectId, sendMessage]);
+
+  /* ---------- Reorder Task ---------- */
+  const handleMoveTask = useCallback((taskId: string, index: number) => {
+    if (!activeProjectId || index < 0 || index >= tasks.length) return;
+    sendMessage({ type: 'plan:reorder', projectId: activeProjectId, taskId, index });
+  }, [activeProjectId, tasks.length, sendMessage]);
+
+  /* ---------- Dependencies ---------- */
+  const handleToggleDependency = useCallback((taskId: string, prerequisiteId: string) => {
+    if (!activeProjectId) return;
+    const task = tasks.find((t) => t.id === taskId);
+    const enabled = !task?.dependsOn?.includes(prerequisiteId);
+    // The server rejects cycles too; checking here saves the round trip
+    if (enabled && wouldCreateCycle(tasks, taskId, prerequisiteId)) {
+      useFlowStore.getState().addToast({
+        type: 'warning',
+        title: 'DEPENDENCY CYCLE',
+        message: `Task ${taskNumber(prerequisiteId)} already depends on task ${taskNumber(taskId)}`,
+        duration: 5000,
+      });
+      return;
     }
-    parts.push(`\nYour task: ${taskText}`);
-    return parts.join('\n');
-  }, [activeProject, tasks]);
+    sendMessage({ type: 'plan:depend', projectId: activeProjectId, taskId, prerequisiteId, enabled });
+  }, [activeProjectId, tasks, sendMessage]);
 
   /* ---------- Launch Single Task ---------- */
   const handleLaunchTask = useCallback(
-    (task: { id: string; text: string }) => {
-      if (!activeProject || !activeProjectId) return;
-      const agentId = generateId();
-      const fullPrompt = buildPrompt(task.text);
-
-      // Register agent in client store immediately
-      useAgentStore.getState().addAgent({
-        id: agentId,
-        projectId: activeProject.id,
-        task: task.text,
-        cwd: activeProject.cwd,
-        status: 'launching',
-        launchedAt: Date.now(),
-        filesChanged: 0,
-        events: [],
-      });
-
-      planningStore.assignAgent(activeProjectId, task.id, agentId);
-      sendMessage({
-        type: 'agent:launch',
-        id: agentId,
-        projectId: activeProject.id,
-        task: fullPrompt,
-        cwd: activeProject.cwd,
-      });
+    (taskId: string) => {
+      if (!activeProject) return;
+      const task = tasks.find((t) => t.id === taskId);
+      if (!task) return;
+      const agentId = launchPlanningTask(activeProject, task, sendMessage, profileId);
 
       // Navigate to tactical and open console
       setView('tactical');
       setTimeout(() => useUIStore.getState().openConsole(agentId), 800);
     },
-    [activeProject, activeProjectId, sendMessage, planningStore, buildPrompt, setView],
+    [activeProject, tasks, profileId, sendMessage, setView],
   );
 
-  /* ---------- Begin Mission (Launch All Unchecked) ---------- */
+  /* ---------- Schedule Single Task (launches when prerequisites complete) ---------- */
+  const handleScheduleTask = useCallback((taskId: string) => {
+    if (!activeProjectId) return;
+    sendMessage({ type: 'plan:schedule', projectId: activeProjectId, taskIds: [taskId], scheduled: true, ...(profileId && { profileId }) });
+  }, [activeProjectId, profileId, sendMessage]);
+
+  const handleUnscheduleTask = useCallback((taskId: string) => {
+    if (!activeProjectId) return;
+    sendMessage({ type: 'plan:schedule', projectId: activeProjectId, taskIds: [taskId], scheduled: false });
+  }, [activeProjectId, sendMessage]);
+
+  /* ---------- Begin Mission (Launch Ready, Schedule the Rest) ---------- */
   const handleBeginMission = useCallback(() => {
     if (!activeProject || !activeProjectId) return;
-    const uncompletedTasks = tasks.filter((t) => !t.completed && !t.agentId);
+    const uncompletedTasks = tasks.filter((t) => !t.completed && !t.agentId && !t.scheduled);
+    const readyTasks = uncompletedTasks.filter((t) => launchStates[t.id]?.state === 'ready');
+    const blockedTasks = uncompletedTasks.filter((t) => launchStates[t.id]?.state !== 'ready');
     let lastAgentId = '';
 
-    for (const task of uncompletedTasks) {
-      const agentId = generateId();
-      lastAgentId = agentId;
-      const fullPrompt = buildPrompt(task.text);
-
-      // Register agent in client store immediately
-      useAgentStore.getState().addAgent({
-        id: agentId,
-        projectId: activeProject.id,
-        task: task.text,
-        cwd: activeProject.cwd,
-        status: 'launching',
-        launchedAt: Date.now(),
-        filesChanged: 0,
-        events: [],
+    if (blockedTasks.length > 0) {
+      sendMessage({
+        type: 'plan:schedule',
+        projectId: activeProjectId,
+        taskIds: blockedTasks.map((t) => t.id),
+        scheduled: true,
+        ...(profileId && { profileId }),
       });
+    }
+    for (const task of readyTasks) {
+      lastAgentId = launchPlanningTask(activeProject, task, sendMessage, profileId);
+    }
 
-      planningStore.assignAgent(activeProjectId, task.id, agentId);
-      sendMessage({
-        type: 'agent:launch',
-        id: agentId,
-        projectId: activeProject.id,
-        task: fullPrompt,
-        cwd: activeProject.cwd,
+    if (!lastAgentId) {
+      useFlowStore.getState().addToast({
+        type: 'info',
+        title: 'MISSION SCHEDULED',
+        message: `${blockedTasks.length} task${blockedTasks.length !== 1 ? 's' : ''} will launch as prerequisites complete`,
+        duration: 5000,
       });
+      return;
     }
 
     // Trigger warp effect and navigate to tactical
@@ -197,14 +213,12 @@ export default function MissionPlanning({ sendMessage, onWarp }: MissionPlanning
     setTimeout(() => {
       setView('tactical');
       // Auto-open console for the last launched agent
-      if (lastAgentId) {
-        setTimeout(() => useUIStore.getState().openConsole(lastAgentId), 800);
-      }
+      setTimeout(() => useUIStore.getState().openConsole(lastAgentId), 800);
     }, 1000);
-  }, [activeProject, activeProjectId, tasks, sendMessage, planningStore, buildPrompt, onWarp, setView]);
+  }, [activeProject, activeProjectId, tasks, launchStates, profileId, sendMessage, onWarp, setView]);
 
   /* ---------- Counts ---------- */
-  const unlaunchedCount = tasks.filter((t) => !t.completed && !t.agentId).length;
+  const unlaunchedCount = tasks.filter((t) => !t.completed && !t.agentId && !t.scheduled).length;
 
   return (
     <div style={styles.container}>
@@ -284,123 +298,229 @@ export default function MissionPlanning({ sendMessage, onWarp }: MissionPlanning
               const isHovered = hoveredTaskId === task.id;
               const taskAgents = assignedAgents[task.id] || [];
               const hasAgent = !!task.agentId || taskAgents.length > 0;
+              const { state: launchState, blockers } = launchStates[task.id] ?? { state: 'ready', blockers: [] };
+              const prerequisites = task.dependsOn ?? [];
+              const isEditingDeps = editingDepsId === task.id;
 
               return (
-                <div
-                  key={task.id}
-                  style={{
-                    ...styles.taskRow,
-                    background: isHovered
-                      ? 'rgba(0, 200, 255, 0.06)'
-                      : index % 2 === 0
-                      ? 'rgba(0, 0, 0, 0.15)'
-                      : 'transparent',
-                    borderLeft: task.completed
-                      ? '2px solid var(--green-success, #00ff88)'
-                      : hasAgent
-                      ? '2px solid var(--amber-alert, #ff9f1c)'
-                      : '2px solid rgba(0, 200, 255, 0.15)',
-                  }}
-                  onMouseEnter={() => setHoveredTaskId(task.id)}
-                  onMouseLeave={() => setHoveredTaskId(null)}
-                >
-                  {/* Task Number */}
-                  <span style={styles.taskNumber}>
-                    {String(index + 1).padStart(2, '0')}
-                  </span>
-
-                  {/* Toggle Checkbox */}
-                  <button
-                    onClick={() => handleToggleTask(task.id)}
+                <React.Fragment key={task.id}>
+                  <div
                     style={{
-                      ...styles.taskToggle,
-                      borderColor: task.completed
-                        ? 'var(--green-success, #00ff88)'
-                        : 'rgba(0, 200, 255, 0.4)',
-                      background: task.completed
-                        ? 'rgba(0, 255, 136, 0.15)'
-                        : 'rgba(0, 0, 0, 0.3)',
-                      boxShadow: task.completed
-                        ? '0 0 8px rgba(0, 255, 136, 0.3), inset 0 0 6px rgba(0, 255, 136, 0.1)'
-                        : '0 0 4px rgba(0, 200, 255, 0.1)',
+                      ...styles.taskRow,
+                      background: isHovered
+                        ? 'rgba(0, 200, 255, 0.06)'
+                        : index % 2 === 0
+                        ? 'rgba(0, 0, 0, 0.15)'
+                        : 'transparent',
+                      borderLeft: task.completed
+                        ? '2px solid var(--green-success, #00ff88)'
+                        : hasAgent
+                        ? '2px solid var(--amber-alert, #ff9f1c)'
+                        : launchState === 'held'
+                        ? '2px solid var(--red-alert, #ff3344)'
+                        : '2px solid rgba(0, 200, 255, 0.15)',
                     }}
-                    aria-label={task.completed ? 'Mark incomplete' : 'Mark complete'}
+                    onMouseEnter={() => setHoveredTaskId(task.id)}
+                    onMouseLeave={() => setHoveredTaskId(null)}
                   >
-                    {task.completed && (
-                      <span style={styles.taskToggleCheck}>{'\u2713'}</span>
+                    {/* Task Number */}
+                    <span style={styles.taskNumber}>
+                      {String(index + 1).padStart(2, '0')}
+                    </span>
+
+                    {/* Toggle Checkbox */}
+                    <button
+                      onClick={() => handleToggleTask(task.id)}
+                      style={{
+                        ...styles.taskToggle,
+                        borderColor: task.completed
+                          ? 'var(--green-success, #00ff88)'
+                          : 'rgba(0, 200, 255, 0.4)',
+                        background: task.completed
+                          ? 'rgba(0, 255, 136, 0.15)'
+                          : 'rgba(0, 0, 0, 0.3)',
+                        boxShadow: task.completed
+                          ? '0 0 8px rgba(0, 255, 136, 0.3), inset 0 0 6px rgba(0, 255, 136, 0.1)'
+                          : '0 0 4px rgba(0, 200, 255, 0.1)',
+                      }}
+                      aria-label={task.completed ? 'Mark incomplete' : 'Mark complete'}
+                    >
+                      {task.completed && (
+                        <span style={styles.taskToggleCheck}>{'\u2713'}</span>
+                      )}
+                      {!task.completed && (
+                        <span style={styles.taskToggleDot} />
+                      )}
+                    </button>
+
+                    {/* Task Text */}
+                    <span
+                      style={{
+                        ...styles.taskText,
+                        textDecoration: task.completed ? 'line-through' : 'none',
+                        opacity: task.completed ? 0.5 : 1,
+                        color: task.completed
+                          ? 'var(--text-secondary, #7a8ba8)'
+                          : 'var(--text-primary, #e0f0ff)',
+                      }}
+                    >
+                      {task.text}
+                    </span>
+
+                    {/* Prerequisites */}
+                    {prerequisites.length > 0 && (
+                      <span style={styles.taskDepsLabel}>
+                        after {prerequisites.map(taskNumber).join(', ')}
+                      </span>
                     )}
-                    {!task.completed && (
-                      <span style={styles.taskToggleDot} />
+
+                    {/* Dependency Editor Toggle */}
+                    {tasks.length > 1 && !task.completed && !hasAgent && (
+                      <button
+                        onClick={() => setEditingDepsId(isEditingDeps ? null : task.id)}
+                        style={{
+                          ...styles.taskDepsButton,
+                          opacity: isEditingDeps || isHovered ? 1 : 0.4,
+                          borderColor: isEditingDeps
+                            ? 'var(--cyan-glow, #00c8ff)'
+                            : 'rgba(0, 200, 255, 0.25)',
+                        }}
+                        title="Choose the tasks this one waits for"
+                      >
+                        DEPS
+                      </button>
                     )}
-                  </button>
 
-                  {/* Task Text */}
-                  <span
-                    style={{
-                      ...styles.taskText,
-                      textDecoration: task.completed ? 'line-through' : 'none',
-                      opacity: task.completed ? 0.5 : 1,
-                      color: task.completed
-                        ? 'var(--text-secondary, #7a8ba8)'
-                        : 'var(--text-primary, #e0f0ff)',
-                    }}
-                  >
-                    {task.text}
-                  </span>
+                    {/* Agent Assignment Badge */}
+                    {taskAgents.length > 0 && (
+                      <span style={styles.taskAgentBadge}>
+                        <span
+                          style={{
+                            ...styles.taskAgentDot,
+                            backgroundColor: getAgentStatusColor(taskAgents[0].status),
+                            boxShadow: `0 0 4px ${getAgentStatusColor(taskAgents[0].status)}`,
+                          }}
+                        />
+                        <span style={styles.taskAgentLabel}>
+                          {taskAgents[0].id.slice(0, 6).toUpperCase()}
+                        </span>
+                      </span>
+                    )}
+
+                    {/* Launch / Schedule Button */}
+                    {!task.completed && !hasAgent && !task.scheduled && launchState !== 'held' && (
+                      <button
+                        onClick={() => (launchState === 'ready' ? handleLaunchTask(task.id) : handleScheduleTask(task.id))}
+                        onMouseEnter={() => setHoveredButton(`launch-${task.id}`)}
+                        onMouseLeave={() => setHoveredButton(null)}
+                        style={{
+                          ...styles.taskLaunchButton,
+                          boxShadow: hoveredButton === `launch-${task.id}`
+                            ? '0 0 12px rgba(0, 200, 255, 0.5), inset 0 0 8px rgba(0, 200, 255, 0.1)'
+                            : '0 0 6px rgba(0, 200, 255, 0.2)',
+                          background: hoveredButton === `launch-${task.id}`
+                            ? 'rgba(0, 200, 255, 0.12)'
+                            : 'linear-gradient(180deg, rgba(0, 200, 255, 0.06) 0%, rgba(0, 200, 255, 0.02) 100%)',
+                        }}
+                        title={launchState === 'waiting'
+                          ? `Launch automatically once ${blockers.map((b) => taskNumber(b.id)).join(', ')} complete${blockers.length === 1 ? 's' : ''}`
+                          : undefined}
+                      >
+                        {launchState === 'ready' ? 'LAUNCH' : 'SCHEDULE'}
+                      </button>
+                    )}
 
-                  {/* Agent Assignment Badge */}
-                  {taskAgents.length > 0 && (
-                    <span style={styles.taskAgentBadge}>
+                    {/* Blocked / Scheduled Badge */}
+                    {!task.completed && !hasAgent && (task.scheduled || launchState === 'held') && (
                       <span
                         style={{
-                          ...styles.taskAgentDot,
-                          backgroundColor: getAgentStatusColor(taskAgents[0].status),
-                          boxShadow: `0 0 4px ${getAgentStatusColor(taskAgents[0].status)}`,
+                          ...styles.taskStateBadge,
+                          color: TASK_STATE_COLORS[launchState === 'held' ? 'held' : 'waiting'],
+                          borderColor: launchState === 'held'
+                            ? 'rgba(255, 51, 68, 0.4)'
+                            : 'rgba(122, 139, 168, 0.4)',
                         }}
-                      />
-                      <span style={styles.taskAgentLabel}>
-                        {taskAgents[0].id.slice(0, 6).toUpperCase()}
+                        title={launchState === 'held'
+                          ? `Held: prerequisite ${blockers.map((b) => `${taskNumber(b.id)} "${b.text}"`).join(', ')} failed`
+                          : `Waiting for ${blockers.map((b) => taskNumber(b.id)).join(', ')}`}
+                      >
+                        {launchState === 'held' ? 'HELD' : 'SCHEDULED'}
+                        {task.scheduled && (
+                          <button
+                            onClick={() => handleUnscheduleTask(task.id)}
+                            style={styles.taskStateCancel}
+                            aria-label="Cancel scheduled launch"
+                            title="Cancel scheduled launch"
+                          >
+                            {'\u2715'}
+                          </button>
+                        )}
                       </span>
-                    </span>
-                  )}
+                    )}
+
+                    {/* Reorder Buttons */}
+                  <span style={{ ...styles.taskMoveGroup, opacity: isHovered ? 0.8 : 0 }}>
+                    <button
+                      onClick={() => handleMoveTask(task.id, index - 1)}
+                      disabled={index === 0}
+                      style={styles.taskMoveButton}
+                      aria-label="Move task up"
+                    >
+                      {'\u25B2'}
+                    </button>
+                    <button
+                      onClick={() => handleMoveTask(task.id, index + 1)}
+                      disabled={index === tasks.length - 1}
+                      style={styles.taskMoveButton}
+                      aria-label="Move task down"
+                    >
+                      {'\u25BC'}
+                    </button>
+                  </span>
 
-                  {/* Launch Button */}
-                  {!task.completed && !hasAgent && (
+                  {/* Remove Button */}
                     <button
-                      onClick={() => handleLaunchTask(task)}
-                      onMouseEnter={() => setHoveredButton(`launch-${task.id}`)}
+                      onClick={() => handleRemoveTask(task.id)}
+                      onMouseEnter={() => setHoveredButton(`remove-${task.id}`)}
                       onMouseLeave={() => setHoveredButton(null)}
                       style={{
-                        ...styles.taskLaunchButton,
-                        boxShadow: hoveredButton === `launch-${task.id}`
-                          ? '0 0 12px rgba(0, 200, 255, 0.5), inset 0 0 8px rgba(0, 200, 255, 0.1)'
-                          : '0 0 6px rgba(0, 200, 255, 0.2)',
-                        background: hoveredButton === `launch-${task.id}`
-                          ? 'rgba(0, 200, 255, 0.12)'
-                          : 'linear-gradient(180deg, rgba(0, 200, 255, 0.06) 0%, rgba(0, 200, 255, 0.02) 100%)',
+                        ...styles.taskRemoveButton,
+                        opacity: isHovered || hoveredButton === `remove-${task.id}` ? 0.8 : 0.2,
+                        color: hoveredButton === `remove-${task.id}`
+                          ? 'var(--red-alert, #ff3344)'
+                          : 'var(--text-secondary, #7a8ba8)',
                       }}
+                      aria-label="Remove task"
                     >
-                      LAUNCH
+                      {'\u2715'}
                     </button>
+                  </div>
+
+                  {/* Dependency Editor */}
+                  {isEditingDeps && (
+                    <div style={styles.depsEditor}>
+                      <span style={styles.depsEditorLabel}>WAITS FOR</span>
+                      {tasks.filter((t) => t.id !== task.id).map((other) => {
+                        const selected = prerequisites.includes(other.id);
+                        return (
+                          <button
+                            key={other.id}
+                            onClick={() => handleToggleDependency(task.id, other.id)}
+                            style={{
+                              ...styles.depsChip,
+                              borderColor: selected ? 'var(--cyan-glow, #00c8ff)' : 'rgba(0, 200, 255, 0.15)',
+                              background: selected ? 'rgba(0, 200, 255, 0.12)' : 'transparent',
+                              color: selected ? 'var(--text-primary, #e0f0ff)' : 'var(--text-secondary, #7a8ba8)',
+                            }}
+                            title={other.text}
+                          >
+                            {taskNumber(other.id)} {other.text.length > 24 ? `${other.text.slice(0, 23)}…` : other.text}
+                          </button>
+                        );
+                      })}
+                    </div>
                   )}
-
-                  {/* Remove Button */}
-                  <button
-                    onClick={() => handleRemoveTask(task.id)}
-                    onMouseEnter={() => setHoveredButton(`remove-${task.id}`)}
-                    onMouseLeave={() => setHoveredButton(null)}
-                    style={{
-                      ...styles.taskRemoveButton,
-                      opacity: isHovered || hoveredButton === `remove-${task.id}` ? 0.8 : 0.2,
-                      color: hoveredButton === `remove-${task.id}`
-                        ? 'var(--red-alert, #ff3344)'
-                        : 'var(--text-secondary, #7a8ba8)',
-                    }}
-                    aria-label="Remove task"
-                  >
-                    {'\u2715'}
-                  </button>
-                </div>
+                </React.Fragment>
               );
             })}
 
@@ -435,6 +555,37 @@ export default function MissionPlanning({ sendMessage, onWarp }: MissionPlanning
           </div>
         </section>
 
+        {/* ========== DEPENDENCY GRAPH ========== */}
+        {hasDependencies && (
+          <section style={styles.section}>
+            <div style={styles.sectionHeaderBar}>
+              <div style={styles.sectionHeaderDecorLeft} />
+              <span style={styles.sectionLabel}>DEPENDENCY GRAPH</span>
+              <div style={styles.sectionHeaderDecorRight} />
+            </div>
+
+            <DependencyGraph tasks={tasks} states={launchStates} />
+          </section>
+        )}
+
+        {/* ========== LAUNCH PROFILE ========== */}
+        <section style={styles.section}>
+          <div style={styles.sectionHeaderBar}>
+            <div style={styles.sectionHeaderDecorLeft} />
+            <span style={styles.sectionLabel}>LAUNCH PROFILE</span>
+            <div style={styles.sectionHeaderDecorRight} />
+          </div>
+
+          <div style={styles.profilePanel}>
+            <ProfileSelect
+              project={activeProject}
+              value={profileId}
+              onChange={setProfileId}
+              sendMessage={sendMessage}
+            />
+          </div>
+        </section>
+
         {/* ========== CREW ASSIGNMENT ========== */}
         <section style={styles.section}>
           <div style={styles.sectionHeaderBar}>
@@ -862,6 +1013,106 @@ const styles: Record<string, React.CSSProperties> = {
     clipPath: 'polygon(4px 0%, calc(100% - 4px) 0%, 100% 4px, 100% calc(100% - 4px), calc(100% - 4px) 100%, 4px 100%, 0% calc(100% - 4px), 0% 4px)',
   },
 
+  taskDepsLabel: {
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '9px',
+    letterSpacing: '0.5px',
+    color: 'var(--text-secondary, #7a8ba8)',
+    opacity: 0.7,
+    flexShrink: 0,
+  },
+
+  taskDepsButton: {
+    height: 20,
+    padding: '0 8px',
+    border: '1px solid',
+    borderRadius: 1,
+    background: 'transparent',
+    color: 'var(--cyan-glow, #00c8ff)',
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '7px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    cursor: 'pointer',
+    transition: 'all 0.15s ease',
+    flexShrink: 0,
+  },
+
+  taskStateBadge: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 6,
+    height: 26,
+    padding: '0 10px',
+    border: '1px solid',
+    borderRadius: 1,
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '8px',
+    fontWeight: 700,
+    letterSpacing: '2px',
+    cursor: 'default',
+    flexShrink: 0,
+  },
+
+  taskStateCancel: {
+    border: 'none',
+    background: 'transparent',
+    color: 'inherit',
+    fontSize: '9px',
+    cursor: 'pointer',
+    padding: 0,
+    opacity: 0.7,
+  },
+
+  /* --- Dependency Editor --- */
+  depsEditor: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+    padding: '8px 16px 10px 50px',
+    background: 'rgba(0, 200, 255, 0.03)',
+    borderBottom: '1px solid rgba(0, 200, 255, 0.06)',
+  },
+
+  depsEditorLabel: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '7px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    color: 'var(--text-secondary, #7a8ba8)',
+    marginRight: 4,
+  },
+
+  depsChip: {
+    padding: '3px 8px',
+    border: '1px solid',
+    borderRadius: 2,
+    fontFamily: "var(--font-body, 'Rajdhani', sans-serif)",
+    fontSize: '12px',
+    fontWeight: 500,
+    cursor: 'pointer',
+    transition: 'all 0.15s ease',
+  },
+
+  taskMoveGroup: {
+    display: 'flex',
+    flexDirection: 'column',
+    transition: 'opacity 0.15s ease',
+    flexShrink: 0,
+  },
+
+  taskMoveButton: {
+    border: 'none',
+    background: 'transparent',
+    color: 'var(--text-secondary, #7a8ba8)',
+    fontSize: '7px',
+    lineHeight: 1,
+    padding: '1px 2px',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+
   taskRemoveButton: {
     display: 'flex',
     alignItems: 'center',
@@ -934,6 +1185,15 @@ const styles: Record<string, React.CSSProperties> = {
   },
 
   /* --- Crew Assignment Panel --- */
+  profilePanel: {
+    padding: '14px 16px',
+    background: 'var(--panel-bg, rgba(13, 19, 33, 0.85))',
+    border: '1px solid var(--panel-border, rgba(0, 200, 255, 0.3))',
+    borderRadius: 2,
+    backdropFilter: 'blur(8px)',
+    boxShadow: '0 0 20px rgba(0, 0, 0, 0.3), inset 0 0 30px rgba(0, 200, 255, 0.02)',
+  },
+
   crewPanel: {
     background: 'var(--panel-bg, rgba(13, 19, 33, 0.85))',
     border: '1px solid var(--panel-border, rgba(0, 200, 255, 0.3))',
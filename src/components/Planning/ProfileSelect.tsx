@@ -0,0 +1,169 @@
+import React, { useMemo, useState } from 'react';
+import { useProfileStore, DEFAULT_PROFILE_ID } from '../../stores/profileStore';
+import LaunchProfilesModal from './LaunchProfilesModal';
+import { formatCommandLine } from '../../utils/commandLine';
+import type { Project } from '../../types';
+
+/* ============================================================
+   ProfileSelect - Launch Profile Picker
+
+   Chooses the launch profile for the next launch. An empty
+   selection means "use the project's default". Shows the
+   resulting command line, lets the choice become the project
+   default, and opens the profile editor.
+   ============================================================ */
+
+interface ProfileSelectProps {
+  project: Project | null;
+  value: string;                       // '' = project default
+  onChange: (profileId: string) => void;
+  sendMessage: (msg: any) => void;
+}
+
+export default function ProfileSelect({ project, value, onChange, sendMessage }: ProfileSelectProps) {
+  const profiles = useProfileStore((state) => state.profiles);
+  const getEffectiveProfile = useProfileStore((state) => state.getEffectiveProfile);
+  const [editorOpen, setEditorOpen] = useState(false);
+
+  const profileList = useMemo(
+    () => Object.values(profiles).sort((a, b) =>
+      a.id === DEFAULT_PROFILE_ID ? -1 : b.id === DEFAULT_PROFILE_ID ? 1 : a.name.localeCompare(b.name)),
+    [profiles],
+  );
+
+  const projectDefault = getEffectiveProfile(project?.defaultProfileId);
+  const effective = getEffectiveProfile(project?.defaultProfileId, value || undefined);
+  const canMakeDefault = !!project && !!value && value !== (project.defaultProfileId ?? DEFAULT_PROFILE_ID);
+
+  const commandLine = effective ? formatCommandLine(effective) : '';
+  const isClaude = !effective?.driver || effective.driver === 'claude-code';
+  const envKeys = effective ? Object.keys(effective.env) : [];
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.row}>
+        <select
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          style={styles.select}
+        >
+          <option value="">
+            Project default{projectDefault ? ` — ${projectDefault.name}` : ''}
+          </option>
+          {profileList.map((profile) => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+
+        {canMakeDefault && (
+          <button
+            onClick={() => sendMessage({ type: 'project:setDefaultProfile', projectId: project!.id, profileId: value })}
+            style={styles.smallButton}
+            title="Use this profile for launches in this project that don't pick one"
+          >
+            SET AS DEFAULT
+          </button>
+        )}
+
+        <button onClick={() => setEditorOpen(true)} style={styles.smallButton}>
+          MANAGE
+        </button>
+      </div>
+
+      {effective && (
+        <div style={styles.summary}>
+          <span style={styles.summaryCommand}>{commandLine}</span>
+          <span style={styles.summaryMeta}>
+            {!isClaude && `${effective.driver} · `}
+            {isClaude && effective.permissionMode === 'supervised' && 'supervised · '}
+            {effective.isolation === 'worktree' && 'worktree · '}
+            {effective.outputMode === 'stream-json' && 'stream-json · '}
+            {effective.cols}{'×'}{effective.rows}
+            {envKeys.length > 0 && ` · env: ${envKeys.join(', ')}`}
+          </span>
+        </div>
+      )}
+
+      {editorOpen && (
+        <LaunchProfilesModal
+          onClose={() => setEditorOpen(false)}
+          sendMessage={sendMessage}
+          initialProfileId={effective?.id}
+        />
+      )}
+    </div>
+  );
+}
+
+/* ==========================================================
+   Styles
+   ========================================================== */
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 6,
+  },
+
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+  },
+
+  select: {
+    flex: 1,
+    minWidth: 0,
+    padding: '7px 10px',
+    background: 'var(--space-void, #0a0e17)',
+    border: '1px solid rgba(0, 200, 255, 0.25)',
+    borderRadius: 2,
+    color: 'var(--text-primary, #e0f0ff)',
+    fontFamily: "var(--font-body, 'Rajdhani', sans-serif)",
+    fontSize: '13px',
+    fontWeight: 600,
+    outline: 'none',
+    cursor: 'pointer',
+  },
+
+  smallButton: {
+    flexShrink: 0,
+    padding: '6px 10px',
+    border: '1px solid rgba(0, 200, 255, 0.3)',
+    borderRadius: 2,
+    background: 'rgba(0, 200, 255, 0.06)',
+    color: 'var(--cyan-glow, #00c8ff)',
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '7px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    cursor: 'pointer',
+  },
+
+  summary: {
+    display: 'flex',
+    alignItems: 'baseline',
+    gap: 10,
+    minWidth: 0,
+  },
+
+  summaryCommand: {
+    flex: 1,
+    minWidth: 0,
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '10px',
+    color: 'var(--cyan-glow, #00c8ff)',
+    opacity: 0.7,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+
+  summaryMeta: {
+    flexShrink: 0,
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '10px',
+    color: 'var(--text-secondary, #7a8ba8)',
+  },
+};
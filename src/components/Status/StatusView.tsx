@@ -2,14 +2,15 @@ import React, { useMemo } from 'react';
 import { useProjectStore } from '../../stores/projectStore';
 import { useAgentStore } from '../../stores/agentStore';
 import { useLogStore } from '../../stores/logStore';
-import type { Agent, LogEntry } from '../../types';
+import type { Agent, LogEntry, UsageSummary, UsageTotals } from '../../types';
 
 /* ============================================================
    StatusView - Ship Status / System Overview Dashboard
 
    A 2x2 grid dashboard showing the health of all systems at a
-   glance: Ship Systems, Crew Manifest, Recent Activity, and
-   Mission Overview. Reads directly from Zustand stores.
+   glance: Ship Systems (with token and cost usage), Crew
+   Manifest, Recent Activity, and Mission Overview. Reads
+   directly from Zustand stores.
    ============================================================ */
 
 /* ---------- Helpers ---------- */
@@ -24,6 +25,10 @@ function getAgentStatusColor(status: Agent['status']): string {
       return '#ff3344';
     case 'launching':
       return '#ff9f1c';
+    case 'interrupted':
+      return '#b45309';
+    case 'awaiting-approval':
+      return '#ff2d95';
     case 'queued':
     default:
       return '#7a8ba8';
@@ -64,6 +69,22 @@ function formatElapsed(launchedAt: number): string {
   return `${hours}h ${minutes % 60}m`;
 }
 
+function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd > 0 && usd < 1 ? 4 : 2)}`;
+}
+
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
+
+/** Local date key matching the server's per-day totals */
+function dayKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
 function formatTimestamp(ts: number): string {
   const d = new Date(ts);
   return d.toLocaleTimeString('en-GB', {
@@ -187,13 +208,95 @@ function ProgressRing({ progress, size = 96 }: { progress: number; size?: number
   );
 }
 
+/* ---------- Cost Panel Sub-Component ---------- */
+
+const HISTORY_DAYS = 7;
+const NO_USAGE: UsageTotals = { inputTokens: 0, outputTokens: 0, costUsd: 0 };
+
+function CostPanel({ summary, projectId, projectName }: {
+  summary: UsageSummary;
+  projectId: string | null;
+  projectName?: string;
+}) {
+  const history = useMemo(() => {
+    const days: Array<{ key: string; label: string; usage: UsageTotals }> = [];
+    for (let i = HISTORY_DAYS - 1; i >= 0; i--) {
+      const date = new Date();
+      date.setDate(date.getDate() - i);
+      const key = dayKey(date);
+      days.push({
+        key,
+        label: date.toLocaleDateString('en-GB', { weekday: 'narrow' }),
+        usage: summary.byDay[key] ?? NO_USAGE,
+      });
+    }
+    return days;
+  }, [summary]);
+
+  const allProjects = useMemo(
+    () => Object.values(summary.byProject).reduce((sum, u) => ({
+      inputTokens: sum.inputTokens + u.inputTokens,
+      outputTokens: sum.outputTokens + u.outputTokens,
+      costUsd: sum.costUsd + u.costUsd,
+    }), NO_USAGE),
+    [summary],
+  );
+
+  const figures: Array<{ label: string; usage: UsageTotals }> = [
+    { label: 'TODAY', usage: history[history.length - 1].usage },
+    ...(projectId ? [{ label: projectName?.toUpperCase() ?? 'PROJECT', usage: summary.byProject[projectId] ?? NO_USAGE }] : []),
+    { label: 'ALL PROJECTS', usage: allProjects },
+  ];
+  const maxDailyCost = Math.max(...history.map((d) => d.usage.costUsd), 0);
+
+  return (
+    <div style={styles.costPanel}>
+      <span style={styles.systemName}>WARP CORE · USAGE</span>
+      <div style={styles.costBody}>
+        <div style={styles.costFigures}>
+          {figures.map(({ label, usage }) => (
+            <div key={label} style={styles.costFigure}>
+              <span style={styles.costLabel}>{label}</span>
+              <span style={styles.costValue}>{formatCost(usage.costUsd)}</span>
+              <span style={styles.costTokens}>
+                {formatTokens(usage.inputTokens)} in · {formatTokens(usage.outputTokens)} out
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {/* Daily cost, last week */}
+        <div style={styles.costHistory}>
+          {history.map((day) => (
+            <div
+              key={day.key}
+              style={styles.costDay}
+              title={`${day.key}: ${formatCost(day.usage.costUsd)} · ${formatTokens(day.usage.inputTokens)} in / ${formatTokens(day.usage.outputTokens)} out`}
+            >
+              <div style={styles.costBarTrack}>
+                <div
+                  style={{
+                    ...styles.costBarFill,
+                    height: maxDailyCost > 0 ? `${Math.max(4, (day.usage.costUsd / maxDailyCost) * 100)}%` : 0,
+                  }}
+                />
+              </div>
+              <span style={styles.costDayLabel}>{day.label}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 /* ==========================================================
    Main StatusView Component
    ========================================================== */
 
 export default function StatusView() {
   const { projects, activeProjectId } = useProjectStore();
-  const { agents } = useAgentStore();
+  const { agents, usageSummary } = useAgentStore();
   const logs = useLogStore((s) => s.logs);
 
   const activeProject = activeProjectId ? projects[activeProjectId] : null;
@@ -227,11 +330,6 @@ export default function StatusView() {
   // Connection status: true if there are any active agents
   const isConnected = activeAgentCount > 0;
 
-  // Build status: check for recent build errors
-  const hasBuildError = allAgents.some(
-    (a) => a.status === 'error',
-  );
-
   const systems = useMemo(() => {
     const healthValue =
       overallHealth === 'healthy' ? 100 : overallHealth === 'warning' ? 60 : 25;
@@ -240,7 +338,6 @@ export default function StatusView() {
         ? Math.round((activeAgentCount / allAgents.length) * 100)
         : 0;
     const shieldValue = isConnected ? 100 : 30;
-    const warpValue = hasBuildError ? 20 : activeAgentCount > 0 ? 100 : 50;
 
     return [
       {
@@ -273,18 +370,8 @@ export default function StatusView() {
         label: isConnected ? 'ONLINE' : 'STANDBY',
         color: isConnected ? '#00ff88' : '#ff9f1c',
       },
-      {
-        name: 'WARP CORE',
-        value: warpValue,
-        label: hasBuildError ? 'FAULT' : activeAgentCount > 0 ? 'NOMINAL' : 'IDLE',
-        color: hasBuildError
-          ? '#ff3344'
-          : activeAgentCount > 0
-          ? '#00ff88'
-          : '#ff9f1c',
-      },
     ];
-  }, [overallHealth, activeAgentCount, allAgents.length, isConnected, hasBuildError]);
+  }, [overallHealth, activeAgentCount, allAgents.length, isConnected]);
 
   /* ---------- Render ---------- */
 
@@ -326,6 +413,11 @@ export default function StatusView() {
                 </div>
               </div>
             ))}
+            <CostPanel
+              summary={usageSummary}
+              projectId={activeProject?.id ?? null}
+              projectName={activeProject?.name}
+            />
           </div>
         </div>
 
@@ -360,6 +452,14 @@ export default function StatusView() {
                     ? agent.task.slice(0, 40) + '...'
                     : agent.task}
                 </span>
+                {agent.usage && (
+                  <span
+                    style={styles.agentCost}
+                    title={`${formatTokens(agent.usage.total.inputTokens)} in / ${formatTokens(agent.usage.total.outputTokens)} out`}
+                  >
+                    {formatCost(agent.usage.total.costUsd)}
+                  </span>
+                )}
                 <span style={styles.agentElapsed}>
                   {formatElapsed(agent.launchedAt)}
                 </span>
@@ -644,6 +744,98 @@ const styles: Record<string, React.CSSProperties> = {
     transition: 'width 0.6s ease, background-color 0.3s ease',
   },
 
+  costPanel: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 8,
+    marginTop: 4,
+    paddingTop: 10,
+    borderTop: '1px solid rgba(0, 200, 255, 0.1)',
+  },
+
+  costBody: {
+    display: 'flex',
+    alignItems: 'flex-end',
+    gap: 16,
+  },
+
+  costFigures: {
+    flex: 1,
+    display: 'flex',
+    gap: 16,
+    minWidth: 0,
+  },
+
+  costFigure: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 2,
+    minWidth: 0,
+  },
+
+  costLabel: {
+    fontFamily: "'Orbitron', sans-serif",
+    fontSize: '7px',
+    fontWeight: 600,
+    letterSpacing: '1.5px',
+    color: '#7a8ba8',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+
+  costValue: {
+    fontFamily: "'Orbitron', sans-serif",
+    fontSize: '16px',
+    fontWeight: 700,
+    color: '#00ff88',
+    textShadow: '0 0 8px rgba(0, 255, 136, 0.3)',
+  },
+
+  costTokens: {
+    fontFamily: "'JetBrains Mono', monospace",
+    fontSize: '9px',
+    color: '#7a8ba8',
+    whiteSpace: 'nowrap',
+  },
+
+  costHistory: {
+    display: 'flex',
+    alignItems: 'flex-end',
+    gap: 4,
+    flexShrink: 0,
+  },
+
+  costDay: {
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    gap: 3,
+  },
+
+  costBarTrack: {
+    display: 'flex',
+    alignItems: 'flex-end',
+    width: 8,
+    height: 36,
+    background: 'rgba(0, 200, 255, 0.08)',
+    borderRadius: 1,
+  },
+
+  costBarFill: {
+    width: '100%',
+    borderRadius: 1,
+    background: '#00c8ff',
+    boxShadow: '0 0 4px rgba(0, 200, 255, 0.5)',
+    transition: 'height 0.6s ease',
+  },
+
+  costDayLabel: {
+    fontFamily: "'JetBrains Mono', monospace",
+    fontSize: '8px',
+    color: '#7a8ba8',
+  },
+
   /* --- Panel 2: Crew Manifest --- */
   agentRow: {
     display: 'flex',
@@ -686,6 +878,15 @@ const styles: Record<string, React.CSSProperties> = {
     minWidth: 0,
   },
 
+  agentCost: {
+    fontFamily: "'JetBrains Mono', monospace",
+    fontSize: '10px',
+    fontWeight: 600,
+    color: '#00ff88',
+    opacity: 0.8,
+    flexShrink: 0,
+  },
+
   agentElapsed: {
     fontFamily: "'JetBrains Mono', monospace",
     fontSize: '10px',
@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import type { Agent, FleetBroadcast, FleetDeliveryStatus } from '../../types';
+
+/* ============================================================
+   FleetCommandBar - Broadcast Orders to the Fleet
+
+   Sends one instruction to every running agent in the project,
+   or to the agents picked from the chips (`fleet:broadcast`).
+   The server hands it to each agent once that agent is idle.
+   Below the input, the latest broadcast's delivery is shown
+   per agent.
+   ============================================================ */
+
+interface FleetCommandBarProps {
+  agents: Agent[];                     // The project's agents
+  broadcasts: FleetBroadcast[];        // The project's broadcasts, oldest first
+  onBroadcast: (text: string, agentIds?: string[]) => void;
+}
+
+// Agents without a session can't be given orders
+const NOT_RUNNING = new Set<Agent['status']>(['queued', 'completed', 'error', 'interrupted']);
+
+const DELIVERY_VISUAL: Record<FleetDeliveryStatus, { label: string; color: string; hint: string }> = {
+  pending: { label: 'HELD', color: '#ff9f1c', hint: 'Sent when the agent is next idle' },
+  delivered: { label: 'SENT', color: '#00ff88', hint: 'Sent as one of the agent\'s turns' },
+  failed: { label: 'FAILED', color: '#ff3344', hint: 'The agent\'s CLI never accepted it' },
+  dropped: { label: 'DROPPED', color: '#7a8ba8', hint: 'The agent finished first' },
+};
+
+const shortId = (agentId: string) => agentId.slice(0, 6).toUpperCase();
+
+export default function FleetCommandBar({ agents, broadcasts, onBroadcast }: FleetCommandBarProps) {
+  const [text, setText] = useState('');
+  const [picked, setPicked] = useState<string[]>([]);
+
+  const running = agents.filter((a) => !NOT_RUNNING.has(a.status));
+  // Agents picked earlier may have finished since
+  const targets = picked.filter((id) => running.some((a) => a.id === id));
+  const canSend = running.length > 0 && text.trim().length > 0;
+  const latest = broadcasts[broadcasts.length - 1];
+
+  const togglePick = (agentId: string) => {
+    setPicked(targets.includes(agentId) ? targets.filter((id) => id !== agentId) : [...targets, agentId]);
+  };
+
+  const send = () => {
+    if (!canSend) return;
+    onBroadcast(text.trim(), targets.length > 0 ? targets : undefined);
+    setText('');
+  };
+
+  return (
+    <div style={styles.container} onKeyDown={(e) => e.stopPropagation()}>
+      {/* Header + targets */}
+      <div style={styles.headerRow}>
+        <span style={styles.title}>FLEET COMMAND</span>
+        <button
+          onClick={() => setPicked([])}
+          style={{ ...styles.chip, ...(targets.length === 0 && styles.chipActive) }}
+          title="Every running agent in this project"
+        >
+          ALL ({running.length})
+        </button>
+        {running.map((agent) => (
+          <button
+            key={agent.id}
+            onClick={() => togglePick(agent.id)}
+            style={{ ...styles.chip, ...(targets.includes(agent.id) && styles.chipActive) }}
+            title={agent.task}
+          >
+            {shortId(agent.id)}
+          </button>
+        ))}
+      </div>
+
+      {/* Orders input */}
+      <div style={styles.inputRow}>
+        <span style={styles.prompt}>{'❯'}</span>
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              send();
+            }
+          }}
+          placeholder={running.length === 0
+            ? 'No agents running'
+            : `Orders for ${targets.length > 0 ? `${targets.length} selected` : 'all'} agent${(targets.length || running.length) === 1 ? '' : 's'}…`}
+          disabled={running.length === 0}
+          style={styles.input}
+          spellCheck={false}
+          aria-label="Broadcast orders to agents"
+        />
+        <button
+          onClick={send}
+          disabled={!canSend}
+          style={{ ...styles.sendButton, opacity: canSend ? 1 : 0.35, cursor: canSend ? 'pointer' : 'not-allowed' }}
+        >
+          BROADCAST
+        </button>
+      </div>
+
+      {/* Delivery of the latest broadcast */}
+      {latest && (
+        <div style={styles.deliveryRow}>
+          <span style={styles.latestText} title={latest.text}>{latest.text}</span>
+          {latest.deliveries.map((delivery) => {
+            const visual = DELIVERY_VISUAL[delivery.status];
+            return (
+              <span
+                key={delivery.agentId}
+                style={{ ...styles.delivery, color: visual.color, borderColor: `${visual.color}66` }}
+                title={delivery.detail ?? visual.hint}
+              >
+                {shortId(delivery.agentId)} {visual.label}{delivery.turn ? ` · T${delivery.turn}` : ''}
+              </span>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ==========================================================
+   Styles
+   ========================================================== */
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 6,
+    padding: '8px 10px',
+    background: 'rgba(10, 14, 23, 0.9)',
+    border: '1px solid rgba(0, 200, 255, 0.25)',
+    borderRadius: 2,
+    pointerEvents: 'auto',
+  },
+
+  headerRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 6,
+    flexWrap: 'wrap',
+  },
+
+  title: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '8px',
+    fontWeight: 700,
+    letterSpacing: '2px',
+    color: 'var(--text-secondary, #7a8ba8)',
+    marginRight: 4,
+  },
+
+  chip: {
+    padding: '2px 6px',
+    border: '1px solid rgba(0, 200, 255, 0.2)',
+    borderRadius: 2,
+    background: 'transparent',
+    color: 'var(--text-secondary, #7a8ba8)',
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '9px',
+    letterSpacing: '0.5px',
+    cursor: 'pointer',
+  },
+
+  chipActive: {
+    background: 'rgba(0, 200, 255, 0.12)',
+    borderColor: 'rgba(0, 200, 255, 0.6)',
+    color: 'var(--cyan-glow, #00c8ff)',
+  },
+
+  inputRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+  },
+
+  prompt: {
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '12px',
+    color: 'var(--cyan-glow, #00c8ff)',
+    textShadow: '0 0 6px rgba(0, 200, 255, 0.5)',
+    flexShrink: 0,
+  },
+
+  input: {
+    flex: 1,
+    minWidth: 0,
+    padding: '4px 0',
+    background: 'transparent',
+    border: 'none',
+    outline: 'none',
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '12px',
+    color: 'var(--text-primary, #e0f0ff)',
+  },
+
+  sendButton: {
+    padding: '4px 10px',
+    border: '1px solid rgba(0, 200, 255, 0.4)',
+    borderRadius: 2,
+    background: 'rgba(0, 200, 255, 0.08)',
+    color: 'var(--cyan-glow, #00c8ff)',
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '7px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    whiteSpace: 'nowrap',
+    flexShrink: 0,
+  },
+
+  deliveryRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 6,
+    flexWrap: 'wrap',
+    paddingTop: 6,
+    borderTop: '1px solid rgba(0, 200, 255, 0.08)',
+  },
+
+  latestText: {
+    maxWidth: 160,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '10px',
+    color: 'var(--text-secondary, #7a8ba8)',
+  },
+
+  delivery: {
+    padding: '1px 5px',
+    border: '1px solid',
+    borderRadius: 2,
+    fontFamily: "var(--font-mono, 'JetBrains Mono', monospace)",
+    fontSize: '9px',
+    letterSpacing: '0.5px',
+    whiteSpace: 'nowrap',
+  },
+};
@@ -52,6 +52,7 @@ const NAV_ITEMS: NavItem[] = [
   { id: 'planning',  icon: '\u25C6', label: 'Mission Planning' },     // ◆
   { id: 'logs',      icon: '\u25A3', label: 'System Logs' },          // ▣
   { id: 'status',    icon: '\u2B21', label: 'Ship Status' },          // ⬡
+  { id: 'inspector', icon: '\u2316', label: 'Parser Inspector' },     // ⌖
 ];
 
 /* ---------- Utility: Stardate ---------- */
@@ -1,4 +1,5 @@
 import React, { useState, useRef, useCallback, useEffect, type ReactNode } from 'react';
+import { createPortal } from 'react-dom';
 
 /* ============================================================
    HoloTooltip Component — Holographic Projection Tooltip
@@ -8,18 +9,27 @@ import React, { useState, useRef, useCallback, useEffect, type ReactNode } from
    border, subtle glow, and a directional chevron arrow.
 
    Positioning is calculated relative to the hovered element
-   using getBoundingClientRect for precise placement.
+   using getBoundingClientRect for precise placement. The
+   tooltip is portalled to <body> so transformed ancestors (the
+   orbiting moons, the scaled orbital field) don't move it.
+
+   `interactive` tooltips take the pointer: they stay open while
+   hovered or while something inside has focus, so they can hold
+   inputs and buttons.
    ============================================================ */
 
 export interface HoloTooltipProps {
   children: ReactNode;
   content: ReactNode;
   position?: 'top' | 'bottom' | 'left' | 'right';
+  interactive?: boolean;
+  onVisibleChange?: (visible: boolean) => void;
 }
 
 /* ---------- Constants ---------- */
 
 const SHOW_DELAY_MS = 200;
+const HIDE_DELAY_MS = 250;   // Interactive only: time to cross the gap to the tooltip
 const ARROW_SIZE = 6;
 const TOOLTIP_OFFSET = 10;
 
@@ -113,6 +123,8 @@ export default function HoloTooltip({
   children,
   content,
   position = 'top',
+  interactive = false,
+  onVisibleChange,
 }: HoloTooltipProps) {
   ensureKeyframes();
 
@@ -121,6 +133,7 @@ export default function HoloTooltip({
   const triggerRef = useRef<HTMLDivElement>(null);
   const tooltipRef = useRef<HTMLDivElement>(null);
   const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const hoveredRef = useRef(false);
 
   /* Compute position of the tooltip relative to the viewport */
   const updatePosition = useCallback(() => {
@@ -162,19 +175,49 @@ export default function HoloTooltip({
   }, [position]);
 
   /* Show / hide handlers */
+  const clearTimer = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  }, []);
+
+  /* An interactive tooltip stays up while it holds the focus */
+  const hideUnlessFocused = useCallback(() => {
+    if (tooltipRef.current?.contains(document.activeElement)) return;
+    setVisible(false);
+  }, []);
+
+  // The portalled tooltip is still a React child of the trigger, so
+  // entering it doesn't count as leaving the trigger
   const handleMouseEnter = useCallback(() => {
+    hoveredRef.current = true;
+    clearTimer();
+    if (visible) return;
     timerRef.current = setTimeout(() => {
       setVisible(true);
     }, SHOW_DELAY_MS);
-  }, []);
+  }, [visible, clearTimer]);
 
   const handleMouseLeave = useCallback(() => {
-    if (timerRef.current) {
-      clearTimeout(timerRef.current);
-      timerRef.current = null;
+    hoveredRef.current = false;
+    clearTimer();
+    if (interactive) {
+      timerRef.current = setTimeout(hideUnlessFocused, HIDE_DELAY_MS);
+    } else {
+      setVisible(false);
     }
+  }, [interactive, clearTimer, hideUnlessFocused]);
+
+  const handleBlur = useCallback((e: React.FocusEvent) => {
+    if (!interactive || hoveredRef.current) return;
+    if (tooltipRef.current?.contains(e.relatedTarget as Node | null)) return;
     setVisible(false);
-  }, []);
+  }, [interactive]);
+
+  useEffect(() => {
+    onVisibleChange?.(visible);
+  }, [visible, onVisibleChange]);
 
   /* Update position when visible */
   useEffect(() => {
@@ -207,7 +250,7 @@ export default function HoloTooltip({
     top: coords.top,
     left: coords.left,
     zIndex: 9999,
-    pointerEvents: 'none',
+    pointerEvents: interactive ? 'auto' : 'none',
     /* Fade-in animation */
     animation: 'holo-tooltip-fade-in 0.2s ease-out forwards',
   };
@@ -265,11 +308,12 @@ export default function HoloTooltip({
       style={wrapperStyle}
       onMouseEnter={handleMouseEnter}
       onMouseLeave={handleMouseLeave}
+      onBlur={handleBlur}
     >
       {children}
 
-      {visible && (
-        <div style={tooltipStyle} ref={tooltipRef} role="tooltip">
+      {visible && createPortal(
+        <div style={tooltipStyle} ref={tooltipRef} role={interactive ? 'dialog' : 'tooltip'}>
           <div style={tooltipBodyStyle}>
             {/* Scanline texture */}
             <div style={scanlineOverlayStyle} />
@@ -285,7 +329,8 @@ export default function HoloTooltip({
               {content}
             </div>
           </div>
-        </div>
+        </div>,
+        document.body,
       )}
     </div>
   );
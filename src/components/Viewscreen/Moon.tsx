@@ -1,5 +1,9 @@
-import React, { useMemo } from 'react';
-import type { Agent } from '../../types';
+import React, { useMemo, useState } from 'react';
+import PermissionCard from '../Console/PermissionCard';
+import SendOrders from '../Console/SendOrders';
+import HoloTooltip from './HoloTooltip';
+import { useAgentStore } from '../../stores/agentStore';
+import type { Agent, PermissionDecision } from '../../types';
 
 /* ============================================================
    Moon Component — Orbital Agent Visualization
@@ -10,6 +14,11 @@ import type { Agent } from '../../types';
 
    The orbit container rotates, while the moon counter-rotates
    to remain upright throughout its orbit.
+
+   While the agent is blocked on a permission prompt the moon
+   stops orbiting and carries an approve/deny card. Hovering a
+   running agent's moon holds it still and opens a tooltip with
+   its task, turn count and a send-orders input.
    ============================================================ */
 
 export interface MoonProps {
@@ -17,6 +26,8 @@ export interface MoonProps {
   index: number;
   totalMoons: number;
   onClick: () => void;
+  onPermissionDecision?: (decision: PermissionDecision) => void;
+  onSendOrders?: (text: string) => void;
 }
 
 /* ---------- Status Color Map ---------- */
@@ -31,9 +42,11 @@ const STATUS_COLORS: Record<Agent['status'], string> = {
   building: '#f59e0b',    // gold — construction
   testing: '#84cc16',     // lime — diagnostics
   waiting: '#ff9f1c',     // amber — standby / awaiting input
+  'awaiting-approval': '#ff2d95', // magenta — blocked on a permission prompt
   paused: '#64748b',      // slate — systems on hold
   completed: '#5a7a9a',   // muted steel — mission complete
   error: '#ff3344',       // red — alert
+  interrupted: '#b45309', // burnt orange — lost contact on server restart
   queued: '#4a5568',      // dim gray — in queue
   launching: '#8b5cf6',   // purple — warp engines initializing
 };
@@ -245,6 +258,19 @@ function ensureKeyframes(): void {
       }
     }
 
+    @keyframes moon-approval-pulse {
+      0%, 100% {
+        box-shadow: 0 0 8px 3px rgba(255, 45, 149, 0.4),
+                    0 0 20px 8px rgba(255, 45, 149, 0.15);
+        transform: scale(1);
+      }
+      50% {
+        box-shadow: 0 0 16px 6px rgba(255, 45, 149, 0.75),
+                    0 0 34px 13px rgba(255, 45, 149, 0.3);
+        transform: scale(1.1);
+      }
+    }
+
     @keyframes moon-error-flash {
       0%, 100% {
         box-shadow: 0 0 6px 2px rgba(255, 51, 68, 0.3),
@@ -274,14 +300,23 @@ function ensureKeyframes(): void {
 
 /* ---------- Component ---------- */
 
-export default function Moon({ agent, index, totalMoons, onClick }: MoonProps) {
+export default function Moon({ agent, index, totalMoons, onClick, onPermissionDecision, onSendOrders }: MoonProps) {
   ensureKeyframes();
 
+  const [tooltipOpen, setTooltipOpen] = useState(false);
+
   const color = STATUS_COLORS[agent.status];
   const moonSize = useMemo(() => getMoonSize(agent.task), [agent.task]);
   const orbitRadius = getOrbitRadius(index);
   const orbitalPeriod = getOrbitalPeriod(index);
-  const taskLabel = truncate(agent.task, 20);
+  const queuePosition = useAgentStore(
+    (state) => state.launchQueue.findIndex((e) => e.agentId === agent.id) + 1,
+  );
+  const taskLabel = queuePosition > 0
+    ? `#${queuePosition} \u00b7 ${truncate(agent.task, 16)}`
+    : agent.endReason === 'budget-exceeded' && agent.status === 'error'
+      ? `OVER BUDGET \u00b7 ${truncate(agent.task, 10)}`
+      : truncate(agent.task, 20);
 
   /* Distribute moons evenly around the orbit at their starting angle */
   const startAngle = totalMoons > 0 ? (index / totalMoons) * 360 : 0;
@@ -290,10 +325,18 @@ export default function Moon({ agent, index, totalMoons, onClick }: MoonProps) {
   const isLaunching = s === 'launching';
   const isWorking = s === 'active' || s === 'thinking' || s === 'coding' || s === 'executing' || s === 'scanning' || s === 'downloading' || s === 'building' || s === 'testing';
   const isWaiting = s === 'waiting';
+  const isAwaitingApproval = s === 'awaiting-approval';
+  const showPermissionCard = !!agent.pendingPermission && !!onPermissionDecision;
   const isPaused = s === 'paused';
   const isCompleted = s === 'completed';
   const isError = s === 'error';
-  const isFinished = isCompleted || isError || isPaused;
+  const isInterrupted = s === 'interrupted';
+  const isFinished = isCompleted || isError || isPaused || isInterrupted;
+  const isQueued = s === 'queued';
+  const isMuted = isFinished || isQueued;
+  const canTakeOrders = !!onSendOrders && !isFinished && !isQueued;
+  // Hold still while the permission card or the orders tooltip is in use
+  const holdOrbit = showPermissionCard || (canTakeOrders && tooltipOpen);
 
   /* ---------- Styles ---------- */
 
@@ -308,7 +351,9 @@ export default function Moon({ agent, index, totalMoons, onClick }: MoonProps) {
     animationDelay: `${-(startAngle / 360) * orbitalPeriod}s`,
     transformOrigin: '0 0',
     pointerEvents: 'none',
-    zIndex: 20 + index,
+    zIndex: showPermissionCard ? 100 : 20 + index,
+    /* Hold still so the permission card can be clicked */
+    animationPlayState: holdOrbit ? 'paused' : 'running',
   };
 
   /* Moon positioning: translates the moon out to its orbital radius */
@@ -324,6 +369,7 @@ export default function Moon({ agent, index, totalMoons, onClick }: MoonProps) {
     pointerEvents: 'auto',
     cursor: 'pointer',
     zIndex: 20 + index,
+    animationPlayState: holdOrbit ? 'paused' : 'running',
   };
 
   /* Status-specific animation — each state gets a distinct visual rhythm */
@@ -337,30 +383,31 @@ export default function Moon({ agent, index, totalMoons, onClick }: MoonProps) {
     s === 'testing'      ? 'moon-testing-pulse 1.6s ease-in-out infinite' :
     isWorking            ? 'moon-active-pulse 2s ease-in-out infinite' :
     isWaiting            ? 'moon-waiting-pulse 3s ease-in-out infinite' :
+    isAwaitingApproval   ? 'moon-approval-pulse 1.4s ease-in-out infinite' :
     isLaunching          ? 'pulse-glow-strong 1.5s ease-in-out infinite' :
     isError              ? 'moon-error-flash 3s ease-in-out infinite' :
     'none';
 
   /* Completed/queued moons are visually muted */
-  const glowIntensity = isFinished ? 0.3 : 1;
+  const glowIntensity = isMuted ? 0.3 : 1;
 
   /* The visible moon sphere */
   const moonBodyStyle: React.CSSProperties = {
     width: moonSize,
     height: moonSize,
     borderRadius: '50%',
-    background: isFinished
+    background: isMuted
       ? `radial-gradient(ellipse at 35% 30%, ${color}88 0%, ${color}55 40%, ${color}33 70%, ${color}18 100%)`
       : `radial-gradient(ellipse at 35% 30%, ${color}cc 0%, ${color}88 40%, ${color}44 70%, ${color}22 100%)`,
     boxShadow: [
-      `0 0 ${moonSize * 0.4}px ${moonSize * 0.15 * glowIntensity}px ${color}${isFinished ? '33' : '55'}`,
-      `0 0 ${moonSize * 0.8}px ${moonSize * 0.3 * glowIntensity}px ${color}${isFinished ? '11' : '22'}`,
-      `inset -2px -3px ${moonSize * 0.3}px rgba(0, 0, 0, ${isFinished ? '0.6' : '0.4'})`,
-      `inset 1px 2px ${moonSize * 0.15}px rgba(255, 255, 255, ${isFinished ? '0.05' : '0.1'})`,
+      `0 0 ${moonSize * 0.4}px ${moonSize * 0.15 * glowIntensity}px ${color}${isMuted ? '33' : '55'}`,
+      `0 0 ${moonSize * 0.8}px ${moonSize * 0.3 * glowIntensity}px ${color}${isMuted ? '11' : '22'}`,
+      `inset -2px -3px ${moonSize * 0.3}px rgba(0, 0, 0, ${isMuted ? '0.6' : '0.4'})`,
+      `inset 1px 2px ${moonSize * 0.15}px rgba(255, 255, 255, ${isMuted ? '0.05' : '0.1'})`,
     ].join(', '),
     transition: 'transform 0.2s ease, box-shadow 0.2s ease',
     animation: statusAnimation,
-    opacity: isFinished ? 0.6 : 1,
+    opacity: isMuted ? 0.6 : 1,
     position: 'relative',
   };
 
@@ -374,18 +421,28 @@ export default function Moon({ agent, index, totalMoons, onClick }: MoonProps) {
     fontSize: '10px',
     fontWeight: 500,
     letterSpacing: '0.5px',
-    color: isFinished ? `${color}88` : `${color}cc`,
-    textShadow: isFinished ? 'none' : `0 0 6px ${color}44`,
+    color: isMuted ? `${color}88` : `${color}cc`,
+    textShadow: isMuted ? 'none' : `0 0 6px ${color}44`,
     whiteSpace: 'nowrap',
     textAlign: 'center',
     maxWidth: 100,
     overflow: 'hidden',
     textOverflow: 'ellipsis',
     pointerEvents: 'none',
-    opacity: isFinished ? 0.5 : 1,
+    opacity: isMuted ? 0.5 : 1,
     animation: 'moon-label-fade-in 0.6s ease-out forwards',
   };
 
+  /* Permission card, floated above the moon. The tactical view draws the
+     orbital field at 55%, so the card is scaled back up to stay legible. */
+  const permissionCardStyle: React.CSSProperties = {
+    position: 'absolute',
+    bottom: moonSize + 10,
+    left: '50%',
+    transform: 'translateX(-50%) scale(1.6)',
+    transformOrigin: 'bottom center',
+  };
+
   /* Status indicator dot */
   const statusDotStyle: React.CSSProperties = {
     position: 'absolute',
@@ -397,13 +454,21 @@ export default function Moon({ agent, index, totalMoons, onClick }: MoonProps) {
     backgroundColor: color,
     boxShadow: isWorking ? `0 0 6px ${color}, 0 0 12px ${color}88` : `0 0 4px ${color}`,
     border: '1px solid rgba(10, 14, 23, 0.8)',
-    opacity: isFinished ? 0.5 : 1,
+    opacity: isMuted ? 0.5 : 1,
   };
 
+  const moonBody = (
+    <div style={moonBodyStyle} data-moon-body="">
+      {/* Status indicator */}
+      <span style={statusDotStyle} />
+    </div>
+  );
+
   return (
     <div style={orbitArmStyle}>
       <div
         style={moonPositionStyle}
+        data-moon-id={agent.id}
         onClick={(e) => {
           e.stopPropagation();
           onClick();
@@ -437,14 +502,61 @@ export default function Moon({ agent, index, totalMoons, onClick }: MoonProps) {
           }
         }}
       >
-        <div style={moonBodyStyle} data-moon-body="">
-          {/* Status indicator */}
-          <span style={statusDotStyle} />
-        </div>
+        {canTakeOrders ? (
+          <HoloTooltip
+            interactive
+            onVisibleChange={setTooltipOpen}
+            content={
+              <div style={tooltipStyles.body} onClick={(e) => e.stopPropagation()}>
+                <span style={tooltipStyles.task}>{truncate(agent.task, 48)}</span>
+                <span style={{ ...tooltipStyles.meta, color }}>
+                  {agent.status.toUpperCase()}
+                  {agent.turns?.length ? ` \u00b7 TURN ${agent.turns[agent.turns.length - 1].number}` : ''}
+                </span>
+                <SendOrders agent={agent} onSend={onSendOrders!} compact />
+              </div>
+            }
+          >
+            {moonBody}
+          </HoloTooltip>
+        ) : moonBody}
 
         {/* Task label */}
         <span style={labelStyle}>{taskLabel}</span>
+
+        {showPermissionCard && (
+          <div style={permissionCardStyle}>
+            <PermissionCard
+              request={agent.pendingPermission!}
+              onDecision={onPermissionDecision!}
+              compact
+            />
+          </div>
+        )}
       </div>
     </div>
   );
 }
+
+/* ---------- Tooltip Styles ---------- */
+
+const tooltipStyles: Record<string, React.CSSProperties> = {
+  body: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 4,
+    cursor: 'default',
+  },
+
+  task: {
+    fontSize: '12px',
+    color: 'var(--text-primary, #e0f0ff)',
+  },
+
+  meta: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '8px',
+    fontWeight: 700,
+    letterSpacing: '2px',
+  },
+};
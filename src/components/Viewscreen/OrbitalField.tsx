@@ -1,5 +1,6 @@
-import React, { useMemo } from 'react';
-import type { Agent } from '../../types';
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useAgentStore } from '../../stores/agentStore';
+import type { Agent, FileConflict, PermissionDecision } from '../../types';
 import Moon from './Moon';
 
 /* ============================================================
@@ -11,11 +12,17 @@ import Moon from './Moon';
       occupied orbit level.
    2. A Moon component for each agent, positioned along its
       assigned orbital ring.
+   3. A dashed amber warning link between any two moons whose
+      agents wrote the same file.
+   4. A violet arrow from an agent to the successor it handed
+      off to.
    ============================================================ */
 
 export interface OrbitalFieldProps {
   agents: Agent[];
   onMoonClick: (agentId: string) => void;
+  onPermissionDecision?: (agentId: string, requestId: string, decision: PermissionDecision) => void;
+  onSendOrders?: (agentId: string, text: string) => void;
 }
 
 /* ---------- Constants ---------- */
@@ -48,6 +55,10 @@ function ensureKeyframes(): void {
       to   { transform: rotate(360deg); }
     }
 
+    @keyframes conflict-link-flow {
+      to { stroke-dashoffset: -24; }
+    }
+
     @keyframes orbital-ring-fade-in {
       from {
         opacity: 0;
@@ -144,12 +155,226 @@ function OrbitalRing({ radius, index }: OrbitalRingProps) {
   );
 }
 
+/* ---------- Moon Link Tracking ---------- */
+
+interface MoonLink {
+  key: string;
+  agentIds: [string, string];
+}
+
+/**
+ * Moons orbit by CSS animation, so their positions are only known to the
+ * browser. While links are shown, each frame reads the moons' on-screen
+ * centers and moves the line ends directly, without re-rendering. A
+ * `data-link-marker` sits at the middle of its link; a `data-link-arrow`
+ * sits past the middle, turned to point at the second agent.
+ */
+function useMoonLinkTracking(
+  links: MoonLink[],
+  fieldSize: number,
+  fieldRef: React.RefObject<HTMLDivElement | null>,
+): React.MutableRefObject<Map<string, SVGGElement>> {
+  const linkRefs = useRef<Map<string, SVGGElement>>(new Map());
+
+  useEffect(() => {
+    if (links.length === 0) return;
+    let frame = 0;
+
+    const tick = () => {
+      const field = fieldRef.current;
+      if (field) {
+        const box = field.getBoundingClientRect();
+        const scale = box.width / fieldSize || 1;
+        const centerOf = (agentId: string) => {
+          const moon = field.querySelector(`[data-moon-id="${agentId}"]`);
+          if (!moon) return null;
+          const rect = moon.getBoundingClientRect();
+          return {
+            x: (rect.left + rect.width / 2 - box.left) / scale,
+            y: (rect.top + rect.height / 2 - box.top) / scale,
+          };
+        };
+
+        for (const link of links) {
+          const group = linkRefs.current.get(link.key);
+          const a = centerOf(link.agentIds[0]);
+          const b = centerOf(link.agentIds[1]);
+          if (!group || !a || !b) continue;
+          group.querySelectorAll('line').forEach((line) => {
+            line.setAttribute('x1', String(a.x));
+            line.setAttribute('y1', String(a.y));
+            line.setAttribute('x2', String(b.x));
+            line.setAttribute('y2', String(b.y));
+          });
+          group.querySelector('[data-link-marker]')
+            ?.setAttribute('transform', `translate(${(a.x + b.x) / 2} ${(a.y + b.y) / 2})`);
+          const angle = Math.atan2(b.y - a.y, b.x - a.x) * 180 / Math.PI;
+          group.querySelector('[data-link-arrow]')
+            ?.setAttribute('transform', `translate(${a.x + (b.x - a.x) * 0.6} ${a.y + (b.y - a.y) * 0.6}) rotate(${angle})`);
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [links, fieldSize, fieldRef]);
+
+  return linkRefs;
+}
+
+const linkLayerStyle = (fieldSize: number): React.CSSProperties => ({
+  position: 'absolute',
+  inset: 0,
+  width: fieldSize,
+  height: fieldSize,
+  pointerEvents: 'none',
+  zIndex: 18,
+  overflow: 'visible',
+});
+
+/* ---------- Sub-component: Conflict Links ---------- */
+
+const CONFLICT_COLOR = '#ff9f1c';
+
+interface ConflictLinksProps {
+  conflicts: FileConflict[];
+  fieldSize: number;
+  fieldRef: React.RefObject<HTMLDivElement | null>;
+}
+
+function ConflictLinks({ conflicts, fieldSize, fieldRef }: ConflictLinksProps) {
+  /* One link per pair of agents, listing every file they share */
+  const links = useMemo(() => {
+    const byPair = new Map<string, { agentIds: [string, string]; paths: string[] }>();
+    for (const conflict of conflicts) {
+      const key = [...conflict.agentIds].sort().join('|');
+      const link = byPair.get(key) ?? { agentIds: conflict.agentIds, paths: [] };
+      link.paths.push(conflict.path);
+      byPair.set(key, link);
+    }
+    return [...byPair.entries()].map(([key, link]) => ({ key, ...link }));
+  }, [conflicts]);
+
+  const linkRefs = useMoonLinkTracking(links, fieldSize, fieldRef);
+
+  if (links.length === 0) return null;
+
+  return (
+    <svg
+      style={linkLayerStyle(fieldSize)}
+      viewBox={`0 0 ${fieldSize} ${fieldSize}`}
+      xmlns="http://www.w3.org/2000/svg"
+      aria-label="File conflicts between agents"
+    >
+      {links.map((link) => (
+        <g
+          key={link.key}
+          ref={(el) => {
+            if (el) linkRefs.current.set(link.key, el);
+            else linkRefs.current.delete(link.key);
+          }}
+        >
+          {/* Soft glow under the dashed line */}
+          <line stroke={CONFLICT_COLOR} strokeWidth={6} strokeOpacity={0.12} strokeLinecap="round" />
+          <line
+            stroke={CONFLICT_COLOR}
+            strokeWidth={1.5}
+            strokeDasharray="6 6"
+            strokeOpacity={0.85}
+            style={{ animation: 'conflict-link-flow 1s linear infinite' }}
+          />
+          <g data-link-marker="" style={{ pointerEvents: 'auto', cursor: 'help' }}>
+            <title>{`File conflict — both agents wrote:\n${link.paths.join('\n')}`}</title>
+            <circle r={9} fill="rgba(10, 14, 23, 0.9)" stroke={CONFLICT_COLOR} strokeWidth={1.5} />
+            <text
+              textAnchor="middle"
+              dominantBaseline="central"
+              fill={CONFLICT_COLOR}
+              fontSize={11}
+              fontWeight={700}
+              fontFamily="var(--font-display, 'Orbitron', sans-serif)"
+            >
+              !
+            </text>
+          </g>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+/* ---------- Sub-component: Handoff Links ---------- */
+
+const HANDOFF_COLOR = '#b388ff';
+
+interface HandoffLinksProps {
+  agents: Agent[];
+  fieldSize: number;
+  fieldRef: React.RefObject<HTMLDivElement | null>;
+}
+
+function HandoffLinks({ agents, fieldSize, fieldRef }: HandoffLinksProps) {
+  /* Predecessor → successor, for pairs that are both in this field */
+  const links = useMemo(() => {
+    const byId = new Map(agents.map((a) => [a.id, a]));
+    return agents
+      .filter((a) => a.handoff && byId.has(a.handoff.from))
+      .map((successor) => {
+        const from = byId.get(successor.handoff!.from)!;
+        return {
+          key: `${from.id}>${successor.id}`,
+          agentIds: [from.id, successor.id] as [string, string],
+          title: `Handoff — ${from.id.slice(0, 6).toUpperCase()} → ${successor.id.slice(0, 6).toUpperCase()}\n${successor.task}`,
+        };
+      });
+  }, [agents]);
+
+  const linkRefs = useMoonLinkTracking(links, fieldSize, fieldRef);
+
+  if (links.length === 0) return null;
+
+  return (
+    <svg
+      style={linkLayerStyle(fieldSize)}
+      viewBox={`0 0 ${fieldSize} ${fieldSize}`}
+      xmlns="http://www.w3.org/2000/svg"
+      aria-label="Handoffs between agents"
+    >
+      {links.map((link) => (
+        <g
+          key={link.key}
+          ref={(el) => {
+            if (el) linkRefs.current.set(link.key, el);
+            else linkRefs.current.delete(link.key);
+          }}
+        >
+          <line stroke={HANDOFF_COLOR} strokeWidth={5} strokeOpacity={0.1} strokeLinecap="round" />
+          <line stroke={HANDOFF_COLOR} strokeWidth={1.25} strokeOpacity={0.7} />
+          <g data-link-arrow="" style={{ pointerEvents: 'auto', cursor: 'help' }}>
+            <title>{link.title}</title>
+            <path d="M -6 -5 L 5 0 L -6 5 Z" fill={HANDOFF_COLOR} fillOpacity={0.85} stroke="rgba(10, 14, 23, 0.9)" strokeWidth={1} />
+          </g>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
 /* ---------- Main Component ---------- */
 
-export default function OrbitalField({ agents, onMoonClick }: OrbitalFieldProps) {
+export default function OrbitalField({ agents, onMoonClick, onPermissionDecision, onSendOrders }: OrbitalFieldProps) {
   ensureKeyframes();
 
   const fieldSize = useMemo(() => getFieldSize(agents.length), [agents.length]);
+  const fieldRef = useRef<HTMLDivElement>(null);
+
+  /* Only conflicts between moons shown in this field */
+  const allConflicts = useAgentStore((state) => state.conflicts);
+  const conflicts = useMemo(() => {
+    const ids = new Set(agents.map((a) => a.id));
+    return allConflicts.filter((c) => ids.has(c.agentIds[0]) && ids.has(c.agentIds[1]));
+  }, [allConflicts, agents]);
 
   /* Pre-compute orbital ring data for each occupied orbit level */
   const orbitalRings = useMemo(() => {
@@ -179,7 +404,7 @@ export default function OrbitalField({ agents, onMoonClick }: OrbitalFieldProps)
 
   return (
     <div style={containerStyle} aria-label="Agent orbital field" role="region">
-      <div style={fieldStyle}>
+      <div style={fieldStyle} ref={fieldRef}>
         {/* Orbital ring paths */}
         {orbitalRings.map((ring) => (
           <OrbitalRing
@@ -189,6 +414,9 @@ export default function OrbitalField({ agents, onMoonClick }: OrbitalFieldProps)
           />
         ))}
 
+        <HandoffLinks agents={agents} fieldSize={fieldSize} fieldRef={fieldRef} />
+        <ConflictLinks conflicts={conflicts} fieldSize={fieldSize} fieldRef={fieldRef} />
+
         {/* Moon components for each agent */}
         {agents.map((agent, index) => (
           <Moon
@@ -197,6 +425,10 @@ export default function OrbitalField({ agents, onMoonClick }: OrbitalFieldProps)
             index={index}
             totalMoons={agents.length}
             onClick={() => onMoonClick(agent.id)}
+            onPermissionDecision={onPermissionDecision && agent.pendingPermission
+              ? (decision) => onPermissionDecision(agent.id, agent.pendingPermission!.requestId, decision)
+              : undefined}
+            onSendOrders={onSendOrders && ((text) => onSendOrders(agent.id, text))}
           />
         ))}
       </div>
@@ -1,6 +1,14 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { useAgentStore } from '../../stores/agentStore';
+import { useFlowStore } from '../../stores/flowStore';
+import { downloadRecording } from '../../utils/recording';
+import { downloadWorktreePatch } from '../../utils/worktreeDiff';
+import { formatCommandLine } from '../../utils/commandLine';
 import TerminalContainer from '../Console/TerminalContainer';
+import SessionPlayback from '../Console/SessionPlayback';
+import PermissionCard from '../Console/PermissionCard';
+import WorktreePanel from '../Console/WorktreePanel';
+import type { Agent, BudgetKind, PermissionDecision } from '../../types';
 
 /* ============================================================
    ViewscreenTerminal — Star Trek Bridge Main Viewscreen
@@ -20,6 +28,10 @@ interface ViewscreenTerminalProps {
 
 /* ---------- Status Helpers ---------- */
 
+function isFinishedStatus(status: Agent['status'] | undefined): boolean {
+  return status === 'completed' || status === 'error' || status === 'interrupted';
+}
+
 function getStatusInfo(status: string): { label: string; color: string } {
   switch (status) {
     case 'active':      return { label: 'WORKING',        color: '#00ff88' };
@@ -31,14 +43,31 @@ function getStatusInfo(status: string): { label: string; color: string } {
     case 'building':    return { label: 'BUILDING',       color: '#f59e0b' };
     case 'testing':     return { label: 'TESTING',        color: '#84cc16' };
     case 'waiting':     return { label: 'AWAITING INPUT', color: '#ff9f1c' };
+    case 'awaiting-approval': return { label: 'NEEDS APPROVAL', color: '#ff2d95' };
     case 'paused':      return { label: 'PAUSED',         color: '#64748b' };
     case 'launching':   return { label: 'LAUNCHING',      color: '#8b5cf6' };
     case 'completed':   return { label: 'COMPLETED',      color: '#5a7a9a' };
     case 'error':       return { label: 'ERROR',          color: '#ff3344' };
+    case 'interrupted': return { label: 'INTERRUPTED',    color: '#b45309' };
     default:            return { label: status.toUpperCase(), color: '#7a8ba8' };
   }
 }
 
+/** Time left on whichever budget runs out first, or null when none applies */
+function getBudgetRemaining(agent: Agent, now: number): { ms: number; kind: BudgetKind } | null {
+  const { budget } = agent;
+  if (!budget) return null;
+  const limits: Array<{ ms: number; kind: BudgetKind }> = [];
+  if (budget.maxRuntimeMinutes) {
+    limits.push({ ms: (agent.runStartedAt ?? agent.launchedAt) + budget.maxRuntimeMinutes * 60_000 - now, kind: 'runtime' });
+  }
+  if (budget.maxIdleMinutes && agent.status === 'waiting' && agent.waitingSince) {
+    limits.push({ ms: agent.waitingSince + budget.maxIdleMinutes * 60_000 - now, kind: 'idle' });
+  }
+  if (limits.length === 0) return null;
+  return limits.reduce((a, b) => (b.ms < a.ms ? b : a));
+}
+
 function formatElapsed(ms: number): string {
   const totalSec = Math.floor(ms / 1000);
   const hours = Math.floor(totalSec / 3600);
@@ -126,8 +155,16 @@ export default function ViewscreenTerminal({
   ensureKeyframes();
 
   const agent = useAgentStore((state) => agentId ? state.agents[agentId] : null);
+  const successor = useAgentStore((state) => agentId ? Object.values(state.agents).find((a) => a.handoff?.from === agentId) : undefined);
+  const launchQueue = useAgentStore((state) => state.launchQueue);
+  const concurrencyLimits = useAgentStore((state) => state.concurrencyLimits);
+  const addToast = useFlowStore((state) => state.addToast);
   const [elapsed, setElapsed] = useState(0);
+  const [budgetLeft, setBudgetLeft] = useState<{ ms: number; kind: BudgetKind } | null>(null);
   const [channelOpening, setChannelOpening] = useState(false);
+  const [playbackOpen, setPlaybackOpen] = useState(false);
+  const [dismissArmed, setDismissArmed] = useState(false);
+  const [handoffArmed, setHandoffArmed] = useState(false);
   const prevAgentIdRef = useRef<string | null>(null);
 
   // Track channel open transition
@@ -136,6 +173,9 @@ export default function ViewscreenTerminal({
       setChannelOpening(true);
       const timer = setTimeout(() => setChannelOpening(false), 600);
       prevAgentIdRef.current = agentId;
+      setPlaybackOpen(false);
+      setDismissArmed(false);
+      setHandoffArmed(false);
       return () => clearTimeout(timer);
     }
     if (!agentId) {
@@ -157,9 +197,23 @@ export default function ViewscreenTerminal({
     return () => clearInterval(id);
   }, [agent?.launchedAt, agent?.completedAt]);
 
+  // Budget countdown — only while the agent's clocks are running
+  useEffect(() => {
+    if (!agent?.budget || agent.status === 'queued' || agent.completedAt) {
+      setBudgetLeft(null);
+      return;
+    }
+    const update = () => setBudgetLeft(getBudgetRemaining(agent, Date.now()));
+    update();
+    const id = setInterval(update, 1000);
+    return () => clearInterval(id);
+  }, [agent?.budget, agent?.status, agent?.runStartedAt, agent?.waitingSince, agent?.completedAt]);
+
   const statusInfo = useMemo(
-    () => getStatusInfo(agent?.status ?? 'queued'),
-    [agent?.status],
+    () => agent?.endReason === 'budget-exceeded' && agent.status === 'error'
+      ? { label: 'BUDGET EXCEEDED', color: '#ff3344' }
+      : getStatusInfo(agent?.status ?? 'queued'),
+    [agent?.status, agent?.endReason],
   );
 
   const handleTerminate = useCallback(() => {
@@ -168,7 +222,92 @@ export default function ViewscreenTerminal({
     }
   }, [agentId, sendMessage]);
 
+  const handleResume = useCallback(() => {
+    if (agentId) {
+      sendMessage({ type: 'agent:resume', agentId });
+    }
+  }, [agentId, sendMessage]);
+
+  const handlePermissionDecision = useCallback((decision: PermissionDecision) => {
+    if (agentId && agent?.pendingPermission) {
+      sendMessage({ type: 'agent:permission-response', agentId, requestId: agent.pendingPermission.requestId, decision });
+    }
+  }, [agentId, agent?.pendingPermission, sendMessage]);
+
+  const handleExport = useCallback(() => {
+    if (!agentId) return;
+    downloadRecording(agentId, authToken).catch((error: Error) => {
+      addToast({
+        type: 'error',
+        title: 'EXPORT FAILED',
+        message: error.message,
+        duration: 6000,
+      });
+    });
+  }, [agentId, authToken, addToast]);
+
+  const handleMerge = useCallback(() => {
+    if (agentId) {
+      sendMessage({ type: 'worktree:merge', agentId });
+    }
+  }, [agentId, sendMessage]);
+
+  const handleDownloadPatch = useCallback(() => {
+    if (!agentId) return;
+    downloadWorktreePatch(agentId, authToken).catch((error: Error) => {
+      addToast({
+        type: 'error',
+        title: 'PATCH DOWNLOAD FAILED',
+        message: error.message,
+        duration: 6000,
+      });
+    });
+  }, [agentId, authToken, addToast]);
+
+  // Dismissing removes the agent (and its worktree). Unmerged work takes a
+  // second click, though its branch is kept either way.
+  const hasUnmergedWork = !!agent?.worktree && !agent.worktree.mergedAt && agent.worktree.filesChanged !== 0;
+  const handleDismiss = useCallback(() => {
+    if (!agentId) return;
+    if (hasUnmergedWork && !dismissArmed) {
+      setDismissArmed(true);
+      return;
+    }
+    sendMessage({ type: 'agent:dismiss', agentId });
+    onCloseChannel();
+  }, [agentId, hasUnmergedWork, dismissArmed, sendMessage, onCloseChannel]);
+
+  // Handing off replaces the agent with a successor briefed on its work. A
+  // running agent is stopped first, so that takes a second click.
+  const handleHandoff = useCallback(() => {
+    if (!agentId) return;
+    if (!isFinishedStatus(agent?.status) && !handoffArmed) {
+      setHandoffArmed(true);
+      return;
+    }
+    sendMessage({ type: 'agent:handoff', agentId });
+    setHandoffArmed(false);
+  }, [agentId, agent?.status, handoffArmed, sendMessage]);
+
+  const queueIndex = agentId ? launchQueue.findIndex((e) => e.agentId === agentId) : -1;
+
+  const handleQueueMove = useCallback((index: number) => {
+    if (agentId) {
+      sendMessage({ type: 'queue:reorder', agentId, index });
+    }
+  }, [agentId, sendMessage]);
+
+  const handleQueueCancel = useCallback(() => {
+    if (agentId) {
+      sendMessage({ type: 'queue:cancel', agentId });
+    }
+  }, [agentId, sendMessage]);
+
   const isChannelOpen = !!agentId && !!agent;
+  const isFinished = isFinishedStatus(agent?.status);
+  const isRunning = !!agent && !isFinished && agent.status !== 'queued';
+  // Shell commands have no conversation to reopen
+  const canResume = !!agent?.sessionId && isFinished && (agent.profile?.driver ?? 'claude-code') === 'claude-code';
 
   return (
     <div style={vs.outerFrame}>
@@ -218,7 +357,7 @@ export default function ViewscreenTerminal({
                     boxShadow: `0 0 6px ${statusInfo.color}`,
                     animation: agent?.status === 'active' ? 'pulse-glow 2s ease-in-out infinite' : undefined,
                   }} />
-                  <span style={vs.channelLabel}>CHANNEL OPEN</span>
+                  <span style={vs.channelLabel}>{isFinished ? 'ARCHIVED TRANSCRIPT' : 'CHANNEL OPEN'}</span>
                   <span style={vs.channelSeparator}>{'\u2502'}</span>
                   <span style={vs.channelAgentId}>
                     AGENT {agentId!.slice(0, 8).toUpperCase()}
@@ -232,15 +371,62 @@ export default function ViewscreenTerminal({
                       {statusInfo.label}
                     </span>
                   </span>
+                  {agent?.profile && (
+                    <span
+                      style={vs.channelMetric}
+                      title={formatCommandLine(agent.profile)}
+                    >
+                      <span style={vs.channelMetricLabel}>PROFILE</span>
+                      <span style={vs.channelMetricValue}>{agent.profile.name}</span>
+                    </span>
+                  )}
+                  {agent?.worktree && (
+                    <span style={vs.channelMetric} title={agent.worktree.path}>
+                      <span style={vs.channelMetricLabel}>BRANCH</span>
+                      <span style={vs.channelMetricValue}>{agent.worktree.branch}</span>
+                    </span>
+                  )}
                   <span style={vs.channelMetric}>
                     <span style={vs.channelMetricLabel}>ELAPSED</span>
                     <span style={vs.channelMetricValue}>{formatElapsed(elapsed)}</span>
                   </span>
+                  {budgetLeft && (
+                    <span
+                      style={vs.channelMetric}
+                      title={budgetLeft.kind === 'idle' ? 'Idle time left before termination' : 'Runtime left before termination'}
+                    >
+                      <span style={vs.channelMetricLabel}>{budgetLeft.kind === 'idle' ? 'IDLE LEFT' : 'BUDGET'}</span>
+                      <span
+                        style={{
+                          ...vs.channelMetricValue,
+                          ...(budgetLeft.ms < 60_000 ? { color: '#ff3344' } : budgetLeft.ms < 5 * 60_000 ? { color: '#ff9f1c' } : {}),
+                        }}
+                      >
+                        {formatElapsed(Math.max(0, budgetLeft.ms))}
+                      </span>
+                    </span>
+                  )}
                   <span style={vs.channelMetric}>
                     <span style={vs.channelMetricLabel}>FILES</span>
                     <span style={vs.channelMetricValue}>{agent?.filesChanged ?? 0}</span>
                   </span>
 
+                  {/* Toggle between the transcript and timed playback */}
+                  {isFinished && (
+                    <button
+                      onClick={() => setPlaybackOpen((open) => !open)}
+                      style={vs.exportBtn}
+                      title={playbackOpen ? 'Show the full transcript' : 'Replay the session with a timeline'}
+                    >
+                      {playbackOpen ? 'TRANSCRIPT' : 'PLAYBACK'}
+                    </button>
+                  )}
+
+                  {/* Download asciicast recording */}
+                  <button onClick={handleExport} style={vs.exportBtn} title="Download asciicast (.cast) recording">
+                    EXPORT .CAST
+                  </button>
+
                   {/* Close channel */}
                   <button onClick={onCloseChannel} style={vs.closeChannelBtn}>
                     CLOSE CHANNEL
@@ -252,22 +438,134 @@ export default function ViewscreenTerminal({
               <div style={vs.taskBar}>
                 <span style={vs.taskLabel}>MISSION:</span>
                 <span style={vs.taskText}>{agent?.task ?? 'Unknown'}</span>
+                {agent?.handoff && (
+                  <span style={vs.handoffTag} title={agent.handoff.brief}>
+                    TOOK OVER FROM {agent.handoff.from.slice(0, 6).toUpperCase()}
+                  </span>
+                )}
               </div>
 
+              {/* Isolated branch, once the agent is done with it */}
+              {isFinished && agent?.worktree && (
+                <WorktreePanel
+                  worktree={agent.worktree}
+                  onMerge={handleMerge}
+                  onDownloadPatch={handleDownloadPatch}
+                />
+              )}
+
+              {/* Open permission prompt */}
+              {agent?.pendingPermission && (
+                <div style={vs.permissionBar}>
+                  <PermissionCard request={agent.pendingPermission} onDecision={handlePermissionDecision} />
+                </div>
+              )}
+
               {/* Terminal area */}
               <div style={vs.terminalArea}>
-                <TerminalContainer
-                  agentId={agentId!}
-                  sendMessage={sendMessage}
-                  authToken={authToken}
-                />
+                {agent?.status === 'queued' ? (
+                  <div style={vs.queuedPanel}>
+                    <span style={vs.queuedTitle}>HOLDING FOR LAUNCH SLOT</span>
+                    <span style={vs.queuedPosition}>
+                      {queueIndex >= 0 ? `POSITION ${queueIndex + 1} OF ${launchQueue.length}` : 'QUEUED'}
+                    </span>
+                    {concurrencyLimits && (
+                      <span style={vs.queuedHint}>
+                        Starts when fewer than {concurrencyLimits.maxAgents} agents are running,
+                        and fewer than {concurrencyLimits.maxAgentsPerProject} in this project
+                      </span>
+                    )}
+                    <div style={vs.queuedActions}>
+                      <button
+                        onClick={() => handleQueueMove(0)}
+                        disabled={queueIndex <= 0}
+                        style={{ ...vs.queueBtn, opacity: queueIndex <= 0 ? 0.35 : 1 }}
+                      >
+                        MOVE TO FRONT
+                      </button>
+                      <button
+                        onClick={() => handleQueueMove(queueIndex - 1)}
+                        disabled={queueIndex <= 0}
+                        style={{ ...vs.queueBtn, opacity: queueIndex <= 0 ? 0.35 : 1 }}
+                      >
+                        MOVE UP
+                      </button>
+                      <button
+                        onClick={() => handleQueueMove(queueIndex + 1)}
+                        disabled={queueIndex < 0 || queueIndex >= launchQueue.length - 1}
+                        style={{ ...vs.queueBtn, opacity: queueIndex < 0 || queueIndex >= launchQueue.length - 1 ? 0.35 : 1 }}
+                      >
+                        MOVE DOWN
+                      </button>
+                      <button onClick={handleQueueCancel} style={vs.queueCancelBtn}>
+                        CANCEL LAUNCH
+                      </button>
+                    </div>
+                  </div>
+                ) : isFinished && playbackOpen ? (
+                  <SessionPlayback
+                    key={`${agentId}-${agent?.resumeCount ?? 0}`}
+                    agentId={agentId!}
+                    authToken={authToken}
+                  />
+                ) : (
+                  <TerminalContainer
+                    key={`${agentId}-${agent?.resumeCount ?? 0}`}
+                    agentId={agentId!}
+                    sendMessage={sendMessage}
+                    authToken={authToken}
+                    readOnly={isFinished}
+                  />
+                )}
               </div>
 
               {/* Action bar */}
-              {agent?.status === 'active' && (
-                <div style={vs.actionBar}>
-                  <button onClick={handleTerminate} style={vs.terminateBtn}>
-                    TERMINATE AGENT
+              {isRunning && (agent.status === 'active' || !successor) && (
+                <div style={{ ...vs.actionBar, gap: 8 }}>
+                  {agent.status === 'active' && (
+                    <button onClick={handleTerminate} style={vs.terminateBtn}>
+                      TERMINATE AGENT
+                    </button>
+                  )}
+                  {!successor && (
+                    <button
+                      onClick={handleHandoff}
+                      onMouseLeave={() => setHandoffArmed(false)}
+                      style={vs.handoffBtn}
+                      title="Stop this agent and launch a successor briefed on its task, changed files and last output"
+                    >
+                      {handoffArmed ? 'STOP AND HAND OFF?' : 'HAND OFF'}
+                    </button>
+                  )}
+                </div>
+              )}
+              {isFinished && (
+                <div style={{ ...vs.actionBar, gap: 8, borderTop: '1px solid rgba(0, 200, 255, 0.15)' }}>
+                  {canResume && (
+                    <button onClick={handleResume} style={vs.resumeBtn}>
+                      RESUME
+                    </button>
+                  )}
+                  {successor ? (
+                    <span style={vs.handoffTag}>HANDED OFF TO {successor.id.slice(0, 6).toUpperCase()}</span>
+                  ) : (
+                    <button
+                      onClick={handleHandoff}
+                      style={vs.handoffBtn}
+                      title="Launch a successor briefed on this agent's task, changed files and last output"
+                    >
+                      HAND OFF
+                    </button>
+                  )}
+                  <button
+                    onClick={handleDismiss}
+                    onMouseLeave={() => setDismissArmed(false)}
+                    style={vs.dismissBtn}
+                    title={hasUnmergedWork
+                      ? 'Remove the agent and its worktree — the unmerged branch is kept'
+                      : 'Remove the agent from the fleet'}
+                  >
+                    {dismissArmed ? 'DISMISS WITHOUT MERGING?' : 'DISMISS'}
                   </button>
                 </div>
               )}
@@ -551,6 +849,95 @@ const vs: Record<string, React.CSSProperties> = {
     transition: 'all 0.15s ease',
   },
 
+  exportBtn: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '8px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    color: 'var(--cyan-glow, #00c8ff)',
+    border: '1px solid rgba(0, 200, 255, 0.4)',
+    background: 'rgba(0, 200, 255, 0.08)',
+    padding: '4px 12px',
+    cursor: 'pointer',
+    borderRadius: 2,
+    transition: 'all 0.15s ease',
+  },
+
+  queuedPanel: {
+    height: '100%',
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 10,
+    padding: 24,
+    textAlign: 'center',
+  },
+
+  queuedTitle: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '12px',
+    fontWeight: 700,
+    letterSpacing: '3px',
+    color: 'var(--text-secondary, #7a8ba8)',
+  },
+
+  queuedPosition: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '18px',
+    fontWeight: 700,
+    letterSpacing: '2px',
+    color: 'var(--cyan-glow, #00c8ff)',
+    textShadow: '0 0 10px rgba(0, 200, 255, 0.4)',
+  },
+
+  queuedHint: {
+    fontFamily: "var(--font-body, 'Rajdhani', sans-serif)",
+    fontSize: '13px',
+    color: 'var(--text-secondary, #7a8ba8)',
+    maxWidth: 360,
+  },
+
+  queuedActions: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 6,
+  },
+
+  queueBtn: {
+    padding: '6px 12px',
+    border: '1px solid rgba(0, 200, 255, 0.3)',
+    borderRadius: 2,
+    background: 'rgba(0, 200, 255, 0.06)',
+    color: 'var(--cyan-glow, #00c8ff)',
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '8px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    cursor: 'pointer',
+  },
+
+  queueCancelBtn: {
+    padding: '6px 12px',
+    border: '1px solid rgba(255, 51, 68, 0.4)',
+    borderRadius: 2,
+    background: 'rgba(255, 51, 68, 0.08)',
+    color: 'var(--red-alert, #ff3344)',
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '8px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    cursor: 'pointer',
+  },
+
+  permissionBar: {
+    padding: '8px 16px',
+    borderBottom: '1px solid rgba(255, 45, 149, 0.2)',
+    flexShrink: 0,
+  },
+
   taskBar: {
     display: 'flex',
     alignItems: 'center',
@@ -613,6 +1000,59 @@ const vs: Record<string, React.CSSProperties> = {
     transition: 'all 0.15s ease',
   },
 
+  dismissBtn: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '8px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    color: 'var(--text-secondary, #7a8ba8)',
+    border: '1px solid rgba(122, 139, 168, 0.4)',
+    background: 'rgba(122, 139, 168, 0.08)',
+    padding: '5px 18px',
+    cursor: 'pointer',
+    borderRadius: 2,
+    transition: 'all 0.15s ease',
+  },
+
+  resumeBtn: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '8px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    color: 'var(--cyan-glow, #00c8ff)',
+    border: '1px solid rgba(0, 200, 255, 0.4)',
+    background: 'rgba(0, 200, 255, 0.08)',
+    padding: '5px 18px',
+    cursor: 'pointer',
+    borderRadius: 2,
+    transition: 'all 0.15s ease',
+  },
+
+  handoffBtn: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '8px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    color: 'var(--amber-alert, #ff9f1c)',
+    border: '1px solid rgba(255, 159, 28, 0.4)',
+    background: 'rgba(255, 159, 28, 0.08)',
+    padding: '5px 18px',
+    cursor: 'pointer',
+    borderRadius: 2,
+    transition: 'all 0.15s ease',
+  },
+
+  handoffTag: {
+    fontFamily: "var(--font-display, 'Orbitron', sans-serif)",
+    fontSize: '7px',
+    fontWeight: 700,
+    letterSpacing: '1.5px',
+    color: 'var(--amber-alert, #ff9f1c)',
+    opacity: 0.8,
+    whiteSpace: 'nowrap',
+    flexShrink: 0,
+  },
+
   /* --- Standby Screen --- */
   standbyContainer: {
     display: 'flex',
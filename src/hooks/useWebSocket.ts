@@ -1,9 +1,12 @@
 import { useEffect, useRef, useCallback, useState } from 'react';
-import type { WSClientMessage, WSServerMessage } from '../types';
+import type { Agent, WSClientMessage, WSServerMessage } from '../types';
 import { useAgentStore } from '../stores/agentStore';
 import { useProjectStore } from '../stores/projectStore';
 import { useLogStore } from '../stores/logStore';
 import { useFlowStore } from '../stores/flowStore';
+import { useProfileStore } from '../stores/profileStore';
+import { usePlanningStore, takeLegacyPlans } from '../stores/planningStore';
+import { useInspectorStore } from '../stores/inspectorStore';
 
 type ConnectionStatus = 'connecting' | 'connected' | 'disconnected';
 type TerminalOutputCallback = (agentId: string, data: string) => void;
@@ -36,11 +39,60 @@ export function useWebSocket(token: string | null) {
       let wrapped: any;
       switch (message.type) {
         case 'agent:launch':
-          wrapped = { type: 'agent:launch', payload: { id: message.id, projectId: message.projectId, task: message.task, cwd: message.cwd } };
+          wrapped = { type: 'agent:launch', payload: { id: message.id, projectId: message.projectId, task: message.task, cwd: message.cwd, profileId: message.profileId, taskId: message.taskId, budget: message.budget } };
           break;
         case 'agent:kill':
           wrapped = { type: 'agent:kill', payload: { agentId: message.agentId } };
           break;
+        case 'agent:resume':
+          wrapped = { type: 'agent:resume', payload: { agentId: message.agentId } };
+          break;
+        case 'agent:prompt':
+          wrapped = { type: 'agent:prompt', payload: { agentId: message.agentId, text: message.text } };
+          break;
+        case 'fleet:broadcast':
+          wrapped = { type: 'fleet:broadcast', payload: { projectId: message.projectId, text: message.text, agentIds: message.agentIds } };
+          break;
+        case 'agent:handoff':
+          wrapped = { type: 'agent:handoff', payload: { agentId: message.agentId } };
+          break;
+        case 'agent:dismiss':
+          wrapped = { type: 'agent:dismiss', payload: { agentId: message.agentId } };
+          break;
+        case 'worktree:merge':
+          wrapped = { type: 'worktree:merge', payload: { agentId: message.agentId } };
+          break;
+        case 'agent:permission-response':
+          wrapped = { type: 'agent:permission-response', payload: { agentId: message.agentId, requestId: message.requestId, decision: message.decision } };
+          break;
+        case 'queue:reorder':
+          wrapped = { type: 'queue:reorder', payload: { agentId: message.agentId, index: message.index } };
+          break;
+        case 'queue:cancel':
+          wrapped = { type: 'queue:cancel', payload: { agentId: message.agentId } };
+          break;
+        case 'plan:add':
+          wrapped = { type: 'plan:add', payload: { projectId: message.projectId, text: message.text } };
+          break;
+        case 'plan:remove':
+        case 'plan:toggle':
+          wrapped = { type: message.type, payload: { projectId: message.projectId, taskId: message.taskId } };
+          break;
+        case 'plan:reorder':
+          wrapped = { type: 'plan:reorder', payload: { projectId: message.projectId, taskId: message.taskId, index: message.index } };
+          break;
+        case 'plan:assign':
+          wrapped = { type: 'plan:assign', payload: { projectId: message.projectId, taskId: message.taskId, agentId: message.agentId } };
+          break;
+        case 'plan:depend':
+          wrapped = { type: 'plan:depend', payload: { projectId: message.projectId, taskId: message.taskId, prerequisiteId: message.prerequisiteId, enabled: message.enabled } };
+          break;
+        case 'plan:schedule':
+          wrapped = { type: 'plan:schedule', payload: { projectId: message.projectId, taskIds: message.taskIds, scheduled: message.scheduled, profileId: message.profileId } };
+          break;
+        case 'plan:import':
+          wrapped = { type: 'plan:import', payload: { plans: message.plans } };
+          break;
         case 'terminal:input':
           wrapped = { type: 'terminal:input', payload: { agentId: message.agentId, data: message.data } };
           break;
@@ -50,6 +102,24 @@ export function useWebSocket(token: string | null) {
         case 'project:create':
           wrapped = { type: 'project:create', payload: { id: message.id, name: message.name, description: message.description, paletteIndex: message.paletteIndex } };
           break;
+        case 'project:setDefaultProfile':
+          wrapped = { type: 'project:setDefaultProfile', payload: { projectId: message.projectId, profileId: message.profileId } };
+          break;
+        case 'project:setDefaultBudget':
+          wrapped = { type: 'project:setDefaultBudget', payload: { projectId: message.projectId, budget: message.budget } };
+          break;
+        case 'profile:save':
+          wrapped = { type: 'profile:save', payload: { profile: message.profile } };
+          break;
+        case 'profile:delete':
+          wrapped = { type: 'profile:delete', payload: { profileId: message.profileId } };
+          break;
+        case 'parser:flag':
+          wrapped = { type: 'parser:flag', payload: { traceId: message.traceId, falsePositive: message.falsePositive } };
+          break;
+        case 'project:rescan':
+        case 'parser:subscribe':
+        case 'parser:unsubscribe':
         case 'state:request':
           wrapped = message; // No payload needed
           break;
@@ -62,10 +132,36 @@ export function useWebSocket(token: string | null) {
 
   // Map server status values to client status values
   // Most server statuses pass through directly; 'launched' → 'launching', 'running' → 'active'
-  type AgentStatus = 'queued' | 'launching' | 'active' | 'thinking' | 'coding' | 'executing' | 'scanning' | 'downloading' | 'building' | 'testing' | 'waiting' | 'paused' | 'completed' | 'error';
+  type AgentStatus = 'queued' | 'launching' | 'active' | 'thinking' | 'coding' | 'executing' | 'scanning' | 'downloading' | 'building' | 'testing' | 'waiting' | 'awaiting-approval' | 'paused' | 'completed' | 'error' | 'interrupted';
   const statusMap: Record<string, string> = { launched: 'launching', running: 'active' };
   const mapStatus = (status: string): AgentStatus => (statusMap[status] || status) as AgentStatus;
 
+  // Server agents carry no events or file count — those are built up here
+  // from live messages, so a known agent keeps its own
+  const toClientAgent = (a: any, existing?: Agent): Agent => ({
+    id: a.id,
+    projectId: a.projectId,
+    task: a.task,
+    cwd: a.cwd,
+    status: mapStatus(a.status),
+    launchedAt: a.launchedAt,
+    completedAt: a.completedAt,
+    filesChanged: existing?.filesChanged ?? a.filesChanged ?? 0,
+    events: existing?.events ?? a.events ?? [],
+    sessionId: a.sessionId,
+    resumeCount: a.resumeCount,
+    profile: a.profile,
+    pendingPermission: a.pendingPermission,
+    worktree: a.worktree,
+    budget: a.budget,
+    runStartedAt: a.runStartedAt,
+    waitingSince: a.waitingSince,
+    endReason: a.endReason,
+    usage: a.usage,
+    turns: a.turns,
+    handoff: a.handoff,
+  });
+
   const handleMessage = useCallback((data: WSServerMessage) => {
     switch (data.type) {
       case 'terminal:output': {
@@ -79,13 +175,159 @@ export function useWebSocket(token: string | null) {
       case 'agent:status': {
         const mappedStatus = mapStatus(data.status);
         const updates: Record<string, any> = { status: mappedStatus };
+        const previous = useAgentStore.getState().agents[data.agentId];
+        // Leaving the queue — the server counts elapsed time from the actual start
+        if (mappedStatus === 'launching' && previous?.status === 'queued') {
+          updates.launchedAt = data.timestamp || Date.now();
+          updates.runStartedAt = updates.launchedAt;
+        }
+        // Same idle clock as the server's budget monitor
+        if (mappedStatus === 'waiting' && previous?.status !== 'waiting') {
+          updates.waitingSince = data.timestamp || Date.now();
+        } else if (mappedStatus !== 'waiting') {
+          updates.waitingSince = undefined;
+        }
+        if (data.reason) {
+          updates.endReason = data.reason;
+        }
+        if (mappedStatus !== 'awaiting-approval') {
+          updates.pendingPermission = undefined;
+        }
         if (mappedStatus === 'completed' || mappedStatus === 'error') {
           updates.completedAt = data.timestamp || Date.now();
+          // The server forgets a finished agent's conflicts too
+          useAgentStore.getState().clearConflicts(data.agentId);
         }
         updateAgent(data.agentId, updates);
         break;
       }
 
+      case 'agent:resumed': {
+        // Same agent, fresh PTY — keep identity and history, clear the finish time
+        updateAgent(data.agentId, {
+          status: 'launching',
+          completedAt: undefined,
+          resumeCount: data.resumeCount,
+          runStartedAt: data.timestamp,
+          endReason: undefined,
+        });
+        break;
+      }
+
+      case 'agent:prompted': {
+        const agent = useAgentStore.getState().agents[data.agentId];
+        if (agent) {
+          updateAgent(data.agentId, { turns: [...(agent.turns ?? []), data.turn] });
+        }
+        break;
+      }
+
+      case 'agent:submission-failed': {
+        const agent = useAgentStore.getState().agents[data.agentId];
+        if (agent && data.turn > 1) {
+          updateAgent(data.agentId, {
+            turns: (agent.turns ?? []).map((turn) => (turn.number === data.turn ? { ...turn, failed: data.reason } : turn)),
+          });
+        }
+        addToast({
+          type: 'error',
+          title: 'SUBMISSION FAILED',
+          message: `Agent ${data.agentId.slice(0, 6).toUpperCase()} didn't accept ${data.turn === 1 ? 'its task' : `turn ${data.turn}`} — ${data.reason}`,
+          duration: 10000,
+          action: { label: 'VIEW', view: 'tactical' },
+        });
+        break;
+      }
+
+      case 'agent:created': {
+        // Launched by the server itself, e.g. by the mission sequencer
+        addAgent(toClientAgent(data.agent, useAgentStore.getState().agents[data.agent.id]));
+        break;
+      }
+
+      case 'agent:removed': {
+        // A queued launch was cancelled before it started, the server refused
+        // a launch, or a finished agent was dismissed
+        const agent = useAgentStore.getState().agents[data.agentId];
+        if (agent) {
+          const project = useProjectStore.getState().projects[agent.projectId];
+          if (project) {
+            updateProject(project.id, { agents: project.agents.filter((id) => id !== data.agentId) });
+          }
+        }
+        useAgentStore.getState().removeAgent(data.agentId);
+        useInspectorStore.getState().removeAgentTraces(data.agentId);
+        break;
+      }
+
+      case 'agent:worktree': {
+        updateAgent(data.agentId, { worktree: data.worktree ?? undefined, cwd: data.cwd });
+        break;
+      }
+
+      case 'plan:update': {
+        usePlanningStore.getState().setPlan(data.projectId, data.tasks);
+        break;
+      }
+
+      case 'budget:warning': {
+        const minutesLeft = Math.max(1, Math.round(data.remainingMs / 60_000));
+        addToast({
+          type: 'warning',
+          title: data.kind === 'idle' ? 'IDLE BUDGET LOW' : 'RUNTIME BUDGET LOW',
+          message: `Agent ${data.agentId.slice(0, 6).toUpperCase()} will be terminated in about ${minutesLeft} min`,
+          duration: 8000,
+          action: { label: 'VIEW', view: 'tactical' },
+        });
+        break;
+      }
+
+      case 'conflict:detected': {
+        useAgentStore.getState().addConflict(data.conflict);
+        break;
+      }
+
+      case 'usage:update': {
+        const agentStore = useAgentStore.getState();
+        agentStore.recordUsage(data.agentId, data.turn, data.total);
+        agentStore.setUsageSummary(data.summary);
+        break;
+      }
+
+      case 'parser:traces': {
+        useInspectorStore.getState().setTraces(data.traces.map((t) => ({ ...t, from: mapStatus(t.from), to: mapStatus(t.to) })));
+        break;
+      }
+
+      case 'parser:trace': {
+        const { trace } = data;
+        useInspectorStore.getState().upsertTrace({ ...trace, from: mapStatus(trace.from), to: mapStatus(trace.to) });
+        break;
+      }
+
+      case 'queue:update': {
+        useAgentStore.getState().setLaunchQueue(data.queue);
+        break;
+      }
+
+      case 'fleet:update': {
+        useAgentStore.getState().setFleetBroadcasts(data.broadcasts);
+        break;
+      }
+
+      case 'agent:permission-request': {
+        updateAgent(data.agentId, { pendingPermission: data.request });
+        break;
+      }
+
+      case 'agent:permission-resolved': {
+        const agent = useAgentStore.getState().agents[data.agentId];
+        if (agent?.pendingPermission?.requestId === data.requestId) {
+          updateAgent(data.agentId, { pendingPermission: undefined });
+        }
+        break;
+      }
+
       case 'file:created':
       case 'file:edited': {
         const event = {
@@ -151,6 +393,26 @@ export function useWebSocket(token: string | null) {
           projectStore.setBaseDir(data.baseDir);
         }
 
+        // Profiles are replaced wholesale so deletions propagate
+        useProfileStore.getState().setProfiles(data.profiles || {});
+
+        usePlanningStore.getState().setPlans(data.plans || {});
+        // Hand plans from the old browser-only storage to the server, once
+        const legacyPlans = takeLegacyPlans();
+        if (legacyPlans) {
+          sendMessage({ type: 'plan:import', plans: legacyPlans });
+        }
+
+        agentStore.setLaunchQueue(data.queue || []);
+        agentStore.setConflicts(data.conflicts || []);
+        agentStore.setFleetBroadcasts(data.fleet || []);
+        if (data.usage) {
+          agentStore.setUsageSummary(data.usage);
+        }
+        if (data.limits) {
+          agentStore.setConcurrencyLimits(data.limits);
+        }
+
         const serverProjects = data.projects || {};
         for (const proj of Object.values(serverProjects)) {
           const p = proj as any;
@@ -164,24 +426,15 @@ export function useWebSocket(token: string | null) {
             progress: p.progress ?? 0,
             agents: p.agents || [],
             createdAt: p.createdAt || Date.now(),
+            defaultProfileId: p.defaultProfileId,
+            defaultBudget: p.defaultBudget,
             paletteIndex: p.paletteIndex ?? (p.id ? Math.abs([...p.id].reduce((h: number, c: string) => ((h << 5) - h) + c.charCodeAt(0), 0)) % 8 : 0),
           });
         }
 
         const serverAgents = data.agents || {};
-        for (const ag of Object.values(serverAgents)) {
-          const a = ag as any;
-          agentStore.addAgent({
-            id: a.id,
-            projectId: a.projectId,
-            task: a.task,
-            cwd: a.cwd,
-            status: mapStatus(a.status),
-            launchedAt: a.launchedAt,
-            completedAt: a.completedAt,
-            filesChanged: a.filesChanged ?? 0,
-            events: a.events || [],
-          });
+        for (const a of Object.values(serverAgents)) {
+          agentStore.addAgent(toClientAgent(a, agentStore.agents[a.id]));
         }
         break;
       }
@@ -201,7 +454,7 @@ export function useWebSocket(token: string | null) {
         break;
       }
     }
-  }, [addEvent, updateAgent, addLog, addToast]);
+  }, [addEvent, updateAgent, addLog, addToast, sendMessage]);
 
   const connect = useCallback(() => {
     // Don't connect without a token
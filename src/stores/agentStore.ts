@@ -1,9 +1,14 @@
 import { create } from 'zustand';
-import type { Agent, AgentEvent } from '../types';
+import type { Agent, AgentEvent, ConcurrencyLimits, FileConflict, FleetBroadcast, QueueEntry, UsageRecord, UsageSummary, UsageTotals } from '../types';
 
 interface AgentState {
   agents: Record<string, Agent>;
   selectedAgentId: string | null;
+  launchQueue: QueueEntry[];               // Mirrors the server's queue order
+  concurrencyLimits: ConcurrencyLimits | null;
+  conflicts: FileConflict[];               // Files written by two running agents
+  fleetBroadcasts: FleetBroadcast[];       // Recent orders sent to several agents, oldest first
+  usageSummary: UsageSummary;              // Totals per project and per day, kept by the server
 
   // Actions
   addAgent: (agent: Agent) => void;
@@ -12,6 +17,14 @@ interface AgentState {
   selectAgent: (id: string | null) => void;
   addEvent: (agentId: string, event: AgentEvent) => void;
   clearEvents: (agentId: string) => void;
+  setLaunchQueue: (queue: QueueEntry[]) => void;
+  setConcurrencyLimits: (limits: ConcurrencyLimits) => void;
+  setConflicts: (conflicts: FileConflict[]) => void;
+  addConflict: (conflict: FileConflict) => void;
+  clearConflicts: (agentId: string) => void;
+  setFleetBroadcasts: (broadcasts: FleetBroadcast[]) => void;
+  setUsageSummary: (summary: UsageSummary) => void;
+  recordUsage: (agentId: string, turn: UsageRecord, total: UsageTotals) => void;
 
   // Computed
   getActiveAgents: () => Agent[];
@@ -21,6 +34,11 @@ interface AgentState {
 export const useAgentStore = create<AgentState>((set, get) => ({
   agents: {},
   selectedAgentId: null,
+  launchQueue: [],
+  concurrencyLimits: null,
+  conflicts: [],
+  fleetBroadcasts: [],
+  usageSummary: { byProject: {}, byDay: {} },
 
   addAgent: (agent) =>
     set((state) => ({
@@ -44,6 +62,7 @@ export const useAgentStore = create<AgentState>((set, get) => ({
       const { [id]: _removed, ...rest } = state.agents;
       return {
         agents: rest,
+        conflicts: state.conflicts.filter((c) => !c.agentIds.includes(id)),
         selectedAgentId: state.selectedAgentId === id ? null : state.selectedAgentId,
       };
     }),
@@ -81,6 +100,44 @@ export const useAgentStore = create<AgentState>((set, get) => ({
       };
     }),
 
+  setLaunchQueue: (queue) =>
+    set({ launchQueue: queue }),
+
+  setConcurrencyLimits: (limits) =>
+    set({ concurrencyLimits: limits }),
+
+  setConflicts: (conflicts) =>
+    set({ conflicts }),
+
+  addConflict: (conflict) =>
+    set((state) => ({ conflicts: [...state.conflicts, conflict] })),
+
+  clearConflicts: (agentId) =>
+    set((state) => ({
+      conflicts: state.conflicts.filter((c) => !c.agentIds.includes(agentId)),
+    })),
+
+  setFleetBroadcasts: (broadcasts) =>
+    set({ fleetBroadcasts: broadcasts }),
+
+  setUsageSummary: (summary) =>
+    set({ usageSummary: summary }),
+
+  recordUsage: (agentId, turn, total) =>
+    set((state) => {
+      const agent = state.agents[agentId];
+      if (!agent) return state;
+      return {
+        agents: {
+          ...state.agents,
+          [agentId]: {
+            ...agent,
+            usage: { total, turns: [...(agent.usage?.turns ?? []), turn] },
+          },
+        },
+      };
+    }),
+
   getActiveAgents: () => {
     const { agents } = get();
     return Object.values(agents).filter(
@@ -0,0 +1,45 @@
+import { create } from 'zustand';
+import type { ParserTrace } from '../types';
+
+interface InspectorState {
+  traces: ParserTrace[];
+  maxTraces: number;
+
+  // Actions
+  setTraces: (traces: ParserTrace[]) => void;
+  upsertTrace: (trace: ParserTrace) => void;
+  removeAgentTraces: (agentId: string) => void;
+}
+
+/**
+ * Output parser transitions, filled while the parser inspector is open. The
+ * server sends a snapshot on subscribe, then each new or re-flagged trace.
+ */
+export const useInspectorStore = create<InspectorState>((set) => ({
+  traces: [],
+  maxTraces: 2000,
+
+  setTraces: (traces) =>
+    set({ traces }),
+
+  upsertTrace: (trace) =>
+    set((state) => {
+      const index = state.traces.findIndex((t) => t.id === trace.id);
+      if (index !== -1) {
+        const traces = [...state.traces];
+        traces[index] = trace;
+        return { traces };
+      }
+      const updated = [...state.traces, trace];
+      // Trim to maxTraces, keeping flagged traces and the most recent ones
+      if (updated.length > state.maxTraces) {
+        const drop = updated.findIndex((t) => !t.falsePositive);
+        if (drop !== -1) updated.splice(drop, 1);
+      }
+      return { traces: updated };
+    }),
+
+  // A dismissed agent's flagged traces are still kept for tuning
+  removeAgentTraces: (agentId) =>
+    set((state) => ({ traces: state.traces.filter((t) => t.agentId !== agentId || t.falsePositive) })),
+}));
@@ -1,68 +1,50 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
-import { generateId } from '../utils/generateId';
+import type { PlanningTask } from '../types';
 
-export interface PlanningTask {
-  id: string;
-  text: string;
-  completed: boolean;
-  agentId?: string;
-}
+export type { PlanningTask };
 
+// Mirrors the server's mission plans; changes go out as plan:* messages
 interface PlanningState {
   tasks: Record<string, PlanningTask[]>;
 
-  addTask: (projectId: string, text: string) => void;
-  removeTask: (projectId: string, taskId: string) => void;
-  toggleTask: (projectId: string, taskId: string) => void;
-  assignAgent: (projectId: string, taskId: string, agentId: string) => void;
+  // Actions
+  setPlans: (plans: Record<string, PlanningTask[]>) => void;
+  setPlan: (projectId: string, tasks: PlanningTask[]) => void;
   getProjectTasks: (projectId: string) => PlanningTask[];
 }
 
-export const usePlanningStore = create<PlanningState>()(
-  persist(
-    (set, get) => ({
-      tasks: {},
-
-      addTask: (projectId, text) => {
-        const id = generateId();
-        set((state) => ({
-          tasks: {
-            ...state.tasks,
-            [projectId]: [...(state.tasks[projectId] || []), { id, text, completed: false }],
-          },
-        }));
-      },
-
-      removeTask: (projectId, taskId) => set((state) => ({
-        tasks: {
-          ...state.tasks,
-          [projectId]: (state.tasks[projectId] || []).filter(t => t.id !== taskId),
-        },
-      })),
-
-      toggleTask: (projectId, taskId) => set((state) => ({
-        tasks: {
-          ...state.tasks,
-          [projectId]: (state.tasks[projectId] || []).map(t =>
-            t.id === taskId ? { ...t, completed: !t.completed } : t
-          ),
-        },
-      })),
-
-      assignAgent: (projectId, taskId, agentId) => set((state) => ({
-        tasks: {
-          ...state.tasks,
-          [projectId]: (state.tasks[projectId] || []).map(t =>
-            t.id === taskId ? { ...t, agentId } : t
-          ),
-        },
-      })),
-
-      getProjectTasks: (projectId) => get().tasks[projectId] || [],
-    }),
-    {
-      name: 'constellation-planning',
+export const usePlanningStore = create<PlanningState>((set, get) => ({
+  tasks: {},
+
+  setPlans: (plans) =>
+    set({ tasks: plans }),
+
+  setPlan: (projectId, tasks) =>
+    set((state) => ({
+      tasks: { ...state.tasks, [projectId]: tasks },
+    })),
+
+  getProjectTasks: (projectId) => get().tasks[projectId] || [],
+}));
+
+// Plans used to be persisted in the browser under this key
+const LEGACY_STORAGE_KEY = 'constellation-planning';
+
+/**
+ * Read and clear plans left in localStorage by older versions, so they can
+ * be handed to the server once. Returns null when there is nothing to move.
+ */
+export function takeLegacyPlans(): Record<string, PlanningTask[]> | null {
+  try {
+    const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!raw) return null;
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    const plans = JSON.parse(raw)?.state?.tasks as Record<string, PlanningTask[]> | undefined;
+    if (!plans || !Object.values(plans).some((tasks) => Array.isArray(tasks) && tasks.length > 0)) {
+      return null;
     }
-  )
-);
+    return plans;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,27 @@
+import { create } from 'zustand';
+import type { LaunchProfile } from '../types';
+
+// Mirrors the server's launch profiles (id 'default' is the built-in one)
+export const DEFAULT_PROFILE_ID = 'default';
+
+interface ProfileState {
+  profiles: Record<string, LaunchProfile>;
+
+  // Actions
+  setProfiles: (profiles: Record<string, LaunchProfile>) => void;
+  getEffectiveProfile: (projectDefaultId?: string, selectedId?: string) => LaunchProfile | null;
+}
+
+export const useProfileStore = create<ProfileState>((set, get) => ({
+  profiles: {},
+
+  setProfiles: (profiles) =>
+    set({ profiles }),
+
+  // Same resolution order as the server: selected → project default → built-in
+  getEffectiveProfile: (projectDefaultId, selectedId) => {
+    const { profiles } = get();
+    if (selectedId) return profiles[selectedId] ?? null;
+    return (projectDefaultId && profiles[projectDefaultId]) || profiles[DEFAULT_PROFILE_ID] || null;
+  },
+}));
@@ -4,7 +4,7 @@ export interface Agent {
   task: string;
   cwd: string;
   status:
-    | 'queued'        // Not yet started
+    | 'queued'        // Waiting in the server's launch queue
     | 'launching'     // CLI booting up
     | 'active'        // General working state
     | 'thinking'      // Reasoning / planning
@@ -15,13 +15,158 @@ export interface Agent {
     | 'building'      // Compiling / bundling
     | 'testing'       // Running test suites
     | 'waiting'       // Awaiting user input
+    | 'awaiting-approval' // Blocked on a tool-permission prompt
     | 'paused'        // Disconnected / reconnecting
     | 'completed'     // Finished successfully
-    | 'error';        // Exited with error
+    | 'error'         // Exited with error
+    | 'interrupted';  // Lost when the server restarted
   launchedAt: number;
   completedAt?: number;
   filesChanged: number;
   events: AgentEvent[];
+  sessionId?: string;
+  resumeCount?: number;
+  profile?: LaunchProfileRecord;
+  pendingPermission?: PermissionRequest;
+  worktree?: AgentWorktree;
+  budget?: AgentBudget;
+  runStartedAt?: number;     // Start of the current session (launch or resume)
+  waitingSince?: number;     // Start of the current stretch in 'waiting'
+  endReason?: TerminalReason;
+  usage?: AgentUsage;
+  turns?: AgentTurn[];       // Follow-up prompts sent after the task, oldest first
+  handoff?: AgentHandoff;    // Set when it took over from another agent
+}
+
+// An instruction sent to a live agent after its task; the task is turn 1
+export interface AgentTurn {
+  number: number;
+  text: string;
+  sentAt: number;
+  failed?: string;
+}
+
+// How an agent took over from a finished or stuck predecessor
+export interface AgentHandoff {
+  from: string;              // Predecessor's agent ID
+  brief: string;             // Put before the task when the successor launched
+  createdAt: number;
+}
+
+// Runtime limits in minutes; unset = unlimited
+export interface AgentBudget {
+  maxRuntimeMinutes?: number; // Per session — a resume starts the clock again
+  maxIdleMinutes?: number;    // One unbroken stretch of 'waiting'
+}
+
+export type BudgetKind = 'runtime' | 'idle';
+
+// How the last session ended, when the server ended it
+export type TerminalReason = 'exited' | 'killed' | 'budget-exceeded';
+
+// 'shared' runs in the project directory; 'worktree' gets its own git worktree and branch
+export type WorkspaceIsolation = 'shared' | 'worktree';
+
+export interface AgentWorktree {
+  path: string;
+  branch: string;
+  baseBranch: string;
+  baseCommit: string;
+  diffStat?: string;      // Set when the agent finishes
+  filesChanged?: number;
+  mergedInto?: string;
+  mergedAt?: number;
+}
+
+// A tool-permission prompt the agent is blocked on (supervised mode)
+export interface PermissionRequest {
+  requestId: string;
+  tool: string;
+  detail: string;
+  question: string;
+  alwaysLabel?: string;
+  timestamp: number;
+}
+
+export type PermissionDecision = 'approve' | 'deny' | 'always';
+
+// Server launch queue entry (FIFO; index 0 starts next)
+export interface QueueEntry {
+  agentId: string;
+  projectId: string;
+  enqueuedAt: number;
+  resumeFrom?: Agent['status'];
+}
+
+export interface ConcurrencyLimits {
+  maxAgents: number;
+  maxAgentsPerProject: number;
+}
+
+// Two running agents wrote the same file
+export interface FileConflict {
+  id: string;
+  projectId: string;
+  path: string;                 // Relative to the project directory
+  agentIds: [string, string];   // First writer, then the agent that wrote it again
+  timestamp: number;
+}
+
+// Orders broadcast to several agents, with where they stand for each
+export type FleetDeliveryStatus = 'pending' | 'delivered' | 'failed' | 'dropped';
+
+export interface FleetDelivery {
+  agentId: string;
+  status: FleetDeliveryStatus;
+  turn?: number;
+  detail?: string;
+  updatedAt: number;
+}
+
+export interface FleetBroadcast {
+  id: string;
+  projectId: string;
+  text: string;
+  wholeProject: boolean;
+  createdAt: number;
+  deliveries: FleetDelivery[];
+}
+
+// Token and cost accounting, read from the CLI's usage summaries
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface UsageRecord extends UsageTotals {
+  timestamp: number;          // End of the turn
+}
+
+export interface AgentUsage {
+  total: UsageTotals;
+  turns: UsageRecord[];       // Most recent last
+}
+
+export interface UsageSummary {
+  byProject: Record<string, UsageTotals>;
+  byDay: Record<string, UsageTotals>; // Local date, YYYY-MM-DD
+}
+
+// A status change made by the output parser, and what caused it
+export type TraceTrigger = 'pattern' | 'timer' | 'input';
+
+export interface ParserTrace {
+  id: string;
+  agentId: string;
+  timestamp: number;
+  from: Agent['status'];
+  to: Agent['status'];
+  trigger: TraceTrigger;
+  ruleId?: string;            // 'pattern': the rule that matched, or 'output-while-idle' / 'permission-prompt'
+  line?: string;              // 'pattern': the output line
+  timer?: 'idle' | 'decay';   // 'timer': which quiet timer ran out
+  falsePositive?: boolean;
 }
 
 export interface AgentEvent {
@@ -43,6 +188,60 @@ export interface Project {
   agents: string[];
   createdAt: number;
   paletteIndex: number;
+  defaultProfileId?: string;
+  defaultBudget?: AgentBudget;
+}
+
+// Mission plan task (plans are owned by the server, keyed by project id)
+export interface PlanningTask {
+  id: string;
+  text: string;
+  completed: boolean;
+  agentId?: string;
+  dependsOn?: string[];  // Prerequisite task ids
+  scheduled?: boolean;   // Launch automatically once prerequisites complete
+  profileId?: string;    // Launch profile for the scheduled launch (unset = project default)
+}
+
+// 'bypass' adds --dangerously-skip-permissions; 'supervised' asks before tool use
+export type PermissionMode = 'bypass' | 'supervised';
+
+// 'interactive' scrapes the CLI's TUI in a PTY; 'stream-json' reads its JSON events
+export type OutputMode = 'interactive' | 'stream-json';
+
+// 'claude-code' knows the Claude Code CLI; 'shell' runs any command with the task as an argument;
+// 'simulation' plays the scripted scenario named by `command`
+export type AgentDriverId = 'claude-code' | 'shell' | 'simulation';
+
+export interface LaunchProfile {
+  id: string;
+  name: string;
+  driver: AgentDriverId;
+  command: string;
+  args: string[];
+  model?: string;
+  env: Record<string, string>;
+  permissionMode: PermissionMode;
+  isolation: WorkspaceIsolation;
+  outputMode: OutputMode;
+  cols: number;
+  rows: number;
+}
+
+// Profile as recorded on an agent at launch (env values omitted)
+export interface LaunchProfileRecord {
+  id: string;
+  name: string;
+  driver?: AgentDriverId;
+  command: string;
+  args: string[];
+  model?: string;
+  envKeys: string[];
+  permissionMode?: PermissionMode;
+  isolation?: WorkspaceIsolation;
+  outputMode?: OutputMode;
+  cols: number;
+  rows: number;
 }
 
 export interface LogEntry {
@@ -55,22 +254,59 @@ export interface LogEntry {
   timestamp: number;
 }
 
-export type View = 'tactical' | 'incubator' | 'planning' | 'logs' | 'status';
+export type View = 'tactical' | 'incubator' | 'planning' | 'logs' | 'status' | 'inspector';
 
 // WebSocket message types (flat client-facing API; useWebSocket wraps for server)
 export type WSClientMessage =
   | { type: 'terminal:input'; agentId: string; data: string }
   | { type: 'terminal:resize'; agentId: string; cols: number; rows: number }
-  | { type: 'agent:launch'; id: string; projectId: string; task: string; cwd: string }
+  | { type: 'agent:launch'; id: string; projectId: string; task: string; cwd: string; profileId?: string; taskId?: string; budget?: AgentBudget }
   | { type: 'agent:kill'; agentId: string }
+  | { type: 'agent:resume'; agentId: string }
+  | { type: 'agent:prompt'; agentId: string; text: string }
+  | { type: 'fleet:broadcast'; projectId: string; text: string; agentIds?: string[] }
+  | { type: 'agent:handoff'; agentId: string }
+  | { type: 'agent:dismiss'; agentId: string }
+  | { type: 'worktree:merge'; agentId: string }
+  | { type: 'agent:permission-response'; agentId: string; requestId: string; decision: PermissionDecision }
+  | { type: 'queue:reorder'; agentId: string; index: number }
+  | { type: 'queue:cancel'; agentId: string }
+  | { type: 'plan:add'; projectId: string; text: string }
+  | { type: 'plan:remove'; projectId: string; taskId: string }
+  | { type: 'plan:toggle'; projectId: string; taskId: string }
+  | { type: 'plan:reorder'; projectId: string; taskId: string; index: number }
+  | { type: 'plan:assign'; projectId: string; taskId: string; agentId: string | null }
+  | { type: 'plan:depend'; projectId: string; taskId: string; prerequisiteId: string; enabled: boolean }
+  | { type: 'plan:schedule'; projectId: string; taskIds: string[]; scheduled: boolean; profileId?: string }
+  | { type: 'plan:import'; plans: Record<string, PlanningTask[]> }
   | { type: 'project:create'; id: string; name: string; description: string; paletteIndex: number }
+  | { type: 'project:rescan' }
+  | { type: 'project:setDefaultProfile'; projectId: string; profileId: string | null }
+  | { type: 'project:setDefaultBudget'; projectId: string; budget: AgentBudget | null }
+  | { type: 'profile:save'; profile: LaunchProfile }
+  | { type: 'profile:delete'; profileId: string }
+  | { type: 'parser:subscribe' }
+  | { type: 'parser:unsubscribe' }
+  | { type: 'parser:flag'; traceId: string; falsePositive: boolean }
   | { type: 'state:request' };
 
 // Server messages (unwrapped from payload wrapper in useWebSocket)
 export type WSServerMessage =
   | { type: 'terminal:output'; agentId: string; data: string }
-  | { type: 'agent:status'; agentId: string; status: string; timestamp: number }
-  | { type: 'state:sync'; projects: Record<string, any>; agents: Record<string, any>; baseDir: string }
+  | { type: 'agent:status'; agentId: string; status: string; timestamp: number; reason?: TerminalReason }
+  | { type: 'budget:warning'; agentId: string; kind: BudgetKind; limitMinutes: number; remainingMs: number }
+  | { type: 'agent:resumed'; agentId: string; resumeCount: number; timestamp: number }
+  | { type: 'agent:prompted'; agentId: string; turn: AgentTurn }
+  | { type: 'agent:submission-failed'; agentId: string; turn: number; reason: string; timestamp: number }
+  | { type: 'agent:permission-request'; agentId: string; request: PermissionRequest }
+  | { type: 'agent:permission-resolved'; agentId: string; requestId: string; decision?: PermissionDecision; timestamp: number }
+  | { type: 'state:sync'; projects: Record<string, any>; agents: Record<string, any>; profiles?: Record<string, LaunchProfile>; plans?: Record<string, PlanningTask[]>; queue?: QueueEntry[]; limits?: ConcurrencyLimits; conflicts?: FileConflict[]; fleet?: FleetBroadcast[]; usage?: UsageSummary; baseDir: string }
+  | { type: 'queue:update'; queue: QueueEntry[] }
+  | { type: 'fleet:update'; broadcasts: FleetBroadcast[] }
+  | { type: 'plan:update'; projectId: string; tasks: PlanningTask[] }
+  | { type: 'agent:created'; agent: Record<string, any> }
+  | { type: 'agent:removed'; agentId: string }
+  | { type: 'agent:worktree'; agentId: string; worktree: AgentWorktree | null; cwd: string }
   | { type: 'fs:change'; projectId: string; event: string; path: string; timestamp: number }
   | { type: 'file:created'; agentId: string; path: string; timestamp: number }
   | { type: 'file:edited'; agentId: string; path: string; timestamp: number }
@@ -78,6 +314,10 @@ export type WSServerMessage =
   | { type: 'build:succeeded'; agentId: string; message?: string; timestamp: number }
   | { type: 'build:error'; agentId: string; message?: string; timestamp: number }
   | { type: 'task:completed'; agentId: string; timestamp: number }
+  | { type: 'conflict:detected'; conflict: FileConflict }
+  | { type: 'usage:update'; agentId: string; turn: UsageRecord; total: UsageTotals; summary: UsageSummary }
+  | { type: 'parser:traces'; traces: ParserTrace[] }
+  | { type: 'parser:trace'; trace: ParserTrace }
   | { type: 'git:status'; projectId: string; changes: any[]; diffStat: string; timestamp: number }
   | { type: 'validation:error'; message: string; context: string }
   | { type: 'log'; entry: LogEntry };
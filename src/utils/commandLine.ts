@@ -0,0 +1,23 @@
+import type { LaunchProfile, LaunchProfileRecord } from '../types';
+
+/**
+ * The command line a profile launches, as the server's driver builds it
+ * (without the session flags). Shell commands show where the task goes;
+ * simulations show their scenario.
+ */
+export function formatCommandLine(profile: LaunchProfile | LaunchProfileRecord): string {
+  if (profile.driver === 'simulation') {
+    return `simulate ${profile.command}`;
+  }
+  if (profile.driver === 'shell') {
+    const hasPlaceholder = profile.args.some((a) => a.includes('{task}'));
+    return [profile.command, ...profile.args, ...(hasPlaceholder ? [] : ['{task}'])].join(' ');
+  }
+  return [
+    profile.command,
+    ...(profile.permissionMode === 'bypass' ? ['--dangerously-skip-permissions'] : []),
+    ...profile.args,
+    ...(profile.model ? ['--model', profile.model] : []),
+    ...(profile.outputMode === 'stream-json' ? ['--print', '--output-format', 'stream-json'] : []),
+  ].join(' ');
+}
@@ -0,0 +1,40 @@
+import { useAgentStore } from '../stores/agentStore';
+import type { PlanningTask, Project } from '../types';
+import { generateId } from './generateId';
+
+/**
+ * Launch an agent for a mission plan task. The server builds the prompt
+ * from the plan and links the agent to the task. Returns the agent id.
+ */
+export function launchPlanningTask(
+  project: Project,
+  task: PlanningTask,
+  sendMessage: (msg: any) => void,
+  profileId?: string,
+): string {
+  const agentId = generateId();
+
+  // Register agent in client store immediately
+  useAgentStore.getState().addAgent({
+    id: agentId,
+    projectId: project.id,
+    task: task.text,
+    cwd: project.cwd,
+    status: 'launching',
+    launchedAt: Date.now(),
+    filesChanged: 0,
+    events: [],
+  });
+
+  sendMessage({
+    type: 'agent:launch',
+    id: agentId,
+    projectId: project.id,
+    task: task.text,
+    cwd: project.cwd,
+    taskId: task.id,
+    ...(profileId && { profileId }),
+  });
+
+  return agentId;
+}
@@ -0,0 +1,91 @@
+/** Fetch an agent's asciicast v2 recording from the server */
+export async function fetchRecording(agentId: string, authToken?: string | null): Promise<string> {
+  const res = await fetch(`/api/agents/${encodeURIComponent(agentId)}/recording`, {
+    headers: authToken ? { Authorization: `Bearer ${authToken}` } : {},
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error ?? `Request failed (${res.status})`);
+  }
+  return res.text();
+}
+
+/** Save an agent's recording as a .cast file via a temporary object URL */
+export async function downloadRecording(agentId: string, authToken?: string | null): Promise<void> {
+  const cast = await fetchRecording(agentId, authToken);
+  const url = URL.createObjectURL(new Blob([cast], { type: 'application/x-asciicast' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `agent-${agentId.slice(0, 8)}.cast`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/* ---------- asciicast v2 parsing ---------- */
+
+export interface CastEvent {
+  time: number;
+  kind: 'o' | 'r';
+  data: string;
+}
+
+export interface CastMarker {
+  time: number;
+  /** Parser event type ("file:created", "build:error", ...) or "resumed" */
+  type: string;
+  detail: string;
+}
+
+export interface CastRecording {
+  width: number;
+  height: number;
+  duration: number;
+  events: CastEvent[];
+  markers: CastMarker[];
+}
+
+/**
+ * Parse an asciicast v2 file. Pauses longer than `idleLimit` seconds are
+ * shortened to that limit so overnight runs don't play back hours of silence.
+ */
+export function parseCast(text: string, idleLimit = 3): CastRecording {
+  const lines = text.split('\n').filter((line) => line.trim());
+  const header = JSON.parse(lines[0] ?? '{}');
+  const events: CastEvent[] = [];
+  const markers: CastMarker[] = [];
+
+  let lastRaw = 0;
+  let time = 0;
+  for (const line of lines.slice(1)) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(line);
+    } catch {
+      continue; // Truncated last line of a recording still being written
+    }
+    if (!Array.isArray(raw) || typeof raw[0] !== 'number') continue;
+
+    const [rawTime, code, data] = raw as [number, string, string];
+    time += Math.min(Math.max(rawTime - lastRaw, 0), idleLimit);
+    lastRaw = rawTime;
+
+    if (code === 'o' || code === 'r') {
+      events.push({ time, kind: code, data });
+    } else if (code === 'm') {
+      const space = data.indexOf(' ');
+      markers.push({
+        time,
+        type: space === -1 ? data : data.slice(0, space),
+        detail: space === -1 ? '' : data.slice(space + 1),
+      });
+    }
+  }
+
+  return {
+    width: header.width ?? 120,
+    height: header.height ?? 40,
+    duration: time,
+    events,
+    markers,
+  };
+}
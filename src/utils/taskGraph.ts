@@ -0,0 +1,125 @@
+import type { PlanningTask } from '../stores/planningStore';
+import type { Agent } from '../types';
+
+/* ============================================================
+   Task dependency graph helpers
+
+   Tasks list their prerequisites in `dependsOn`. A task may
+   launch once every prerequisite is done — checked off in the
+   plan, or its agent reached `completed`. A prerequisite whose
+   agent errored (or was interrupted) holds everything that
+   depends on it, directly or transitively.
+   ============================================================ */
+
+export type TaskLaunchState =
+  | 'done'      // Checked off, or its agent completed
+  | 'launched'  // Has an agent that hasn't completed yet
+  | 'ready'     // Not launched, every prerequisite done
+  | 'waiting'   // Not launched, prerequisites still outstanding
+  | 'held';     // Not launched, a prerequisite failed
+
+export interface TaskLaunchInfo {
+  state: TaskLaunchState;
+  blockers: PlanningTask[]; // Prerequisites keeping the task from launching
+}
+
+const FAILED_STATUSES = new Set<Agent['status']>(['error', 'interrupted']);
+
+/**
+ * Would making `taskId` depend on `prerequisiteId` close a loop?
+ * True when `taskId` is already reachable from `prerequisiteId`.
+ */
+export function wouldCreateCycle(tasks: PlanningTask[], taskId: string, prerequisiteId: string): boolean {
+  if (taskId === prerequisiteId) return true;
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const seen = new Set<string>();
+  const stack = [prerequisiteId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === taskId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(byId.get(id)?.dependsOn ?? []));
+  }
+  return false;
+}
+
+/** Launch state of every task in a plan, keyed by task id. */
+export function getTaskLaunchStates(
+  tasks: PlanningTask[],
+  agents: Record<string, Agent>,
+): Record<string, TaskLaunchInfo> {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const result: Record<string, TaskLaunchInfo> = {};
+
+  // Whether a task's own agent failed, or it is held by a failed prerequisite
+  const failed = new Map<string, boolean>();
+  const isFailed = (task: PlanningTask, visiting: Set<string>): boolean => {
+    const cached = failed.get(task.id);
+    if (cached !== undefined) return cached;
+    if (visiting.has(task.id)) return false; // Guard against cycles in stored data
+    visiting.add(task.id);
+    const agent = task.agentId ? agents[task.agentId] : undefined;
+    const value = !task.completed && (
+      (!!agent && FAILED_STATUSES.has(agent.status)) ||
+      (!agent && (task.dependsOn ?? []).some((id) => {
+        const dep = byId.get(id);
+        return !!dep && isFailed(dep, visiting);
+      }))
+    );
+    failed.set(task.id, value);
+    return value;
+  };
+
+  const isDone = (task: PlanningTask): boolean =>
+    task.completed || (!!task.agentId && agents[task.agentId]?.status === 'completed');
+
+  for (const task of tasks) {
+    if (isDone(task)) {
+      result[task.id] = { state: 'done', blockers: [] };
+      continue;
+    }
+    if (task.agentId && agents[task.agentId]) {
+      result[task.id] = { state: 'launched', blockers: [] };
+      continue;
+    }
+
+    const prerequisites = (task.dependsOn ?? [])
+      .map((id) => byId.get(id))
+      .filter((t): t is PlanningTask => !!t);
+    const failedPrereqs = prerequisites.filter((t) => isFailed(t, new Set()));
+    if (failedPrereqs.length > 0) {
+      result[task.id] = { state: 'held', blockers: failedPrereqs };
+      continue;
+    }
+    const outstanding = prerequisites.filter((t) => !isDone(t));
+    result[task.id] = outstanding.length > 0
+      ? { state: 'waiting', blockers: outstanding }
+      : { state: 'ready', blockers: [] };
+  }
+
+  return result;
+}
+
+/**
+ * Column for each task in the dependency graph: 0 for tasks without
+ * prerequisites, otherwise one past the deepest prerequisite.
+ */
+export function getTaskDepths(tasks: PlanningTask[]): Record<string, number> {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const depths: Record<string, number> = {};
+  const depthOf = (task: PlanningTask, visiting: Set<string>): number => {
+    if (depths[task.id] !== undefined) return depths[task.id];
+    if (visiting.has(task.id)) return 0;
+    visiting.add(task.id);
+    let depth = 0;
+    for (const id of task.dependsOn ?? []) {
+      const dep = byId.get(id);
+      if (dep) depth = Math.max(depth, depthOf(dep, visiting) + 1);
+    }
+    depths[task.id] = depth;
+    return depth;
+  };
+  for (const task of tasks) depthOf(task, new Set());
+  return depths;
+}
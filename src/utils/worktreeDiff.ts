@@ -0,0 +1,17 @@
+/** Save a worktree agent's changes as a .patch file via a temporary object URL */
+export async function downloadWorktreePatch(agentId: string, authToken?: string | null): Promise<void> {
+  const res = await fetch(`/api/agents/${encodeURIComponent(agentId)}/diff`, {
+    headers: authToken ? { Authorization: `Bearer ${authToken}` } : {},
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error ?? `Request failed (${res.status})`);
+  }
+
+  const url = URL.createObjectURL(new Blob([await res.text()], { type: 'text/x-diff' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `agent-${agentId.slice(0, 8)}.patch`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
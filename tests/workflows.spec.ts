@@ -1,4 +1,8 @@
 import { test, expect } from '@playwright/test';
+import { spawn, type ChildProcess } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 
 // Authenticate if the login overlay is visible
 async function authenticate(page: import('@playwright/test').Page) {
@@ -67,6 +71,46 @@ async function createProject(page: import('@playwright/test').Page, name: string
   await page.waitForTimeout(800);
 }
 
+// Create a project and launch an agent on it from the tactical view
+async function launchAgent(page: import('@playwright/test').Page, projectName: string, taskText: string) {
+  await goToIncubator(page);
+  await createProject(page, projectName);
+  await navigateTo(page, 'Active Missions');
+  await page.getByText('LAUNCH AGENT', { exact: true }).click();
+
+  // Fill in task
+  const textarea = page.locator('textarea');
+  await textarea.fill(taskText);
+
+  // Click LAUNCH
+  const launchBtn = page.locator('button').filter({ hasText: /LAUNCH/ }).last();
+  await launchBtn.click();
+  await page.waitForTimeout(1500);
+}
+
+// Start a server of our own, for tests that restart it. It keeps its state
+// under `home`, so a second server on the same home restores the first one's.
+async function startServer(home: string, port: number): Promise<ChildProcess> {
+  const server = spawn(process.execPath, ['--import', 'tsx', 'server/index.ts'], {
+    env: { ...process.env, HOME: home, PORT: String(port), CC_PASSWORD: 'test-password-e2e', CC_SIMULATE: '1' },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.stdout!.on('data', (chunk: Buffer) => {
+      if (chunk.toString().includes('listening on')) resolve();
+    });
+    server.once('exit', (code) => reject(new Error(`Server exited with code ${code} before listening`)));
+  });
+  return server;
+}
+
+async function stopServer(server: ChildProcess) {
+  if (server.exitCode !== null || server.signalCode !== null) return;
+  const exited = new Promise((resolve) => server.once('exit', resolve));
+  server.kill();
+  await exited;
+}
+
 /* ====================================================================
    Workflow Tests — Full Project Lifecycle
    ==================================================================== */
@@ -324,23 +368,6 @@ test.describe('Path Security (Client-Side)', () => {
 });
 
 test.describe('Agent Communication Workflow', () => {
-  // Helper: create project and launch an agent, returning the agent task text
-  async function launchAgent(page: import('@playwright/test').Page, projectName: string, taskText: string) {
-    await goToIncubator(page);
-    await createProject(page, projectName);
-    await navigateTo(page, 'Active Missions');
-    await page.getByText('LAUNCH AGENT', { exact: true }).click();
-
-    // Fill in task
-    const textarea = page.locator('textarea');
-    await textarea.fill(taskText);
-
-    // Click LAUNCH
-    const launchBtn = page.locator('button').filter({ hasText: /LAUNCH/ }).last();
-    await launchBtn.click();
-    await page.waitForTimeout(1500);
-  }
-
   test('launching agent navigates to tactical view', async ({ page }) => {
     await launchAgent(page, 'Tactical Nav', 'Test navigation after launch');
 
@@ -417,6 +444,131 @@ test.describe('Agent Communication Workflow', () => {
   });
 });
 
+test.describe('Simulated Agent Workflow', () => {
+  // The web server runs with CC_SIMULATE=1: every agent plays the "success"
+  // scenario, which writes src/simulated.ts, builds, tests and exits in ~12s
+  test('launched agent runs to completion', async ({ page }) => {
+    test.setTimeout(60_000);
+    const taskText = 'Add a simulated module';
+    await launchAgent(page, 'Simulated Run', taskText);
+
+    // The moon follows the agent's status through to the end
+    const moon = page.locator(`[aria-label^="Agent: ${taskText}"]`).first();
+    await expect(moon).toBeVisible({ timeout: 5000 });
+    await expect(moon).toHaveAttribute('aria-label', /Status: completed$/, { timeout: 30_000 });
+
+    await expect(page.getByText('MISSION COMPLETE').first()).toBeVisible({ timeout: 5000 });
+
+    // Its channel shows the end of the run and counts the file the scenario
+    // wrote. The moon orbits, so the click is dispatched rather than aimed.
+    await moon.dispatchEvent('click');
+    await expect(page.getByText('COMPLETED', { exact: true }).first()).toBeVisible({ timeout: 5000 });
+    const filesMetric = page.locator('span', { has: page.getByText('FILES', { exact: true }) }).last();
+    await expect(filesMetric).toContainText('1');
+  });
+});
+
+test.describe('Fleet Command Workflow', () => {
+  // The "permission" scenario stops at a Bash prompt, goes idle once after
+  // it is approved and then exits
+  test('orders for a busy agent are held and go in one per idle turn', async ({ page }) => {
+    test.setTimeout(60_000);
+    const taskText = 'Add lodash [sim:permission]';
+    await launchAgent(page, 'Fleet Hold', taskText);
+
+    const moon = page.locator(`[aria-label^="Agent: ${taskText}"]`).first();
+    await expect(moon).toHaveAttribute('aria-label', /Status: awaiting-approval$/, { timeout: 30_000 });
+
+    // Blocked on the prompt, so neither broadcast goes in yet
+    const orders = page.getByLabel('Broadcast orders to agents');
+    await orders.fill('Commit what you have');
+    await orders.press('Enter');
+    await expect(page.getByText(/^[0-9A-F]{6} HELD$/)).toBeVisible({ timeout: 5000 });
+    await orders.fill('Then write a summary');
+    await orders.press('Enter');
+    await expect(page.getByTitle('Then write a summary')).toBeVisible({ timeout: 5000 });
+    await expect(page.getByText(/^[0-9A-F]{6} HELD$/)).toBeVisible();
+
+    await page.getByRole('button', { name: 'APPROVE', exact: true }).first().click();
+
+    // The one idle turn takes the first broadcast; the agent exits before the
+    // second can go in behind it
+    await expect(moon).toHaveAttribute('aria-label', /Status: completed$/, { timeout: 15_000 });
+    await expect(page.getByText(/^[0-9A-F]{6} DROPPED$/)).toBeVisible({ timeout: 5000 });
+  });
+});
+
+test.describe('Handoff Workflow', () => {
+  test('a finished agent hands off to a successor that only reports its own work', async ({ page }) => {
+    test.setTimeout(90_000);
+    const taskText = 'Pick up where the last agent left off';
+    await launchAgent(page, 'Handoff Run', taskText);
+
+    const first = page.locator(`[aria-label^="Agent: ${taskText}"]`).first();
+    await expect(first).toHaveAttribute('aria-label', /Status: completed$/, { timeout: 30_000 });
+    // The successor takes the same task, so the predecessor is held by its id
+    const predecessorId = (await first.getAttribute('data-moon-id'))!;
+    const predecessor = page.locator(`[data-moon-id="${predecessorId}"]`);
+
+    await predecessor.dispatchEvent('click');
+    await page.getByRole('button', { name: 'HAND OFF', exact: true }).click();
+
+    // The successor is the project's other moon
+    const successor = page.locator(`[data-moon-id]:not([data-moon-id="${predecessorId}"])`);
+    await expect(successor).toHaveCount(1, { timeout: 5000 });
+    const successorId = (await successor.getAttribute('data-moon-id'))!;
+    await expect(successor).toHaveAttribute('aria-label', /Status: completed$/, { timeout: 30_000 });
+
+    // Its brief quotes the predecessor's output, but only the file the
+    // successor wrote itself is counted
+    await successor.dispatchEvent('click');
+    await expect(page.getByText(`TOOK OVER FROM ${predecessorId.slice(0, 6).toUpperCase()}`)).toBeVisible({ timeout: 5000 });
+    const filesMetric = page.locator('span', { has: page.getByText('FILES', { exact: true }) }).last();
+    await expect(filesMetric.locator('span').last()).toHaveText('1');
+
+    await predecessor.dispatchEvent('click');
+    await expect(page.getByText(`HANDED OFF TO ${successorId.slice(0, 6).toUpperCase()}`)).toBeVisible({ timeout: 5000 });
+  });
+});
+
+test.describe('Restart Workflow', () => {
+  const PORT = 3100;
+  test.use({ baseURL: `http://localhost:${PORT}` });
+
+  let home: string;
+  let server: ChildProcess;
+
+  test.beforeEach(async () => {
+    home = mkdtempSync(join(tmpdir(), 'constellation-command-restart-'));
+    server = await startServer(home, PORT);
+  });
+
+  test.afterEach(async () => {
+    await stopServer(server);
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  // The "long-running" scenario is still thinking when the server goes down
+  test('a running agent comes back interrupted after a restart', async ({ page }) => {
+    test.setTimeout(60_000);
+    const taskText = 'Survive a restart [sim:long-running]';
+    await launchAgent(page, 'Restart Survivor', taskText);
+
+    const moon = page.locator(`[aria-label^="Agent: ${taskText}"]`).first();
+    await expect(moon).toHaveAttribute('aria-label', /Status: thinking$/, { timeout: 30_000 });
+
+    await stopServer(server);
+    server = await startServer(home, PORT);
+
+    // Sessions don't survive the restart either, so this signs in again.
+    // The client doesn't keep the active project, so pick it from the map.
+    await goToIncubator(page);
+    await page.getByText('RESTART SURVIVOR', { exact: true }).dispatchEvent('click');
+    await navigateTo(page, 'Active Missions');
+    await expect(moon).toHaveAttribute('aria-label', /Status: interrupted$/, { timeout: 5000 });
+  });
+});
+
 test.describe('Welcome-to-Project Full Workflow', () => {
   test('complete flow from first load to planning with tasks', async ({ page }) => {
     await page.goto('/');